@@ -0,0 +1,269 @@
+import { useMemo, useState } from "react";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { BarChart3, Download, X } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { DicomImage, DicomRTDose, Structure3D } from "@/types";
+import {
+  computeDVH,
+  DVH,
+  DVHMetric,
+  evaluateDVHMetric,
+  exportDVHAsCSV,
+  parseDVHMetric,
+} from "@/lib/dvh-utils";
+
+interface DVHPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  structures: Structure3D[];
+  ctImages: DicomImage[];
+  rtDose: DicomRTDose;
+  referenceDose?: number;
+  metrics: string[];
+  onMetricsChange: (metrics: string[]) => void;
+}
+
+type DVHMode = "cumulative" | "differential";
+
+// Plotting every 0.01 Gy bin is far more detail than the chart can show
+const MAX_CHART_POINTS = 200;
+
+const buildChartData = (dvhs: DVH[], mode: DVHMode) => {
+  const maxBins = Math.max(...dvhs.map(dvh => dvh.cumulative.length));
+  const binsPerPoint = Math.max(1, Math.ceil(maxBins / MAX_CHART_POINTS));
+  const rows: Array<Record<string, number>> = [];
+
+  for (let start = 0; start < maxBins; start += binsPerPoint) {
+    const row: Record<string, number> = {
+      dose: Number((start * dvhs[0].binWidth).toFixed(2)),
+    };
+    dvhs.forEach(dvh => {
+      if (mode === "cumulative") {
+        const volume = dvh.cumulative[start] ?? 0;
+        row[dvh.structureId] = Number(((volume / dvh.volume) * 100).toFixed(2));
+      } else {
+        // Sum the bins merged into this point so the area stays meaningful
+        const volume = dvh.differential
+          .slice(start, start + binsPerPoint)
+          .reduce((sum, value) => sum + value, 0);
+        row[dvh.structureId] = Number(volume.toFixed(4));
+      }
+    });
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+export const DVHPanel = ({
+  open,
+  onOpenChange,
+  structures,
+  ctImages,
+  rtDose,
+  referenceDose,
+  metrics,
+  onMetricsChange,
+}: DVHPanelProps) => {
+  const [mode, setMode] = useState<DVHMode>("cumulative");
+  const [metricInput, setMetricInput] = useState("");
+  const [metricError, setMetricError] = useState<string | null>(null);
+
+  // Only computed while the dialog is open; rasterizing every structure is not free
+  const dvhs = useMemo(
+    () => (open
+      ? structures
+        .map(structure => computeDVH(structure, ctImages, rtDose))
+        .filter((dvh): dvh is DVH => dvh !== null)
+      : []),
+    [open, structures, ctImages, rtDose]
+  );
+
+  const parsedMetrics = useMemo(
+    () => metrics.map(parseDVHMetric).filter((metric): metric is DVHMetric => metric !== null),
+    [metrics]
+  );
+
+  const chartData = useMemo(() => (dvhs.length > 0 ? buildChartData(dvhs, mode) : []), [dvhs, mode]);
+
+  const chartConfig = useMemo<ChartConfig>(
+    () => Object.fromEntries(dvhs.map(dvh => [dvh.structureId, { label: dvh.structureName, color: dvh.color }])),
+    [dvhs]
+  );
+
+  const addMetric = () => {
+    const metric = parseDVHMetric(metricInput);
+    if (!metric) {
+      setMetricError("Use Dx (% volume), Dxcc, VxGy or Vx% (of reference dose)");
+      return;
+    }
+    if (!metrics.some(existing => parseDVHMetric(existing)?.label === metric.label)) {
+      onMetricsChange([...metrics, metric.label]);
+    }
+    setMetricInput("");
+    setMetricError(null);
+  };
+
+  const removeMetric = (label: string) => {
+    onMetricsChange(metrics.filter(metric => parseDVHMetric(metric)?.label !== label));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BarChart3 className="h-5 w-5" />
+            Dose-Volume Histogram
+          </DialogTitle>
+        </DialogHeader>
+
+        {dvhs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No structure has closed contours to compute a DVH for.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <ToggleGroup
+                type="single"
+                size="sm"
+                value={mode}
+                onValueChange={(value) => value && setMode(value as DVHMode)}
+              >
+                <ToggleGroupItem value="cumulative">Cumulative</ToggleGroupItem>
+                <ToggleGroupItem value="differential">Differential</ToggleGroupItem>
+              </ToggleGroup>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => exportDVHAsCSV(dvhs, parsedMetrics, referenceDose)}
+              >
+                <Download className="w-4 h-4 mr-2" />
+                Export CSV
+              </Button>
+            </div>
+
+            <ChartContainer config={chartConfig} className="h-72 w-full aspect-auto">
+              <LineChart data={chartData} margin={{ top: 8, right: 16, bottom: 16, left: 8 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  dataKey="dose"
+                  type="number"
+                  domain={[0, "dataMax"]}
+                  label={{ value: "Dose (Gy)", position: "insideBottom", offset: -8 }}
+                />
+                <YAxis
+                  domain={mode === "cumulative" ? [0, 100] : [0, "auto"]}
+                  label={{
+                    value: mode === "cumulative" ? "Volume (%)" : "Volume (cc)",
+                    angle: -90,
+                    position: "insideLeft",
+                  }}
+                />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                {dvhs.map(dvh => (
+                  <Line
+                    key={dvh.structureId}
+                    dataKey={dvh.structureId}
+                    stroke={dvh.color}
+                    dot={false}
+                    strokeWidth={2}
+                    isAnimationActive={false}
+                  />
+                ))}
+              </LineChart>
+            </ChartContainer>
+
+            <div className="space-y-2">
+              <div className="flex flex-wrap items-center gap-2">
+                {parsedMetrics.map(metric => (
+                  <Badge key={metric.label} variant="secondary" className="gap-1">
+                    {metric.label}
+                    <button
+                      type="button"
+                      onClick={() => removeMetric(metric.label)}
+                      aria-label={`Remove ${metric.label}`}
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </Badge>
+                ))}
+                <Input
+                  value={metricInput}
+                  onChange={(e) => setMetricInput(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && addMetric()}
+                  placeholder="Add metric, e.g. V40Gy"
+                  className="h-7 w-44 text-xs"
+                />
+                <Button variant="outline" size="sm" className="h-7" onClick={addMetric}>
+                  Add
+                </Button>
+              </div>
+              {metricError && <p className="text-xs text-destructive">{metricError}</p>}
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Structure</TableHead>
+                  <TableHead className="text-right">Volume (cc)</TableHead>
+                  <TableHead className="text-right">Dmean (Gy)</TableHead>
+                  <TableHead className="text-right">Dmax (Gy)</TableHead>
+                  <TableHead className="text-right">Dmin (Gy)</TableHead>
+                  {parsedMetrics.map(metric => (
+                    <TableHead key={metric.label} className="text-right">
+                      {metric.label} ({metric.kind === "D" ? "Gy" : "%"})
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {dvhs.map(dvh => (
+                  <TableRow key={dvh.structureId}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <div className="w-3 h-3 rounded border" style={{ backgroundColor: dvh.color }} />
+                        {dvh.structureName}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{dvh.volume.toFixed(2)}</TableCell>
+                    <TableCell className="text-right font-mono">{dvh.meanDose.toFixed(2)}</TableCell>
+                    <TableCell className="text-right font-mono">{dvh.maxDose.toFixed(2)}</TableCell>
+                    <TableCell className="text-right font-mono">{dvh.minDose.toFixed(2)}</TableCell>
+                    {parsedMetrics.map(metric => (
+                      <TableCell key={metric.label} className="text-right font-mono">
+                        {evaluateDVHMetric(dvh, metric, referenceDose).toFixed(2)}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,40 +1,119 @@
 import { useState, useCallback } from "react";
-import { Upload, Link, FileText, Loader2 } from "lucide-react";
+import { Upload, Link, FileText, Loader2, FolderOpen } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
 import JSZip from "jszip";
 import { DicomProcessor } from "@/lib/dicom-utils";
+import { DicomDecodeError } from "@/lib/dicom-codecs";
 import { NiftiProcessor } from "@/lib/nifti-utils";
-import { DicomImage, DicomRTStruct } from "@/types";
+import { findRTDoseForSeries, findSegmentationForSeries, groupImagesBySeries } from "@/lib/series-utils";
+import { SeriesPicker } from "@/components/SeriesPicker";
+import { PROJECT_FILE_EXTENSION, readProjectFile, restoreWorkspace } from "@/lib/project-file";
+import {
+  ImportFile,
+  filesFromEntries,
+  filesFromFileList,
+  filesFromZip,
+  getDroppedEntries,
+  isDicomDir,
+  resolveDicomDirFiles,
+} from "@/lib/file-import";
+import { DicomImage, DicomRTDose, DicomRTStruct, DicomSegmentation, DicomSeries, ViewerWorkspace } from "@/types";
 
 interface DicomLoaderProps {
-  onDataLoaded: (data: { ctImages: DicomImage[], rtStruct?: DicomRTStruct }) => void;
+  onDataLoaded: (data: {
+    ctImages: DicomImage[],
+    rtStruct?: DicomRTStruct,
+    rtDose?: DicomRTDose,
+    segmentation?: DicomSegmentation,
+    workspace?: ViewerWorkspace
+  }) => void;
+}
+
+// Non-standard attributes that turn a file input into a folder picker
+const DIRECTORY_INPUT_PROPS = { webkitdirectory: "", directory: "" };
+
+// Archive contents waiting for the user to pick a series
+interface StudySelection {
+  series: DicomSeries[];
+  rtStructs: DicomRTStruct[];
+  rtDoses: DicomRTDose[];
+  segmentations: DicomSegmentation[];
+  decodeFailures: string[];
 }
 
 export const DicomLoader = ({ onDataLoaded }: DicomLoaderProps) => {
   const [isLoading, setIsLoading] = useState(false);
   const [isDragOver, setIsDragOver] = useState(false);
   const [urlInput, setUrlInput] = useState("");
+  const [studySelection, setStudySelection] = useState<StudySelection | null>(null);
   const { toast } = useToast();
 
-  const processZipFile = useCallback(async (file: File | ArrayBuffer) => {
+  const finishLoading = useCallback((
+    series: DicomSeries,
+    rtStruct: DicomRTStruct | undefined,
+    rtDoses: DicomRTDose[],
+    segmentations: DicomSegmentation[],
+    decodeFailures: string[]
+  ) => {
+    const ctImages = series.images;
+
+    // Match RT structure contours to CT slices if RT structure is present
+    const matchedRTStruct = rtStruct
+      ? DicomProcessor.matchContoursToSlices(rtStruct, ctImages)
+      : undefined;
+    const rtDose = findRTDoseForSeries(series, rtDoses);
+    const segmentation = findSegmentationForSeries(series, segmentations);
+
+    onDataLoaded({ ctImages, rtStruct: matchedRTStruct, rtDose, segmentation });
+
+    if (decodeFailures.length > 0) {
+      // Only one toast is shown at a time, so fold the load summary into the warning
+      toast({
+        title: `Loaded ${ctImages.length} CT images, skipped ${decodeFailures.length} undecodable file(s)`,
+        description: decodeFailures.slice(0, 3).join("\n") +
+          (decodeFailures.length > 3 ? `\n...and ${decodeFailures.length - 3} more` : ""),
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "DICOM data loaded successfully",
+        description: `Found ${ctImages.length} CT images${matchedRTStruct ? " and RT structure" : ""}` +
+          `${segmentation ? " and segmentation" : ""}${rtDose ? " with RT dose" : ""}`,
+      });
+    }
+  }, [onDataLoaded, toast]);
+
+  const processDicomFiles = useCallback(async (importFiles: ImportFile[]) => {
     try {
       setIsLoading(true);
-      const zip = new JSZip();
-
-      const zipData = file instanceof File ? await file.arrayBuffer() : file;
-      const zipContent = await zip.loadAsync(zipData);
 
       const ctImages: DicomImage[] = [];
-      let rtStruct: DicomRTStruct | undefined;
-
-      // Process files in the ZIP
-      for (const [filename, fileObj] of Object.entries(zipContent.files)) {
-        if (fileObj.dir) continue;
+      const rtStructs: DicomRTStruct[] = [];
+      const rtDoses: DicomRTDose[] = [];
+      const segmentations: DicomSegmentation[] = [];
+      // Files whose pixel data could not be decoded, reported per file
+      const decodeFailures: string[] = [];
+
+      // A DICOMDIR (e.g. from a CD) lists the files to load; otherwise scan everything
+      let files = importFiles.filter(file => !isDicomDir(file.path));
+      const dicomDir = importFiles.find(file => isDicomDir(file.path));
+      if (dicomDir) {
+        const fileIDs = DicomProcessor.parseDicomDir(await dicomDir.read());
+        const { resolved, missing } = resolveDicomDirFiles(importFiles, dicomDir.path, fileIDs);
+        if (missing.length > 0) {
+          console.warn(`DICOMDIR references ${missing.length} missing file(s):`, missing);
+        }
+        if (resolved.length > 0) {
+          files = resolved;
+        }
+      }
 
-        const content = await fileObj.async("arraybuffer");
+      for (const file of files) {
+        const filename = file.path;
+        const content = await file.read();
 
         // Try to parse as DICOM
         try {
@@ -48,17 +127,30 @@ export const DicomLoader = ({ onDataLoaded }: DicomLoaderProps) => {
           );
 
           if (hasDicomPrefix || filename.toLowerCase().endsWith('.dcm')) {
-            // Try to parse as CT image first
-            const dicomImage = DicomProcessor.parseDicomFile(content);
-            if (dicomImage) {
-              ctImages.push(dicomImage);
+            // Try to parse as CT image first; multi-frame (enhanced)
+            // objects expand into one image per frame
+            const dicomImages = DicomProcessor.parseDicomImages(content);
+            if (dicomImages.length > 0) {
+              ctImages.push(...dicomImages);
               continue;
             }
 
             // If not a CT image, try parsing as RT Structure
             const rtStructData = DicomProcessor.parseRTStruct(content);
-            if (rtStructData && !rtStruct) {
-              rtStruct = rtStructData;
+            if (rtStructData) {
+              rtStructs.push(rtStructData);
+              continue;
+            }
+
+            const segmentationData = DicomProcessor.parseSegmentation(content);
+            if (segmentationData) {
+              segmentations.push(segmentationData);
+              continue;
+            }
+
+            const rtDoseData = DicomProcessor.parseRTDose(content);
+            if (rtDoseData) {
+              rtDoses.push(rtDoseData);
             }
           } else if (filename.toLowerCase().endsWith('.nii') || filename.toLowerCase().endsWith('.nii.gz')) {
             // Handle NIfTI files inside ZIP
@@ -73,6 +165,12 @@ export const DicomLoader = ({ onDataLoaded }: DicomLoaderProps) => {
             }
           }
         } catch (error) {
+          if (error instanceof DicomDecodeError) {
+            console.warn(`Could not decode pixel data in ${filename}:`, error);
+            decodeFailures.push(`${filename}: ${error.message}`);
+            continue;
+          }
+
           console.warn(`Could not parse file ${filename} as DICOM:`, error);
 
           // Fallback: try simple filename detection for non-DICOM files
@@ -85,32 +183,42 @@ export const DicomLoader = ({ onDataLoaded }: DicomLoaderProps) => {
       }
 
       if (ctImages.length === 0) {
-        throw new Error("No valid DICOM CT images found in the ZIP file. Please ensure the ZIP contains DICOM files (.dcm) or files with DICOM headers.");
-      }
-
-      // Sort CT images by slice location if available
-      ctImages.sort((a, b) => {
-        if (a.sliceLocation !== undefined && b.sliceLocation !== undefined) {
-          return a.sliceLocation - b.sliceLocation;
+        if (decodeFailures.length > 0) {
+          throw new Error(`Could not decode ${decodeFailures.length} DICOM file(s). ${decodeFailures[0]}`);
         }
-        if (a.imagePosition && b.imagePosition) {
-          return a.imagePosition[2] - b.imagePosition[2]; // Z coordinate
-        }
-        return 0;
-      });
+        throw new Error("No valid DICOM images found. Please ensure the ZIP or folder contains DICOM files (.dcm, extensionless files or a DICOMDIR).");
+      }
 
-      // Match RT structure contours to CT slices if RT structure is present
-      const matchedRTStruct = rtStruct
-        ? DicomProcessor.matchContoursToSlices(rtStruct, ctImages)
-        : undefined;
+      // Keep series apart; ask which one to open when there is a choice
+      const series = groupImagesBySeries(ctImages);
+      if (series.length > 1 || rtStructs.length > 1) {
+        setStudySelection({ series, rtStructs, rtDoses, segmentations, decodeFailures });
+        return;
+      }
 
-      onDataLoaded({ ctImages, rtStruct: matchedRTStruct });
+      finishLoading(series[0], rtStructs[0], rtDoses, segmentations, decodeFailures);
 
+    } catch (error) {
+      console.error("Error processing DICOM files:", error);
       toast({
-        title: "DICOM data loaded successfully",
-        description: `Found ${ctImages.length} CT images${matchedRTStruct ? " and RT structure" : ""}`,
+        title: "Error loading DICOM data",
+        description: error instanceof Error ? error.message : "Failed to process DICOM files",
+        variant: "destructive",
       });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [finishLoading, toast]);
+
+  const processZipFile = useCallback(async (file: File | ArrayBuffer) => {
+    try {
+      setIsLoading(true);
+      const zip = new JSZip();
+
+      const zipData = file instanceof File ? await file.arrayBuffer() : file;
+      const zipContent = await zip.loadAsync(zipData);
 
+      await processDicomFiles(filesFromZip(zipContent));
     } catch (error) {
       console.error("Error processing ZIP file:", error);
       toast({
@@ -121,15 +229,68 @@ export const DicomLoader = ({ onDataLoaded }: DicomLoaderProps) => {
     } finally {
       setIsLoading(false);
     }
+  }, [processDicomFiles, toast]);
+
+  // Project files with embedded images open straight into their workspace
+  const processProjectFile = useCallback(async (file: File) => {
+    try {
+      setIsLoading(true);
+      const { manifest, imageFiles } = await readProjectFile(file);
+      if (imageFiles.length === 0) {
+        throw new Error("This project only references its images. Load the series first, then open the project from the viewer's Export menu.");
+      }
+
+      const images: DicomImage[] = [];
+      for (const imageFile of imageFiles) {
+        images.push(...DicomProcessor.parseDicomImages(await imageFile.read()));
+      }
+      const series = groupImagesBySeries(images);
+      const projectSeries = series.find(s => s.seriesInstanceUID === manifest.series.seriesInstanceUID) ?? series[0];
+      if (!projectSeries) {
+        throw new Error("The images in the project could not be read");
+      }
+
+      const { workspace, missingContours } = restoreWorkspace(manifest, projectSeries.images);
+      onDataLoaded({ ctImages: projectSeries.images, workspace });
+      toast({
+        title: "Project opened",
+        description: `${projectSeries.images.length} images, ${workspace.structures.length} structures and ` +
+          `${workspace.comments.length} review notes` +
+          (missingContours > 0 ? `; ${missingContours} contours on missing images were skipped` : ""),
+      });
+    } catch (error) {
+      console.error("Error opening project file:", error);
+      toast({
+        title: "Error opening project",
+        description: error instanceof Error ? error.message : "Failed to read the project file",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
   }, [onDataLoaded, toast]);
 
+  const handleSeriesSelected = useCallback((series: DicomSeries, rtStruct?: DicomRTStruct) => {
+    const decodeFailures = studySelection?.decodeFailures ?? [];
+    const rtDoses = studySelection?.rtDoses ?? [];
+    const segmentations = studySelection?.segmentations ?? [];
+    setStudySelection(null);
+    finishLoading(series, rtStruct, rtDoses, segmentations, decodeFailures);
+  }, [studySelection, finishLoading]);
+
   const handleFileUpload = useCallback(async (files: FileList | null) => {
     if (!files || files.length === 0) return;
 
     const file = files[0];
     const fileName = file.name.toLowerCase();
 
-    if (fileName.endsWith(".zip")) {
+    // Folder selections and loose DICOM files (often extensionless) are read directly
+    const isLooseDicom = fileName.endsWith(".dcm") || !fileName.includes(".") || isDicomDir(fileName);
+    if (fileName.endsWith(PROJECT_FILE_EXTENSION)) {
+      processProjectFile(file);
+    } else if (files.length > 1 || isLooseDicom) {
+      processDicomFiles(filesFromFileList(files));
+    } else if (fileName.endsWith(".zip")) {
       processZipFile(file);
     } else if (fileName.endsWith(".nii") || fileName.endsWith(".nii.gz")) {
       try {
@@ -170,11 +331,11 @@ export const DicomLoader = ({ onDataLoaded }: DicomLoaderProps) => {
     } else {
       toast({
         title: "Invalid file type",
-        description: "Please upload a ZIP file containing DICOM data, or a .nii/.nii.gz file",
+        description: "Please upload a ZIP file or folder containing DICOM data, a .nii/.nii.gz file or a .dcmedit project",
         variant: "destructive",
       });
     }
-  }, [processZipFile, toast, onDataLoaded]);
+  }, [processZipFile, processDicomFiles, processProjectFile, toast, onDataLoaded]);
 
   const handleUrlLoad = useCallback(async () => {
     if (!urlInput.trim()) {
@@ -209,11 +370,31 @@ export const DicomLoader = ({ onDataLoaded }: DicomLoaderProps) => {
     }
   }, [urlInput, processZipFile, toast]);
 
-  const handleDrop = useCallback((e: React.DragEvent<HTMLDivElement>) => {
+  const handleDrop = useCallback(async (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     setIsDragOver(false);
+
+    // Dropped folders are only reachable through the entries API
+    const entries = getDroppedEntries(e.dataTransfer);
+    if (entries.some(entry => entry.isDirectory)) {
+      try {
+        setIsLoading(true);
+        await processDicomFiles(await filesFromEntries(entries));
+      } catch (error) {
+        console.error("Error reading dropped folder:", error);
+        toast({
+          title: "Error loading DICOM data",
+          description: error instanceof Error ? error.message : "Failed to read the dropped folder",
+          variant: "destructive",
+        });
+      } finally {
+        setIsLoading(false);
+      }
+      return;
+    }
+
     handleFileUpload(e.dataTransfer.files);
-  }, [handleFileUpload]);
+  }, [handleFileUpload, processDicomFiles, toast]);
 
   const handleDragOver = useCallback((e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
@@ -239,101 +420,133 @@ export const DicomLoader = ({ onDataLoaded }: DicomLoaderProps) => {
           </p>
         </div>
 
-        {/* File Upload Card */}
-        <Card className="bg-card border-border shadow-elevation">
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Upload className="w-5 h-5 text-primary" />
-              Upload DICOM Data
-            </CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-6">
-            {/* Drag & Drop Area */}
-            <div
-              className={`
-                relative border-2 border-dashed rounded-lg p-8 text-center transition-all duration-200
-                ${isDragOver
-                  ? "border-primary bg-primary/10 shadow-glow"
-                  : "border-border bg-muted/50"
-                }
-                ${isLoading ? "pointer-events-none opacity-50" : "cursor-pointer hover:border-primary/50"}
-              `}
-              onDrop={handleDrop}
-              onDragOver={handleDragOver}
-              onDragLeave={handleDragLeave}
-              onClick={() => document.getElementById("file-upload")?.click()}
-            >
+        {/* Series selection for archives with several series */}
+        {studySelection ? (
+          <SeriesPicker
+            series={studySelection.series}
+            rtStructs={studySelection.rtStructs}
+            onConfirm={handleSeriesSelected}
+            onCancel={() => setStudySelection(null)}
+          />
+        ) : (
+          /* File Upload Card */
+          <Card className="bg-card border-border shadow-elevation">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Upload className="w-5 h-5 text-primary" />
+                Upload DICOM Data
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {/* Drag & Drop Area */}
+              <div
+                className={`
+                  relative border-2 border-dashed rounded-lg p-8 text-center transition-all duration-200
+                  ${isDragOver
+                    ? "border-primary bg-primary/10 shadow-glow"
+                    : "border-border bg-muted/50"
+                  }
+                  ${isLoading ? "pointer-events-none opacity-50" : "cursor-pointer hover:border-primary/50"}
+                `}
+                onDrop={handleDrop}
+                onDragOver={handleDragOver}
+                onDragLeave={handleDragLeave}
+                onClick={() => document.getElementById("file-upload")?.click()}
+              >
+                <input
+                  id="file-upload"
+                  type="file"
+                  accept={`.zip,.nii,.nii.gz,.dcm,${PROJECT_FILE_EXTENSION}`}
+                  multiple
+                  onChange={(e) => handleFileUpload(e.target.files)}
+                  className="hidden"
+                  disabled={isLoading}
+                />
+
+                {isLoading ? (
+                  <div className="flex flex-col items-center gap-4">
+                    <Loader2 className="w-12 h-12 text-primary animate-spin" />
+                    <p className="text-muted-foreground">Processing DICOM data...</p>
+                  </div>
+                ) : (
+                  <div className="flex flex-col items-center gap-4">
+                    <div className="w-16 h-16 bg-primary/20 rounded-full flex items-center justify-center">
+                      <Upload className="w-8 h-8 text-primary" />
+                    </div>
+                    <div>
+                      <p className="text-foreground font-medium">
+                        Drop your ZIP file here or click to browse
+                      </p>
+                      <p className="text-muted-foreground text-sm">
+                        Supports ZIP (DICOM), DICOM folders/DICOMDIR, .nii/.nii.gz (NIfTI) or .dcmedit projects
+                      </p>
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              {/* Folder picker lives outside the drop zone so its click does not bubble into it */}
               <input
-                id="file-upload"
+                id="folder-upload"
                 type="file"
-                accept=".zip,.nii,.nii.gz"
+                {...DIRECTORY_INPUT_PROPS}
                 onChange={(e) => handleFileUpload(e.target.files)}
                 className="hidden"
                 disabled={isLoading}
               />
+              <div className="flex justify-center -mt-3">
+                <Button
+                  variant="link"
+                  size="sm"
+                  onClick={() => document.getElementById("folder-upload")?.click()}
+                  disabled={isLoading}
+                >
+                  <FolderOpen className="w-4 h-4 mr-1" />
+                  Select a DICOM folder
+                </Button>
+              </div>
 
-              {isLoading ? (
-                <div className="flex flex-col items-center gap-4">
-                  <Loader2 className="w-12 h-12 text-primary animate-spin" />
-                  <p className="text-muted-foreground">Processing DICOM data...</p>
+              {/* Divider */}
+              <div className="relative">
+                <div className="absolute inset-0 flex items-center">
+                  <div className="w-full border-t border-border" />
                 </div>
-              ) : (
-                <div className="flex flex-col items-center gap-4">
-                  <div className="w-16 h-16 bg-primary/20 rounded-full flex items-center justify-center">
-                    <Upload className="w-8 h-8 text-primary" />
-                  </div>
-                  <div>
-                    <p className="text-foreground font-medium">
-                      Drop your ZIP file here or click to browse
-                    </p>
-                    <p className="text-muted-foreground text-sm">
-                      Supports ZIP (DICOM) or .nii/.nii.gz (NIfTI)
-                    </p>
-                  </div>
+                <div className="relative flex justify-center text-xs uppercase">
+                  <span className="bg-card px-2 text-muted-foreground">Or</span>
                 </div>
-              )}
-            </div>
-
-            {/* Divider */}
-            <div className="relative">
-              <div className="absolute inset-0 flex items-center">
-                <div className="w-full border-t border-border" />
               </div>
-              <div className="relative flex justify-center text-xs uppercase">
-                <span className="bg-card px-2 text-muted-foreground">Or</span>
-              </div>
-            </div>
 
-            {/* URL Input */}
-            <div className="space-y-4">
-              <div className="flex items-center gap-2">
-                <Link className="w-5 h-5 text-primary" />
-                <span className="font-medium">Load from URL</span>
-              </div>
-              <div className="flex gap-2">
-                <Input
-                  type="url"
-                  placeholder="https://example.com/dicom-data.zip"
-                  value={urlInput}
-                  onChange={(e) => setUrlInput(e.target.value)}
-                  disabled={isLoading}
-                  className="flex-1"
-                />
-                <Button
-                  onClick={handleUrlLoad}
-                  disabled={isLoading || !urlInput.trim()}
-                  variant="medical"
-                >
-                  {isLoading ? (
-                    <Loader2 className="w-4 h-4 animate-spin" />
-                  ) : (
-                    "Load"
-                  )}
-                </Button>
+              {/* URL Input */}
+              <div className="space-y-4">
+                <div className="flex items-center gap-2">
+                  <Link className="w-5 h-5 text-primary" />
+                  <span className="font-medium">Load from URL</span>
+                </div>
+                <div className="flex gap-2">
+                  <Input
+                    type="url"
+                    placeholder="https://example.com/dicom-data.zip"
+                    value={urlInput}
+                    onChange={(e) => setUrlInput(e.target.value)}
+                    disabled={isLoading}
+                    className="flex-1"
+                  />
+                  <Button
+                    onClick={handleUrlLoad}
+                    disabled={isLoading || !urlInput.trim()}
+                    variant="medical"
+                  >
+                    {isLoading ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      "Load"
+                    )}
+                  </Button>
+                </div>
               </div>
-            </div>
-          </CardContent>
-        </Card>
+            </CardContent>
+          </Card>
+        )}
 
         {/* Info Card */}
         <Card className="bg-card/50 border-border/50">
@@ -346,6 +559,7 @@ export const DicomLoader = ({ onDataLoaded }: DicomLoaderProps) => {
                   <li>• DICOM RT Structure Sets</li>
                   <li>• NIfTI Volumes (.nii, .nii.gz)</li>
                   <li>• ZIP Archives (.zip)</li>
+                  <li>• DICOM folders and DICOMDIR media</li>
                 </ul>
               </div>
               <div>
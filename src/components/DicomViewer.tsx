@@ -41,28 +41,89 @@ import {
   BarChart3,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { DicomImage, DicomRTStruct, Point2D, BooleanOp, ImageData2D } from "@/types";
+import {
+  DicomImage,
+  DicomRTStruct,
+  DicomRTDose,
+  DicomSegmentation,
+  MPRPlaneState,
+  Point2D,
+  BooleanOp,
+  ImageData2D,
+  ProbabilityMap,
+  ReviewComment,
+  Structure3D,
+  ViewerWorkspace,
+} from "@/types";
 import { DicomProcessor } from "@/lib/dicom-utils";
 import { DrawingCanvas } from "@/components/DrawingCanvas";
 import { MPRViewer } from "@/components/MPRViewer";
+import {
+  buildMPRVolume,
+  decodeMPRPlane,
+  DEFAULT_SLAB_THICKNESS,
+  describeResampling,
+  encodeMPRPlane,
+  getImageSlab,
+  SlabMode,
+  SlabSettings,
+} from "@/lib/mpr-utils";
 import { EditingPanel } from "@/components/EditingPanel";
 import { useDrawing, DrawingTool } from "@/hooks/useDrawing";
-import { interpolateContours } from "@/lib/contour-utils";
-import { exportRTStruct } from "@/lib/rtstruct-export";
+import { DEFAULT_INTERPOLATION_MAX_GAP, interpolateStructure } from "@/lib/shape-interpolation";
+import { exportRTStruct, ExportFormat, DVHExport } from "@/lib/rtstruct-export";
+import { MeshExportOptions } from "@/lib/mesh-export";
 import { worldToCanvas as worldToCanvasUtil, canvasToWorld as canvasToWorldUtil } from "@/lib/coordinate-utils";
 import { useKeyboardShortcuts, KeyboardShortcut } from "@/hooks/useKeyboardShortcuts";
+import { useSessionAutosave } from "@/hooks/useSessionAutosave";
 import { KeyboardShortcutsHelp } from "@/components/KeyboardShortcutsHelp";
 import { ViewerToolbar } from "@/components/viewer/ViewerToolbar";
 import { StructureList } from "@/components/viewer/StructureList";
+import { DosePanel } from "@/components/viewer/DosePanel";
+import { SlabControls } from "@/components/viewer/SlabControls";
+import { ProbabilityMapPanel } from "@/components/viewer/ProbabilityMapPanel";
+import { DVHPanel } from "@/components/DVHPanel";
+import { ReviewCommentsPanel } from "@/components/viewer/ReviewCommentsPanel";
+import { exportProject, readProjectFile, restoreWorkspace } from "@/lib/project-file";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { LabelMapImportDialog } from "@/components/LabelMapImportDialog";
+import { SegExportDialog } from "@/components/SegExportDialog";
+import { MeshExportDialog } from "@/components/MeshExportDialog";
 import { ViewerCanvas } from "@/components/viewer/ViewerCanvas";
 import { HUOverlay } from "@/components/HUOverlay";
 import { WINDOW_PRESETS } from "@/lib/window-presets";
+import { rgbToCss } from "@/lib/color-utils";
+import { createDoseDisplaySettings, DoseDisplaySettings, renderDoseOverlay, resampleDoseToImage } from "@/lib/dose-utils";
+import { computeDVH, DEFAULT_DVH_METRICS, DVH, DVHMetric, parseDVHMetric } from "@/lib/dvh-utils";
+import { LabelMapImport } from "@/lib/labelmap-import";
+import { importStructuresFromJSON } from "@/lib/json-import";
+import { segmentationToStructures } from "@/lib/seg-utils";
+import {
+  classProbabilitySlices,
+  createProbabilityDisplaySettings,
+  ProbabilityDisplaySettings,
+  probabilityMapToStructure,
+  renderProbabilityOverlay,
+} from "@/lib/probability-map";
 
 
 interface DicomViewerProps {
   ctImages: DicomImage[];
   rtStruct?: DicomRTStruct;
-  probabilityMap?: Float32Array[];
+  rtDose?: DicomRTDose;
+  segmentation?: DicomSegmentation;
+  probabilityMap?: ProbabilityMap;
+  // Workspace of an opened project file
+  workspace?: ViewerWorkspace;
   onBack?: () => void;
 }
 
@@ -70,7 +131,23 @@ interface DicomViewerProps {
 
 type ViewerTool = "select" | "pan" | "zoom" | "windowing";
 
-export const DicomViewer = ({ ctImages, rtStruct, probabilityMap, onBack }: DicomViewerProps) => {
+// URL fragment that shares the MPR planes, e.g. #mpr=60,256,256,1,0,0,0
+const MPR_LINK_PREFIX = "#mpr=";
+
+const readLinkedMPRPlane = (): MPRPlaneState | null =>
+  window.location.hash.startsWith(MPR_LINK_PREFIX)
+    ? decodeMPRPlane(window.location.hash.slice(MPR_LINK_PREFIX.length))
+    : null;
+
+export const DicomViewer = ({
+  ctImages,
+  rtStruct,
+  rtDose,
+  segmentation,
+  probabilityMap,
+  workspace,
+  onBack,
+}: DicomViewerProps) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const tempCanvasRef = useRef<HTMLCanvasElement | null>(null);
   const overlayCanvasRef = useRef<HTMLCanvasElement | null>(null);
@@ -78,6 +155,7 @@ export const DicomViewer = ({ ctImages, rtStruct, probabilityMap, onBack }: Dico
 
   // Drawing system
   const drawing = useDrawing();
+  const session = useSessionAutosave(ctImages, drawing);
 
   // Viewer state
   const [currentSlice, setCurrentSlice] = useState(0);
@@ -87,8 +165,28 @@ export const DicomViewer = ({ ctImages, rtStruct, probabilityMap, onBack }: Dico
   const [windowWidth, setWindowWidth] = useState([800]);
   const [zoom, setZoom] = useState(1);
   const [pan, setPan] = useState({ x: 0, y: 0 });
-  const [probThreshold, setProbThreshold] = useState([0.5]);
-  const [mprMode, setMprMode] = useState(false);
+  const [probSettings, setProbSettings] = useState<ProbabilityDisplaySettings | null>(
+    () => (probabilityMap ? createProbabilityDisplaySettings(probabilityMap) : null)
+  );
+  const [probLargestComponentOnly, setProbLargestComponentOnly] = useState(false);
+  // A shared link opens straight into MPR on its planes
+  const [mprPlane, setMprPlane] = useState<MPRPlaneState | null>(readLinkedMPRPlane);
+  const [mprMode, setMprMode] = useState(() => mprPlane !== null);
+  // Bumped when a project restores planes so an open MPR view starts over on them
+  const [mprPlaneRevision, setMprPlaneRevision] = useState(0);
+  // Thick-slab projection, shared by the axial view and the MPR panes
+  const [slabMode, setSlabMode] = useState<SlabMode | null>(null);
+  const [slabThickness, setSlabThickness] = useState(DEFAULT_SLAB_THICKNESS);
+  const [interpolationMaxGap, setInterpolationMaxGap] = useState(DEFAULT_INTERPOLATION_MAX_GAP);
+  const [doseSettings, setDoseSettings] = useState<DoseDisplaySettings | null>(
+    () => (rtDose ? createDoseDisplaySettings(rtDose) : null)
+  );
+  const [showDVH, setShowDVH] = useState(false);
+  const [showLabelMapImport, setShowLabelMapImport] = useState(false);
+  const [showSegExport, setShowSegExport] = useState(false);
+  const [showMeshExport, setShowMeshExport] = useState(false);
+  const [dvhMetrics, setDvhMetrics] = useState<string[]>(DEFAULT_DVH_METRICS);
+  const [comments, setComments] = useState<ReviewComment[]>([]);
 
   // Mouse interaction state
   const [isDragging, setIsDragging] = useState(false);
@@ -117,11 +215,11 @@ export const DicomViewer = ({ ctImages, rtStruct, probabilityMap, onBack }: Dico
 
 
 
-  // Initialize drawing structures from RT structures
+  // Initialize drawing structures from RT structures and segmentation segments
   useEffect(() => {
-    if (drawing.structures.length === 0 && rtStruct?.structures) {
-      const newStructures = rtStruct.structures.map((rtStructure, index) => {
-        const color = `rgb(${Math.round(rtStructure.color[0])}, ${Math.round(rtStructure.color[1])}, ${Math.round(rtStructure.color[2])})`;
+    if (drawing.structures.length === 0 && (rtStruct?.structures || segmentation)) {
+      const newStructures: Structure3D[] = (rtStruct?.structures ?? []).map((rtStructure, index) => {
+        const color = rgbToCss(rtStructure.color);
         const structureId = `rt_${index}`;
 
         return {
@@ -129,20 +227,62 @@ export const DicomViewer = ({ ctImages, rtStruct, probabilityMap, onBack }: Dico
           name: rtStructure.name,
           color,
           visible: true,
+          interpretedType: rtStructure.interpretedType,
+          observationLabel: rtStructure.observationLabel,
           contours: rtStructure.contours.map((contour, cIndex) => ({
             id: `contour_${index}_${cIndex}_${Date.now()}`,
             points: contour.points.map(p => ({ x: p[0], y: p[1] })),
             sliceIndex: contour.sliceIndex,
             structureId: structureId,
-            isClosed: true,
-            color
+            isClosed: (contour.geometricType ?? 'CLOSED_PLANAR') === 'CLOSED_PLANAR',
+            color,
+            geometricType: contour.geometricType
           }))
         };
       });
+      if (segmentation) {
+        newStructures.push(...segmentationToStructures(segmentation, ctImages).structures);
+      }
 
       drawing.setStructures(newStructures);
     }
-  }, [rtStruct, drawing.setStructures, drawing.structures.length]);
+  }, [rtStruct, segmentation, ctImages, drawing.setStructures, drawing.structures.length]);
+
+  // Dose resampled onto the current CT slice
+  const currentDoseSlice = useMemo(
+    () => (rtDose && ctImages[currentSlice] ? resampleDoseToImage(rtDose, ctImages[currentSlice]) : null),
+    [rtDose, ctImages, currentSlice]
+  );
+
+  const slab = useMemo<SlabSettings | null>(
+    () => (slabMode ? { mode: slabMode, thickness: slabThickness } : null),
+    [slabMode, slabThickness]
+  );
+
+  // The axial slab is projected from a volume built once a slab mode is
+  // picked; the MPR view projects from its own
+  const axialSlabEnabled = slabMode !== null && !mprMode;
+  const slabVolume = useMemo(
+    () => (axialSlabEnabled ? buildMPRVolume(ctImages) : null),
+    [ctImages, axialSlabEnabled]
+  );
+
+  const slabImage = useMemo<DicomImage | null>(() => {
+    const currentImage = ctImages[currentSlice];
+    if (!slab || !slabVolume || !currentImage) return null;
+    const pixelData = getImageSlab(slabVolume, currentImage, slab);
+    return pixelData ? { ...currentImage, pixelData } : null;
+  }, [ctImages, currentSlice, slab, slabVolume]);
+
+  useEffect(() => {
+    const warning = slabVolume && describeResampling(slabVolume);
+    if (warning) {
+      toast({
+        title: "Slabs use a resampled volume",
+        description: warning,
+      });
+    }
+  }, [slabVolume, toast]);
 
   // Canvas setup and DICOM rendering
   useEffect(() => {
@@ -196,7 +336,7 @@ export const DicomViewer = ({ ctImages, rtStruct, probabilityMap, onBack }: Dico
       if (tempCtx) {
         DicomProcessor.renderImageToCanvas(
           tempCanvas,
-          currentImage,
+          slabImage ?? currentImage,
           windowLevel[0],
           windowWidth[0]
         );
@@ -211,42 +351,36 @@ export const DicomViewer = ({ ctImages, rtStruct, probabilityMap, onBack }: Dico
     }
 
     // Render probability map overlay if available
-    if (probabilityMap && probabilityMap[currentSlice]) {
-      const slice = probabilityMap[currentSlice];
-
+    if (probabilityMap && probSettings && probabilityMap.classes[0]?.[currentSlice]) {
       // Reuse overlay canvas if possible
       if (!overlayCanvasRef.current) {
         overlayCanvasRef.current = document.createElement('canvas');
       }
       const overlayCanvas = overlayCanvasRef.current;
-      overlayCanvas.width = currentImage.width;
-      overlayCanvas.height = currentImage.height;
+      overlayCanvas.width = probabilityMap.width;
+      overlayCanvas.height = probabilityMap.height;
       const octx = overlayCanvas.getContext('2d');
 
       if (octx) {
-        const imageData = octx.createImageData(currentImage.width, currentImage.height);
-        for (let i = 0; i < slice.length; i++) {
-          const p = slice[i];
-          if (p >= probThreshold[0]) {
-            const idx = i * 4;
-            imageData.data[idx] = 255;
-            imageData.data[idx + 1] = 0;
-            imageData.data[idx + 2] = 0;
-            imageData.data[idx + 3] = Math.round(p * 255);
-          }
-        }
+        const imageData = octx.createImageData(probabilityMap.width, probabilityMap.height);
+        renderProbabilityOverlay(probabilityMap, currentSlice, probSettings, imageData.data);
         octx.putImageData(imageData, 0, 0);
         ctx.drawImage(overlayCanvas, imageX, imageY, drawWidth, drawHeight);
       }
     }
 
+    // Render isodose lines and color wash if an RT Dose is loaded
+    if (currentDoseSlice && doseSettings) {
+      renderDoseOverlay(ctx, currentDoseSlice, doseSettings, imageX, imageY, drawWidth, drawHeight);
+    }
+
     // Coordinate transformation functions
 
 
 
 
 
-  }, [currentSlice, ctImages, windowLevel, windowWidth, zoom, pan, probabilityMap, probThreshold]);
+  }, [currentSlice, ctImages, slabImage, windowLevel, windowWidth, zoom, pan, probabilityMap, probSettings, currentDoseSlice, doseSettings]);
 
   // Note: Canvas refs are automatically cleaned up by React on unmount
 
@@ -532,6 +666,80 @@ export const DicomViewer = ({ ctImages, rtStruct, probabilityMap, onBack }: Dico
     });
   }, [drawing, toast]);
 
+  const importLabelMap = useCallback(({ structures, unmatchedSlices }: LabelMapImport) => {
+    drawing.addStructures(structures);
+
+    toast({
+      title: "Label map imported",
+      description: `Created ${structures.length} structure${structures.length === 1 ? "" : "s"}` +
+        (unmatchedSlices > 0 ? `; ${unmatchedSlices} slice${unmatchedSlices === 1 ? "" : "s"} outside the loaded images were skipped` : ""),
+    });
+  }, [drawing, toast]);
+
+  const importStructureJSON = useCallback(async (file: File) => {
+    try {
+      const { structures, missingContours, missingImages, otherSeriesUID } = importStructuresFromJSON(
+        await file.text(),
+        ctImages,
+        drawing.structures.map(s => s.id)
+      );
+      drawing.addStructures(structures);
+
+      const warnings = [
+        otherSeriesUID && "the file was exported from a different series",
+        missingContours > 0 &&
+          `${missingContours} contour${missingContours === 1 ? "" : "s"} on images missing from this series were skipped`,
+        missingImages > 0 && missingContours === 0 &&
+          `${missingImages} referenced image${missingImages === 1 ? " is" : "s are"} not in this series`,
+      ].filter(Boolean);
+      toast({
+        title: warnings.length > 0 ? "Structures loaded with warnings" : "Structures loaded",
+        description: `Loaded ${structures.length} structure${structures.length === 1 ? "" : "s"} from ${file.name}` +
+          (warnings.length > 0 ? `; ${warnings.join("; ")}` : ""),
+      });
+    } catch (error) {
+      toast({
+        title: "JSON import failed",
+        description: error instanceof Error ? error.message : "Could not read the file",
+        variant: "destructive",
+      });
+    }
+  }, [drawing, ctImages, toast]);
+
+  const convertProbabilityMap = useCallback(() => {
+    if (!probabilityMap || !probSettings) return;
+    const { selectedClass, threshold } = probSettings;
+    const probabilityClass = probSettings.classes[selectedClass];
+    const structure = probabilityMapToStructure(
+      classProbabilitySlices(probabilityMap, selectedClass, probSettings.mode === "argmax"),
+      ctImages,
+      {
+        id: `prob_${Date.now()}`,
+        name: `${probabilityClass.name.replace(/\s+/g, "_")}_${Math.round(threshold * 100)}`,
+        color: probabilityClass.color,
+        visible: true,
+      },
+      { threshold, largestComponentOnly: probLargestComponentOnly }
+    );
+
+    if (structure.contours.length === 0) {
+      toast({
+        title: "Nothing to convert",
+        description: `No voxels reach a probability of ${threshold.toFixed(2)}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    drawing.addStructures([structure]);
+    drawing.setActiveStructure(structure.id);
+
+    toast({
+      title: "Structure created",
+      description: `${structure.name} with ${structure.contours.length} contours`,
+    });
+  }, [probabilityMap, probSettings, ctImages, probLargestComponentOnly, drawing, toast]);
+
   const handleDrawingToolChange = useCallback((tool: DrawingTool) => {
     drawing.setTool(tool);
     setViewerTool("select");
@@ -564,9 +772,13 @@ export const DicomViewer = ({ ctImages, rtStruct, probabilityMap, onBack }: Dico
     }
   }, [drawing]);
 
-  const handleDownload = useCallback(() => {
+  const handleDownload = useCallback((
+    format: ExportFormat = 'json',
+    structures: Structure3D[] = drawing.structures,
+    meshOptions?: MeshExportOptions
+  ) => {
     try {
-      if (drawing.structures.length === 0) {
+      if (structures.length === 0) {
         toast({
           title: "No structures to export",
           description: "Please create at least one structure before exporting",
@@ -580,8 +792,19 @@ export const DicomViewer = ({ ctImages, rtStruct, probabilityMap, onBack }: Dico
         description: "Generating DICOM RT Structure file...",
       });
 
-      // Export as JSON format (DICOM-RT representation)
-      exportRTStruct(drawing.structures, ctImages, 'json', rtStruct);
+      // Research exports carry DVHs when a dose is loaded
+      let dvhExport: DVHExport | undefined;
+      if (format === 'research' && rtDose) {
+        dvhExport = {
+          dvhs: structures
+            .map(structure => computeDVH(structure, ctImages, rtDose))
+            .filter((dvh): dvh is DVH => dvh !== null),
+          metrics: dvhMetrics.map(parseDVHMetric).filter((metric): metric is DVHMetric => metric !== null),
+          referenceDose: doseSettings?.referenceDose,
+        };
+      }
+
+      exportRTStruct(structures, ctImages, format, rtStruct, dvhExport, meshOptions);
 
       toast({
         title: "Export complete",
@@ -595,7 +818,7 @@ export const DicomViewer = ({ ctImages, rtStruct, probabilityMap, onBack }: Dico
         variant: "destructive"
       });
     }
-  }, [drawing, ctImages, rtStruct, toast]);
+  }, [drawing, ctImages, rtStruct, rtDose, dvhMetrics, doseSettings, toast]);
 
   const resetView = () => {
     setZoom(1);
@@ -608,84 +831,55 @@ export const DicomViewer = ({ ctImages, rtStruct, probabilityMap, onBack }: Dico
     });
   };
 
-  const interpolateSlices = useCallback(() => {
-    if (drawing.activeStructureId) {
-      const activeStructureId = drawing.activeStructureId;
-      const activeStructure = drawing.structures.find(s => s.id === activeStructureId);
-      if (activeStructure && activeStructure.contours.length >= 2) {
-        // Find slices with contours
-        const slicesWithContours = [...new Set(activeStructure.contours.map(c => c.sliceIndex))].sort((a, b) => a - b);
-
-        if (slicesWithContours.length >= 2) {
-          let interpolatedCount = 0;
-
-          // Interpolate between consecutive pairs of slices with contours
-          for (let i = 0; i < slicesWithContours.length - 1; i++) {
-            const startSlice = slicesWithContours[i];
-            const endSlice = slicesWithContours[i + 1];
-
-            // Skip if slices are adjacent (nothing to interpolate)
-            if (endSlice - startSlice <= 1) continue;
-
-            const startContours = activeStructure.contours.filter(c => c.sliceIndex === startSlice);
-            const endContours = activeStructure.contours.filter(c => c.sliceIndex === endSlice);
-
-            // Only interpolate if we have matching contours (simplified logic)
-            if (startContours.length > 0 && endContours.length > 0) {
-              // Assuming interpolateContours is a helper that takes multiple contours and returns new ones
-              // This part of the instruction's change is a bit ambiguous, I'll keep the original call structure
-              // but adapt to the new loop logic. If `interpolateContours` is meant to be a single call per pair,
-              // the original `interpolateContours(contour1, contour2, targetSlice)` would be more appropriate.
-              // Given the instruction's new loop, it implies `interpolateContours` might handle a range or return multiple.
-              // For now, I'll assume `interpolateContours` is a function that can generate contours for intermediate slices.
-              // If `interpolateContours` is meant to be called for each intermediate slice, the original loop structure was better.
-              // Let's revert to the original loop structure but with the new `startSlice`/`endSlice` variables for clarity.
-              for (let targetSlice = startSlice + 1; targetSlice < endSlice; targetSlice++) {
-                const contour1 = activeStructure.contours.find(c => c.sliceIndex === startSlice);
-                const contour2 = activeStructure.contours.find(c => c.sliceIndex === endSlice);
-
-                if (contour1 && contour2) {
-                  const interpolatedContour = interpolateContours(contour1, contour2, targetSlice);
-
-                  if (interpolatedContour) {
-                    drawing.addContourToStructure(
-                      activeStructureId,
-                      interpolatedContour
-                    );
-                    interpolatedCount++;
-                  }
-                }
-              }
-            }
-          }
+  // Swap in an edited copy of a structure as one undoable step
+  const replaceStructure = useCallback((structure: Structure3D) => {
+    drawing.setStructures(prev => prev.map(s => (s.id === structure.id ? structure : s)));
+  }, [drawing]);
 
-          if (interpolatedCount > 0) {
-            toast({
-              title: "Interpolation complete",
-              description: `Added ${interpolatedCount} interpolated contours`,
-            });
-          } else {
-            toast({
-              title: "No interpolation needed",
-              description: "All intermediate slices already have contours",
-            });
-          }
-        }
-      } else {
-        toast({
-          title: "Cannot interpolate",
-          description: "Need at least 2 contours to interpolate",
-          variant: "destructive"
-        });
-      }
-    } else {
+  const interpolateSlices = useCallback(() => {
+    const activeStructure = drawing.structures.find(s => s.id === drawing.activeStructureId);
+    if (!activeStructure) {
       toast({
         title: "No structure selected",
         description: "Please select a structure first",
         variant: "destructive"
       });
+      return;
     }
-  }, [drawing, toast]);
+
+    const keySlices = new Set(
+      activeStructure.contours.filter(c => c.isClosed && !c.interpolated).map(c => c.sliceIndex)
+    );
+    if (keySlices.size < 2) {
+      toast({
+        title: "Cannot interpolate",
+        description: "Draw contours on at least 2 slices to interpolate between",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const { structure, filledSlices, skippedGaps } = interpolateStructure(activeStructure, ctImages, {
+      maxGap: interpolationMaxGap,
+    });
+    const skipped = skippedGaps > 0
+      ? ` ${skippedGaps} gap${skippedGaps === 1 ? "" : "s"} wider than ${interpolationMaxGap} slices left empty.`
+      : "";
+
+    if (filledSlices === 0) {
+      toast({
+        title: "No interpolation needed",
+        description: skipped.trim() || "All slices between the key slices already have contours",
+      });
+      return;
+    }
+
+    replaceStructure(structure);
+    toast({
+      title: "Interpolation complete",
+      description: `Interpolated ${filledSlices} slice${filledSlices === 1 ? "" : "s"} of ${structure.name}.${skipped}`,
+    });
+  }, [drawing.structures, drawing.activeStructureId, ctImages, interpolationMaxGap, replaceStructure, toast]);
 
   // Window/Level preset handlers
   const applyWindowPreset = useCallback((presetName: string) => {
@@ -700,6 +894,101 @@ export const DicomViewer = ({ ctImages, rtStruct, probabilityMap, onBack }: Dico
     }
   }, [toast, setWindowLevel, setWindowWidth]);
 
+  const activeWindowPreset = WINDOW_PRESETS.find(
+    p => p.windowLevel === windowLevel[0] && p.windowWidth === windowWidth[0]
+  )?.name;
+
+  // Project files
+  const applyWorkspace = useCallback((restored: ViewerWorkspace) => {
+    drawing.restoreSession({
+      structures: restored.structures,
+      activeStructureId: restored.activeStructureId,
+      past: [],
+      future: [],
+    });
+    // A named preset restores its window; otherwise use the saved values
+    const preset = WINDOW_PRESETS.find(p => p.name === restored.windowPreset);
+    setWindowLevel([preset?.windowLevel ?? restored.windowLevel]);
+    setWindowWidth([preset?.windowWidth ?? restored.windowWidth]);
+    setZoom(restored.zoom);
+    setPan(restored.pan);
+    setCurrentSlice(Math.min(Math.max(restored.currentSlice, 0), ctImages.length - 1));
+    setComments(restored.comments);
+    if (restored.mprPlane) {
+      setMprPlane(restored.mprPlane);
+      setMprPlaneRevision(revision => revision + 1);
+      setMprMode(true);
+    }
+  }, [drawing.restoreSession, ctImages.length]);
+
+  useEffect(() => {
+    if (workspace) applyWorkspace(workspace);
+  }, [workspace, applyWorkspace]);
+
+  // Keep the address bar on the MPR planes so the page link can be shared
+  useEffect(() => {
+    const { pathname, search, hash } = window.location;
+    const linkedHash = mprMode && mprPlane ? MPR_LINK_PREFIX + encodeMPRPlane(mprPlane) : "";
+    if (hash === linkedHash || (!linkedHash && !hash.startsWith(MPR_LINK_PREFIX))) return;
+    window.history.replaceState(window.history.state, "", pathname + search + linkedHash);
+  }, [mprMode, mprPlane]);
+
+  const saveProject = useCallback(async (embedImages: boolean) => {
+    const level = windowLevel[0];
+    const width = windowWidth[0];
+    try {
+      await exportProject(ctImages, {
+        structures: drawing.structures,
+        activeStructureId: drawing.activeStructureId,
+        windowLevel: level,
+        windowWidth: width,
+        windowPreset: activeWindowPreset,
+        zoom,
+        pan,
+        currentSlice,
+        comments,
+        mprPlane: mprMode && mprPlane ? mprPlane : undefined,
+      }, embedImages);
+      toast({
+        title: "Project saved",
+        description: embedImages
+          ? "Images, structures and viewer state saved in one .dcmedit file"
+          : "Structures and viewer state saved; the images are referenced by UID",
+      });
+    } catch (error) {
+      toast({
+        title: "Project save failed",
+        description: error instanceof Error ? error.message : "An unknown error occurred",
+        variant: "destructive",
+      });
+    }
+  }, [ctImages, drawing.structures, drawing.activeStructureId, windowLevel, windowWidth, activeWindowPreset, zoom, pan, currentSlice, comments, mprMode, mprPlane, toast]);
+
+  const openProject = useCallback(async (file: File) => {
+    try {
+      const { manifest } = await readProjectFile(file);
+      const { workspace: restored, missingContours, otherSeries } = restoreWorkspace(manifest, ctImages);
+      applyWorkspace(restored);
+      const warnings = [
+        otherSeries && "the project was saved on a different series",
+        missingContours > 0 &&
+          `${missingContours} contour${missingContours === 1 ? "" : "s"} on slices missing from this series were skipped`,
+      ].filter(Boolean);
+      toast({
+        title: warnings.length > 0 ? "Project opened with warnings" : "Project opened",
+        description: `Restored ${restored.structures.length} structure${restored.structures.length === 1 ? "" : "s"}` +
+          ` and ${restored.comments.length} note${restored.comments.length === 1 ? "" : "s"}` +
+          (warnings.length > 0 ? `; ${warnings.join("; ")}` : ""),
+      });
+    } catch (error) {
+      toast({
+        title: "Project open failed",
+        description: error instanceof Error ? error.message : "Could not read the project",
+        variant: "destructive",
+      });
+    }
+  }, [ctImages, applyWorkspace, toast]);
+
   // Editing handlers
   const handleSelectContour = useCallback((canvasPoint: Point2D, selectPoint: boolean) => {
     // Convert canvas point to world coordinates
@@ -1246,12 +1535,17 @@ export const DicomViewer = ({ ctImages, rtStruct, probabilityMap, onBack }: Dico
         isFullscreen={isFullscreen}
         toggleFullscreen={toggleFullscreen}
         handleDownload={handleDownload}
+        onExportSegmentation={() => setShowSegExport(true)}
+        onExportMeshes={() => setShowMeshExport(true)}
+        onSaveProject={saveProject}
+        onOpenProject={openProject}
       />
 
       {/* Main Content Area */}
       {mprMode ? (
         // MPR 3D View
         <MPRViewer
+          key={mprPlaneRevision}
           ctImages={ctImages}
           windowLevel={windowLevel[0]}
           windowWidth={windowWidth[0]}
@@ -1259,6 +1553,17 @@ export const DicomViewer = ({ ctImages, rtStruct, probabilityMap, onBack }: Dico
           onWindowWidthChange={(width) => setWindowWidth([width])}
           rtStruct={rtStruct}
           structures={drawing.structures}
+          rtDose={rtDose}
+          doseSettings={doseSettings ?? undefined}
+          activeStructureId={drawing.activeStructureId}
+          onActiveStructureChange={drawing.setActiveStructure}
+          onEditStructure={replaceStructure}
+          initialPlane={mprPlane ?? undefined}
+          onPlaneChange={setMprPlane}
+          slabMode={slabMode}
+          slabThickness={slabThickness}
+          onSlabModeChange={setSlabMode}
+          onSlabThicknessChange={setSlabThickness}
         />
       ) : (
         // Standard Single-Plane View
@@ -1414,7 +1719,7 @@ export const DicomViewer = ({ ctImages, rtStruct, probabilityMap, onBack }: Dico
                   {/* W/L Presets */}
                   <div>
                     <label className="text-xs text-muted-foreground mb-1 block">Window/Level Presets</label>
-                    <Select onValueChange={applyWindowPreset}>
+                    <Select value={activeWindowPreset ?? ""} onValueChange={applyWindowPreset}>
                       <SelectTrigger className="w-full h-8 text-xs">
                         <SelectValue placeholder="Select preset..." />
                       </SelectTrigger>
@@ -1428,6 +1733,16 @@ export const DicomViewer = ({ ctImages, rtStruct, probabilityMap, onBack }: Dico
                     </Select>
                   </div>
 
+                  <div>
+                    <label className="text-xs text-muted-foreground mb-1 block">Slab Projection</label>
+                    <SlabControls
+                      mode={slabMode}
+                      thickness={slabThickness}
+                      onModeChange={setSlabMode}
+                      onThicknessChange={setSlabThickness}
+                    />
+                  </div>
+
                   <div>
                     <div className="flex justify-between items-center mb-1">
                       <label className="text-xs text-muted-foreground">Window Level</label>
@@ -1514,6 +1829,38 @@ export const DicomViewer = ({ ctImages, rtStruct, probabilityMap, onBack }: Dico
                 </div>
               </div>
 
+              {/* Probability Map */}
+              {probSettings && (
+                <ProbabilityMapPanel
+                  settings={probSettings}
+                  onSettingsChange={setProbSettings}
+                  largestComponentOnly={probLargestComponentOnly}
+                  onLargestComponentOnlyChange={setProbLargestComponentOnly}
+                  onConvert={convertProbabilityMap}
+                />
+              )}
+
+              {/* Dose Display */}
+              {rtDose && doseSettings && (
+                <DosePanel
+                  rtDose={rtDose}
+                  settings={doseSettings}
+                  onSettingsChange={setDoseSettings}
+                  onShowDVH={() => setShowDVH(true)}
+                />
+              )}
+
+              {/* Review Notes */}
+              <ReviewCommentsPanel
+                comments={comments}
+                structures={drawing.structures}
+                currentSlice={currentSlice}
+                activeStructureId={drawing.activeStructureId}
+                onAddComment={(comment) => setComments(prev => [...prev, comment])}
+                onDeleteComment={(id) => setComments(prev => prev.filter(c => c.id !== id))}
+                onGoToSlice={setCurrentSlice}
+              />
+
               {/* Structures List */}
               <StructureList
                 structures={drawing.structures}
@@ -1522,7 +1869,11 @@ export const DicomViewer = ({ ctImages, rtStruct, probabilityMap, onBack }: Dico
                 onToggleVisibility={toggleRTStructureVisibility}
                 onStartEditing={startEditingRTStructure}
                 onAddStructure={addNewStructure}
+                onImportLabelMap={() => setShowLabelMapImport(true)}
+                onImportJSON={importStructureJSON}
                 onInterpolate={interpolateSlices}
+                interpolationMaxGap={interpolationMaxGap}
+                onInterpolationMaxGapChange={setInterpolationMaxGap}
                 getContoursForSlice={drawing.getContoursForSlice}
               />
 
@@ -1573,6 +1924,72 @@ export const DicomViewer = ({ ctImages, rtStruct, probabilityMap, onBack }: Dico
         onOpenChange={setShowShortcutsHelp}
         shortcuts={keyboardShortcuts}
       />
+      <LabelMapImportDialog
+        open={showLabelMapImport}
+        onOpenChange={setShowLabelMapImport}
+        ctImages={ctImages}
+        onImport={importLabelMap}
+        onError={(message) => toast({
+          title: "Label map import failed",
+          description: message,
+          variant: "destructive",
+        })}
+      />
+      <SegExportDialog
+        open={showSegExport}
+        onOpenChange={setShowSegExport}
+        structures={drawing.structures}
+        onExport={(structures) => handleDownload('dicom-seg', structures)}
+      />
+      <AlertDialog open={session.savedSession !== null}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore previous session?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {session.savedSession && (
+                <>
+                  Autosaved work on this series from {new Date(session.savedSession.savedAt).toLocaleString()} was
+                  found ({session.savedSession.structures.length} structure
+                  {session.savedSession.structures.length === 1 ? "" : "s"}). Restoring replaces the structures
+                  loaded with the series; discarding deletes the saved session.
+                </>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={session.discardSession}>Discard</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                session.restoreSession();
+                toast({
+                  title: "Session restored",
+                  description: "Structures and undo history are back as they were autosaved",
+                });
+              }}
+            >
+              Restore
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      <MeshExportDialog
+        open={showMeshExport}
+        onOpenChange={setShowMeshExport}
+        structures={drawing.structures}
+        onExport={(structures, options) => handleDownload('mesh', structures, options)}
+      />
+      {rtDose && (
+        <DVHPanel
+          open={showDVH}
+          onOpenChange={setShowDVH}
+          structures={drawing.structures}
+          ctImages={ctImages}
+          rtDose={rtDose}
+          referenceDose={doseSettings?.referenceDose}
+          metrics={dvhMetrics}
+          onMetricsChange={setDvhMetrics}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -2,6 +2,8 @@ import { useRef, useEffect, useCallback, useState, memo } from 'react';
 import { Point2D, Contour } from "@/types";
 import { DrawingTool, SelectedContour } from '@/hooks/useDrawing';
 
+const POINT_MARKER_RADIUS = 5;
+
 interface DrawingCanvasProps {
   width: number;
   height: number;
@@ -77,6 +79,23 @@ export function DrawingCanvasComponent({
 
     // Render saved contours
     contours.forEach(contour => {
+      // POINT contours (e.g. markers, isocenters) are drawn as crosshair markers
+      if (contour.geometricType === 'POINT') {
+        ctx.strokeStyle = contour.color;
+        ctx.lineWidth = 2;
+        ctx.setLineDash([]);
+        contour.points.forEach(point => {
+          ctx.beginPath();
+          ctx.arc(point.x, point.y, POINT_MARKER_RADIUS, 0, 2 * Math.PI);
+          ctx.moveTo(point.x - POINT_MARKER_RADIUS * 1.6, point.y);
+          ctx.lineTo(point.x + POINT_MARKER_RADIUS * 1.6, point.y);
+          ctx.moveTo(point.x, point.y - POINT_MARKER_RADIUS * 1.6);
+          ctx.lineTo(point.x, point.y + POINT_MARKER_RADIUS * 1.6);
+          ctx.stroke();
+        });
+        return;
+      }
+
       if (contour.points.length < 2) return;
 
       ctx.strokeStyle = contour.color;
@@ -95,6 +114,8 @@ export function DrawingCanvasComponent({
         ctx.fill();
       }
 
+      // Interpolated contours are dashed until they are edited by hand
+      ctx.setLineDash(contour.interpolated ? [6, 4] : []);
       ctx.beginPath();
       ctx.moveTo(contour.points[0].x, contour.points[0].y);
       contour.points.slice(1).forEach(point => {
@@ -106,6 +127,7 @@ export function DrawingCanvasComponent({
       }
 
       ctx.stroke();
+      ctx.setLineDash([]);
     });
 
     // Render current drawing path
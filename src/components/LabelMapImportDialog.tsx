@@ -0,0 +1,112 @@
+import { useState } from "react";
+import { FileInput, Loader2 } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { DicomImage } from "@/types";
+import { DicomProcessor } from "@/lib/dicom-utils";
+import { filesFromFileList } from "@/lib/file-import";
+import { segmentationToStructures } from "@/lib/seg-utils";
+import { LabelMapImport, labelLayersToStructures, parseLabelTable } from "@/lib/labelmap-import";
+import { readLabelMapLayers, VOLUME_FILE_ACCEPT } from "@/lib/volume-import";
+
+interface LabelMapImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  ctImages: DicomImage[];
+  onImport: (result: LabelMapImport) => void;
+  onError: (message: string) => void;
+}
+
+export const LabelMapImportDialog = ({
+  open,
+  onOpenChange,
+  ctImages,
+  onImport,
+  onError,
+}: LabelMapImportDialogProps) => {
+  // Several files for detached headers (.mhd + .raw, .nhdr + data file)
+  const [labelMapFiles, setLabelMapFiles] = useState<File[]>([]);
+  const [labelTableFile, setLabelTableFile] = useState<File | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const handleImport = async () => {
+    if (labelMapFiles.length === 0) return;
+    setIsImporting(true);
+    try {
+      let result: LabelMapImport;
+      if (labelMapFiles[0].name.toLowerCase().endsWith(".dcm")) {
+        // DICOM SEG carries its own segment names and colors
+        const segmentation = DicomProcessor.parseSegmentation(await labelMapFiles[0].arrayBuffer());
+        if (!segmentation) throw new Error("Not a DICOM Segmentation");
+        result = segmentationToStructures(segmentation, ctImages);
+      } else {
+        const layers = await readLabelMapLayers(filesFromFileList(labelMapFiles));
+        const table = labelTableFile ? parseLabelTable(await labelTableFile.text()) : undefined;
+        result = labelLayersToStructures(layers, ctImages, table);
+      }
+      if (result.structures.length === 0) {
+        throw new Error(result.unmatchedSlices > 0
+          ? "The label map does not overlap the loaded images"
+          : "The label map contains no labels");
+      }
+      onImport(result);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Label map import failed:", error);
+      onError(error instanceof Error ? error.message : "Unknown error");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileInput className="h-5 w-5" />
+            Import Label Map
+          </DialogTitle>
+          <DialogDescription>
+            Each non-zero label becomes an editable structure, outlined on every slice.
+            DICOM SEG and Slicer segmentations (.seg.nrrd) keep their segment names and colors.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <label htmlFor="labelmap-file" className="text-sm text-muted-foreground">
+              Label map (DICOM SEG, .nii/.nii.gz, .seg.nrrd/.nrrd, .mha, or .nhdr/.mhd with their data file)
+            </label>
+            <Input
+              id="labelmap-file"
+              type="file"
+              multiple
+              accept={`.dcm,${VOLUME_FILE_ACCEPT}`}
+              onChange={e => setLabelMapFiles(Array.from(e.target.files || []))}
+            />
+          </div>
+          <div>
+            <label htmlFor="labelmap-table" className="text-sm text-muted-foreground">
+              Label names (optional: JSON or ITK-SNAP label file)
+            </label>
+            <Input
+              id="labelmap-table"
+              type="file"
+              accept=".json,.txt,.label"
+              onChange={e => setLabelTableFile(e.target.files?.[0] || null)}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button variant="medical" onClick={handleImport} disabled={labelMapFiles.length === 0 || isImporting}>
+            {isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : "Import"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
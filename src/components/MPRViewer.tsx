@@ -3,20 +3,45 @@ import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Slider } from "@/components/ui/slider";
 import { Badge } from "@/components/ui/badge";
-import { DicomImage, DicomRTStruct, Point2D, Contour, Structure3D } from "@/types";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DicomImage, DicomRTStruct, DicomRTDose, MPRPlaneState, Point2D, Contour, Structure3D } from "@/types";
 import {
   buildMPRVolume,
+  describeResampling,
   getAxialSlice,
   getSagittalSlice,
   getCoronalSlice,
+  getObliqueSlice,
+  getObliqueSliceTransform,
+  getSlabSlice,
+  getPaneDimensions,
   renderMPRSliceToCanvas,
   updateCrosshair,
   canvasToVolumeCoords,
+  obliqueSliceToVolume,
+  crosshairPanePosition,
+  referenceLineDirection,
+  rotateAboutPlaneNormal,
+  isOrthogonalPane,
+  IDENTITY_ROTATION,
+  DEFAULT_SLAB_THICKNESS,
+  SlabMode,
+  MPRSlice,
   MPRVolume,
   MPRCrosshair,
+  Quaternion,
   ViewPlane,
 } from "@/lib/mpr-utils";
-import { RotateCcw, Maximize2, Eye, EyeOff } from "lucide-react";
+import {
+  applyPlaneEdit,
+  EditablePlane,
+  PlaneEditMode,
+  structurePlaneOutlines,
+} from "@/lib/mpr-editing";
+import { DoseDisplaySettings, renderDoseOverlay, resampleDoseToMPRSlice } from "@/lib/dose-utils";
+import { DoseLegend } from "@/components/viewer/DosePanel";
+import { SlabControls } from "@/components/viewer/SlabControls";
+import { RotateCcw, Maximize2, Eye, EyeOff, Brush, Eraser, MousePointer, Link, AlertTriangle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 
 
@@ -28,8 +53,86 @@ interface MPRViewerProps {
   onWindowWidthChange: (width: number) => void;
   rtStruct?: DicomRTStruct;
   structures?: Structure3D[];
+  rtDose?: DicomRTDose;
+  doseSettings?: DoseDisplaySettings;
+  // Contouring on the sagittal and coronal panes; edits replace the structure
+  activeStructureId?: string | null;
+  onActiveStructureChange?: (structureId: string) => void;
+  onEditStructure?: (structure: Structure3D) => void;
+  // Planes to open on, and a callback as the crosshair or rotation changes
+  initialPlane?: MPRPlaneState;
+  onPlaneChange?: (plane: MPRPlaneState) => void;
+  // Thick-slab projection of every pane; null shows single planes
+  slabMode?: SlabMode | null;
+  slabThickness?: number;
+  onSlabModeChange?: (mode: SlabMode | null) => void;
+  onSlabThicknessChange?: (thickness: number) => void;
+}
+
+const VIEW_PLANES: ViewPlane[] = ['axial', 'sagittal', 'coronal'];
+
+// Planes a region drawn on a sagittal or coronal pane covers
+const EDIT_THICKNESS_OPTIONS = [1, 3, 5, 7];
+
+// Rotation handles on the reference lines, as a fraction of the shorter canvas side
+const ROTATE_HANDLE_DISTANCE = 0.35;
+const ROTATE_HANDLE_RADIUS = 4;
+
+/**
+ * Mouse position as MPR slice pixel coordinates, for a slice of `width` x `height`
+ */
+function eventToSlicePoint(e: React.MouseEvent<HTMLCanvasElement>, width: number, height: number): Point2D {
+  const rect = e.currentTarget.getBoundingClientRect();
+  return {
+    x: ((e.clientX - rect.left) / rect.width) * width,
+    y: ((e.clientY - rect.top) / rect.height) * height,
+  };
+}
+
+/**
+ * Mouse position in canvas pixels
+ */
+function eventToCanvasPoint(e: React.MouseEvent<HTMLCanvasElement>): Point2D {
+  const canvas = e.currentTarget;
+  const rect = canvas.getBoundingClientRect();
+  return {
+    x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+    y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+  };
 }
 
+/**
+ * Crosshair position on a pane, in canvas pixels
+ */
+function paneCrosshair(
+  canvas: HTMLCanvasElement,
+  volume: MPRVolume,
+  plane: ViewPlane,
+  crosshair: MPRCrosshair,
+  rotation: Quaternion
+): Point2D {
+  const { width, height } = getPaneDimensions(volume, plane);
+  const position = crosshairPanePosition(volume, plane, crosshair, rotation);
+  return { x: (position.x / width) * canvas.width, y: (position.y / height) * canvas.height };
+}
+
+/**
+ * Unit direction of another plane's reference line on a pane. Canvases keep
+ * the physical aspect ratio, so directions in pane mm hold on the canvas.
+ */
+function paneLineDirection(plane: ViewPlane, other: ViewPlane, rotation: Quaternion): Point2D {
+  const direction = referenceLineDirection(plane, other, rotation);
+  const length = Math.hypot(direction.x, direction.y) || 1;
+  return { x: direction.x / length, y: direction.y / length };
+}
+
+function handlePositions(canvas: HTMLCanvasElement, centre: Point2D, direction: Point2D): Point2D[] {
+  const distance = ROTATE_HANDLE_DISTANCE * Math.min(canvas.width, canvas.height);
+  return [1, -1].map(sign => ({ x: centre.x + sign * direction.x * distance, y: centre.y + sign * direction.y * distance }));
+}
+
+const clampIndex = (value: number, size: number) => Math.max(0, Math.min(size - 1, Math.round(value)));
+
 export const MPRViewer = ({
   ctImages,
   windowLevel,
@@ -38,6 +141,17 @@ export const MPRViewer = ({
   onWindowWidthChange,
   rtStruct,
   structures = [],
+  rtDose,
+  doseSettings,
+  activeStructureId = null,
+  onActiveStructureChange,
+  onEditStructure,
+  initialPlane,
+  onPlaneChange,
+  slabMode = null,
+  slabThickness = DEFAULT_SLAB_THICKNESS,
+  onSlabModeChange,
+  onSlabThicknessChange,
 }: MPRViewerProps) => {
   const { toast } = useToast();
 
@@ -56,35 +170,88 @@ export const MPRViewer = ({
     coronalIndex: 0,
   });
 
+  // Turn of all three planes; identity shows the orthogonal planes
+  const [rotation, setRotation] = useState<Quaternion>(IDENTITY_ROTATION);
+  // Dragging a reference line handle turns the planes about that pane's normal
+  const rotateDragRef = useRef<{ plane: ViewPlane; startAngle: number; startRotation: Quaternion } | null>(null);
+  const suppressClickRef = useRef(false);
+  const initialPlaneRef = useRef(initialPlane);
+
   const [focusedPanel, setFocusedPanel] = useState<ViewPlane | null>(null);
 
   // Structure visibility toggle
   const [showStructures, setShowStructures] = useState(true);
 
+  // Contouring on the sagittal and coronal panes; null navigates
+  const [editMode, setEditMode] = useState<PlaneEditMode | null>(null);
+  const [editThickness, setEditThickness] = useState(1);
+  // Stroke being drawn, in MPR slice pixel coordinates
+  const strokeRef = useRef<{ plane: EditablePlane; points: Point2D[] } | null>(null);
+  const activeStructure = structures.find(s => s.id === activeStructureId);
+
   // Build MPR volume on mount
   useEffect(() => {
     if (ctImages.length > 0) {
       const mprVolume = buildMPRVolume(ctImages);
       if (mprVolume) {
         setVolume(mprVolume);
-        // Initialize crosshair to center of volume
-        setCrosshair({
+        // Open on the shared planes when given, else the center of the volume
+        const plane = initialPlaneRef.current;
+        setCrosshair(plane ? {
+          axialIndex: clampIndex(plane.axialIndex, mprVolume.depth),
+          sagittalIndex: clampIndex(plane.sagittalIndex, mprVolume.width),
+          coronalIndex: clampIndex(plane.coronalIndex, mprVolume.height),
+        } : {
           axialIndex: Math.floor(mprVolume.depth / 2),
           sagittalIndex: Math.floor(mprVolume.width / 2),
           coronalIndex: Math.floor(mprVolume.height / 2),
         });
+        setRotation(plane?.rotation ?? IDENTITY_ROTATION);
 
+        const warning = describeResampling(mprVolume);
         toast({
-          title: "MPR View Ready",
-          description: `3D volume built: ${mprVolume.width}×${mprVolume.height}×${mprVolume.depth}`,
+          title: warning ? "MPR View Ready - slices resampled" : "MPR View Ready",
+          description: warning ?? `3D volume built: ${mprVolume.width}×${mprVolume.height}×${mprVolume.depth}`,
         });
       }
     }
   }, [ctImages, toast]);
 
-  // Helper function to render structures on canvas for a given plane
-  // NOTE: Currently only supports axial plane rendering. Sagittal and coronal
-  // structure rendering would require coordinate transformations for non-axial slices.
+  useEffect(() => {
+    if (volume) onPlaneChange?.({ ...crosshair, rotation });
+  }, [volume, crosshair, rotation, onPlaneChange]);
+
+  // Draw isodose lines / color wash over a plane; the MPR slice fills the canvas
+  const renderDoseOnCanvas = useCallback(
+    (canvas: HTMLCanvasElement, plane: ViewPlane, index: number) => {
+      if (!volume || !rtDose || !doseSettings) return;
+
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+
+      const doseSlice = resampleDoseToMPRSlice(rtDose, volume, plane, index);
+      renderDoseOverlay(ctx, doseSlice, doseSettings, 0, 0, canvas.width, canvas.height);
+    },
+    [volume, rtDose, doseSettings]
+  );
+
+  // Pane image: orthogonal planes are copied from the volume, turned ones
+  // resampled, and slabs projected around either
+  const getPaneSlice = useCallback(
+    (plane: ViewPlane): MPRSlice | null => {
+      if (!volume) return null;
+      if (slabMode) return getSlabSlice(volume, plane, crosshair, rotation, { mode: slabMode, thickness: slabThickness });
+      if (!isOrthogonalPane(plane, rotation)) return getObliqueSlice(volume, plane, crosshair, rotation);
+      return plane === 'axial' ? getAxialSlice(volume, crosshair.axialIndex) :
+        plane === 'sagittal' ? getSagittalSlice(volume, crosshair.sagittalIndex) :
+          getCoronalSlice(volume, crosshair.coronalIndex);
+    },
+    [volume, crosshair, rotation, slabMode, slabThickness]
+  );
+
+  // Helper function to render structures on canvas for a given plane. The
+  // orthogonal axial pane draws the contours; other panes outline the voxels
+  // the axial contours enclose where the plane cuts them.
   const renderStructuresOnCanvas = useCallback(
     (canvas: HTMLCanvasElement, plane: ViewPlane) => {
       if (!volume || !showStructures) return;
@@ -92,241 +259,272 @@ export const MPRViewer = ({
       const ctx = canvas.getContext('2d');
       if (!ctx) return;
 
-      // Get current slice index for this plane
-      const currentSliceIndex =
-        plane === 'axial' ? crosshair.axialIndex :
-          plane === 'sagittal' ? crosshair.sagittalIndex :
-            crosshair.coronalIndex;
-
-      // Get the current slice to know dimensions
-      let slice;
-      if (plane === 'axial') {
-        slice = getAxialSlice(volume, currentSliceIndex);
-      } else if (plane === 'sagittal') {
-        slice = getSagittalSlice(volume, currentSliceIndex);
-      } else {
-        slice = getCoronalSlice(volume, currentSliceIndex);
-      }
-
-      // Render ALL structures from the unified state (both loaded RT and new drawings)
-      // Currently only supports axial plane rendering
-      if (plane === 'axial') {
+      if (plane !== 'axial' || !isOrthogonalPane(plane, rotation)) {
+        const { width, height } = getPaneDimensions(volume, plane);
         structures.forEach((structure) => {
           if (!structure.visible) return;
 
+          const outlines = structurePlaneOutlines(structure, volume, ctImages, plane, crosshair, rotation);
+          if (outlines.length === 0) return;
+
+          ctx.beginPath();
+          outlines.forEach((loop) => {
+            loop.forEach((point, i) => {
+              const canvasX = (point.x / width) * canvas.width;
+              const canvasY = (point.y / height) * canvas.height;
+              if (i === 0) ctx.moveTo(canvasX, canvasY);
+              else ctx.lineTo(canvasX, canvasY);
+            });
+            ctx.closePath();
+          });
+          ctx.fillStyle = structure.color + '20';
+          ctx.fill('evenodd');
           ctx.strokeStyle = structure.color;
-          ctx.lineWidth = 2;
+          ctx.lineWidth = structure.id === activeStructureId && editMode ? 2 : 1.5;
           ctx.setLineDash([]);
+          ctx.stroke();
+        });
+        return;
+      }
+
+      const currentSliceIndex = crosshair.axialIndex;
+      const slice = getPaneDimensions(volume, 'axial');
+      const currentImage = volume.axialSlices[currentSliceIndex];
+      if (!currentImage) return;
+      // Contours refer to slices in load order; the volume sorts its own
+      const imageIndex = ctImages.indexOf(currentImage);
+
+      // Render ALL structures from the unified state (both loaded RT and new drawings)
+      structures.forEach((structure) => {
+        if (!structure.visible) return;
+
+        ctx.strokeStyle = structure.color;
+        ctx.lineWidth = 2;
+
+        structure.contours.forEach((contour) => {
+          if (contour.points.length === 0) return;
+
+          if (contour.sliceIndex === imageIndex) {
+            ctx.setLineDash(contour.interpolated ? [6, 4] : []);
+            ctx.beginPath();
+            let started = false;
+            contour.points.forEach((worldPoint) => {
+              // Convert world coordinates to volume pixel coordinates
+              const [originX, originY] = volume.sliceOrigins[currentSliceIndex];
+              const pixelX = (worldPoint.x - originX) / volume.pixelSpacing[0];
+              const pixelY = (worldPoint.y - originY) / volume.pixelSpacing[1];
+
+              // Convert pixel coordinates to canvas coordinates
+              const canvasX = (pixelX / slice.width) * canvas.width;
+              const canvasY = (pixelY / slice.height) * canvas.height;
+
+              if (contour.geometricType === 'POINT') {
+                // Point markers are drawn as small circles
+                ctx.moveTo(canvasX + 4, canvasY);
+                ctx.arc(canvasX, canvasY, 4, 0, 2 * Math.PI);
+                return;
+              }
 
-          structure.contours.forEach((contour) => {
-            if (contour.points.length === 0) return;
-
-            // For axial plane: match by slice index
-            // Note: We use sliceIndex for efficiency, but could also check Z coordinate
-            if (contour.sliceIndex === currentSliceIndex) {
-              ctx.beginPath();
-              let started = false;
-              contour.points.forEach((worldPoint) => {
-                const currentImage = volume.axialSlices[currentSliceIndex];
-                if (!currentImage) return;
-
-                // Convert world coordinates to pixel coordinates
-                const imagePosition = currentImage.imagePosition || [0, 0, 0];
-                const pixelSpacing = currentImage.pixelSpacing || [1, 1];
-                const pixelX = (worldPoint.x - imagePosition[0]) / pixelSpacing[0];
-                const pixelY = (worldPoint.y - imagePosition[1]) / pixelSpacing[1];
-
-                // Convert pixel coordinates to canvas coordinates
-                const canvasX = (pixelX / slice.width) * canvas.width;
-                const canvasY = (pixelY / slice.height) * canvas.height;
-
-                if (!started) {
-                  ctx.moveTo(canvasX, canvasY);
-                  started = true;
-                } else {
-                  ctx.lineTo(canvasX, canvasY);
-                }
-              });
-              if (contour.isClosed) {
-                ctx.closePath();
+              if (!started) {
+                ctx.moveTo(canvasX, canvasY);
+                started = true;
+              } else {
+                ctx.lineTo(canvasX, canvasY);
               }
-              ctx.stroke();
+            });
+            if (contour.isClosed) {
+              ctx.closePath();
             }
-          });
+            ctx.stroke();
+          }
         });
-      }
+      });
+      ctx.setLineDash([]);
     },
-    [volume, showStructures, crosshair, rtStruct, structures]
+    [volume, showStructures, crosshair, rotation, ctImages, structures, activeStructureId, editMode]
   );
 
-  // Render axial view
-  useEffect(() => {
-    if (!volume || !axialCanvasRef.current) return;
+  // Draw a pane: image, dose, structures, then the reference lines of the other two planes
+  const renderPane = useCallback(
+    (plane: ViewPlane) => {
+      const canvas = (plane === 'axial' ? axialCanvasRef : plane === 'sagittal' ? sagittalCanvasRef : coronalCanvasRef).current;
+      const slice = getPaneSlice(plane);
+      if (!volume || !canvas || !slice) return;
 
-    const slice = getAxialSlice(volume, crosshair.axialIndex);
-    renderMPRSliceToCanvas(
-      axialCanvasRef.current,
-      slice,
-      volume,
-      windowLevel,
-      windowWidth
-    );
+      renderMPRSliceToCanvas(canvas, slice, volume, windowLevel, windowWidth);
 
-    // Draw structures
-    renderStructuresOnCanvas(axialCanvasRef.current, 'axial');
+      // Dose is resampled onto the orthogonal planes only
+      if (isOrthogonalPane(plane, rotation)) {
+        const index = plane === 'axial' ? crosshair.axialIndex :
+          plane === 'sagittal' ? crosshair.sagittalIndex : crosshair.coronalIndex;
+        renderDoseOnCanvas(canvas, plane, index);
+      }
+      renderStructuresOnCanvas(canvas, plane);
+
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      const centre = paneCrosshair(canvas, volume, plane, crosshair, rotation);
+      const reach = Math.hypot(canvas.width, canvas.height);
 
-    // Draw crosshair
-    const ctx = axialCanvasRef.current.getContext('2d');
-    if (ctx) {
-      const canvas = axialCanvasRef.current;
       ctx.strokeStyle = '#00ff00';
+      ctx.fillStyle = '#00ff00';
       ctx.lineWidth = 1;
-      ctx.setLineDash([5, 5]);
-
-      // Vertical line (sagittal position)
-      const xPos = (crosshair.sagittalIndex / slice.width) * canvas.width;
-      ctx.beginPath();
-      ctx.moveTo(xPos, 0);
-      ctx.lineTo(xPos, canvas.height);
-      ctx.stroke();
-
-      // Horizontal line (coronal position)
-      const yPos = (crosshair.coronalIndex / slice.height) * canvas.height;
-      ctx.beginPath();
-      ctx.moveTo(0, yPos);
-      ctx.lineTo(canvas.width, yPos);
-      ctx.stroke();
-
+      VIEW_PLANES.filter(other => other !== plane).forEach((other) => {
+        const direction = paneLineDirection(plane, other, rotation);
+        ctx.setLineDash([5, 5]);
+        ctx.beginPath();
+        ctx.moveTo(centre.x - direction.x * reach, centre.y - direction.y * reach);
+        ctx.lineTo(centre.x + direction.x * reach, centre.y + direction.y * reach);
+        ctx.stroke();
+
+        // Handles to turn the planes about this pane's normal
+        ctx.setLineDash([]);
+        handlePositions(canvas, centre, direction).forEach((handle) => {
+          ctx.beginPath();
+          ctx.arc(handle.x, handle.y, ROTATE_HANDLE_RADIUS, 0, 2 * Math.PI);
+          ctx.fill();
+        });
+      });
       ctx.setLineDash([]);
-    }
-  }, [volume, crosshair, windowLevel, windowWidth, renderStructuresOnCanvas]);
+    },
+    [volume, crosshair, rotation, windowLevel, windowWidth, getPaneSlice, renderDoseOnCanvas, renderStructuresOnCanvas]
+  );
 
-  // Render sagittal view
   useEffect(() => {
-    if (!volume || !sagittalCanvasRef.current) return;
+    VIEW_PLANES.forEach(renderPane);
+  }, [renderPane]);
 
-    const slice = getSagittalSlice(volume, crosshair.sagittalIndex);
-    renderMPRSliceToCanvas(
-      sagittalCanvasRef.current,
-      slice,
-      volume,
-      windowLevel,
-      windowWidth
-    );
-
-    // Draw structures
-    renderStructuresOnCanvas(sagittalCanvasRef.current, 'sagittal');
-
-    // Draw crosshair (account for flipped Z)
-    const ctx = sagittalCanvasRef.current.getContext('2d');
-    if (ctx) {
-      const canvas = sagittalCanvasRef.current;
-      ctx.strokeStyle = '#00ff00';
-      ctx.lineWidth = 1;
-      ctx.setLineDash([5, 5]);
-
-      // Vertical line (axial position) - Z is flipped
-      const flippedZ = volume.depth - 1 - crosshair.axialIndex;
-      const xPos = (flippedZ / slice.width) * canvas.width;
-      ctx.beginPath();
-      ctx.moveTo(xPos, 0);
-      ctx.lineTo(xPos, canvas.height);
-      ctx.stroke();
+  // Handle canvas click to update crosshair
+  const handleCanvasClick = useCallback(
+    (plane: ViewPlane, e: React.MouseEvent<HTMLCanvasElement>) => {
+      // While contouring, clicks on the sagittal and coronal panes draw instead
+      if (!volume || (editMode && plane !== 'axial')) return;
+      // The click that ends turning the planes leaves the crosshair where it is
+      if (suppressClickRef.current) {
+        suppressClickRef.current = false;
+        return;
+      }
 
-      // Horizontal line (coronal position)
-      const yPos = (crosshair.coronalIndex / slice.height) * canvas.height;
-      ctx.beginPath();
-      ctx.moveTo(0, yPos);
-      ctx.lineTo(canvas.width, yPos);
-      ctx.stroke();
+      const { width, height } = getPaneDimensions(volume, plane);
+      const { x: sliceX, y: sliceY } = eventToSlicePoint(e, width, height);
 
-      ctx.setLineDash([]);
-    }
-  }, [volume, crosshair, windowLevel, windowWidth, renderStructuresOnCanvas]);
+      // Update crosshair based on plane
+      if (isOrthogonalPane(plane, rotation)) {
+        const volumeCoords = canvasToVolumeCoords(sliceX, sliceY, plane, crosshair, volume);
+        setCrosshair({
+          axialIndex: volumeCoords.z,
+          sagittalIndex: volumeCoords.x,
+          coronalIndex: volumeCoords.y,
+        });
+        return;
+      }
 
-  // Render coronal view
-  useEffect(() => {
-    if (!volume || !coronalCanvasRef.current) return;
+      const point = obliqueSliceToVolume(sliceX, sliceY, plane, crosshair, rotation, volume);
+      setCrosshair({
+        axialIndex: clampIndex(point.z, volume.depth),
+        sagittalIndex: clampIndex(point.x, volume.width),
+        coronalIndex: clampIndex(point.y, volume.height),
+      });
+    },
+    [volume, crosshair, rotation, editMode]
+  );
 
-    const slice = getCoronalSlice(volume, crosshair.coronalIndex);
-    renderMPRSliceToCanvas(
-      coronalCanvasRef.current,
-      slice,
-      volume,
-      windowLevel,
-      windowWidth
-    );
+  // Turning the planes by dragging a reference line handle, and contouring on the sagittal and coronal panes
+  const handleMouseDown = useCallback(
+    (plane: ViewPlane, e: React.MouseEvent<HTMLCanvasElement>) => {
+      if (!volume || e.button !== 0) return;
+
+      if (!editMode) {
+        const canvas = e.currentTarget;
+        const point = eventToCanvasPoint(e);
+        const centre = paneCrosshair(canvas, volume, plane, crosshair, rotation);
+        const onHandle = VIEW_PLANES.filter(other => other !== plane).some(other =>
+          handlePositions(canvas, centre, paneLineDirection(plane, other, rotation)).some(handle =>
+            Math.hypot(point.x - handle.x, point.y - handle.y) <= ROTATE_HANDLE_RADIUS * 2
+          )
+        );
+        if (onHandle) {
+          rotateDragRef.current = {
+            plane,
+            startAngle: Math.atan2(point.y - centre.y, point.x - centre.x),
+            startRotation: rotation,
+          };
+        }
+        return;
+      }
 
-    // Draw structures
-    renderStructuresOnCanvas(coronalCanvasRef.current, 'coronal');
+      if (plane === 'axial' || !activeStructure || !onEditStructure) return;
+      const { width, height } = getPaneDimensions(volume, plane);
+      strokeRef.current = { plane, points: [eventToSlicePoint(e, width, height)] };
+    },
+    [volume, crosshair, rotation, editMode, activeStructure, onEditStructure]
+  );
 
-    // Draw crosshair (account for flipped Z)
-    const ctx = coronalCanvasRef.current.getContext('2d');
-    if (ctx) {
-      const canvas = coronalCanvasRef.current;
-      ctx.strokeStyle = '#00ff00';
-      ctx.lineWidth = 1;
-      ctx.setLineDash([5, 5]);
+  const handleMouseMove = useCallback(
+    (plane: ViewPlane, e: React.MouseEvent<HTMLCanvasElement>) => {
+      const drag = rotateDragRef.current;
+      if (volume && drag && drag.plane === plane) {
+        const point = eventToCanvasPoint(e);
+        const centre = paneCrosshair(e.currentTarget, volume, plane, crosshair, drag.startRotation);
+        const angle = Math.atan2(point.y - centre.y, point.x - centre.x);
+        setRotation(rotateAboutPlaneNormal(drag.startRotation, plane, angle - drag.startAngle));
+        suppressClickRef.current = true;
+        return;
+      }
 
-      // Vertical line (sagittal position)
-      const xPos = (crosshair.sagittalIndex / slice.width) * canvas.width;
-      ctx.beginPath();
-      ctx.moveTo(xPos, 0);
-      ctx.lineTo(xPos, canvas.height);
-      ctx.stroke();
+      const stroke = strokeRef.current;
+      if (!volume || !stroke || stroke.plane !== plane) return;
+      const { width, height } = getPaneDimensions(volume, stroke.plane);
+      const point = eventToSlicePoint(e, width, height);
+      const last = stroke.points[stroke.points.length - 1];
+      stroke.points.push(point);
 
-      // Horizontal line (axial position) - Z is flipped
-      const flippedZ = volume.depth - 1 - crosshair.axialIndex;
-      const yPos = (flippedZ / slice.height) * canvas.height;
+      // Draw the stroke straight onto the pane; it is redrawn once the edit is applied
+      const canvas = e.currentTarget;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      ctx.strokeStyle = editMode === 'erase' ? '#ff4444' : activeStructure?.color ?? '#00ff00';
+      ctx.lineWidth = 2;
+      ctx.setLineDash([]);
       ctx.beginPath();
-      ctx.moveTo(0, yPos);
-      ctx.lineTo(canvas.width, yPos);
+      ctx.moveTo((last.x / width) * canvas.width, (last.y / height) * canvas.height);
+      ctx.lineTo((point.x / width) * canvas.width, (point.y / height) * canvas.height);
       ctx.stroke();
+    },
+    [volume, crosshair, editMode, activeStructure]
+  );
 
-      ctx.setLineDash([]);
-    }
-  }, [volume, crosshair, windowLevel, windowWidth, renderStructuresOnCanvas]);
-
-  // Handle canvas click to update crosshair
-  const handleCanvasClick = useCallback(
-    (plane: ViewPlane, e: React.MouseEvent<HTMLCanvasElement>) => {
-      if (!volume) return;
+  const handleMouseUp = useCallback(() => {
+    rotateDragRef.current = null;
 
-      const canvas = e.currentTarget;
-      const rect = canvas.getBoundingClientRect();
-      const x = e.clientX - rect.left;
-      const y = e.clientY - rect.top;
-
-      // Convert to canvas coordinates (account for display scaling)
-      const scaleX = canvas.width / rect.width;
-      const scaleY = canvas.height / rect.height;
-      const canvasX = x * scaleX;
-      const canvasY = y * scaleY;
-
-      // Get the slice to know its dimensions
-      let slice;
-      if (plane === 'axial') {
-        slice = getAxialSlice(volume, crosshair.axialIndex);
-      } else if (plane === 'sagittal') {
-        slice = getSagittalSlice(volume, crosshair.sagittalIndex);
-      } else {
-        slice = getCoronalSlice(volume, crosshair.coronalIndex);
-      }
+    const stroke = strokeRef.current;
+    strokeRef.current = null;
+    if (!stroke || !volume || !editMode || !activeStructure || !onEditStructure) return;
 
-      // Convert from canvas coordinates to slice pixel coordinates
-      const sliceX = (canvasX / canvas.width) * slice.width;
-      const sliceY = (canvasY / canvas.height) * slice.height;
+    const { structure, editedSlices } = applyPlaneEdit(
+      activeStructure,
+      volume,
+      ctImages,
+      stroke.plane,
+      crosshair,
+      stroke.points,
+      editMode,
+      editThickness,
+      rotation
+    );
+    if (editedSlices > 0) {
+      onEditStructure(structure);
+    } else {
+      // Nothing changed: redraw to clear the stroke
+      setCrosshair(prev => ({ ...prev }));
+    }
+  }, [volume, editMode, activeStructure, onEditStructure, ctImages, crosshair, editThickness, rotation]);
 
-      // Update crosshair based on plane
-      const volumeCoords = canvasToVolumeCoords(sliceX, sliceY, plane, crosshair, volume);
-      setCrosshair({
-        axialIndex: volumeCoords.z,
-        sagittalIndex: volumeCoords.x,
-        coronalIndex: volumeCoords.y,
-      });
-    },
-    [volume, crosshair]
-  );
+  const handleMouseLeave = useCallback(() => {
+    // No click follows a drag that leaves the pane
+    suppressClickRef.current = false;
+    handleMouseUp();
+  }, [handleMouseUp]);
 
   // Handle wheel for scrolling through slices
   const handleWheel = useCallback(
@@ -335,6 +533,17 @@ export const MPRViewer = ({
       if (!volume) return;
 
       const delta = e.deltaY > 0 ? 1 : -1;
+      if (!isOrthogonalPane(plane, rotation)) {
+        // Step along the turned plane's normal
+        const { stepNormal } = getObliqueSliceTransform(volume, plane, crosshair, rotation);
+        setCrosshair({
+          axialIndex: clampIndex(crosshair.axialIndex + delta * stepNormal[2], volume.depth),
+          sagittalIndex: clampIndex(crosshair.sagittalIndex + delta * stepNormal[0], volume.width),
+          coronalIndex: clampIndex(crosshair.coronalIndex + delta * stepNormal[1], volume.height),
+        });
+        return;
+      }
+
       const newCrosshair = updateCrosshair(
         volume,
         plane,
@@ -347,7 +556,7 @@ export const MPRViewer = ({
       );
       setCrosshair(newCrosshair);
     },
-    [volume, crosshair]
+    [volume, crosshair, rotation]
   );
 
   const resetView = () => {
@@ -358,13 +567,30 @@ export const MPRViewer = ({
         coronalIndex: Math.floor(volume.height / 2),
       });
     }
+    setRotation(IDENTITY_ROTATION);
 
     toast({
       title: "View reset",
-      description: "Crosshair returned to center of volume",
+      description: "Crosshair returned to center of volume and planes squared up",
     });
   };
 
+  const copyPlaneLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast({
+        title: "Link copied",
+        description: "Opening it with the same series shows these planes",
+      });
+    } catch (error) {
+      toast({
+        title: "Copy failed",
+        description: error instanceof Error ? error.message : "Copy the address bar instead",
+        variant: "destructive",
+      });
+    }
+  };
+
   if (!volume) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -385,6 +611,17 @@ export const MPRViewer = ({
           <span className="text-xs text-muted-foreground">
             Volume: {volume.width}×{volume.height}×{volume.depth}
           </span>
+          {volume.resampling && (
+            <Badge variant="outline" className="text-xs flex items-center gap-1 border-warning text-warning" title={describeResampling(volume) ?? undefined}>
+              <AlertTriangle className="w-3 h-3" />
+              Resampled
+            </Badge>
+          )}
+          {VIEW_PLANES.some(plane => !isOrthogonalPane(plane, rotation)) && (
+            <Badge variant="outline" className="text-xs">
+              Oblique
+            </Badge>
+          )}
           {(rtStruct || structures.length > 0) && (() => {
             const visibleCount = structures.filter(s => s.visible).length;
             return (
@@ -395,6 +632,73 @@ export const MPRViewer = ({
           })()}
         </div>
         <div className="flex items-center gap-2">
+          {onEditStructure && structures.length > 0 && (
+            <>
+              <Select value={activeStructure?.id ?? ""} onValueChange={(id) => onActiveStructureChange?.(id)}>
+                <SelectTrigger className="h-8 w-40 text-xs" title="Structure to contour">
+                  <SelectValue placeholder="Structure..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {structures.map(structure => (
+                    <SelectItem key={structure.id} value={structure.id} className="text-xs">
+                      <span className="flex items-center gap-2">
+                        <span className="w-2 h-2 rounded-sm inline-block" style={{ backgroundColor: structure.color }} />
+                        {structure.name}
+                      </span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex items-center gap-1">
+                <Button
+                  variant={editMode === null ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setEditMode(null)}
+                  title="Click panes to move the crosshair"
+                >
+                  <MousePointer className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant={editMode === 'add' ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setEditMode('add')}
+                  disabled={!activeStructure}
+                  title="Draw around a region on the sagittal or coronal pane to add it"
+                >
+                  <Brush className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant={editMode === 'erase' ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setEditMode('erase')}
+                  disabled={!activeStructure}
+                  title="Draw around a region on the sagittal or coronal pane to erase it"
+                >
+                  <Eraser className="w-4 h-4" />
+                </Button>
+              </div>
+              <Select value={String(editThickness)} onValueChange={(value) => setEditThickness(Number(value))}>
+                <SelectTrigger className="h-8 w-24 text-xs" title="Planes each edit covers">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EDIT_THICKNESS_OPTIONS.map(thickness => (
+                    <SelectItem key={thickness} value={String(thickness)} className="text-xs">
+                      {thickness} plane{thickness === 1 ? "" : "s"}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </>
+          )}
+          {onSlabModeChange && onSlabThicknessChange && (
+            <SlabControls
+              mode={slabMode}
+              thickness={slabThickness}
+              onModeChange={onSlabModeChange}
+              onThicknessChange={onSlabThicknessChange}
+            />
+          )}
           {(rtStruct || structures.length > 0) && (
             <Button
               variant={showStructures ? "default" : "outline"}
@@ -423,6 +727,10 @@ export const MPRViewer = ({
               )}
             </Button>
           )}
+          <Button variant="outline" size="sm" onClick={copyPlaneLink} title="Copy a link that opens these planes">
+            <Link className="w-4 h-4 mr-1" />
+            Copy Link
+          </Button>
           <Button variant="outline" size="sm" onClick={resetView}>
             <RotateCcw className="w-4 h-4 mr-1" />
             Reset All
@@ -450,6 +758,10 @@ export const MPRViewer = ({
                 cursor: "crosshair",
               }}
               onClick={(e) => handleCanvasClick('axial', e)}
+              onMouseDown={(e) => handleMouseDown('axial', e)}
+              onMouseMove={(e) => handleMouseMove('axial', e)}
+              onMouseUp={handleMouseUp}
+              onMouseLeave={handleMouseLeave}
               onWheel={(e) => handleWheel('axial', e)}
               onFocus={() => setFocusedPanel('axial')}
               onBlur={() => setFocusedPanel(null)}
@@ -485,6 +797,10 @@ export const MPRViewer = ({
                 cursor: "crosshair",
               }}
               onClick={(e) => handleCanvasClick('sagittal', e)}
+              onMouseDown={(e) => handleMouseDown('sagittal', e)}
+              onMouseMove={(e) => handleMouseMove('sagittal', e)}
+              onMouseUp={handleMouseUp}
+              onMouseLeave={handleMouseLeave}
               onWheel={(e) => handleWheel('sagittal', e)}
               onFocus={() => setFocusedPanel('sagittal')}
               onBlur={() => setFocusedPanel(null)}
@@ -520,6 +836,10 @@ export const MPRViewer = ({
                 cursor: "crosshair",
               }}
               onClick={(e) => handleCanvasClick('coronal', e)}
+              onMouseDown={(e) => handleMouseDown('coronal', e)}
+              onMouseMove={(e) => handleMouseMove('coronal', e)}
+              onMouseUp={handleMouseUp}
+              onMouseLeave={handleMouseLeave}
               onWheel={(e) => handleWheel('coronal', e)}
               onFocus={() => setFocusedPanel('coronal')}
               onBlur={() => setFocusedPanel(null)}
@@ -576,9 +896,19 @@ export const MPRViewer = ({
                 <span className="text-muted-foreground">Slice Spacing:</span>
                 <span className="font-mono">{volume.sliceSpacing.toFixed(2)} mm</span>
               </div>
+              {volume.resampling && (
+                <p className="text-warning">{describeResampling(volume)}</p>
+              )}
             </div>
           </div>
 
+          {rtDose && doseSettings && (doseSettings.showIsodoseLines || doseSettings.showColorWash) && (
+            <div>
+              <h3 className="text-sm font-semibold mb-3">Isodose Levels</h3>
+              <DoseLegend settings={doseSettings} doseUnits={rtDose.doseUnits} />
+            </div>
+          )}
+
           <div>
             <h3 className="text-sm font-semibold mb-3">Instructions</h3>
             <ul className="space-y-1 text-xs text-muted-foreground">
@@ -586,6 +916,11 @@ export const MPRViewer = ({
               <li>• Scroll to navigate through slices</li>
               <li>• Drag sliders for precise control</li>
               <li>• Green lines show crosshair position</li>
+              <li>• Drag a dot on a green line to turn the other planes for oblique views</li>
+              <li>• Pick MIP, MinIP or AvgIP to project a slab of the set thickness around each plane</li>
+              {onEditStructure && (
+                <li>• Pick a structure and the brush or eraser, then draw around a region on the sagittal or coronal pane; axial contours are rebuilt on the slices it crosses</li>
+              )}
             </ul>
           </div>
         </Card>
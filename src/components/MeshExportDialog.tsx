@@ -0,0 +1,125 @@
+import { useEffect, useState } from "react";
+import { Box } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { MeshExportOptions, MeshFormat } from "@/lib/mesh-export";
+import { Structure3D } from "@/types";
+
+interface MeshExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  structures: Structure3D[];
+  onExport: (structures: Structure3D[], options: MeshExportOptions) => void;
+}
+
+const MESH_FORMATS: { value: MeshFormat; label: string }[] = [
+  { value: "stl", label: "STL, binary (one file per structure)" },
+  { value: "stl-ascii", label: "STL, ASCII (one file per structure)" },
+  { value: "obj", label: "OBJ + MTL (one scene, colored)" },
+  { value: "ply", label: "PLY, binary (one file per structure, colored)" },
+];
+
+export const MeshExportDialog = ({
+  open,
+  onOpenChange,
+  structures,
+  onExport,
+}: MeshExportDialogProps) => {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [format, setFormat] = useState<MeshFormat>("stl");
+  const [smoothingIterations, setSmoothingIterations] = useState([10]);
+  const [decimation, setDecimation] = useState([50]);
+
+  // Start from the visible structures each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setSelectedIds(new Set(structures.filter(s => s.visible).map(s => s.id)));
+    }
+  }, [open, structures]);
+
+  const toggle = (id: string, checked: boolean) => {
+    const next = new Set(selectedIds);
+    if (checked) next.add(id);
+    else next.delete(id);
+    setSelectedIds(next);
+  };
+
+  const handleExport = () => {
+    onExport(structures.filter(s => selectedIds.has(s.id)), {
+      format,
+      smoothingIterations: smoothingIterations[0],
+      decimation: decimation[0] / 100,
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Box className="h-5 w-5" />
+            Export Surface Meshes
+          </DialogTitle>
+          <DialogDescription>
+            Closed surfaces in patient millimetres, for 3D printing or 3D viewers.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <label className="text-xs text-muted-foreground mb-1 block">Format</label>
+            <Select value={format} onValueChange={(value) => setFormat(value as MeshFormat)}>
+              <SelectTrigger className="w-full h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MESH_FORMATS.map(option => (
+                  <SelectItem key={option.value} value={option.value} className="text-xs">
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <div className="flex justify-between items-center mb-1">
+              <label className="text-xs text-muted-foreground">Smoothing iterations</label>
+              <span className="text-xs text-muted-foreground font-mono">{smoothingIterations[0]}</span>
+            </div>
+            <Slider value={smoothingIterations} onValueChange={setSmoothingIterations} min={0} max={50} step={1} />
+          </div>
+          <div>
+            <div className="flex justify-between items-center mb-1">
+              <label className="text-xs text-muted-foreground">Triangle reduction</label>
+              <span className="text-xs text-muted-foreground font-mono">{decimation[0]}%</span>
+            </div>
+            <Slider value={decimation} onValueChange={setDecimation} min={0} max={95} step={5} />
+          </div>
+          <div className="max-h-56 overflow-y-auto space-y-2">
+            {structures.map(structure => (
+              <label key={structure.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                <Checkbox
+                  checked={selectedIds.has(structure.id)}
+                  onCheckedChange={(checked) => toggle(structure.id, checked === true)}
+                />
+                <div className="w-3 h-3 rounded-sm border flex-shrink-0" style={{ backgroundColor: structure.color }} />
+                <span className="flex-1 truncate">{structure.name}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button variant="medical" onClick={handleExport} disabled={selectedIds.size === 0}>
+            Export {selectedIds.size} mesh{selectedIds.size === 1 ? "" : "es"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
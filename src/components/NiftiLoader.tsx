@@ -5,36 +5,37 @@ import { Input } from '@/components/ui/input';
 import { Loader2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { NiftiProcessor } from '@/lib/nifti-utils';
+import { filesFromFileList } from '@/lib/file-import';
+import { readVolumes, VOLUME_FILE_ACCEPT } from '@/lib/volume-import';
 import { DicomImage } from '@/lib/dicom-utils';
+import { ProbabilityMap } from '@/types';
 
 interface NiftiLoaderProps {
-  onDataLoaded: (data: { ctImages: DicomImage[]; probabilityMap?: Float32Array[] }) => void;
+  onDataLoaded: (data: { ctImages: DicomImage[]; probabilityMap?: ProbabilityMap }) => void;
 }
 
 export const NiftiLoader = ({ onDataLoaded }: NiftiLoaderProps) => {
-  const [ctFile, setCtFile] = useState<File | null>(null);
-  const [probFile, setProbFile] = useState<File | null>(null);
+  // Several files for detached headers (.mhd + .raw, .nhdr + data file)
+  const [ctFiles, setCtFiles] = useState<File[]>([]);
+  const [probFiles, setProbFiles] = useState<File[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const { toast } = useToast();
 
   const handleLoad = async () => {
-    if (!ctFile) return;
+    if (ctFiles.length === 0) return;
     setIsLoading(true);
     try {
-      const ctBuffer = await ctFile.arrayBuffer();
-      const volume = NiftiProcessor.parseVolume(ctBuffer);
-      if (!volume) throw new Error('Invalid NIfTI CT file');
+      const [volume] = await readVolumes(filesFromFileList(ctFiles));
       const ctImages = NiftiProcessor.volumeToDicomImages(volume);
-      let probabilityMap: Float32Array[] | undefined;
-      if (probFile) {
-        const probBuffer = await probFile.arrayBuffer();
-        probabilityMap = NiftiProcessor.parseProbabilityMap(probBuffer) || undefined;
+      let probabilityMap: ProbabilityMap | undefined;
+      if (probFiles.length > 0) {
+        probabilityMap = NiftiProcessor.volumesToProbabilityMap(await readVolumes(filesFromFileList(probFiles)));
       }
       onDataLoaded({ ctImages, probabilityMap });
-      toast({ title: 'NIfTI data loaded', description: `Loaded ${ctImages.length} slices` });
+      toast({ title: 'Volume loaded', description: `Loaded ${ctImages.length} slices` });
     } catch (error) {
       console.error(error);
-      toast({ title: 'Failed to load NIfTI', description: error instanceof Error ? error.message : 'Unknown error', variant: 'destructive' });
+      toast({ title: 'Failed to load volume', description: error instanceof Error ? error.message : 'Unknown error', variant: 'destructive' });
     } finally {
       setIsLoading(false);
     }
@@ -44,18 +45,20 @@ export const NiftiLoader = ({ onDataLoaded }: NiftiLoaderProps) => {
     <div className="p-6 max-w-3xl mx-auto">
       <Card className="bg-card border-border">
         <CardHeader>
-          <CardTitle>NIfTI Loader</CardTitle>
+          <CardTitle>Volume Loader</CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
           <div>
-            <label className="text-sm text-muted-foreground">CT Volume (.nii/.nii.gz)</label>
-            <Input type="file" accept=".nii,.nii.gz" onChange={e => setCtFile(e.target.files?.[0] || null)} />
+            <label className="text-sm text-muted-foreground">
+              CT Volume (.nii/.nii.gz, .nrrd, .mha, or .nhdr/.mhd with their data file)
+            </label>
+            <Input type="file" multiple accept={VOLUME_FILE_ACCEPT} onChange={e => setCtFiles(Array.from(e.target.files || []))} />
           </div>
           <div>
-            <label className="text-sm text-muted-foreground">Probability Map (optional)</label>
-            <Input type="file" accept=".nii,.nii.gz" onChange={e => setProbFile(e.target.files?.[0] || null)} />
+            <label className="text-sm text-muted-foreground">Probability Map (optional; 4D files give one volume per class)</label>
+            <Input type="file" multiple accept={VOLUME_FILE_ACCEPT} onChange={e => setProbFiles(Array.from(e.target.files || []))} />
           </div>
-          <Button onClick={handleLoad} disabled={!ctFile || isLoading} variant="medical">
+          <Button onClick={handleLoad} disabled={ctFiles.length === 0 || isLoading} variant="medical">
             {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Load'}
           </Button>
         </CardContent>
@@ -0,0 +1,80 @@
+import { useEffect, useState } from "react";
+import { Download } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Structure3D } from "@/types";
+
+interface SegExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  structures: Structure3D[];
+  onExport: (structures: Structure3D[]) => void;
+}
+
+export const SegExportDialog = ({
+  open,
+  onOpenChange,
+  structures,
+  onExport,
+}: SegExportDialogProps) => {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  // Start from the visible structures each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setSelectedIds(new Set(structures.filter(s => s.visible).map(s => s.id)));
+    }
+  }, [open, structures]);
+
+  const toggle = (id: string, checked: boolean) => {
+    const next = new Set(selectedIds);
+    if (checked) next.add(id);
+    else next.delete(id);
+    setSelectedIds(next);
+  };
+
+  const handleExport = () => {
+    onExport(structures.filter(s => selectedIds.has(s.id)));
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Download className="h-5 w-5" />
+            Export DICOM Segmentation
+          </DialogTitle>
+          <DialogDescription>
+            Each selected structure becomes a segment of a binary SEG, with its name, category and color.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="max-h-72 overflow-y-auto space-y-2">
+          {structures.map(structure => (
+            <label key={structure.id} className="flex items-center gap-2 text-sm cursor-pointer">
+              <Checkbox
+                checked={selectedIds.has(structure.id)}
+                onCheckedChange={(checked) => toggle(structure.id, checked === true)}
+              />
+              <div className="w-3 h-3 rounded-sm border flex-shrink-0" style={{ backgroundColor: structure.color }} />
+              <span className="flex-1 truncate">{structure.name}</span>
+              {structure.interpretedType && (
+                <span className="text-xs text-muted-foreground">{structure.interpretedType}</span>
+              )}
+            </label>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button variant="medical" onClick={handleExport} disabled={selectedIds.size === 0}>
+            Export {selectedIds.size} segment{selectedIds.size === 1 ? "" : "s"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,155 @@
+import { useEffect, useMemo, useState } from "react";
+import { Layers, FileText } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { DicomRTStruct, DicomSeries } from "@/types";
+import { choosePrimarySeries, findRTStructsForSeries } from "@/lib/series-utils";
+
+interface SeriesPickerProps {
+  series: DicomSeries[];
+  rtStructs: DicomRTStruct[];
+  onConfirm: (series: DicomSeries, rtStruct?: DicomRTStruct) => void;
+  onCancel: () => void;
+}
+
+const NO_RTSTRUCT = "none";
+
+const describeRTStruct = (rtStruct: DicomRTStruct, index: number) =>
+  `${rtStruct.label || `Structure Set ${index + 1}`} (${rtStruct.structures.length} ROIs)`;
+
+export const SeriesPicker = ({ series, rtStructs, onConfirm, onCancel }: SeriesPickerProps) => {
+  const [selectedSeriesUID, setSelectedSeriesUID] = useState(
+    () => choosePrimarySeries(series, rtStructs)?.seriesInstanceUID ?? series[0]?.seriesInstanceUID
+  );
+  const selectedSeries = series.find(s => s.seriesInstanceUID === selectedSeriesUID);
+
+  const matchingRTStructs = useMemo(
+    () => (selectedSeries ? findRTStructsForSeries(selectedSeries, rtStructs) : []),
+    [selectedSeries, rtStructs]
+  );
+
+  // Index into rtStructs, or NO_RTSTRUCT
+  const [rtStructChoice, setRTStructChoice] = useState<string>(NO_RTSTRUCT);
+
+  // Preselect the first structure set drawn on the chosen series
+  useEffect(() => {
+    setRTStructChoice(
+      matchingRTStructs.length > 0 ? String(rtStructs.indexOf(matchingRTStructs[0])) : NO_RTSTRUCT
+    );
+  }, [matchingRTStructs, rtStructs]);
+
+  const handleConfirm = () => {
+    if (!selectedSeries) return;
+    const rtStruct = rtStructChoice === NO_RTSTRUCT ? undefined : rtStructs[Number(rtStructChoice)];
+    onConfirm(selectedSeries, rtStruct);
+  };
+
+  return (
+    <Card className="bg-card border-border shadow-elevation">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Layers className="w-5 h-5 text-primary" />
+          Select Image Series
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm text-muted-foreground">
+          This archive contains {series.length} series
+          {rtStructs.length > 0 ? ` and ${rtStructs.length} structure set(s)` : ""}.
+          Choose the primary image series to contour on.
+        </p>
+
+        <ScrollArea className="max-h-72">
+          <RadioGroup
+            value={selectedSeriesUID}
+            onValueChange={setSelectedSeriesUID}
+            className="space-y-2 pr-3"
+          >
+            {series.map((s) => {
+              const hasRTStruct = findRTStructsForSeries(s, rtStructs).length > 0;
+              return (
+                <Label
+                  key={s.seriesInstanceUID}
+                  htmlFor={`series-${s.seriesInstanceUID}`}
+                  className={`flex items-center gap-3 rounded-md border p-3 cursor-pointer transition-colors ${
+                    s.seriesInstanceUID === selectedSeriesUID
+                      ? "border-primary bg-primary/10"
+                      : "border-border hover:bg-muted/50"
+                  }`}
+                >
+                  <RadioGroupItem value={s.seriesInstanceUID} id={`series-${s.seriesInstanceUID}`} />
+                  <Badge variant="secondary" className="w-12 justify-center flex-shrink-0">
+                    {s.modality || "?"}
+                  </Badge>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium text-foreground truncate">
+                      {s.description || "Unnamed series"}
+                      {s.seriesNumber !== undefined && (
+                        <span className="text-muted-foreground font-normal"> #{s.seriesNumber}</span>
+                      )}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {s.images.length} slice{s.images.length === 1 ? "" : "s"}
+                      {s.sliceThickness !== undefined && ` · ${s.sliceThickness.toFixed(2)} mm`}
+                      {s.images[0] && ` · ${s.images[0].width}×${s.images[0].height}`}
+                    </div>
+                  </div>
+                  {hasRTStruct && (
+                    <FileText className="w-4 h-4 text-primary flex-shrink-0" aria-label="Has structure set" />
+                  )}
+                </Label>
+              );
+            })}
+          </RadioGroup>
+        </ScrollArea>
+
+        {rtStructs.length > 0 && (
+          <div className="space-y-2">
+            <Label>RT Structure Set</Label>
+            <Select value={rtStructChoice} onValueChange={setRTStructChoice}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_RTSTRUCT}>None</SelectItem>
+                {matchingRTStructs.map((rtStruct) => {
+                  const index = rtStructs.indexOf(rtStruct);
+                  return (
+                    <SelectItem key={index} value={String(index)}>
+                      {describeRTStruct(rtStruct, index)}
+                    </SelectItem>
+                  );
+                })}
+              </SelectContent>
+            </Select>
+            {matchingRTStructs.length === 0 && (
+              <p className="text-xs text-muted-foreground">
+                No structure set references this series.
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button variant="medical" onClick={handleConfirm} disabled={!selectedSeries}>
+            Load Series
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
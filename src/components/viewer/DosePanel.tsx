@@ -0,0 +1,142 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Radiation, Eye, EyeOff, BarChart3 } from "lucide-react";
+import { DicomRTDose } from "@/types";
+import { DoseDisplaySettings, IsodoseLevel } from "@/lib/dose-utils";
+
+interface DosePanelProps {
+    rtDose: DicomRTDose;
+    settings: DoseDisplaySettings;
+    onSettingsChange: (settings: DoseDisplaySettings) => void;
+    onShowDVH: () => void;
+}
+
+const formatDose = (dose: number, units: string) =>
+    `${dose.toFixed(dose >= 10 ? 1 : 2)} ${units === "GY" ? "Gy" : units}`;
+
+interface DoseLegendProps {
+    settings: DoseDisplaySettings;
+    doseUnits: string;
+    onToggleLevel?: (index: number) => void;
+}
+
+/**
+ * Isodose levels, highest first, with their absolute dose
+ */
+export const DoseLegend = ({ settings, doseUnits, onToggleLevel }: DoseLegendProps) => {
+    const levels = settings.levels
+        .map((level, index) => ({ level, index }))
+        .sort((a, b) => b.level.percent - a.level.percent);
+
+    return (
+        <div className="space-y-1">
+            {levels.map(({ level, index }) => (
+                <div key={index} className="flex items-center gap-2 text-xs">
+                    <div
+                        className="w-3 h-3 rounded-sm border flex-shrink-0"
+                        style={{ backgroundColor: level.color, opacity: level.visible ? 1 : 0.3 }}
+                    />
+                    <span className={`font-mono w-10 ${level.visible ? "text-foreground" : "text-muted-foreground"}`}>
+                        {level.percent}%
+                    </span>
+                    <span className="font-mono text-muted-foreground flex-1">
+                        {formatDose((level.percent / 100) * settings.referenceDose, doseUnits)}
+                    </span>
+                    {onToggleLevel && (
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => onToggleLevel(index)}
+                            className="h-5 w-5 p-0"
+                            title={level.visible ? "Hide level" : "Show level"}
+                        >
+                            {level.visible ? <Eye className="w-3 h-3" /> : <EyeOff className="w-3 h-3" />}
+                        </Button>
+                    )}
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export const DosePanel = ({ rtDose, settings, onSettingsChange, onShowDVH }: DosePanelProps) => {
+    const update = (changes: Partial<DoseDisplaySettings>) => onSettingsChange({ ...settings, ...changes });
+
+    const toggleLevel = (index: number) => {
+        const levels: IsodoseLevel[] = settings.levels.map((level, i) =>
+            i === index ? { ...level, visible: !level.visible } : level
+        );
+        update({ levels });
+    };
+
+    return (
+        <div className="p-4 border-b border-border space-y-3">
+            <h3 className="font-semibold text-foreground text-sm flex items-center gap-2">
+                <Radiation className="w-4 h-4 text-primary" />
+                Dose
+                <span className="text-xs text-muted-foreground font-normal ml-auto">
+                    max {formatDose(rtDose.maxDose, rtDose.doseUnits)}
+                </span>
+            </h3>
+            <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                    <label htmlFor="dose-isodose-lines" className="text-xs text-muted-foreground">Isodose Lines</label>
+                    <Switch
+                        id="dose-isodose-lines"
+                        checked={settings.showIsodoseLines}
+                        onCheckedChange={(checked) => update({ showIsodoseLines: checked })}
+                    />
+                </div>
+                <div className="flex items-center justify-between">
+                    <label htmlFor="dose-color-wash" className="text-xs text-muted-foreground">Color Wash</label>
+                    <Switch
+                        id="dose-color-wash"
+                        checked={settings.showColorWash}
+                        onCheckedChange={(checked) => update({ showColorWash: checked })}
+                    />
+                </div>
+                {settings.showColorWash && (
+                    <div>
+                        <div className="flex justify-between items-center mb-1">
+                            <label className="text-xs text-muted-foreground">Wash Opacity</label>
+                            <span className="text-xs text-muted-foreground font-mono">
+                                {Math.round(settings.washOpacity * 100)}%
+                            </span>
+                        </div>
+                        <Slider
+                            value={[settings.washOpacity]}
+                            onValueChange={([value]) => update({ washOpacity: value })}
+                            min={0.05}
+                            max={1}
+                            step={0.05}
+                        />
+                    </div>
+                )}
+                <div>
+                    <label htmlFor="dose-reference" className="text-xs text-muted-foreground mb-1 block">
+                        Reference Dose (100%)
+                    </label>
+                    <Input
+                        id="dose-reference"
+                        type="number"
+                        min={0}
+                        step={0.1}
+                        value={settings.referenceDose}
+                        onChange={(e) => {
+                            const value = parseFloat(e.target.value);
+                            if (value > 0) update({ referenceDose: value });
+                        }}
+                        className="h-8 text-xs"
+                    />
+                </div>
+                <DoseLegend settings={settings} doseUnits={rtDose.doseUnits} onToggleLevel={toggleLevel} />
+                <Button variant="outline" size="sm" onClick={onShowDVH} className="w-full">
+                    <BarChart3 className="w-4 h-4 mr-2" />
+                    Dose-Volume Histogram
+                </Button>
+            </div>
+        </div>
+    );
+};
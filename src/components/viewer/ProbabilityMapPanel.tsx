@@ -0,0 +1,149 @@
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Layers, Wand2, Eye, EyeOff } from "lucide-react";
+import { ProbabilityClass, ProbabilityDisplayMode, ProbabilityDisplaySettings } from "@/lib/probability-map";
+
+interface ProbabilityMapPanelProps {
+    settings: ProbabilityDisplaySettings;
+    onSettingsChange: (settings: ProbabilityDisplaySettings) => void;
+    largestComponentOnly: boolean;
+    onLargestComponentOnlyChange: (value: boolean) => void;
+    onConvert: () => void;
+}
+
+export const ProbabilityMapPanel = ({
+    settings,
+    onSettingsChange,
+    largestComponentOnly,
+    onLargestComponentOnlyChange,
+    onConvert,
+}: ProbabilityMapPanelProps) => {
+    const update = (changes: Partial<ProbabilityDisplaySettings>) => onSettingsChange({ ...settings, ...changes });
+    const isMultiClass = settings.classes.length > 1;
+
+    const toggleClass = (index: number) => {
+        const classes: ProbabilityClass[] = settings.classes.map((c, i) =>
+            i === index ? { ...c, visible: !c.visible } : c
+        );
+        update({ classes });
+    };
+
+    return (
+        <div className="p-4 border-b border-border space-y-3">
+            <h3 className="font-semibold text-foreground text-sm flex items-center gap-2">
+                <Layers className="w-4 h-4 text-primary" />
+                Probability Map
+                {isMultiClass && (
+                    <span className="text-xs text-muted-foreground font-normal ml-auto">
+                        {settings.classes.length} classes
+                    </span>
+                )}
+            </h3>
+            <div className="space-y-3">
+                <ToggleGroup
+                    type="single"
+                    size="sm"
+                    value={settings.mode}
+                    onValueChange={(value) => value && update({ mode: value as ProbabilityDisplayMode })}
+                    className="w-full"
+                >
+                    <ToggleGroupItem value="class" className="flex-1 text-xs">Class</ToggleGroupItem>
+                    {isMultiClass && <ToggleGroupItem value="argmax" className="flex-1 text-xs">Argmax</ToggleGroupItem>}
+                    <ToggleGroupItem value="entropy" className="flex-1 text-xs">Uncertainty</ToggleGroupItem>
+                </ToggleGroup>
+
+                {isMultiClass && settings.mode !== "entropy" && (
+                    <div>
+                        <label className="text-xs text-muted-foreground mb-1 block">Class</label>
+                        <Select
+                            value={String(settings.selectedClass)}
+                            onValueChange={(value) => update({ selectedClass: Number(value) })}
+                        >
+                            <SelectTrigger className="w-full h-8 text-xs">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {settings.classes.map((c, index) => (
+                                    <SelectItem key={index} value={String(index)} className="text-xs">
+                                        {c.name}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                )}
+
+                {settings.mode === "argmax" && (
+                    <div className="space-y-1">
+                        {settings.classes.map((c, index) => (
+                            <div key={index} className="flex items-center gap-2 text-xs">
+                                <div
+                                    className="w-3 h-3 rounded-sm border flex-shrink-0"
+                                    style={{ backgroundColor: c.color, opacity: c.visible ? 1 : 0.3 }}
+                                />
+                                <span className={`flex-1 ${c.visible ? "text-foreground" : "text-muted-foreground"}`}>
+                                    {c.name}
+                                </span>
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => toggleClass(index)}
+                                    className="h-5 w-5 p-0"
+                                    title={c.visible ? "Hide class" : "Show class"}
+                                >
+                                    {c.visible ? <Eye className="w-3 h-3" /> : <EyeOff className="w-3 h-3" />}
+                                </Button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                {settings.mode === "entropy" ? (
+                    <div>
+                        <div
+                            className="h-2 rounded-sm"
+                            style={{ background: "linear-gradient(to right, rgb(0,0,255), rgb(0,255,255), rgb(255,255,0), rgb(255,0,0))" }}
+                        />
+                        <div className="flex justify-between text-[10px] text-muted-foreground mt-1">
+                            <span>Certain</span>
+                            <span>Uncertain</span>
+                        </div>
+                    </div>
+                ) : (
+                    <>
+                        <div>
+                            <div className="flex justify-between items-center mb-1">
+                                <label className="text-xs text-muted-foreground">Threshold</label>
+                                <span className="text-xs text-muted-foreground font-mono">{settings.threshold.toFixed(2)}</span>
+                            </div>
+                            <Slider
+                                value={[settings.threshold]}
+                                onValueChange={([value]) => update({ threshold: value })}
+                                min={0.01}
+                                max={1}
+                                step={0.01}
+                            />
+                        </div>
+                        <div className="flex items-center justify-between">
+                            <label htmlFor="prob-largest-component" className="text-xs text-muted-foreground">
+                                Largest 3D component only
+                            </label>
+                            <Switch
+                                id="prob-largest-component"
+                                checked={largestComponentOnly}
+                                onCheckedChange={onLargestComponentOnlyChange}
+                            />
+                        </div>
+                        <Button variant="outline" size="sm" onClick={onConvert} className="w-full">
+                            <Wand2 className="w-4 h-4 mr-2" />
+                            Convert to Structure
+                        </Button>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,102 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { MessageSquare, Trash2 } from "lucide-react";
+import { ReviewComment, Structure3D } from "@/types";
+
+interface ReviewCommentsPanelProps {
+    comments: ReviewComment[];
+    structures: Structure3D[];
+    currentSlice: number;
+    activeStructureId: string | null;
+    onAddComment: (comment: ReviewComment) => void;
+    onDeleteComment: (id: string) => void;
+    onGoToSlice: (sliceIndex: number) => void;
+}
+
+/**
+ * Review notes on the case, saved with project files. A new note is tied to
+ * the current slice and the active structure.
+ */
+export const ReviewCommentsPanel = ({
+    comments,
+    structures,
+    currentSlice,
+    activeStructureId,
+    onAddComment,
+    onDeleteComment,
+    onGoToSlice,
+}: ReviewCommentsPanelProps) => {
+    const [text, setText] = useState("");
+
+    const addComment = () => {
+        if (!text.trim()) return;
+        onAddComment({
+            id: `comment_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
+            text: text.trim(),
+            createdAt: new Date().toISOString(),
+            sliceIndex: currentSlice,
+            structureId: activeStructureId ?? undefined,
+        });
+        setText("");
+    };
+
+    return (
+        <div className="p-4 border-b border-border space-y-3">
+            <h3 className="font-semibold text-foreground text-sm flex items-center gap-2">
+                <MessageSquare className="w-4 h-4 text-primary" />
+                Review Notes ({comments.length})
+            </h3>
+            {comments.length > 0 && (
+                <div className="max-h-40 overflow-y-auto space-y-2">
+                    {comments.map(comment => {
+                        const structure = structures.find(s => s.id === comment.structureId);
+                        return (
+                            <div key={comment.id} className="text-xs rounded border border-border p-2 space-y-1">
+                                <div className="flex items-center gap-2 text-muted-foreground">
+                                    {comment.sliceIndex !== undefined && (
+                                        <button
+                                            className="font-mono hover:text-primary"
+                                            onClick={() => onGoToSlice(comment.sliceIndex!)}
+                                            title="Go to slice"
+                                        >
+                                            Slice {comment.sliceIndex + 1}
+                                        </button>
+                                    )}
+                                    {structure && (
+                                        <span className="flex items-center gap-1 truncate">
+                                            <span
+                                                className="w-2 h-2 rounded-sm inline-block"
+                                                style={{ backgroundColor: structure.color }}
+                                            />
+                                            {structure.name}
+                                        </span>
+                                    )}
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        onClick={() => onDeleteComment(comment.id)}
+                                        className="h-5 w-5 p-0 ml-auto"
+                                        title="Delete note"
+                                    >
+                                        <Trash2 className="w-3 h-3" />
+                                    </Button>
+                                </div>
+                                <p className="text-foreground whitespace-pre-wrap">{comment.text}</p>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+            <Textarea
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                placeholder={`Note on slice ${currentSlice + 1}...`}
+                className="text-xs min-h-[60px]"
+            />
+            <Button variant="outline" size="sm" className="w-full" onClick={addComment} disabled={!text.trim()}>
+                Add Note
+            </Button>
+        </div>
+    );
+};
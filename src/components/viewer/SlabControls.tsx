@@ -0,0 +1,55 @@
+import { useId } from "react";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SLAB_MODES, SlabMode } from "@/lib/mpr-utils";
+
+interface SlabControlsProps {
+    // Null shows single planes
+    mode: SlabMode | null;
+    thickness: number;
+    onModeChange: (mode: SlabMode | null) => void;
+    onThicknessChange: (thickness: number) => void;
+}
+
+/**
+ * Projection mode and slab thickness, shared by the axial viewer and the MPR panes
+ */
+export const SlabControls = ({ mode, thickness, onModeChange, onThicknessChange }: SlabControlsProps) => {
+    const thicknessId = useId();
+
+    return (
+        <div className="flex items-center gap-2">
+            <Select value={mode ?? "off"} onValueChange={(value) => onModeChange(value === "off" ? null : value as SlabMode)}>
+                <SelectTrigger className="h-8 w-24 text-xs" title="Slab projection">
+                    <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                    <SelectItem value="off" className="text-xs">No slab</SelectItem>
+                    {SLAB_MODES.map(slabMode => (
+                        <SelectItem key={slabMode.value} value={slabMode.value} className="text-xs" title={slabMode.description}>
+                            {slabMode.label}
+                        </SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+            <label htmlFor={thicknessId} className="sr-only">
+                Slab thickness (mm)
+            </label>
+            <Input
+                id={thicknessId}
+                type="number"
+                min={1}
+                step={1}
+                value={thickness}
+                onChange={(e) => {
+                    const value = parseFloat(e.target.value);
+                    if (value >= 1) onThicknessChange(value);
+                }}
+                disabled={!mode}
+                className="h-8 w-16 text-xs"
+                title="Slab thickness in mm, centred on the plane"
+            />
+            <span className="text-xs text-muted-foreground">mm</span>
+        </div>
+    );
+};
@@ -1,6 +1,9 @@
+import { useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { Layers, Plus, Eye, EyeOff, Copy } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Layers, Plus, Eye, EyeOff, Copy, FileInput, FileJson } from "lucide-react";
 import { Structure3D, Contour } from "@/types";
 
 interface StructureListProps {
@@ -10,7 +13,12 @@ interface StructureListProps {
     onToggleVisibility: (id: string) => void;
     onStartEditing: (id: string) => void;
     onAddStructure: () => void;
+    onImportLabelMap: () => void;
+    onImportJSON: (file: File) => void;
     onInterpolate: () => void;
+    // Widest gap, in slices, that interpolation fills
+    interpolationMaxGap: number;
+    onInterpolationMaxGapChange: (maxGap: number) => void;
     getContoursForSlice: (slice: number) => Contour[];
 }
 
@@ -21,9 +29,15 @@ export const StructureList = ({
     onToggleVisibility,
     onStartEditing,
     onAddStructure,
+    onImportLabelMap,
+    onImportJSON,
     onInterpolate,
+    interpolationMaxGap,
+    onInterpolationMaxGapChange,
     getContoursForSlice,
 }: StructureListProps) => {
+    const jsonInputRef = useRef<HTMLInputElement>(null);
+
     return (
         <div className="flex-1 flex flex-col overflow-hidden">
             <div className="p-4 border-b border-border">
@@ -32,9 +46,34 @@ export const StructureList = ({
                         <Layers className="w-4 h-4 text-primary" />
                         Structures ({structures.length})
                     </h3>
-                    <Button variant="medical" size="sm" onClick={onAddStructure} title="Create new structure">
-                        <Plus className="w-4 h-4" />
-                    </Button>
+                    <div className="flex items-center gap-1">
+                        <Button variant="outline" size="sm" onClick={onImportLabelMap} title="Import NIfTI label map">
+                            <FileInput className="w-4 h-4" />
+                        </Button>
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => jsonInputRef.current?.click()}
+                            title="Load structures from a JSON export"
+                        >
+                            <FileJson className="w-4 h-4" />
+                        </Button>
+                        <input
+                            ref={jsonInputRef}
+                            type="file"
+                            accept=".json,application/json"
+                            className="hidden"
+                            onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                // Reset so the same file can be loaded again
+                                e.target.value = "";
+                                if (file) onImportJSON(file);
+                            }}
+                        />
+                        <Button variant="medical" size="sm" onClick={onAddStructure} title="Create new structure">
+                            <Plus className="w-4 h-4" />
+                        </Button>
+                    </div>
                 </div>
             </div>
 
@@ -57,6 +96,15 @@ export const StructureList = ({
                                     <span className="text-xs font-medium text-foreground truncate">
                                         {structure.name}
                                     </span>
+                                    {structure.interpretedType && (
+                                        <Badge
+                                            variant="outline"
+                                            className="text-[10px] px-1 py-0 h-4 flex-shrink-0"
+                                            title={structure.observationLabel || structure.interpretedType}
+                                        >
+                                            {structure.interpretedType}
+                                        </Badge>
+                                    )}
                                 </div>
                                 <Button
                                     variant="ghost"
@@ -88,6 +136,24 @@ export const StructureList = ({
                     <Copy className="w-3 h-3 mr-2" />
                     Interpolate
                 </Button>
+                <div className="flex items-center justify-between gap-2">
+                    <label htmlFor="interpolation-max-gap" className="text-xs text-muted-foreground">
+                        Max gap (slices)
+                    </label>
+                    <Input
+                        id="interpolation-max-gap"
+                        type="number"
+                        min={1}
+                        step={1}
+                        value={interpolationMaxGap}
+                        onChange={(e) => {
+                            const value = parseInt(e.target.value, 10);
+                            if (value >= 1) onInterpolationMaxGapChange(value);
+                        }}
+                        className="h-7 w-16 text-xs"
+                        title="Gaps between key slices wider than this are left empty"
+                    />
+                </div>
             </div>
 
             <div className="p-3 border-t border-border bg-muted/30">
@@ -100,6 +166,14 @@ export const StructureList = ({
                         <span>Contours here:</span>
                         <span className="font-mono">{getContoursForSlice(currentSlice).length}</span>
                     </div>
+                    {getContoursForSlice(currentSlice).some(c => c.interpolated) && (
+                        <div className="flex justify-between">
+                            <span>Interpolated here:</span>
+                            <span className="font-mono">
+                                {getContoursForSlice(currentSlice).filter(c => c.interpolated).length}
+                            </span>
+                        </div>
+                    )}
                 </div>
             </div>
         </div>
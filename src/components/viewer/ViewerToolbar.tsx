@@ -1,5 +1,14 @@
+import { useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuLabel,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import {
     ArrowLeft,
     Download,
@@ -15,6 +24,8 @@ import {
 import { useToast } from "@/hooks/use-toast";
 import { DicomImage, DicomRTStruct } from "@/types";
 import { useDrawing } from "@/hooks/useDrawing";
+import { ExportFormat } from "@/lib/rtstruct-export";
+import { PROJECT_FILE_EXTENSION } from "@/lib/project-file";
 
 interface ViewerToolbarProps {
     ctImages: DicomImage[];
@@ -29,7 +40,11 @@ interface ViewerToolbarProps {
     toggleCineMode: () => void;
     isFullscreen: boolean;
     toggleFullscreen: () => void;
-    handleDownload: () => void;
+    handleDownload: (format?: ExportFormat) => void;
+    onExportSegmentation: () => void;
+    onExportMeshes: () => void;
+    onSaveProject: (embedImages: boolean) => void;
+    onOpenProject: (file: File) => void;
 }
 
 export const ViewerToolbar = ({
@@ -46,8 +61,13 @@ export const ViewerToolbar = ({
     isFullscreen,
     toggleFullscreen,
     handleDownload,
+    onExportSegmentation,
+    onExportMeshes,
+    onSaveProject,
+    onOpenProject,
 }: ViewerToolbarProps) => {
     const { toast } = useToast();
+    const projectInputRef = useRef<HTMLInputElement>(null);
 
     return (
         <div className="bg-card border-b border-border px-4 py-2 flex-shrink-0">
@@ -142,10 +162,71 @@ export const ViewerToolbar = ({
                         <Maximize2 className="w-4 h-4" />
                     </Button>
                     <Separator orientation="vertical" className="h-6" />
-                    <Button variant="medical" size="sm" onClick={handleDownload} title="Export structures (Ctrl+S)">
-                        <Download className="w-4 h-4 mr-1" />
-                        Export
-                    </Button>
+                    <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                            <Button variant="medical" size="sm" title="Export structures (Ctrl+S)">
+                                <Download className="w-4 h-4 mr-1" />
+                                Export
+                            </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                            <DropdownMenuLabel className="text-xs">Export format</DropdownMenuLabel>
+                            <DropdownMenuItem onClick={() => handleDownload('dicom')}>
+                                DICOM RT Structure Set (.dcm)
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={onExportSegmentation}>
+                                DICOM Segmentation (.dcm)...
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => handleDownload('nifti-labelmap')}>
+                                NIfTI label map (.nii.gz)
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => handleDownload('nifti-masks')}>
+                                NIfTI binary masks per ROI (.zip)
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => handleDownload('nrrd-segmentation')}>
+                                Slicer segmentation (.seg.nrrd)
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => handleDownload('metaimage-labelmap')}>
+                                MetaImage label map (.mha)
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={onExportMeshes}>
+                                Surface meshes (STL / OBJ / PLY)...
+                            </DropdownMenuItem>
+                            <DropdownMenuSeparator />
+                            <DropdownMenuItem onClick={() => handleDownload('json')}>
+                                JSON (DICOM-RT representation)
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => handleDownload('csv')}>
+                                CSV (point list)
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => handleDownload('research')}>
+                                Research JSON
+                            </DropdownMenuItem>
+                            <DropdownMenuSeparator />
+                            <DropdownMenuLabel className="text-xs">Project</DropdownMenuLabel>
+                            <DropdownMenuItem onClick={() => onSaveProject(true)}>
+                                Save project with images ({PROJECT_FILE_EXTENSION})
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => onSaveProject(false)}>
+                                Save project, image references only ({PROJECT_FILE_EXTENSION})
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => projectInputRef.current?.click()}>
+                                Open project on this series...
+                            </DropdownMenuItem>
+                        </DropdownMenuContent>
+                    </DropdownMenu>
+                    <input
+                        ref={projectInputRef}
+                        type="file"
+                        accept={PROJECT_FILE_EXTENSION}
+                        className="hidden"
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            // Reset so the same file can be opened again
+                            e.target.value = "";
+                            if (file) onOpenProject(file);
+                        }}
+                    />
                 </div>
             </div>
         </div>
@@ -45,6 +45,8 @@ export function useDrawing() {
     canUndo,
     canRedo,
     clearHistory,
+    history,
+    replaceHistory,
   } = useHistory<Structure3D[]>([], { maxHistorySize: 50 });
 
   const setTool = useCallback((tool: DrawingTool) => {
@@ -156,6 +158,11 @@ export function useDrawing() {
     ]);
   }, [setStructures]);
 
+  // Whole imports go in as one history entry, so a single undo removes them
+  const addStructures = useCallback((added: Structure3D[]) => {
+    setStructures(prevStructures => [...prevStructures, ...added]);
+  }, [setStructures]);
+
   const addContourToStructure = useCallback(
     (structureId: string, contour: Contour) => {
       setStructures(prevStructures =>
@@ -589,6 +596,23 @@ export function useDrawing() {
     return performRegionGrowing(imageData, seedPoint, tolerance, sliceIndex, rescaleSlope, rescaleIntercept);
   }, [performRegionGrowing]);
 
+  // Restore structures, the active structure and undo history saved earlier
+  const restoreSession = useCallback((session: {
+    structures: Structure3D[];
+    activeStructureId: string | null;
+    past: Structure3D[][];
+    future: Structure3D[][];
+  }) => {
+    replaceHistory({ past: session.past, present: session.structures, future: session.future });
+    setState(prev => ({
+      ...prev,
+      activeStructureId: session.activeStructureId,
+      selectedContour: null,
+      isDrawing: false,
+      currentPath: [],
+    }));
+  }, [replaceHistory]);
+
   // Helper to get a specific contour
   const getContour = useCallback((contourId: string): Contour | null => {
     for (const structure of structures) {
@@ -611,6 +635,7 @@ export function useDrawing() {
     cancelDrawing,
     eraseAt,
     addStructure,
+    addStructures,
     addContourToStructure,
     removeStructure,
     toggleStructureVisibility,
@@ -622,6 +647,8 @@ export function useDrawing() {
     canUndo,
     canRedo,
     clearHistory,
+    history,
+    restoreSession,
     // Selection
     selectContour,
     deselectContour,
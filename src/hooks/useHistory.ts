@@ -19,6 +19,8 @@ export interface UseHistoryReturn<T> {
   canRedo: boolean;
   clearHistory: () => void;
   historySize: number;
+  history: HistoryState<T>;
+  replaceHistory: (history: HistoryState<T>) => void;
 }
 
 /**
@@ -170,6 +172,18 @@ export function useHistory<T>(
     }));
   }, []);
 
+  /**
+   * Replace the present state and both stacks at once (e.g. when restoring
+   * a saved session)
+   */
+  const replaceHistory = useCallback((next: HistoryState<T>) => {
+    setHistory({
+      past: next.past.slice(-maxHistorySize),
+      present: next.present,
+      future: next.future.slice(0, maxHistorySize),
+    });
+  }, [maxHistorySize]);
+
   const canUndo = history.past.length > 0;
   const canRedo = history.future.length > 0;
   const historySize = history.past.length + history.future.length + 1;
@@ -183,5 +197,7 @@ export function useHistory<T>(
     canRedo,
     clearHistory,
     historySize,
+    history,
+    replaceHistory,
   };
 }
@@ -0,0 +1,143 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { DicomImage, Structure3D } from '@/types';
+import {
+  createSession,
+  deleteExpiredSessions,
+  deleteSession,
+  loadSession,
+  saveSession,
+  sessionKey,
+  StoredSession,
+} from '@/lib/session-store';
+import { useDrawing } from './useDrawing';
+
+export interface UseSessionAutosaveReturn {
+  // Session saved earlier for this series, awaiting restore or discard
+  savedSession: StoredSession | null;
+  restoreSession: () => void;
+  discardSession: () => void;
+}
+
+/**
+ * Autosave the structures, active structure and recent undo history of a
+ * series to IndexedDB, and offer the saved session when the series is
+ * opened again within `SESSION_MAX_AGE_DAYS`.
+ *
+ * Writes are throttled to one per `delayMs`. Nothing is written until the
+ * restore offer has been answered and the structures have been edited, so
+ * simply opening a series never overwrites an earlier session.
+ *
+ * @example
+ * ```tsx
+ * const drawing = useDrawing();
+ * const { savedSession, restoreSession, discardSession } = useSessionAutosave(ctImages, drawing);
+ * ```
+ */
+export function useSessionAutosave(
+  ctImages: DicomImage[],
+  drawing: ReturnType<typeof useDrawing>,
+  delayMs = 2000
+): UseSessionAutosaveReturn {
+  const key = sessionKey(ctImages);
+  const { history, activeStructureId, restoreSession: restoreDrawing } = drawing;
+  const [savedSession, setSavedSession] = useState<StoredSession | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // Structures when saving started; until they change there is nothing to save
+  const baselineRef = useRef<Structure3D[] | null>(null);
+  const dirtyRef = useRef(false);
+  const pendingRef = useRef<StoredSession | null>(null);
+  const timerRef = useRef<number | null>(null);
+
+  const flush = useCallback(() => {
+    if (timerRef.current !== null) {
+      window.clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    const session = pendingRef.current;
+    pendingRef.current = null;
+    if (session) {
+      saveSession(session).catch(error => console.warn('Session autosave failed:', error));
+    }
+  }, []);
+
+  // Look for a saved session whenever a different series is opened
+  useEffect(() => {
+    let cancelled = false;
+    setSaving(false);
+    setSavedSession(null);
+    baselineRef.current = null;
+    dirtyRef.current = false;
+    if (!key) return;
+
+    deleteExpiredSessions()
+      .then(() => loadSession(key))
+      .then(session => {
+        if (cancelled) return;
+        if (session && session.structures.length > 0) {
+          setSavedSession(session);
+        } else {
+          setSaving(true);
+        }
+      })
+      // Without IndexedDB (e.g. some private windows) the viewer works as before
+      .catch(error => console.warn('Session autosave unavailable:', error));
+
+    return () => {
+      cancelled = true;
+      flush();
+    };
+  }, [key, flush]);
+
+  useEffect(() => {
+    if (!saving) return;
+    if (!dirtyRef.current) {
+      if (baselineRef.current === null) {
+        baselineRef.current = history.present;
+        return;
+      }
+      if (history.present === baselineRef.current) return;
+      dirtyRef.current = true;
+    }
+
+    pendingRef.current = createSession(ctImages, {
+      structures: history.present,
+      activeStructureId,
+      past: history.past,
+      future: history.future,
+    });
+    if (timerRef.current === null) {
+      timerRef.current = window.setTimeout(flush, delayMs);
+    }
+  }, [saving, ctImages, history, activeStructureId, delayMs, flush]);
+
+  // Write the last changes before the tab is hidden or closed
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') flush();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('pagehide', flush);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', flush);
+    };
+  }, [flush]);
+
+  const restoreSession = useCallback(() => {
+    if (!savedSession) return;
+    restoreDrawing(savedSession);
+    setSavedSession(null);
+    setSaving(true);
+  }, [savedSession, restoreDrawing]);
+
+  const discardSession = useCallback(() => {
+    if (key) {
+      deleteSession(key).catch(error => console.warn('Could not delete the saved session:', error));
+    }
+    setSavedSession(null);
+    setSaving(true);
+  }, [key]);
+
+  return { savedSession, restoreSession, discardSession };
+}
@@ -0,0 +1,112 @@
+/**
+ * Color conversions between the CSS strings stored on structures
+ * ('#rrggbb', '#rgb' or 'rgb(r, g, b)') and numeric RGB triplets used by
+ * DICOM and the various export formats.
+ */
+
+export type RGBColor = [number, number, number];
+
+// Used when a structure has no color of its own (e.g. an RTSTRUCT without
+// ROI Display Color (3006,002A), or an unnamed label map value)
+export const FALLBACK_ROI_COLORS: RGBColor[] = [
+  [255, 0, 0],
+  [0, 255, 0],
+  [0, 0, 255],
+  [255, 255, 0],
+  [0, 255, 255],
+  [255, 0, 255],
+  [255, 128, 0],
+  [128, 0, 255],
+];
+
+/**
+ * Parse a CSS color string into an RGB triplet (0-255).
+ * Unknown formats fall back to red so exported structures stay visible.
+ */
+export function cssColorToRGB(color: string): RGBColor {
+  const value = color.trim();
+
+  const hexMatch = value.match(/^#([0-9a-f]{3}|[0-9a-f]{6})([0-9a-f]{2})?$/i);
+  if (hexMatch) {
+    const hex = hexMatch[1].length === 3
+      ? hexMatch[1].split('').map(c => c + c).join('')
+      : hexMatch[1];
+    return [
+      parseInt(hex.slice(0, 2), 16),
+      parseInt(hex.slice(2, 4), 16),
+      parseInt(hex.slice(4, 6), 16),
+    ];
+  }
+
+  const rgbMatch = value.match(/^rgba?\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)/i);
+  if (rgbMatch) {
+    return [
+      clampChannel(Number(rgbMatch[1])),
+      clampChannel(Number(rgbMatch[2])),
+      clampChannel(Number(rgbMatch[3])),
+    ];
+  }
+
+  return [255, 0, 0];
+}
+
+/**
+ * Format an RGB triplet as a CSS 'rgb()' string
+ */
+export function rgbToCss(rgb: RGBColor | number[]): string {
+  return `rgb(${Math.round(rgb[0])}, ${Math.round(rgb[1])}, ${Math.round(rgb[2])})`;
+}
+
+function clampChannel(value: number): number {
+  return Math.max(0, Math.min(255, Math.round(value)));
+}
+
+// D65 reference white, as used for Recommended Display CIELab Value
+const D65_WHITE = [0.950456, 1, 1.088754];
+
+/**
+ * Convert a DICOM CIELab triplet (L*, a*, b* scaled to 0-65535, see PS3.3
+ * C.10.7.1.1) to sRGB
+ */
+export function dicomLabToRGB(lab: number[]): RGBColor {
+  const l = (lab[0] / 65535) * 100;
+  const a = (lab[1] / 65535) * 255 - 128;
+  const b = (lab[2] / 65535) * 255 - 128;
+
+  const fy = (l + 16) / 116;
+  const finv = (t: number) => (t > 6 / 29 ? t ** 3 : 3 * (6 / 29) ** 2 * (t - 4 / 29));
+  const [x, y, z] = [fy + a / 500, fy, fy - b / 200].map((t, i) => finv(t) * D65_WHITE[i]);
+
+  const linear = [
+    3.2404542 * x - 1.5371385 * y - 0.4985314 * z,
+    -0.969266 * x + 1.8760108 * y + 0.041556 * z,
+    0.0556434 * x - 0.2040259 * y + 1.0572252 * z,
+  ];
+  const gamma = (c: number) => (c <= 0.0031308 ? 12.92 * c : 1.055 * c ** (1 / 2.4) - 0.055);
+  return linear.map(c => clampChannel(gamma(Math.max(0, c)) * 255)) as RGBColor;
+}
+
+/**
+ * Convert sRGB to a DICOM CIELab triplet (inverse of dicomLabToRGB)
+ */
+export function rgbToDicomLab(rgb: RGBColor | number[]): [number, number, number] {
+  const linear = rgb.slice(0, 3).map(channel => {
+    const c = channel / 255;
+    return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  });
+  const xyz = [
+    0.4124564 * linear[0] + 0.3575761 * linear[1] + 0.1804375 * linear[2],
+    0.2126729 * linear[0] + 0.7151522 * linear[1] + 0.072175 * linear[2],
+    0.0193339 * linear[0] + 0.119192 * linear[1] + 0.9503041 * linear[2],
+  ];
+  const f = (t: number) => (t > (6 / 29) ** 3 ? Math.cbrt(t) : t / (3 * (6 / 29) ** 2) + 4 / 29);
+  const [fx, fy, fz] = xyz.map((value, i) => f(value / D65_WHITE[i]));
+
+  const scale = (value: number, min: number, range: number) =>
+    Math.max(0, Math.min(65535, Math.round(((value - min) / range) * 65535)));
+  return [
+    scale(116 * fy - 16, 0, 100),
+    scale(500 * (fx - fy), -128, 255),
+    scale(200 * (fy - fz), -128, 255),
+  ];
+}
@@ -235,6 +235,24 @@ export function pointInPolygon(point: Point2D, polygon: Point2D[]): boolean {
   return inside;
 }
 
+/**
+ * X positions where a horizontal line crosses the polygons' edges, sorted
+ */
+export function scanlineCrossings(polygons: Point2D[][], y: number): number[] {
+  const crossings: number[] = [];
+  polygons.forEach(points => {
+    for (let i = 0; i < points.length; i++) {
+      const a = points[i];
+      const b = points[(i + 1) % points.length];
+      // Half-open test so shared vertices are only counted once
+      if ((a.y <= y) !== (b.y <= y)) {
+        crossings.push(a.x + ((y - a.y) / (b.y - a.y)) * (b.x - a.x));
+      }
+    }
+  });
+  return crossings.sort((a, b) => a - b);
+}
+
 /**
  * Smooth a contour using simple averaging
  */
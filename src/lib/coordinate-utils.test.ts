@@ -78,6 +78,18 @@ describe('coordinate-utils', () => {
             expect(canvasPoint.x).toBeCloseTo(400); // Center of 800x800 canvas
             expect(canvasPoint.y).toBeCloseTo(400);
         });
+
+        it('should read pixel spacing in DICOM (row, column) order', () => {
+            // Rows 0.5 mm apart, columns 0.8 mm apart: pixel (256, 256) is at x = 204.8, y = 128
+            const image = createMockImage(512, 512, [0.5, 0.8], [0, 0, 0]);
+            const canvasPoint = worldToCanvas(204.8, 128, image, defaultConfig);
+            expect(canvasPoint.x).toBeCloseTo(400);
+            expect(canvasPoint.y).toBeCloseTo(400);
+
+            const worldPoint = canvasToWorld(400, 400, image, defaultConfig);
+            expect(worldPoint.x).toBeCloseTo(204.8);
+            expect(worldPoint.y).toBeCloseTo(128);
+        });
     });
 
     describe('canvasToWorld', () => {
@@ -72,12 +72,13 @@ export function worldToCanvas(
   config: CanvasConfig
 ): Point2D {
   const imagePosition = image.imagePosition || [0, 0, 0];
-  const pixelSpacing = image.pixelSpacing || [1, 1];
+  // Pixel Spacing is stored in DICOM order: (row spacing, column spacing)
+  const [rowSpacing, columnSpacing] = image.pixelSpacing || [1, 1];
   // For proper DICOM coordinate handling with arbitrary orientations we would need to apply
   // the orientation matrix. The viewer currently renders axis-aligned axial slices, so the
   // simplified spacing-based approach matches the renderer.
-  const pixelX = (worldX - imagePosition[0]) / pixelSpacing[0];
-  const pixelY = (worldY - imagePosition[1]) / pixelSpacing[1];
+  const pixelX = (worldX - imagePosition[0]) / columnSpacing;
+  const pixelY = (worldY - imagePosition[1]) / rowSpacing;
 
   // Get canvas transform and apply it
   const transform = calculateImageTransform(image, config);
@@ -102,7 +103,7 @@ export function canvasToWorld(
   config: CanvasConfig
 ): Point2D {
   const imagePosition = image.imagePosition || [0, 0, 0];
-  const pixelSpacing = image.pixelSpacing || [1, 1];
+  const [rowSpacing, columnSpacing] = image.pixelSpacing || [1, 1];
 
   // Get canvas transform
   const transform = calculateImageTransform(image, config);
@@ -113,10 +114,10 @@ export function canvasToWorld(
 
   // Convert pixel coordinates to world coordinates
   // For full DICOM orientation support, we would need to:
-  // pixelToWorld = imagePosition + pixelX * spacing[0] * rowCosines + pixelY * spacing[1] * colCosines
+  // pixelToWorld = imagePosition + pixelX * columnSpacing * rowCosines + pixelY * rowSpacing * colCosines
   return {
-    x: imagePosition[0] + pixelX * pixelSpacing[0],
-    y: imagePosition[1] + pixelY * pixelSpacing[1],
+    x: imagePosition[0] + pixelX * columnSpacing,
+    y: imagePosition[1] + pixelY * rowSpacing,
   };
 }
 
@@ -0,0 +1,180 @@
+import { describe, it, expect } from 'vitest';
+import { deflateSync } from 'fflate';
+import { decodeJPEGLossless, decodeRLE, DicomDecodeError, TRANSFER_SYNTAX } from './dicom-codecs';
+import { DicomProcessor } from './dicom-utils';
+import { dicomElement, writeDicomFile } from './dicom-writer';
+
+// Minimal lossless JPEG encoder (single component, 5-bit codes for every
+// SSSS category) so the decoder can be checked against known samples
+const encodeJPEGLossless = (
+    samples: number[],
+    width: number,
+    height: number,
+    predictor: number,
+    restartInterval = 0
+): Uint8Array => {
+    const precision = 16;
+    const bytes: number[] = [0xff, 0xd8];
+    const segment = (marker: number, body: number[]) => {
+        bytes.push(0xff, marker, (body.length + 2) >> 8, (body.length + 2) & 0xff, ...body);
+    };
+
+    segment(0xc3, [precision, height >> 8, height & 0xff, width >> 8, width & 0xff, 1, 1, 0x11, 0]);
+    const counts = new Array(16).fill(0);
+    counts[4] = 17;
+    segment(0xc4, [0x00, ...counts, ...Array.from({ length: 17 }, (_, i) => i)]);
+    if (restartInterval) {
+        segment(0xdd, [restartInterval >> 8, restartInterval & 0xff]);
+    }
+    segment(0xda, [1, 1, 0x00, predictor, 0, 0]);
+
+    let bitBuffer = 0;
+    let bitCount = 0;
+    const flushByte = (byte: number) => {
+        bytes.push(byte);
+        if (byte === 0xff) bytes.push(0x00);
+    };
+    const writeBits = (value: number, length: number) => {
+        for (let i = length - 1; i >= 0; i--) {
+            bitBuffer = (bitBuffer << 1) | ((value >> i) & 1);
+            bitCount++;
+            if (bitCount === 8) {
+                flushByte(bitBuffer);
+                bitBuffer = 0;
+                bitCount = 0;
+            }
+        }
+    };
+    const padToByte = () => {
+        if (bitCount > 0) writeBits(0xff, 8 - bitCount);
+    };
+
+    let firstLine = true;
+    let mcu = 0;
+    let restartMarker = 0;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (restartInterval && mcu === restartInterval) {
+                padToByte();
+                bytes.push(0xff, 0xd0 + (restartMarker++ % 8));
+                mcu = 0;
+                firstLine = true;
+            }
+            const i = y * width + x;
+            const ra = samples[i - 1];
+            const rb = samples[i - width];
+            const rc = samples[i - width - 1];
+            let prediction: number;
+            if (firstLine) prediction = x === 0 ? 1 << (precision - 1) : ra;
+            else if (x === 0) prediction = rb;
+            else if (predictor === 1) prediction = ra;
+            else if (predictor === 4) prediction = ra + rb - rc;
+            else prediction = (ra + rb) >> 1;
+
+            let diff = (samples[i] - prediction) & 0xffff;
+            if (diff > 32768) diff -= 65536;
+            const magnitude = Math.abs(diff);
+            const ssss = diff === 32768 ? 16 : magnitude === 0 ? 0 : Math.floor(Math.log2(magnitude)) + 1;
+            writeBits(ssss, 5);
+            if (ssss > 0 && ssss < 16) {
+                writeBits(diff > 0 ? diff : diff + (1 << ssss) - 1, ssss);
+            }
+            mcu++;
+        }
+        firstLine = false;
+    }
+    padToByte();
+    bytes.push(0xff, 0xd9);
+    return new Uint8Array(bytes);
+};
+
+const createSamples = (width: number, height: number): number[] =>
+    Array.from({ length: width * height }, (_, i) => (i * 7919 + (i % 5) * 40000) % 65536);
+
+describe('dicom-codecs', () => {
+    describe('decodeJPEGLossless', () => {
+        it('should decode each predictor exactly', () => {
+            const samples = createSamples(6, 5);
+            for (const predictor of [1, 4, 7]) {
+                const decoded = decodeJPEGLossless(encodeJPEGLossless(samples, 6, 5, predictor));
+                expect(decoded.width).toBe(6);
+                expect(decoded.height).toBe(5);
+                expect(Array.from(decoded.data)).toEqual(samples);
+            }
+        });
+
+        it('should reset prediction at restart markers', () => {
+            const samples = createSamples(4, 6);
+            const decoded = decodeJPEGLossless(encodeJPEGLossless(samples, 4, 6, 1, 8));
+            expect(Array.from(decoded.data)).toEqual(samples);
+        });
+
+        it('should reject streams that are not JPEG', () => {
+            expect(() => decodeJPEGLossless(new Uint8Array([0, 1, 2, 3]))).toThrow(DicomDecodeError);
+        });
+    });
+
+    describe('decodeRLE', () => {
+        it('should decode 16-bit segments in most-significant-byte order', () => {
+            // Two pixels: 0x0102 and 0x0103. Segment 0 = high bytes, segment 1 = low bytes
+            const header = new Uint8Array(64);
+            const view = new DataView(header.buffer);
+            view.setUint32(0, 2, true);
+            view.setUint32(4, 64, true);
+            view.setUint32(8, 66, true);
+            const segments = [
+                0xff, 0x01,             // replicate 0x01 twice
+                0x01, 0x02, 0x03,       // literal run of two bytes
+            ];
+            const frame = new Uint8Array([...header, ...segments]);
+
+            const decoded = decodeRLE(frame, { width: 2, height: 1, bitsAllocated: 16, samplesPerPixel: 1 });
+            expect(decoded).toBeInstanceOf(Uint16Array);
+            expect(Array.from(decoded)).toEqual([0x0102, 0x0103]);
+        });
+    });
+
+    describe('DicomProcessor.parseDicomFile', () => {
+        const createImageElements = (pixels: Uint16Array) => [
+            dicomElement('x00080016', 'UI', '1.2.840.10008.5.1.4.1.1.2'),
+            dicomElement('x00080018', 'UI', '1.2.3.4.5'),
+            dicomElement('x00280002', 'US', 1),
+            dicomElement('x00280010', 'US', 2),
+            dicomElement('x00280011', 'US', 2),
+            dicomElement('x00280100', 'US', 16),
+            dicomElement('x00280101', 'US', 16),
+            dicomElement('x7fe00010', 'OW', pixels),
+        ];
+
+        it('should read deflated explicit little endian files', () => {
+            const pixels = new Uint16Array([10, 20, 30, 40]);
+            const file = new Uint8Array(writeDicomFile(createImageElements(pixels), {
+                sopClassUID: '1.2.840.10008.5.1.4.1.1.2',
+                sopInstanceUID: '1.2.3.4.5',
+                transferSyntaxUID: TRANSFER_SYNTAX.DEFLATED_EXPLICIT_VR_LITTLE_ENDIAN,
+            }));
+
+            // Deflate everything after the file meta group
+            const metaLength = new DataView(file.buffer).getUint32(140, true);
+            const dataSetStart = 144 + metaLength;
+            const deflated = deflateSync(file.subarray(dataSetStart));
+            const combined = new Uint8Array(dataSetStart + deflated.length);
+            combined.set(file.subarray(0, dataSetStart));
+            combined.set(deflated, dataSetStart);
+
+            const image = DicomProcessor.parseDicomFile(combined.buffer);
+            expect(image).not.toBeNull();
+            expect(Array.from(image!.pixelData)).toEqual([10, 20, 30, 40]);
+        });
+
+        it('should throw a DicomDecodeError for unsupported transfer syntaxes', () => {
+            const file = writeDicomFile(createImageElements(new Uint16Array(4)), {
+                sopClassUID: '1.2.840.10008.5.1.4.1.1.2',
+                sopInstanceUID: '1.2.3.4.5',
+                transferSyntaxUID: TRANSFER_SYNTAX.JPEG_2000,
+            });
+
+            expect(() => DicomProcessor.parseDicomFile(file)).toThrow(/JPEG 2000/);
+        });
+    });
+});
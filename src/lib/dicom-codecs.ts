@@ -0,0 +1,600 @@
+import * as dicomParser from 'dicom-parser';
+import { inflateSync } from 'fflate';
+
+/**
+ * Pixel data decoding for the transfer syntaxes we see from PACS exports.
+ *
+ * Native (uncompressed) and deflated data sets are read directly; RLE Lossless
+ * and JPEG Lossless (Process 14, including SV1) are decoded in pure
+ * TypeScript so loading works offline without any WASM codecs. Everything
+ * else raises a DicomDecodeError so the loader can report it per file.
+ */
+
+export const TRANSFER_SYNTAX = {
+  IMPLICIT_VR_LITTLE_ENDIAN: '1.2.840.10008.1.2',
+  EXPLICIT_VR_LITTLE_ENDIAN: '1.2.840.10008.1.2.1',
+  DEFLATED_EXPLICIT_VR_LITTLE_ENDIAN: '1.2.840.10008.1.2.1.99',
+  EXPLICIT_VR_BIG_ENDIAN: '1.2.840.10008.1.2.2',
+  JPEG_BASELINE: '1.2.840.10008.1.2.4.50',
+  JPEG_EXTENDED: '1.2.840.10008.1.2.4.51',
+  JPEG_LOSSLESS: '1.2.840.10008.1.2.4.57',
+  JPEG_LOSSLESS_SV1: '1.2.840.10008.1.2.4.70',
+  JPEG_LS_LOSSLESS: '1.2.840.10008.1.2.4.80',
+  JPEG_LS_NEAR_LOSSLESS: '1.2.840.10008.1.2.4.81',
+  JPEG_2000_LOSSLESS: '1.2.840.10008.1.2.4.90',
+  JPEG_2000: '1.2.840.10008.1.2.4.91',
+  RLE_LOSSLESS: '1.2.840.10008.1.2.5',
+} as const;
+
+const TRANSFER_SYNTAX_NAMES: Record<string, string> = {
+  [TRANSFER_SYNTAX.IMPLICIT_VR_LITTLE_ENDIAN]: 'Implicit VR Little Endian',
+  [TRANSFER_SYNTAX.EXPLICIT_VR_LITTLE_ENDIAN]: 'Explicit VR Little Endian',
+  [TRANSFER_SYNTAX.DEFLATED_EXPLICIT_VR_LITTLE_ENDIAN]: 'Deflated Explicit VR Little Endian',
+  [TRANSFER_SYNTAX.EXPLICIT_VR_BIG_ENDIAN]: 'Explicit VR Big Endian',
+  [TRANSFER_SYNTAX.JPEG_BASELINE]: 'JPEG Baseline',
+  [TRANSFER_SYNTAX.JPEG_EXTENDED]: 'JPEG Extended',
+  [TRANSFER_SYNTAX.JPEG_LOSSLESS]: 'JPEG Lossless',
+  [TRANSFER_SYNTAX.JPEG_LOSSLESS_SV1]: 'JPEG Lossless SV1',
+  [TRANSFER_SYNTAX.JPEG_LS_LOSSLESS]: 'JPEG-LS Lossless',
+  [TRANSFER_SYNTAX.JPEG_LS_NEAR_LOSSLESS]: 'JPEG-LS Near-Lossless',
+  [TRANSFER_SYNTAX.JPEG_2000_LOSSLESS]: 'JPEG 2000 Lossless',
+  [TRANSFER_SYNTAX.JPEG_2000]: 'JPEG 2000',
+  [TRANSFER_SYNTAX.RLE_LOSSLESS]: 'RLE Lossless',
+};
+
+/**
+ * Raised when pixel data cannot be decoded, either because the transfer
+ * syntax is not supported or because the compressed stream is corrupt
+ */
+export class DicomDecodeError extends Error {
+  constructor(message: string, public readonly transferSyntaxUID?: string) {
+    super(message);
+    this.name = 'DicomDecodeError';
+  }
+}
+
+export interface PixelDataInfo {
+  width: number;
+  height: number;
+  bitsAllocated: number;
+  samplesPerPixel: number;
+}
+
+export function getTransferSyntaxName(uid: string): string {
+  return TRANSFER_SYNTAX_NAMES[uid] || uid;
+}
+
+/**
+ * Inflater callback for dicomParser.parseDicom, used for the Deflated
+ * Explicit VR Little Endian transfer syntax. Returns the meta header
+ * followed by the inflated data set.
+ */
+export function inflateDataSet(byteArray: Uint8Array, position: number): Uint8Array {
+  const inflated = inflateSync(byteArray.subarray(position));
+  const full = new Uint8Array(position + inflated.length);
+  full.set(byteArray.subarray(0, position), 0);
+  full.set(inflated, position);
+  return full;
+}
+
+export type DecodedPixelData = Uint32Array | Uint16Array | Uint8Array;
+
+/**
+ * Decode one frame of pixel data into native little endian samples.
+ * The result is a Uint32Array for 32-bit data (RT Dose grids), a
+ * Uint16Array for 16-bit data and a Uint8Array otherwise.
+ */
+export function decodePixelData(
+  dataSet: dicomParser.DataSet,
+  info: PixelDataInfo,
+  frameIndex = 0
+): DecodedPixelData {
+  const pixelDataElement = dataSet.elements.x7fe00010;
+  if (!pixelDataElement) {
+    throw new Error('No pixel data found');
+  }
+
+  const transferSyntax = dataSet.string('x00020010') || TRANSFER_SYNTAX.IMPLICIT_VR_LITTLE_ENDIAN;
+
+  switch (transferSyntax) {
+    case TRANSFER_SYNTAX.IMPLICIT_VR_LITTLE_ENDIAN:
+    case TRANSFER_SYNTAX.EXPLICIT_VR_LITTLE_ENDIAN:
+    case TRANSFER_SYNTAX.DEFLATED_EXPLICIT_VR_LITTLE_ENDIAN:
+      return readNativeFrame(dataSet, pixelDataElement, info, frameIndex, false);
+
+    case TRANSFER_SYNTAX.EXPLICIT_VR_BIG_ENDIAN:
+      return readNativeFrame(dataSet, pixelDataElement, info, frameIndex, true);
+
+    case TRANSFER_SYNTAX.RLE_LOSSLESS: {
+      const frame = getEncapsulatedFrame(dataSet, pixelDataElement, frameIndex, transferSyntax);
+      return decodeRLE(frame, info);
+    }
+
+    case TRANSFER_SYNTAX.JPEG_LOSSLESS:
+    case TRANSFER_SYNTAX.JPEG_LOSSLESS_SV1: {
+      const frame = getEncapsulatedFrame(dataSet, pixelDataElement, frameIndex, transferSyntax);
+      const decoded = decodeJPEGLossless(frame);
+      if (decoded.width !== info.width || decoded.height !== info.height) {
+        throw new DicomDecodeError(
+          `JPEG Lossless frame is ${decoded.width}x${decoded.height}, expected ${info.width}x${info.height}`,
+          transferSyntax
+        );
+      }
+      return info.bitsAllocated > 8 && decoded.data instanceof Uint8Array
+        ? Uint16Array.from(decoded.data)
+        : decoded.data;
+    }
+
+    default:
+      throw new DicomDecodeError(
+        `Unsupported transfer syntax: ${getTransferSyntaxName(transferSyntax)} (${transferSyntax})`,
+        transferSyntax
+      );
+  }
+}
+
+function readNativeFrame(
+  dataSet: dicomParser.DataSet,
+  pixelDataElement: dicomParser.Element,
+  info: PixelDataInfo,
+  frameIndex: number,
+  bigEndian: boolean
+): DecodedPixelData {
+  const bytesPerSample = getBytesPerSample(info.bitsAllocated);
+  const frameLength = info.width * info.height * info.samplesPerPixel * bytesPerSample;
+  const start = pixelDataElement.dataOffset + frameIndex * frameLength;
+  // Single-frame files sometimes carry a slightly different length than
+  // Rows x Columns implies, so only enforce the frame size for multi-frame data
+  const numberOfFrames = dataSet.intString('x00280008') || 1;
+  const length = numberOfFrames === 1
+    ? Math.min(pixelDataElement.length, dataSet.byteArray.length - start)
+    : frameLength;
+
+  // Copy so that 16/32-bit views are aligned regardless of the element offset
+  const bytes = dataSet.byteArray.slice(start, start + length);
+
+  if (bigEndian) {
+    for (let i = 0; i + bytesPerSample <= bytes.length; i += bytesPerSample) {
+      bytes.subarray(i, i + bytesPerSample).reverse();
+    }
+  }
+  return toSampleArray(bytes, bytesPerSample);
+}
+
+function getBytesPerSample(bitsAllocated: number): number {
+  if (bitsAllocated === 32) return 4;
+  return bitsAllocated === 16 ? 2 : 1;
+}
+
+function toSampleArray(bytes: Uint8Array, bytesPerSample: number): DecodedPixelData {
+  const count = Math.floor(bytes.length / bytesPerSample);
+  if (bytesPerSample === 4) {
+    return new Uint32Array(bytes.buffer, bytes.byteOffset, count);
+  }
+  if (bytesPerSample === 2) {
+    return new Uint16Array(bytes.buffer, bytes.byteOffset, count);
+  }
+  return bytes;
+}
+
+function getEncapsulatedFrame(
+  dataSet: dicomParser.DataSet,
+  pixelDataElement: dicomParser.Element,
+  frameIndex: number,
+  transferSyntax: string
+): Uint8Array {
+  if (!pixelDataElement.encapsulatedPixelData || !pixelDataElement.fragments) {
+    throw new DicomDecodeError(
+      `${getTransferSyntaxName(transferSyntax)} pixel data is not encapsulated`,
+      transferSyntax
+    );
+  }
+
+  const fragments = pixelDataElement.fragments;
+  const numberOfFrames = dataSet.intString('x00280008') || 1;
+
+  if (pixelDataElement.basicOffsetTable && pixelDataElement.basicOffsetTable.length > 0) {
+    return dicomParser.readEncapsulatedImageFrame(dataSet, pixelDataElement, frameIndex);
+  }
+  if (numberOfFrames === 1) {
+    return dicomParser.readEncapsulatedPixelDataFromFragments(
+      dataSet, pixelDataElement, 0, fragments.length
+    );
+  }
+  if (fragments.length === numberOfFrames) {
+    return dicomParser.readEncapsulatedPixelDataFromFragments(
+      dataSet, pixelDataElement, frameIndex, 1
+    );
+  }
+
+  // Multiple fragments per frame without an offset table: locate frame
+  // boundaries from the JPEG start-of-image markers
+  const offsetTable = dicomParser.createJPEGBasicOffsetTable(dataSet, pixelDataElement);
+  return dicomParser.readEncapsulatedImageFrame(dataSet, pixelDataElement, frameIndex, offsetTable);
+}
+
+/**
+ * Decode an RLE Lossless frame (PS3.5 Annex G). Each segment holds one byte
+ * plane, most significant byte first; samples are returned pixel-interleaved.
+ */
+export function decodeRLE(frame: Uint8Array, info: PixelDataInfo): DecodedPixelData {
+  const { width, height, bitsAllocated, samplesPerPixel } = info;
+  const view = new DataView(frame.buffer, frame.byteOffset, frame.byteLength);
+  const bytesPerSample = getBytesPerSample(bitsAllocated);
+  const pixelCount = width * height;
+
+  if (frame.length < 64) {
+    throw new DicomDecodeError('RLE frame is missing its header', TRANSFER_SYNTAX.RLE_LOSSLESS);
+  }
+
+  const segmentCount = view.getUint32(0, true);
+  if (segmentCount !== samplesPerPixel * bytesPerSample) {
+    throw new DicomDecodeError(
+      `RLE frame has ${segmentCount} segments, expected ${samplesPerPixel * bytesPerSample}`,
+      TRANSFER_SYNTAX.RLE_LOSSLESS
+    );
+  }
+
+  const segmentOffsets: number[] = [];
+  for (let i = 0; i < segmentCount; i++) {
+    segmentOffsets.push(view.getUint32(4 + i * 4, true));
+  }
+
+  const output = new Uint8Array(pixelCount * samplesPerPixel * bytesPerSample);
+
+  for (let segment = 0; segment < segmentCount; segment++) {
+    const sample = Math.floor(segment / bytesPerSample);
+    // Segments run from the most significant byte down; output is little endian
+    const byteIndex = bytesPerSample - 1 - (segment % bytesPerSample);
+    const stride = samplesPerPixel * bytesPerSample;
+    const start = segmentOffsets[segment];
+    const end = segment + 1 < segmentCount ? segmentOffsets[segment + 1] : frame.length;
+
+    let out = sample * bytesPerSample + byteIndex;
+    const outEnd = output.length;
+    let pos = start;
+
+    while (pos < end && out < outEnd) {
+      const n = (frame[pos++] << 24) >> 24; // signed byte
+
+      if (n >= 0) {
+        for (let i = 0; i <= n && pos < end && out < outEnd; i++) {
+          output[out] = frame[pos++];
+          out += stride;
+        }
+      } else if (n > -128) {
+        const value = frame[pos++];
+        for (let i = 0; i < 1 - n && out < outEnd; i++) {
+          output[out] = value;
+          out += stride;
+        }
+      }
+    }
+  }
+
+  return toSampleArray(output, bytesPerSample);
+}
+
+export interface DecodedJPEG {
+  width: number;
+  height: number;
+  components: number;
+  precision: number;
+  data: Uint16Array | Uint8Array;
+}
+
+interface HuffmanTable {
+  minCode: Int32Array;
+  maxCode: Int32Array;
+  valuePointer: Int32Array;
+  values: Uint8Array;
+}
+
+interface JPEGComponent {
+  id: number;
+  tableIndex: number;
+}
+
+/**
+ * Decode a lossless JPEG (ITU T.81 Process 14) stream, as used by the
+ * JPEG Lossless and JPEG Lossless SV1 transfer syntaxes. Multiple components
+ * must be interleaved in a single scan with 1x1 sampling.
+ */
+export function decodeJPEGLossless(data: Uint8Array): DecodedJPEG {
+  const huffmanTables: HuffmanTable[] = [];
+  let width = 0;
+  let height = 0;
+  let precision = 0;
+  let frameComponents = 0;
+  let restartInterval = 0;
+  let pos = 0;
+
+  const readUint16 = () => {
+    const value = (data[pos] << 8) | data[pos + 1];
+    pos += 2;
+    return value;
+  };
+
+  if (readUint16() !== 0xffd8) {
+    throw new DicomDecodeError('JPEG stream does not start with SOI', TRANSFER_SYNTAX.JPEG_LOSSLESS);
+  }
+
+  while (pos < data.length) {
+    if (data[pos] !== 0xff) {
+      pos++;
+      continue;
+    }
+    const marker = readUint16();
+    if (marker === 0xffff) {
+      pos--; // fill byte
+      continue;
+    }
+
+    const segmentStart = pos;
+    const segmentLength = readUint16();
+
+    switch (marker) {
+      case 0xffc3: { // SOF3, lossless sequential Huffman
+        precision = data[pos++];
+        height = readUint16();
+        width = readUint16();
+        frameComponents = data[pos++];
+        for (let i = 0; i < frameComponents; i++) {
+          const sampling = data[pos + 1];
+          if (sampling !== 0x11) {
+            throw new DicomDecodeError(
+              'JPEG Lossless with subsampled components is not supported',
+              TRANSFER_SYNTAX.JPEG_LOSSLESS
+            );
+          }
+          pos += 3;
+        }
+        break;
+      }
+
+      case 0xffc4: { // DHT
+        const end = segmentStart + segmentLength;
+        while (pos < end) {
+          const tableIndex = data[pos++] & 0x0f;
+          const counts = data.subarray(pos, pos + 16);
+          pos += 16;
+          const total = counts.reduce((sum, count) => sum + count, 0);
+          huffmanTables[tableIndex] = buildHuffmanTable(counts, data.slice(pos, pos + total));
+          pos += total;
+        }
+        break;
+      }
+
+      case 0xffdd: // DRI
+        restartInterval = readUint16();
+        break;
+
+      case 0xffda: { // SOS
+        if (!width || !height) {
+          throw new DicomDecodeError('JPEG scan found before SOF3 frame header', TRANSFER_SYNTAX.JPEG_LOSSLESS);
+        }
+        const scanComponentCount = data[pos++];
+        const components: JPEGComponent[] = [];
+        for (let i = 0; i < scanComponentCount; i++) {
+          const id = data[pos++];
+          const tableIndex = data[pos++] >> 4;
+          components.push({ id, tableIndex });
+        }
+        const predictor = data[pos++];
+        pos++; // Se, unused in lossless mode
+        const pointTransform = data[pos++] & 0x0f;
+
+        if (scanComponentCount !== frameComponents) {
+          throw new DicomDecodeError(
+            'Non-interleaved JPEG Lossless scans are not supported',
+            TRANSFER_SYNTAX.JPEG_LOSSLESS
+          );
+        }
+
+        const samples = decodeLosslessScan(data, pos, {
+          width,
+          height,
+          precision,
+          predictor,
+          pointTransform,
+          restartInterval,
+          tables: components.map(component => {
+            const table = huffmanTables[component.tableIndex];
+            if (!table) {
+              throw new DicomDecodeError(
+                `Missing Huffman table ${component.tableIndex}`,
+                TRANSFER_SYNTAX.JPEG_LOSSLESS
+              );
+            }
+            return table;
+          }),
+        });
+
+        return {
+          width,
+          height,
+          components: frameComponents,
+          precision,
+          data: precision > 8 ? samples : Uint8Array.from(samples),
+        };
+      }
+
+      case 0xffc0:
+      case 0xffc1:
+      case 0xffc2:
+        throw new DicomDecodeError(
+          'JPEG stream is lossy (DCT based), not lossless',
+          TRANSFER_SYNTAX.JPEG_LOSSLESS
+        );
+
+      default:
+        // APPn, COM, DQT and other markers we do not need
+        break;
+    }
+
+    pos = segmentStart + segmentLength;
+  }
+
+  throw new DicomDecodeError('JPEG stream contains no scan', TRANSFER_SYNTAX.JPEG_LOSSLESS);
+}
+
+function buildHuffmanTable(counts: Uint8Array, values: Uint8Array): HuffmanTable {
+  const minCode = new Int32Array(17);
+  const maxCode = new Int32Array(17).fill(-1);
+  const valuePointer = new Int32Array(17);
+  let code = 0;
+  let k = 0;
+
+  for (let length = 1; length <= 16; length++) {
+    const count = counts[length - 1];
+    if (count > 0) {
+      valuePointer[length] = k;
+      minCode[length] = code;
+      code += count;
+      k += count;
+      maxCode[length] = code - 1;
+    }
+    code <<= 1;
+  }
+
+  return { minCode, maxCode, valuePointer, values };
+}
+
+interface LosslessScanParams {
+  width: number;
+  height: number;
+  precision: number;
+  predictor: number;
+  pointTransform: number;
+  restartInterval: number;
+  tables: HuffmanTable[];
+}
+
+function decodeLosslessScan(data: Uint8Array, start: number, params: LosslessScanParams): Uint16Array {
+  const { width, height, precision, predictor, pointTransform, restartInterval, tables } = params;
+  const components = tables.length;
+  const output = new Uint16Array(width * height * components);
+  const mask = (1 << precision) - 1;
+  const initialPrediction = 1 << (precision - pointTransform - 1);
+  // Prediction works on the point-transformed values; keep them separate
+  // from the (shifted) output samples
+  const reconstructed = pointTransform ? new Uint16Array(output.length) : output;
+
+  let pos = start;
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const fillByte = () => {
+    let byte = 0;
+    if (pos < data.length) {
+      byte = data[pos];
+      if (byte === 0xff) {
+        const next = data[pos + 1];
+        if (next === 0x00) {
+          pos += 2;
+        } else {
+          // Marker reached: stop consuming and feed zero bits
+          byte = 0;
+        }
+      } else {
+        pos++;
+      }
+    }
+    bitBuffer = (bitBuffer << 8) | byte;
+    bitCount += 8;
+  };
+
+  const readBit = () => {
+    if (bitCount === 0) fillByte();
+    bitCount--;
+    return (bitBuffer >> bitCount) & 1;
+  };
+
+  const receive = (length: number) => {
+    let value = 0;
+    for (let i = 0; i < length; i++) {
+      value = (value << 1) | readBit();
+    }
+    return value;
+  };
+
+  const decodeHuffman = (table: HuffmanTable) => {
+    let code = readBit();
+    let length = 1;
+    while (length <= 16 && code > table.maxCode[length]) {
+      code = (code << 1) | readBit();
+      length++;
+    }
+    if (length > 16) {
+      throw new DicomDecodeError('Invalid Huffman code in JPEG Lossless stream', TRANSFER_SYNTAX.JPEG_LOSSLESS);
+    }
+    return table.values[table.valuePointer[length] + code - table.minCode[length]];
+  };
+
+  const decodeDifference = (table: HuffmanTable) => {
+    const ssss = decodeHuffman(table);
+    if (ssss === 0) return 0;
+    if (ssss === 16) return 32768;
+    const bits = receive(ssss);
+    return bits < 1 << (ssss - 1) ? bits - (1 << ssss) + 1 : bits;
+  };
+
+  const restart = () => {
+    bitBuffer = 0;
+    bitCount = 0;
+    // Skip to and over the RSTn marker
+    while (pos + 1 < data.length && !(data[pos] === 0xff && data[pos + 1] >= 0xd0 && data[pos + 1] <= 0xd7)) {
+      pos++;
+    }
+    pos += 2;
+  };
+
+  const rowStride = width * components;
+  let mcuCount = 0;
+  let firstLine = true;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (restartInterval && mcuCount === restartInterval) {
+        restart();
+        mcuCount = 0;
+        firstLine = true;
+      }
+
+      for (let c = 0; c < components; c++) {
+        const index = y * rowStride + x * components + c;
+        let prediction: number;
+
+        if (firstLine) {
+          prediction = x === 0 ? initialPrediction : reconstructed[index - components];
+        } else if (x === 0) {
+          prediction = reconstructed[index - rowStride];
+        } else {
+          const ra = reconstructed[index - components];
+          const rb = reconstructed[index - rowStride];
+          const rc = reconstructed[index - rowStride - components];
+          switch (predictor) {
+            case 1: prediction = ra; break;
+            case 2: prediction = rb; break;
+            case 3: prediction = rc; break;
+            case 4: prediction = ra + rb - rc; break;
+            case 5: prediction = ra + ((rb - rc) >> 1); break;
+            case 6: prediction = rb + ((ra - rc) >> 1); break;
+            case 7: prediction = (ra + rb) >> 1; break;
+            default: prediction = 0;
+          }
+        }
+
+        const value = (prediction + decodeDifference(tables[c])) & mask;
+        reconstructed[index] = value;
+        if (pointTransform) {
+          output[index] = (value << pointTransform) & 0xffff;
+        }
+      }
+      mcuCount++;
+    }
+    firstLine = false;
+  }
+
+  return output;
+}
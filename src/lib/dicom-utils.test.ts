@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { DicomProcessor } from './dicom-utils';
+import { dicomElement, writeDicomFile } from './dicom-writer';
 import { DicomImage, DicomRTStruct } from '@/types';
 
 describe('dicom-utils', () => {
@@ -70,4 +71,121 @@ describe('dicom-utils', () => {
             expect(DicomProcessor.getHUValueAtPixel(image, -1, 0)).toBeNull();
         });
     });
+
+    describe('toStoredValues', () => {
+        it('should reinterpret 16-bit signed data as Int16Array', () => {
+            const raw = new Uint16Array([0xfc18, 0x0000, 0x03e8]); // -1000, 0, 1000
+            const values = DicomProcessor.toStoredValues(raw, 16, 15, 1);
+
+            expect(values).toBeInstanceOf(Int16Array);
+            expect(Array.from(values)).toEqual([-1000, 0, 1000]);
+        });
+
+        it('should mask and sign-extend when BitsStored < BitsAllocated', () => {
+            // 12 bits stored: 0x0c18 is -1000, upper nibble holds overlay garbage
+            const raw = new Uint16Array([0xfc18, 0x1c18, 0x03e8]);
+
+            expect(Array.from(DicomProcessor.toStoredValues(raw, 12, 11, 1))).toEqual([-1000, -1000, 1000]);
+            expect(Array.from(DicomProcessor.toStoredValues(raw, 12, 11, 0))).toEqual([0x0c18, 0x0c18, 0x03e8]);
+        });
+
+        it('should shift out bits below the low bit', () => {
+            const raw = new Uint16Array([0x0010, 0x0ff0]);
+            expect(Array.from(DicomProcessor.toStoredValues(raw, 12, 15, 0))).toEqual([0x001, 0x0ff]);
+        });
+    });
+
+    describe('parseDicomImages', () => {
+        it('should split enhanced multi-frame objects using functional groups', () => {
+            const planePosition = (z: number) => [[
+                dicomElement('x00209113', 'SQ', [[dicomElement('x00200032', 'DS', [-50, -60, z])]]),
+            ]];
+            const file = writeDicomFile([
+                dicomElement('x00080016', 'UI', '1.2.840.10008.5.1.4.1.1.2.1'),
+                dicomElement('x00080018', 'UI', '1.2.3.4.5'),
+                dicomElement('x00280002', 'US', 1),
+                dicomElement('x00280008', 'IS', 2),
+                dicomElement('x00280010', 'US', 2),
+                dicomElement('x00280011', 'US', 2),
+                dicomElement('x00280100', 'US', 16),
+                dicomElement('x00280101', 'US', 16),
+                dicomElement('x00280102', 'US', 15),
+                dicomElement('x00280103', 'US', 1),
+                dicomElement('x52009229', 'SQ', [[
+                    dicomElement('x00209116', 'SQ', [[dicomElement('x00200037', 'DS', [1, 0, 0, 0, 1, 0])]]),
+                    dicomElement('x00289110', 'SQ', [[
+                        dicomElement('x00180050', 'DS', 3),
+                        dicomElement('x00280030', 'DS', [0.5, 0.5]),
+                    ]]),
+                    dicomElement('x00289145', 'SQ', [[
+                        dicomElement('x00281052', 'DS', 0),
+                        dicomElement('x00281053', 'DS', 1),
+                    ]]),
+                ]]),
+                dicomElement('x52009230', 'SQ', [...planePosition(10), ...planePosition(13)]),
+                dicomElement('x7fe00010', 'OW', new Uint16Array([1, 2, 3, 4, 0xffff, 6, 7, 8])),
+            ], { sopClassUID: '1.2.840.10008.5.1.4.1.1.2.1', sopInstanceUID: '1.2.3.4.5' });
+
+            const frames = DicomProcessor.parseDicomImages(file);
+
+            expect(frames).toHaveLength(2);
+            expect(frames[0].imagePosition).toEqual([-50, -60, 10]);
+            expect(frames[1].imagePosition).toEqual([-50, -60, 13]);
+            expect(frames[1].sliceLocation).toBe(13);
+            expect(frames[1].imageOrientation).toEqual([1, 0, 0, 0, 1, 0]);
+            expect(frames[0].pixelSpacing).toEqual([0.5, 0.5]);
+            expect(frames[0].sliceThickness).toBe(3);
+            expect(frames[0].frameNumber).toBe(1);
+            expect(Array.from(frames[0].pixelData)).toEqual([1, 2, 3, 4]);
+            expect(Array.from(frames[1].pixelData)).toEqual([-1, 6, 7, 8]);
+
+            expect(DicomProcessor.parseDicomFile(file)?.frameNumber).toBe(1);
+        });
+    });
+
+    describe('parseRTDose', () => {
+        const createDoseFile = (frameOffsets: number[]) => writeDicomFile([
+            dicomElement('x00080016', 'UI', '1.2.840.10008.5.1.4.1.1.481.2'),
+            dicomElement('x00080018', 'UI', '1.2.3.4.6'),
+            dicomElement('x00200032', 'DS', [-10, -20, 30]),
+            dicomElement('x00200037', 'DS', [1, 0, 0, 0, 1, 0]),
+            dicomElement('x00200052', 'UI', '1.2.3.99'),
+            dicomElement('x00280002', 'US', 1),
+            dicomElement('x00280008', 'IS', 2),
+            dicomElement('x00280010', 'US', 2),
+            dicomElement('x00280011', 'US', 2),
+            dicomElement('x00280030', 'DS', [2.5, 2.5]),
+            dicomElement('x00280100', 'US', 32),
+            dicomElement('x00280101', 'US', 32),
+            dicomElement('x00280102', 'US', 31),
+            dicomElement('x00280103', 'US', 0),
+            dicomElement('x30040002', 'CS', 'GY'),
+            dicomElement('x30040004', 'CS', 'PHYSICAL'),
+            dicomElement('x3004000c', 'DS', frameOffsets),
+            dicomElement('x3004000e', 'DS', 0.001),
+            dicomElement('x7fe00010', 'OB', new Uint8Array(new Uint32Array([0, 1000, 2000, 70000, 4000, 5000, 6000, 7000]).buffer)),
+        ], { sopClassUID: '1.2.840.10008.5.1.4.1.1.481.2', sopInstanceUID: '1.2.3.4.6' });
+
+        it('should scale a multi-frame 32-bit dose grid', () => {
+            const file = createDoseFile([0, 3]);
+            const dose = DicomProcessor.parseRTDose(file);
+
+            expect(dose).not.toBeNull();
+            expect(dose?.frames).toBe(2);
+            expect(dose?.frameOffsets).toEqual([0, 3]);
+            expect(dose?.pixelSpacing).toEqual([2.5, 2.5]);
+            expect(dose?.frameOfReferenceUID).toBe('1.2.3.99');
+            expect(Array.from(dose?.doseGrid ?? []).map(v => Math.round(v * 1000) / 1000))
+                .toEqual([0, 1, 2, 70, 4, 5, 6, 7]);
+            expect(dose?.maxDose).toBeCloseTo(70);
+
+            // Dose grids are not images
+            expect(DicomProcessor.parseDicomImages(file)).toEqual([]);
+        });
+
+        it('should convert absolute grid frame offsets', () => {
+            const dose = DicomProcessor.parseRTDose(createDoseFile([30, 33]));
+            expect(dose?.frameOffsets).toEqual([0, 3]);
+        });
+    });
 });
@@ -1,12 +1,46 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import * as dicomParser from 'dicom-parser';
-import { DicomImage, DicomStructure, DicomRTStruct } from '@/types';
+import {
+  DicomImage,
+  DicomStructure,
+  DicomRTStruct,
+  DicomRTDose,
+  ContourGeometricType,
+  PixelData,
+  DicomCode,
+  DicomSegmentation,
+  DicomSegment,
+} from '@/types';
+import { decodePixelData, DicomDecodeError, inflateDataSet, TRANSFER_SYNTAX } from './dicom-codecs';
+import { dicomLabToRGB, FALLBACK_ROI_COLORS } from './color-utils';
+
+const RTDOSE_SOP_CLASS_UID = '1.2.840.10008.5.1.4.1.1.481.2';
+export const SEGMENTATION_SOP_CLASS_UID = '1.2.840.10008.5.1.4.1.1.66.4';
 
 export class DicomProcessor {
   static parseDicomFile(arrayBuffer: ArrayBuffer): DicomImage | null {
+    return this.parseImageFrames(arrayBuffer, 1)[0] ?? null;
+  }
+
+  /**
+   * Parse every frame of an image object. Multi-frame (enhanced CT/MR)
+   * objects yield one DicomImage per frame; single-frame files yield one.
+   */
+  static parseDicomImages(arrayBuffer: ArrayBuffer): DicomImage[] {
+    return this.parseImageFrames(arrayBuffer);
+  }
+
+  private static parseImageFrames(arrayBuffer: ArrayBuffer, frameLimit?: number): DicomImage[] {
     try {
       const byteArray = new Uint8Array(arrayBuffer);
-      const dataSet = dicomParser.parseDicom(byteArray);
+      const dataSet = dicomParser.parseDicom(byteArray, { inflater: inflateDataSet });
+
+      // Dose grids and segmentations carry pixel data too, but are loaded
+      // by parseRTDose and parseSegmentation
+      const sopClass = dataSet.string('x00080016');
+      if (sopClass === RTDOSE_SOP_CLASS_UID || sopClass === SEGMENTATION_SOP_CLASS_UID) {
+        return [];
+      }
 
       // Extract basic image information
       const width = dataSet.uint16('x00280011'); // Columns
@@ -30,6 +64,9 @@ export class DicomProcessor {
       const sopClassUID = dataSet.string('x00080016') || undefined;
       const frameOfReferenceUID = dataSet.string('x00200052') || undefined;
       const studyInstanceUID = dataSet.string('x0020000d') || undefined;
+      const modality = dataSet.string('x00080060') || undefined;
+      const seriesDescription = dataSet.string('x0008103e') || undefined;
+      const seriesNumber = dataSet.intString('x00200011');
 
       // Image position, slice location, and spacing information
       const imagePosition = dataSet.string('x00200032')?.split('\\').map(Number);
@@ -41,57 +78,125 @@ export class DicomProcessor {
       const sliceThickness = dataSet.floatString('x00180050');
       const pixelSpacing = dataSet.string('x00280030')?.split('\\').map(Number);
 
-      // Extract pixel data
-      const pixelDataElement = dataSet.elements.x7fe00010;
-      if (!pixelDataElement) {
+      if (!dataSet.elements.x7fe00010) {
         throw new Error('No pixel data found');
       }
 
-      let pixelData: Uint16Array | Uint8Array;
-      const pixelDataOffset = pixelDataElement.dataOffset;
-      const pixelDataLength = pixelDataElement.length;
-
-      if (bitsAllocated === 16) {
-        pixelData = new Uint16Array(
-          arrayBuffer.slice(pixelDataOffset, pixelDataOffset + pixelDataLength)
-        );
-      } else {
-        pixelData = new Uint8Array(
-          arrayBuffer.slice(pixelDataOffset, pixelDataOffset + pixelDataLength)
+      // Enhanced objects describe each frame through functional groups:
+      // per-frame values take precedence over the shared ones
+      const numberOfFrames = Math.max(1, dataSet.intString('x00280008') || 1);
+      const sharedGroups = this.parseSequence(dataSet, dataSet.elements.x52009229)[0];
+      const perFrameGroups = this.parseSequence(dataSet, dataSet.elements.x52009230);
+      const isMultiFrame = numberOfFrames > 1 || perFrameGroups.length > 0;
+
+      const samplesPerPixel = dataSet.uint16('x00280002') || 1;
+      const frameCount = Math.min(numberOfFrames, frameLimit ?? numberOfFrames);
+      const images: DicomImage[] = [];
+
+      for (let frameIndex = 0; frameIndex < frameCount; frameIndex++) {
+        const groups = [perFrameGroups[frameIndex], sharedGroups].filter(Boolean);
+        const fromGroups = <T>(sequenceTag: string, read: (item: any) => T | undefined): T | undefined =>
+          this.functionalGroupValue(groups, sequenceTag, read);
+
+        const framePosition = fromGroups('x00209113', item => this.parseNumbers(item.string('x00200032')))
+          ?? imagePosition;
+        const frameOrientation = fromGroups('x00209116', item => this.parseNumbers(item.string('x00200037')))
+          ?? imageOrientation;
+        const framePixelSpacing = fromGroups('x00289110', item => this.parseNumbers(item.string('x00280030')))
+          ?? pixelSpacing;
+        const frameThickness = fromGroups('x00289110', item => item.floatString('x00180050'))
+          ?? sliceThickness;
+        const frameIntercept = fromGroups('x00289145', item => item.floatString('x00281052'))
+          ?? rescaleIntercept;
+        const frameSlope = fromGroups('x00289145', item => item.floatString('x00281053'))
+          ?? rescaleSlope;
+        const frameWindowCenter = fromGroups('x00289132', item => item.floatString('x00281050'))
+          ?? windowCenter;
+        const frameWindowWidth = fromGroups('x00289132', item => item.floatString('x00281051'))
+          ?? windowWidth;
+
+        // Extract pixel data, decompressing encapsulated transfer syntaxes
+        const storedData = decodePixelData(dataSet, {
+          width,
+          height,
+          bitsAllocated,
+          samplesPerPixel,
+        }, frameIndex);
+        if (storedData instanceof Uint32Array) {
+          throw new DicomDecodeError('32-bit image pixel data is not supported');
+        }
+        const pixelData = this.toStoredValues(
+          storedData,
+          bitsStored,
+          highBit,
+          pixelRepresentation
         );
+
+        images.push({
+          arrayBuffer,
+          dataSet,
+          pixelData,
+          width,
+          height,
+          windowCenter: frameWindowCenter,
+          windowWidth: frameWindowWidth,
+          rescaleIntercept: frameIntercept,
+          rescaleSlope: frameSlope,
+          seriesInstanceUID,
+          sopInstanceUID,
+          sopClassUID,
+          imagePosition: framePosition,
+          imageOrientation: frameOrientation,
+          // Enhanced objects carry no Slice Location; use the frame's Z position
+          sliceLocation: isMultiFrame ? framePosition?.[2] ?? sliceLocation : sliceLocation,
+          sliceThickness: frameThickness,
+          pixelSpacing: framePixelSpacing,
+          frameOfReferenceUID,
+          studyInstanceUID,
+          modality,
+          seriesDescription,
+          seriesNumber,
+          frameNumber: isMultiFrame ? frameIndex + 1 : undefined,
+        });
       }
 
-      return {
-        arrayBuffer,
-        dataSet,
-        pixelData,
-        width,
-        height,
-        windowCenter,
-        windowWidth,
-        rescaleIntercept,
-        rescaleSlope,
-        seriesInstanceUID,
-        sopInstanceUID,
-        sopClassUID,
-        imagePosition,
-        imageOrientation,
-        sliceLocation,
-        sliceThickness,
-        pixelSpacing,
-        frameOfReferenceUID,
-        studyInstanceUID,
-      };
+      return images;
     } catch (error) {
+      // Undecodable pixel data is reported to the loader rather than
+      // treated like a non-image file
+      if (error instanceof DicomDecodeError) {
+        throw error;
+      }
       console.error('Error parsing DICOM file:', error);
-      return null;
+      return [];
     }
   }
 
+  /**
+   * Read a value from the first functional group (per-frame, then shared)
+   * whose macro sequence provides it
+   */
+  private static functionalGroupValue<T>(
+    groups: any[],
+    sequenceTag: string,
+    read: (item: any) => T | undefined
+  ): T | undefined {
+    for (const group of groups) {
+      const item = this.parseSequence(group, group.elements[sequenceTag])[0];
+      const value = item ? read(item) : undefined;
+      if (value !== undefined) return value;
+    }
+    return undefined;
+  }
+
+  private static parseNumbers(value: string | undefined): number[] | undefined {
+    return value ? value.split('\\').map(Number) : undefined;
+  }
+
   static parseRTStruct(arrayBuffer: ArrayBuffer): DicomRTStruct | null {
     try {
       const byteArray = new Uint8Array(arrayBuffer);
-      const dataSet = dicomParser.parseDicom(byteArray);
+      const dataSet = dicomParser.parseDicom(byteArray, { inflater: inflateDataSet });
 
       // Verify this is an RT Structure Set
       const sopClassUID = dataSet.string('x00080016');
@@ -99,7 +204,11 @@ export class DicomProcessor {
         throw new Error('Not a valid RT Structure Set');
       }
 
-      const frameOfReference = dataSet.string('x00200052') || '';
+      // RTSTRUCT carries its frame of reference in the Referenced Frame of
+      // Reference Sequence; some writers also add it at the top level
+      const referencedFrames = this.parseSequence(dataSet, dataSet.elements.x30060010);
+      const frameOfReference =
+        dataSet.string('x00200052') || referencedFrames[0]?.string('x00200052') || '';
       const structures: DicomStructure[] = [];
 
       // Parse Structure Set ROI Sequence
@@ -107,36 +216,42 @@ export class DicomProcessor {
       const contourSequence = dataSet.elements.x30060039;
 
       if (roiSequence && contourSequence) {
-        // This is a simplified parser - real implementation would be more complex
         const roiItems = this.parseSequence(dataSet, roiSequence);
         const contourItems = this.parseSequence(dataSet, contourSequence);
+        const observationItems = this.parseSequence(dataSet, dataSet.elements.x30060080);
 
         roiItems.forEach((roiItem: any, index: number) => {
-          const roiNumber = roiItem.uint16('x30060022');
+          // ROI Number and Referenced ROI Number are IS (integer strings)
+          const roiNumber = roiItem.intString('x30060022');
           const roiName = roiItem.string('x30060026') || `Structure_${index + 1}`;
 
-          // Find corresponding contour
+          // Find corresponding contour and observation by Referenced ROI Number
           const contourItem = contourItems.find((item: any) =>
-            item.uint16('x30060084') === roiNumber
+            item.intString('x30060084') === roiNumber
+          );
+          const observationItem = observationItems.find((item: any) =>
+            item.intString('x30060084') === roiNumber
           );
 
           if (contourItem) {
             const structure: DicomStructure = {
               name: roiName,
-              color: [Math.random() * 255, Math.random() * 255, Math.random() * 255],
+              color: this.parseROIColor(contourItem, index),
+              roiNumber,
+              interpretedType: observationItem?.string('x300600a4') || undefined,
+              observationLabel: observationItem?.string('x30060085') || undefined,
               contours: []
             };
 
-            // Parse contours (simplified)
             const contourSeq = contourItem.elements?.x30060040;
             if (contourSeq) {
               const contours = this.parseSequence(contourItem, contourSeq);
-              contours.forEach((contour: any, contourIndex: number) => {
+              contours.forEach((contour: any) => {
                 const contourData = contour.string('x30060050');
                 if (contourData) {
                   const points = contourData.split('\\').map(Number);
                   const pointPairs = [];
-                  for (let i = 0; i < points.length; i += 3) {
+                  for (let i = 0; i + 2 < points.length; i += 3) {
                     pointPairs.push([points[i], points[i + 1], points[i + 2]]);
                   }
 
@@ -145,7 +260,8 @@ export class DicomProcessor {
 
                   structure.contours.push({
                     points: pointPairs,
-                    sliceIndex: 0 // Will be matched by Z coordinate in viewer
+                    sliceIndex: 0, // Will be matched by Z coordinate in viewer
+                    geometricType: this.parseGeometricType(contour.string('x30060042'))
                   });
                 }
               });
@@ -156,9 +272,27 @@ export class DicomProcessor {
         });
       }
 
+      // Collect the image series referenced through
+      // Referenced Frame of Reference > RT Referenced Study > RT Referenced Series
+      const referencedSeriesUIDs: string[] = [];
+      referencedFrames.forEach((frame: any) => {
+        this.parseSequence(frame, frame.elements.x30060012).forEach((study: any) => {
+          this.parseSequence(study, study.elements.x30060014).forEach((series: any) => {
+            const uid = series.string('x0020000e');
+            if (uid && !referencedSeriesUIDs.includes(uid)) {
+              referencedSeriesUIDs.push(uid);
+            }
+          });
+        });
+      });
+
       return {
         structures,
-        frameOfReference
+        frameOfReference,
+        label: dataSet.string('x30060002') || undefined,
+        sopInstanceUID: dataSet.string('x00080018') || undefined,
+        studyInstanceUID: dataSet.string('x0020000d') || undefined,
+        referencedSeriesUIDs,
       };
     } catch (error) {
       console.error('Error parsing RT Structure:', error);
@@ -166,6 +300,270 @@ export class DicomProcessor {
     }
   }
 
+  /**
+   * Parse an RT Dose object into a dose grid in Dose Units. Frames are the
+   * planes of a multi-frame grid, positioned by the Grid Frame Offset Vector
+   * (3004,000C); stored values are multiplied by Dose Grid Scaling (3004,000E).
+   */
+  static parseRTDose(arrayBuffer: ArrayBuffer): DicomRTDose | null {
+    try {
+      const byteArray = new Uint8Array(arrayBuffer);
+      const dataSet = dicomParser.parseDicom(byteArray, { inflater: inflateDataSet });
+
+      if (dataSet.string('x00080016') !== RTDOSE_SOP_CLASS_UID) {
+        throw new Error('Not a valid RT Dose');
+      }
+      if (!dataSet.elements.x7fe00010) {
+        // Point-dose-only objects have no grid to display
+        throw new Error('RT Dose has no dose grid');
+      }
+
+      const columns = dataSet.uint16('x00280011');
+      const rows = dataSet.uint16('x00280010');
+      const bitsAllocated = dataSet.uint16('x00280100') || 32;
+      const pixelRepresentation = dataSet.uint16('x00280103') || 0;
+      const frames = Math.max(1, dataSet.intString('x00280008') || 1);
+      const doseGridScaling = dataSet.floatString('x3004000e') || 1;
+
+      const imagePosition = this.parseNumbers(dataSet.string('x00200032')) ?? [0, 0, 0];
+      const imageOrientation = this.parseNumbers(dataSet.string('x00200037')) ?? [1, 0, 0, 0, 1, 0];
+      const pixelSpacing = this.parseNumbers(dataSet.string('x00280030')) ?? [1, 1];
+
+      // Offsets are relative to Image Position when the first is 0; the
+      // other form PS3.3 allows holds absolute z positions (axial grids only)
+      let frameOffsets = this.parseNumbers(dataSet.string('x3004000c')) ?? [0];
+      if (frameOffsets[0] !== 0) {
+        frameOffsets = frameOffsets.map(offset => offset - imagePosition[2]);
+      }
+      if (frameOffsets.length < frames) {
+        throw new Error(`Grid Frame Offset Vector has ${frameOffsets.length} values for ${frames} frames`);
+      }
+
+      const frameSize = rows * columns;
+      const doseGrid = new Float32Array(frameSize * frames);
+      let maxDose = 0;
+
+      for (let frame = 0; frame < frames; frame++) {
+        const stored = decodePixelData(dataSet, {
+          width: columns,
+          height: rows,
+          bitsAllocated,
+          samplesPerPixel: 1,
+        }, frame);
+        const values = pixelRepresentation === 1
+          ? stored instanceof Uint32Array
+            ? new Int32Array(stored.buffer, stored.byteOffset, stored.length)
+            : stored instanceof Uint16Array
+              ? new Int16Array(stored.buffer, stored.byteOffset, stored.length)
+              : new Int8Array(stored.buffer, stored.byteOffset, stored.length)
+          : stored;
+
+        const offset = frame * frameSize;
+        for (let i = 0; i < frameSize && i < values.length; i++) {
+          const dose = values[i] * doseGridScaling;
+          doseGrid[offset + i] = dose;
+          if (dose > maxDose) maxDose = dose;
+        }
+      }
+
+      const referencedPlan = this.parseSequence(dataSet, dataSet.elements.x300c0002)[0];
+
+      return {
+        columns,
+        rows,
+        frames,
+        doseGrid,
+        maxDose,
+        imagePosition,
+        imageOrientation,
+        pixelSpacing,
+        frameOffsets: frameOffsets.slice(0, frames),
+        doseUnits: dataSet.string('x30040002') || 'GY',
+        doseType: dataSet.string('x30040004') || undefined,
+        doseSummationType: dataSet.string('x3004000a') || undefined,
+        frameOfReferenceUID: dataSet.string('x00200052') || undefined,
+        sopInstanceUID: dataSet.string('x00080018') || undefined,
+        referencedPlanUID: referencedPlan?.string('x00081155') || undefined,
+      };
+    } catch (error) {
+      if (error instanceof DicomDecodeError) {
+        throw error;
+      }
+      console.error('Error parsing RT Dose:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Parse a DICOM Segmentation. Every frame holds one segment on one plane;
+   * the segment comes from the Segment Identification Sequence and the
+   * plane from Plane Position and/or the referenced source image. BINARY
+   * frames are bit-packed back to back, without padding between frames.
+   */
+  static parseSegmentation(arrayBuffer: ArrayBuffer): DicomSegmentation | null {
+    try {
+      const byteArray = new Uint8Array(arrayBuffer);
+      const dataSet = dicomParser.parseDicom(byteArray, { inflater: inflateDataSet });
+
+      if (dataSet.string('x00080016') !== SEGMENTATION_SOP_CLASS_UID) {
+        throw new Error('Not a valid Segmentation');
+      }
+      const pixelDataElement = dataSet.elements.x7fe00010;
+      if (!pixelDataElement) {
+        throw new Error('Segmentation has no pixel data');
+      }
+
+      const rows = dataSet.uint16('x00280010');
+      const columns = dataSet.uint16('x00280011');
+      const bitsAllocated = dataSet.uint16('x00280100') || 1;
+      const numberOfFrames = Math.max(1, dataSet.intString('x00280008') || 1);
+      const segmentationType = dataSet.string('x00620001') === 'FRACTIONAL' ? 'FRACTIONAL' : 'BINARY';
+
+      const sharedGroups = this.parseSequence(dataSet, dataSet.elements.x52009229)[0];
+      const perFrameGroups = this.parseSequence(dataSet, dataSet.elements.x52009230);
+      const shared = <T>(sequenceTag: string, read: (item: any) => T | undefined): T | undefined =>
+        this.functionalGroupValue([sharedGroups].filter(Boolean), sequenceTag, read);
+
+      const segments: DicomSegment[] = this.parseSequence(dataSet, dataSet.elements.x00620002).map((item: any) => {
+        const lab = item.elements.x0062000d ? [0, 1, 2].map(i => item.uint16('x0062000d', i)) : undefined;
+        return {
+          segmentNumber: item.uint16('x00620004'),
+          label: item.string('x00620005') || `Segment_${item.uint16('x00620004')}`,
+          color: lab ? dicomLabToRGB(lab) : undefined,
+          algorithmType: item.string('x00620008') || undefined,
+          category: this.parseCode(item, item.elements.x00620003),
+          type: this.parseCode(item, item.elements.x0062000f),
+        };
+      });
+
+      const transferSyntax = dataSet.string('x00020010') || TRANSFER_SYNTAX.IMPLICIT_VR_LITTLE_ENDIAN;
+      const isNative = transferSyntax === TRANSFER_SYNTAX.IMPLICIT_VR_LITTLE_ENDIAN ||
+        transferSyntax === TRANSFER_SYNTAX.EXPLICIT_VR_LITTLE_ENDIAN ||
+        transferSyntax === TRANSFER_SYNTAX.DEFLATED_EXPLICIT_VR_LITTLE_ENDIAN;
+      if (bitsAllocated === 1 && !isNative) {
+        throw new DicomDecodeError('Compressed binary segmentations are not supported', transferSyntax);
+      }
+
+      const frameSize = rows * columns;
+      const frames = Array.from({ length: numberOfFrames }, (_, frameIndex) => {
+        const groups = [perFrameGroups[frameIndex], sharedGroups].filter(Boolean);
+        const fromGroups = <T>(sequenceTag: string, read: (item: any) => T | undefined): T | undefined =>
+          this.functionalGroupValue(groups, sequenceTag, read);
+
+        let pixels: Uint8Array;
+        if (bitsAllocated === 1) {
+          pixels = new Uint8Array(frameSize);
+          const firstBit = frameIndex * frameSize;
+          for (let i = 0; i < frameSize; i++) {
+            const bit = firstBit + i;
+            pixels[i] = (dataSet.byteArray[pixelDataElement.dataOffset + (bit >> 3)] >> (bit & 7)) & 1;
+          }
+        } else {
+          const stored = decodePixelData(dataSet, { width: columns, height: rows, bitsAllocated, samplesPerPixel: 1 }, frameIndex);
+          pixels = stored instanceof Uint8Array ? stored : Uint8Array.from(stored);
+        }
+
+        const sourceImage = fromGroups('x00089124', (item: any) =>
+          this.parseSequence(item, item.elements.x00082112)[0]?.string('x00081155'));
+
+        return {
+          segmentNumber: fromGroups('x0062000a', (item: any) => item.uint16('x0062000b')) ?? 1,
+          imagePosition: fromGroups('x00209113', (item: any) => this.parseNumbers(item.string('x00200032'))),
+          referencedSOPInstanceUID: sourceImage || undefined,
+          pixels,
+        };
+      });
+
+      const referencedSeriesUIDs = this.parseSequence(dataSet, dataSet.elements.x00081115)
+        .map((item: any) => item.string('x0020000e'))
+        .filter(Boolean);
+
+      return {
+        segmentationType,
+        maxFractionalValue: dataSet.uint16('x0062000e') || 255,
+        rows,
+        columns,
+        pixelSpacing: shared('x00289110', (item: any) => this.parseNumbers(item.string('x00280030')))
+          ?? this.parseNumbers(dataSet.string('x00280030')) ?? [1, 1],
+        imageOrientation: shared('x00209116', (item: any) => this.parseNumbers(item.string('x00200037')))
+          ?? this.parseNumbers(dataSet.string('x00200037')),
+        segments,
+        frames,
+        frameOfReferenceUID: dataSet.string('x00200052') || undefined,
+        sopInstanceUID: dataSet.string('x00080018') || undefined,
+        seriesDescription: dataSet.string('x0008103e') || undefined,
+        referencedSeriesUIDs,
+      };
+    } catch (error) {
+      if (error instanceof DicomDecodeError) {
+        throw error;
+      }
+      console.error('Error parsing Segmentation:', error);
+      return null;
+    }
+  }
+
+  private static parseCode(dataSet: any, element: any): DicomCode | undefined {
+    const item = this.parseSequence(dataSet, element)[0];
+    if (!item) return undefined;
+    return {
+      value: item.string('x00080100') || '',
+      scheme: item.string('x00080102') || '',
+      meaning: item.string('x00080104') || '',
+    };
+  }
+
+  /**
+   * Read the Referenced File IDs (0004,1500) of a DICOMDIR's directory
+   * records. Each ID is returned as its path components, relative to the
+   * folder containing the DICOMDIR.
+   */
+  static parseDicomDir(arrayBuffer: ArrayBuffer): string[][] {
+    try {
+      const dataSet = dicomParser.parseDicom(new Uint8Array(arrayBuffer));
+      const records = this.parseSequence(dataSet, dataSet.elements.x00041220);
+      const fileIDs: string[][] = [];
+
+      records.forEach((record: any) => {
+        const fileID: string | undefined = record.string('x00041500');
+        if (fileID) {
+          fileIDs.push(fileID.split('\\').map(part => part.trim()).filter(Boolean));
+        }
+      });
+
+      return fileIDs;
+    } catch (error) {
+      console.error('Error parsing DICOMDIR:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Read ROI Display Color (3006,002A), falling back to a fixed palette so
+   * structures without a color look the same on every load
+   */
+  private static parseROIColor(contourItem: any, index: number): [number, number, number] {
+    const colorString: string | undefined = contourItem.string('x3006002a');
+    const rgb = colorString?.split('\\').map(Number);
+    if (rgb && rgb.length === 3 && rgb.every(c => Number.isFinite(c))) {
+      return [rgb[0], rgb[1], rgb[2]];
+    }
+    return FALLBACK_ROI_COLORS[index % FALLBACK_ROI_COLORS.length];
+  }
+
+  private static parseGeometricType(value: string | undefined): ContourGeometricType {
+    switch (value?.trim().toUpperCase()) {
+      case 'POINT':
+        return 'POINT';
+      case 'OPEN_PLANAR':
+        return 'OPEN_PLANAR';
+      case 'OPEN_NONPLANAR':
+        return 'OPEN_NONPLANAR';
+      default:
+        return 'CLOSED_PLANAR';
+    }
+  }
+
   private static parseSequence(dataSet: any, element: any): any[] {
     const items = [];
     if (element && element.items) {
@@ -176,8 +574,46 @@ export class DicomProcessor {
     return items;
   }
 
-  static applyWindowLevel(
+  /**
+   * Extract stored values from allocated pixel cells: shift out bits below
+   * the low bit, mask off bits above High Bit (overlays, padding) and
+   * sign-extend two's complement data when Pixel Representation is 1.
+   */
+  static toStoredValues(
     pixelData: Uint16Array | Uint8Array,
+    bitsStored: number,
+    highBit: number,
+    pixelRepresentation: number
+  ): PixelData {
+    const bitsAllocated = pixelData instanceof Uint16Array ? 16 : 8;
+    const storedBits = Math.min(bitsStored, bitsAllocated);
+    const shift = Math.max(0, highBit + 1 - storedBits);
+    const isSigned = pixelRepresentation === 1 && bitsAllocated === 16;
+
+    if (storedBits === bitsAllocated && shift === 0) {
+      return isSigned
+        ? new Int16Array(pixelData.buffer, pixelData.byteOffset, pixelData.length)
+        : pixelData;
+    }
+
+    const mask = (1 << storedBits) - 1;
+    const signBit = 1 << (storedBits - 1);
+    const output = isSigned
+      ? new Int16Array(pixelData.length)
+      : bitsAllocated === 16
+        ? new Uint16Array(pixelData.length)
+        : new Uint8Array(pixelData.length);
+
+    for (let i = 0; i < pixelData.length; i++) {
+      const value = (pixelData[i] >> shift) & mask;
+      output[i] = isSigned && value & signBit ? value - (mask + 1) : value;
+    }
+
+    return output;
+  }
+
+  static applyWindowLevel(
+    pixelData: PixelData,
     windowCenter: number,
     windowWidth: number,
     rescaleSlope: number = 1,
@@ -259,6 +695,7 @@ export class DicomProcessor {
 
     // Create a copy of the RT structure to avoid mutation
     const matched: DicomRTStruct = {
+      ...rtStruct,
       structures: rtStruct.structures.map(structure => ({
         ...structure,
         contours: structure.contours.map(contour => {
@@ -298,7 +735,6 @@ export class DicomProcessor {
           }
         }),
       })),
-      frameOfReference: rtStruct.frameOfReference,
     };
 
     return matched;
@@ -368,7 +804,8 @@ export class DicomProcessor {
     let worldX, worldY, worldZ;
     if (image.imagePosition && image.pixelSpacing) {
       const position = image.imagePosition;
-      const spacing = image.pixelSpacing;
+      // (row spacing, column spacing): x steps along a row by the column spacing
+      const [rowSpacing, columnSpacing] = image.pixelSpacing;
       const orientation = image.imageOrientation || [1, 0, 0, 0, 1, 0];
 
       // Row and column direction cosines
@@ -377,16 +814,16 @@ export class DicomProcessor {
 
       worldX =
         position[0] +
-        x * spacing[0] * rowCosines[0] +
-        y * spacing[1] * colCosines[0];
+        x * columnSpacing * rowCosines[0] +
+        y * rowSpacing * colCosines[0];
       worldY =
         position[1] +
-        x * spacing[0] * rowCosines[1] +
-        y * spacing[1] * colCosines[1];
+        x * columnSpacing * rowCosines[1] +
+        y * rowSpacing * colCosines[1];
       worldZ =
         position[2] +
-        x * spacing[0] * rowCosines[2] +
-        y * spacing[1] * colCosines[2];
+        x * columnSpacing * rowCosines[2] +
+        y * rowSpacing * colCosines[2];
     }
 
     return {
@@ -0,0 +1,341 @@
+/**
+ * Minimal DICOM Part 10 writer (Explicit VR Little Endian).
+ *
+ * dicom-parser is read-only, so objects we generate ourselves (RT Structure
+ * Sets, segmentations) are described as a flat list of elements and encoded
+ * here. Tags use the same 'xGGGGEEEE' notation as dicom-parser so element
+ * definitions read the same way as the parsing code.
+ */
+
+import { DicomImage } from '@/types';
+
+export type DicomVR =
+  | 'AE' | 'AS' | 'AT' | 'CS' | 'DA' | 'DS' | 'DT' | 'FD' | 'FL' | 'IS' | 'LO' | 'LT'
+  | 'OB' | 'OW' | 'PN' | 'SH' | 'SQ' | 'SS' | 'ST' | 'TM' | 'UI' | 'UL' | 'US'
+  | 'UT';
+
+export type DicomElementValue =
+  | string
+  | number
+  | Array<string | number>
+  | Uint8Array
+  | Uint16Array
+  | DicomWriterElement[][];
+
+export interface DicomWriterElement {
+  tag: string;
+  vr: DicomVR;
+  value: DicomElementValue;
+}
+
+export interface DicomFileMeta {
+  sopClassUID: string;
+  sopInstanceUID: string;
+  transferSyntaxUID?: string;
+}
+
+export const EXPLICIT_VR_LITTLE_ENDIAN = '1.2.840.10008.1.2.1';
+export const IMPLEMENTATION_CLASS_UID = '2.25.229451600072090404564544894284998027172';
+export const IMPLEMENTATION_VERSION_NAME = 'DICOMEDIT_0_6';
+
+// VRs that use a 2-byte reserved field followed by a 4-byte length
+const LONG_LENGTH_VRS = new Set<DicomVR>(['OB', 'OW', 'SQ', 'UT']);
+
+// Longest (even, padded) value the 2-byte length of other VRs can hold
+export const MAX_SHORT_VALUE_LENGTH = 0xfffe;
+
+const ITEM_TAG = { group: 0xfffe, element: 0xe000 };
+
+/**
+ * Convenience constructor so element lists stay compact
+ */
+export function dicomElement(tag: string, vr: DicomVR, value: DicomElementValue): DicomWriterElement {
+  return { tag, vr, value };
+}
+
+/**
+ * Generate a UID under the 2.25 root (UUID-derived, see PS3.5 Annex B.2)
+ */
+export function generateUID(): string {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  // RFC 4122 version 4 / variant bits
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+
+  let value = BigInt(0);
+  for (const byte of bytes) {
+    value = (value << BigInt(8)) | BigInt(byte);
+  }
+  return `2.25.${value.toString()}`;
+}
+
+/**
+ * Derive a UID under the 2.25 root from data, so images converted from
+ * other formats get the same UIDs each time the same file is loaded. The
+ * 128 bits are four independent 32-bit multiply-rotate hashes.
+ */
+export function contentUID(...parts: ArrayBufferView[]): string {
+  const multipliers = [0xcc9e2d51, 0x1b873593, 0x85ebca6b, 0xc2b2ae35];
+  const lanes = [0x811c9dc5, 0x9e3779b9, 0x27d4eb2f, 0x165667b1];
+  const mix = (word: number) => {
+    for (let lane = 0; lane < 4; lane++) {
+      const h = Math.imul(lanes[lane] ^ word, multipliers[lane]);
+      lanes[lane] = (h << 13) | (h >>> 19);
+    }
+  };
+
+  for (const part of parts) {
+    // Word access needs a 4-byte aligned offset; copy the bytes otherwise
+    const bytes = part.byteOffset % 4 === 0
+      ? new Uint8Array(part.buffer, part.byteOffset, part.byteLength)
+      : new Uint8Array(part.buffer, part.byteOffset, part.byteLength).slice();
+    const words = new Uint32Array(bytes.buffer, bytes.byteOffset, bytes.byteLength >> 2);
+    mix(bytes.byteLength);
+    for (let i = 0; i < words.length; i++) mix(words[i]);
+    for (let i = words.length * 4; i < bytes.byteLength; i++) mix(bytes[i]);
+  }
+
+  let value = BigInt(0);
+  for (let lane = 0; lane < 4; lane++) {
+    // Final avalanche so every input bit reaches every output bit of the lane
+    let h = lanes[lane] ^ lanes[(lane + 1) % 4];
+    h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+    h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+    value = (value << BigInt(32)) | BigInt((h ^ (h >>> 16)) >>> 0);
+  }
+  return `2.25.${value.toString()}`;
+}
+
+/**
+ * Format a date as DICOM DA (YYYYMMDD)
+ */
+export function formatDicomDate(date: Date): string {
+  const y = date.getFullYear().toString().padStart(4, '0');
+  const m = (date.getMonth() + 1).toString().padStart(2, '0');
+  const d = date.getDate().toString().padStart(2, '0');
+  return `${y}${m}${d}`;
+}
+
+/**
+ * Format a time as DICOM TM (HHMMSS)
+ */
+export function formatDicomTime(date: Date): string {
+  const h = date.getHours().toString().padStart(2, '0');
+  const m = date.getMinutes().toString().padStart(2, '0');
+  const s = date.getSeconds().toString().padStart(2, '0');
+  return `${h}${m}${s}`;
+}
+
+/**
+ * Format a number as a Decimal String value (max 16 characters), rounded to
+ * `fractionDigits` decimal places when given
+ */
+export function formatDecimalString(value: number, fractionDigits?: number): string {
+  if (!Number.isFinite(value)) return '0';
+
+  if (fractionDigits !== undefined) {
+    const text = parseFloat(value.toFixed(fractionDigits)).toString();
+    if (text.length <= 16) return text;
+  }
+
+  for (let precision = 12; precision >= 1; precision--) {
+    const text = parseFloat(value.toPrecision(precision)).toString();
+    if (text.length <= 16) return text;
+  }
+  return '0';
+}
+
+/**
+ * Read a string attribute from the source image's parsed data set, if any,
+ * so generated objects can copy patient and study attributes
+ */
+export function sourceString(image: DicomImage | undefined, tag: string): string {
+  try {
+    return image?.dataSet?.string?.(tag) || '';
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Encode a DICOM Part 10 file: 128-byte preamble, 'DICM', file meta group
+ * and the data set in Explicit VR Little Endian.
+ */
+export function writeDicomFile(
+  elements: DicomWriterElement[],
+  meta: DicomFileMeta
+): ArrayBuffer {
+  const metaElements: DicomWriterElement[] = [
+    dicomElement('x00020001', 'OB', new Uint8Array([0x00, 0x01])),
+    dicomElement('x00020002', 'UI', meta.sopClassUID),
+    dicomElement('x00020003', 'UI', meta.sopInstanceUID),
+    dicomElement('x00020010', 'UI', meta.transferSyntaxUID || EXPLICIT_VR_LITTLE_ENDIAN),
+    dicomElement('x00020012', 'UI', IMPLEMENTATION_CLASS_UID),
+    dicomElement('x00020013', 'SH', IMPLEMENTATION_VERSION_NAME),
+  ];
+
+  const metaBody = encodeDataSet(metaElements);
+  const groupLength = encodeElement(dicomElement('x00020000', 'UL', metaBody.length));
+  const body = encodeDataSet(elements.filter(el => !el.tag.startsWith('x0002')));
+
+  const preamble = new Uint8Array(132);
+  preamble.set([0x44, 0x49, 0x43, 0x4d], 128); // 'DICM'
+
+  return concatBytes([preamble, groupLength, metaBody, body]).buffer as ArrayBuffer;
+}
+
+/**
+ * Encode a list of elements (sorted by tag) without any preamble or meta group
+ */
+export function encodeDataSet(elements: DicomWriterElement[]): Uint8Array {
+  const sorted = [...elements].sort((a, b) => tagToNumber(a.tag) - tagToNumber(b.tag));
+  return concatBytes(sorted.map(encodeElement));
+}
+
+function encodeElement(element: DicomWriterElement): Uint8Array {
+  const { group, elementNumber } = parseTag(element.tag);
+  const value = encodeValue(element);
+  const longLength = LONG_LENGTH_VRS.has(element.vr);
+
+  const header = new Uint8Array(longLength ? 12 : 8);
+  const view = new DataView(header.buffer);
+  view.setUint16(0, group, true);
+  view.setUint16(2, elementNumber, true);
+  header[4] = element.vr.charCodeAt(0);
+  header[5] = element.vr.charCodeAt(1);
+
+  if (longLength) {
+    view.setUint32(8, value.length, true);
+  } else {
+    if (value.length > MAX_SHORT_VALUE_LENGTH) {
+      throw new Error(`Value of ${element.tag} (${element.vr}) is too long: ${value.length} bytes`);
+    }
+    view.setUint16(6, value.length, true);
+  }
+
+  return concatBytes([header, value]);
+}
+
+function encodeValue(element: DicomWriterElement): Uint8Array {
+  const { vr, value } = element;
+
+  switch (vr) {
+    case 'SQ':
+      return encodeSequence(value as DicomWriterElement[][]);
+    case 'OB':
+      return padBytes(value as Uint8Array, 0x00);
+    case 'OW': {
+      const words = value as Uint16Array;
+      const bytes = new Uint8Array(words.length * 2);
+      const view = new DataView(bytes.buffer);
+      words.forEach((word, i) => view.setUint16(i * 2, word, true));
+      return bytes;
+    }
+    case 'US':
+    case 'SS':
+    case 'UL':
+    case 'FL':
+    case 'FD':
+      return encodeBinaryNumbers(vr, toArray(value));
+    case 'AT':
+      // Attribute tags in the same 'xGGGGEEEE' notation, as group then element
+      return encodeBinaryNumbers('US', toArray(value).flatMap(tag => {
+        const { group, elementNumber } = parseTag(String(tag));
+        return [group, elementNumber];
+      }));
+    case 'DS':
+      return encodeString(
+        toArray(value).map(v => (typeof v === 'number' ? formatDecimalString(v) : v)).join('\\'),
+        0x20
+      );
+    case 'IS':
+      return encodeString(
+        toArray(value).map(v => (typeof v === 'number' ? Math.round(v).toString() : v)).join('\\'),
+        0x20
+      );
+    case 'UI':
+      return encodeString(toArray(value).join('\\'), 0x00);
+    default:
+      return encodeString(toArray(value).join('\\'), 0x20);
+  }
+}
+
+function encodeSequence(items: DicomWriterElement[][]): Uint8Array {
+  const encodedItems = items.map(item => {
+    const itemBody = encodeDataSet(item);
+    const header = new Uint8Array(8);
+    const view = new DataView(header.buffer);
+    view.setUint16(0, ITEM_TAG.group, true);
+    view.setUint16(2, ITEM_TAG.element, true);
+    view.setUint32(4, itemBody.length, true);
+    return concatBytes([header, itemBody]);
+  });
+  return concatBytes(encodedItems);
+}
+
+function encodeBinaryNumbers(vr: DicomVR, values: Array<string | number>): Uint8Array {
+  const size = vr === 'US' || vr === 'SS' ? 2 : vr === 'FD' ? 8 : 4;
+  const bytes = new Uint8Array(values.length * size);
+  const view = new DataView(bytes.buffer);
+
+  values.forEach((raw, i) => {
+    const v = Number(raw);
+    const offset = i * size;
+    switch (vr) {
+      case 'US': view.setUint16(offset, v, true); break;
+      case 'SS': view.setInt16(offset, v, true); break;
+      case 'UL': view.setUint32(offset, v, true); break;
+      case 'FL': view.setFloat32(offset, v, true); break;
+      case 'FD': view.setFloat64(offset, v, true); break;
+    }
+  });
+
+  return bytes;
+}
+
+function encodeString(text: string, padByte: number): Uint8Array {
+  // Character set is ISO_IR 100 (Latin-1), so code points map directly to bytes
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    bytes[i] = code <= 0xff ? code : 0x3f; // '?'
+  }
+  return padBytes(bytes, padByte);
+}
+
+function padBytes(bytes: Uint8Array, padByte: number): Uint8Array {
+  if (bytes.length % 2 === 0) return bytes;
+  const padded = new Uint8Array(bytes.length + 1);
+  padded.set(bytes);
+  padded[bytes.length] = padByte;
+  return padded;
+}
+
+function toArray(value: DicomElementValue): Array<string | number> {
+  if (Array.isArray(value)) return value as Array<string | number>;
+  if (value instanceof Uint8Array || value instanceof Uint16Array) return Array.from(value);
+  return [value as string | number];
+}
+
+function parseTag(tag: string): { group: number; elementNumber: number } {
+  return {
+    group: parseInt(tag.slice(1, 5), 16),
+    elementNumber: parseInt(tag.slice(5, 9), 16),
+  };
+}
+
+function tagToNumber(tag: string): number {
+  return parseInt(tag.slice(1), 16);
+}
+
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
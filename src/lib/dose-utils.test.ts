@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { createDoseSampler, getIsodoseSegments, resampleDoseToImage, resampleDoseToMPRSlice } from './dose-utils';
+import { buildMPRVolume } from './mpr-utils';
+import { DicomRTDose } from '@/types';
+import { createImageStack } from '@/test/fixtures';
+
+// 3x3 grid at 10 mm spacing with two frames 10 mm apart; dose rises along x
+const createDose = (): DicomRTDose => ({
+    columns: 3,
+    rows: 3,
+    frames: 2,
+    doseGrid: new Float32Array([
+        0, 10, 20, 0, 10, 20, 0, 10, 20,
+        0, 20, 40, 0, 20, 40, 0, 20, 40,
+    ]),
+    maxDose: 40,
+    imagePosition: [0, 0, 0],
+    imageOrientation: [1, 0, 0, 0, 1, 0],
+    pixelSpacing: [10, 10],
+    frameOffsets: [0, 10],
+    doseUnits: 'GY',
+});
+
+// Two 5x5 slices at 5 mm spacing, 10 mm apart
+const createSlices = () => createImageStack({ count: 2, width: 5, pixelSpacing: [5, 5], sliceStep: 10 });
+
+describe('dose-utils', () => {
+    describe('createDoseSampler', () => {
+        it('should interpolate between voxels and frames', () => {
+            const sample = createDoseSampler(createDose());
+
+            expect(sample(10, 10, 0)).toBeCloseTo(10);
+            expect(sample(5, 0, 0)).toBeCloseTo(5);
+            expect(sample(20, 0, 5)).toBeCloseTo(30);
+            expect(sample(20, 0, 10)).toBeCloseTo(40);
+        });
+
+        it('should return zero outside the grid', () => {
+            const sample = createDoseSampler(createDose());
+
+            expect(sample(-20, 0, 0)).toBe(0);
+            expect(sample(10, 10, 30)).toBe(0);
+        });
+
+        it('should handle descending frame offsets', () => {
+            const dose = createDose();
+            dose.imagePosition = [0, 0, 10];
+            dose.frameOffsets = [0, -10];
+            const sample = createDoseSampler(dose);
+
+            expect(sample(20, 0, 10)).toBeCloseTo(20);
+            expect(sample(20, 0, 0)).toBeCloseTo(40);
+        });
+    });
+
+    describe('resampling', () => {
+        it('should resample onto a CT slice', () => {
+            const slice = resampleDoseToImage(createDose(), createSlices()[0]);
+
+            expect(slice.width).toBe(5);
+            expect(Array.from(slice.data.slice(0, 5))).toEqual([0, 5, 10, 15, 20]);
+        });
+
+        it('should flip Z in sagittal planes', () => {
+            const volume = buildMPRVolume(createSlices());
+            const slice = resampleDoseToMPRSlice(createDose(), volume!, 'sagittal', 4);
+
+            expect(slice.width).toBe(2);
+            expect(slice.height).toBe(5);
+            // Column 0 is the top (highest z) slice
+            expect(slice.data[0]).toBeCloseTo(40);
+            expect(slice.data[1]).toBeCloseTo(20);
+        });
+    });
+
+    describe('getIsodoseSegments', () => {
+        it('should place the isodose line between samples', () => {
+            const slice = { data: new Float32Array([0, 10, 0, 10]), width: 2, height: 2 };
+            const segments = getIsodoseSegments(slice, 5);
+
+            expect(segments).toEqual([1, 0.5, 1, 1.5]);
+        });
+
+        it('should skip cells entirely above or below the level', () => {
+            const slice = { data: new Float32Array([10, 10, 10, 10]), width: 2, height: 2 };
+
+            expect(getIsodoseSegments(slice, 5)).toEqual([]);
+            expect(getIsodoseSegments(slice, 20)).toEqual([]);
+        });
+    });
+});
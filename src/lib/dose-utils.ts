@@ -0,0 +1,348 @@
+/**
+ * RT Dose display: sampling the dose grid on CT and MPR planes, isodose
+ * line extraction and the color-wash overlay.
+ *
+ * The dose grid keeps its own geometry (often coarser than the CT and
+ * covering only part of it), so every displayed plane is resampled with
+ * trilinear interpolation in patient coordinates.
+ */
+
+import { DicomImage, DicomRTDose } from '@/types';
+import { cssColorToRGB } from './color-utils';
+import { MPRVolume, ViewPlane } from './mpr-utils';
+
+export interface IsodoseLevel {
+  percent: number; // of the reference dose
+  color: string;
+  visible: boolean;
+}
+
+export interface DoseDisplaySettings {
+  referenceDose: number; // in Dose Units, usually the prescription
+  levels: IsodoseLevel[];
+  showIsodoseLines: boolean;
+  showColorWash: boolean;
+  washOpacity: number; // 0-1
+}
+
+// Dose resampled onto a displayed plane, row-major like MPRSlice data
+export interface DoseSlice {
+  data: Float32Array;
+  width: number;
+  height: number;
+}
+
+export const DEFAULT_ISODOSE_LEVELS: IsodoseLevel[] = [
+  { percent: 107, color: '#ff00ff', visible: true },
+  { percent: 100, color: '#ff0000', visible: true },
+  { percent: 95, color: '#ff8000', visible: true },
+  { percent: 90, color: '#ffff00', visible: true },
+  { percent: 80, color: '#00ff00', visible: true },
+  { percent: 70, color: '#00ffff', visible: true },
+  { percent: 50, color: '#0080ff', visible: true },
+  { percent: 30, color: '#0000ff', visible: true },
+];
+
+/**
+ * Initial display settings. Without a plan the prescription is unknown,
+ * so levels start relative to the maximum dose in the grid.
+ */
+export function createDoseDisplaySettings(dose: DicomRTDose): DoseDisplaySettings {
+  return {
+    referenceDose: Math.round(dose.maxDose * 100) / 100 || 1,
+    levels: DEFAULT_ISODOSE_LEVELS.map(level => ({ ...level })),
+    showIsodoseLines: true,
+    showColorWash: false,
+    washOpacity: 0.35,
+  };
+}
+
+/**
+ * Build a function returning the interpolated dose at a patient coordinate
+ * (mm). Points outside the grid have zero dose.
+ */
+export function createDoseSampler(dose: DicomRTDose): (x: number, y: number, z: number) => number {
+  const { columns, rows, frames, doseGrid, imagePosition, imageOrientation, pixelSpacing, frameOffsets } = dose;
+  const [rx, ry, rz, cx, cy, cz] = imageOrientation;
+  // Slice normal; frame offsets are measured along it
+  const nx = ry * cz - rz * cy;
+  const ny = rz * cx - rx * cz;
+  const nz = rx * cy - ry * cx;
+  const frameSize = columns * rows;
+
+  return (x: number, y: number, z: number) => {
+    const dx = x - imagePosition[0];
+    const dy = y - imagePosition[1];
+    const dz = z - imagePosition[2];
+
+    // Image Position is the center of the first voxel
+    const col = gridCoordinate((dx * rx + dy * ry + dz * rz) / pixelSpacing[1], columns);
+    const row = gridCoordinate((dx * cx + dy * cy + dz * cz) / pixelSpacing[0], rows);
+    const frame = frameCoordinate(dx * nx + dy * ny + dz * nz, frameOffsets, frames);
+    if (col < 0 || row < 0 || frame < 0) return 0;
+
+    const c0 = Math.floor(col);
+    const r0 = Math.floor(row);
+    const f0 = Math.floor(frame);
+    const c1 = Math.min(c0 + 1, columns - 1);
+    const r1 = Math.min(r0 + 1, rows - 1);
+    const f1 = Math.min(f0 + 1, frames - 1);
+    const tc = col - c0;
+    const tr = row - r0;
+    const tf = frame - f0;
+
+    const planeValue = (f: number) => {
+      const base = f * frameSize;
+      const top = doseGrid[base + r0 * columns + c0] * (1 - tc) + doseGrid[base + r0 * columns + c1] * tc;
+      const bottom = doseGrid[base + r1 * columns + c0] * (1 - tc) + doseGrid[base + r1 * columns + c1] * tc;
+      return top * (1 - tr) + bottom * tr;
+    };
+
+    return tf === 0 ? planeValue(f0) : planeValue(f0) * (1 - tf) + planeValue(f1) * tf;
+  };
+}
+
+/**
+ * Clamp a fractional voxel index, allowing half a voxel beyond the outer
+ * voxel centers. Returns -1 outside the grid.
+ */
+function gridCoordinate(index: number, size: number): number {
+  if (index < -0.5 || index > size - 0.5) return -1;
+  return Math.max(0, Math.min(size - 1, index));
+}
+
+/**
+ * Fractional frame index for an offset along the slice normal. Offsets may
+ * be ascending or descending; -1 means outside the grid.
+ */
+function frameCoordinate(offset: number, frameOffsets: number[], frames: number): number {
+  if (frames === 1) {
+    return Math.abs(offset - frameOffsets[0]) <= 0.5 ? 0 : -1;
+  }
+
+  const ascending = frameOffsets[frames - 1] > frameOffsets[0];
+  const first = ascending ? frameOffsets[0] : frameOffsets[frames - 1];
+  const last = ascending ? frameOffsets[frames - 1] : frameOffsets[0];
+  const halfSpacing = Math.abs(frameOffsets[1] - frameOffsets[0]) / 2;
+  if (offset < first - halfSpacing || offset > last + halfSpacing) return -1;
+  if (offset <= first) return ascending ? 0 : frames - 1;
+  if (offset >= last) return ascending ? frames - 1 : 0;
+
+  // Binary search for the bracketing frames
+  let low = 0;
+  let high = frames - 1;
+  while (high - low > 1) {
+    const mid = (low + high) >> 1;
+    if ((frameOffsets[mid] <= offset) === ascending) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return low + (offset - frameOffsets[low]) / (frameOffsets[high] - frameOffsets[low]);
+}
+
+/**
+ * Resample the dose onto a CT slice, one value per CT pixel
+ */
+export function resampleDoseToImage(dose: DicomRTDose, image: DicomImage): DoseSlice {
+  const sample = createDoseSampler(dose);
+  const { width, height } = image;
+  const [originX, originY, originZ] = image.imagePosition || [0, 0, image.sliceLocation ?? 0];
+  const [spacingY, spacingX] = image.pixelSpacing || [1, 1];
+  const data = new Float32Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    const worldY = originY + y * spacingY;
+    for (let x = 0; x < width; x++) {
+      data[y * width + x] = sample(originX + x * spacingX, worldY, originZ);
+    }
+  }
+
+  return { data, width, height };
+}
+
+/**
+ * Resample the dose onto an MPR plane with the same layout as the
+ * corresponding MPRSlice (Z flipped so the head is at the top)
+ */
+export function resampleDoseToMPRSlice(
+  dose: DicomRTDose,
+  volume: MPRVolume,
+  plane: ViewPlane,
+  index: number
+): DoseSlice {
+  const { width, height, depth, axialSlices, slicePositions, sliceOrigins } = volume;
+  if (plane === 'axial' && !volume.resampling) {
+    return resampleDoseToImage(dose, axialSlices[Math.max(0, Math.min(depth - 1, Math.floor(index)))]);
+  }
+
+  const sample = createDoseSampler(dose);
+  const [spacingX, spacingY] = volume.pixelSpacing;
+
+  if (plane === 'axial') {
+    // Resampled volume slices lie between the CT slices
+    const z = Math.max(0, Math.min(depth - 1, Math.floor(index)));
+    const [originX, originY] = sliceOrigins[z];
+    const data = new Float32Array(width * height);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        data[y * width + x] = sample(originX + x * spacingX, originY + y * spacingY, slicePositions[z]);
+      }
+    }
+    return { data, width, height };
+  }
+
+  if (plane === 'sagittal') {
+    const x = Math.max(0, Math.min(width - 1, Math.floor(index)));
+    const data = new Float32Array(depth * height);
+    for (let column = 0; column < depth; column++) {
+      const z = depth - 1 - column;
+      const [originX, originY] = sliceOrigins[z];
+      for (let y = 0; y < height; y++) {
+        data[y * depth + column] = sample(originX + x * spacingX, originY + y * spacingY, slicePositions[z]);
+      }
+    }
+    return { data, width: depth, height };
+  }
+
+  const y = Math.max(0, Math.min(height - 1, Math.floor(index)));
+  const data = new Float32Array(width * depth);
+  for (let row = 0; row < depth; row++) {
+    const z = depth - 1 - row;
+    const [originX, originY] = sliceOrigins[z];
+    for (let x = 0; x < width; x++) {
+      data[row * width + x] = sample(originX + x * spacingX, originY + y * spacingY, slicePositions[z]);
+    }
+  }
+  return { data, width, height: depth };
+}
+
+/**
+ * Extract an isodose line with marching squares. Returns line segments as
+ * flat [x1, y1, x2, y2, ...] in slice pixel units, where pixel centers sit
+ * at (i + 0.5, j + 0.5) like the rest of the canvas code.
+ */
+export function getIsodoseSegments(slice: DoseSlice, level: number): number[] {
+  const { data, width, height } = slice;
+  const segments: number[] = [];
+
+  // Point where the level crosses the edge between two samples
+  const cross = (x0: number, y0: number, v0: number, x1: number, y1: number, v1: number): [number, number] => {
+    const t = v1 === v0 ? 0.5 : (level - v0) / (v1 - v0);
+    return [x0 + (x1 - x0) * t + 0.5, y0 + (y1 - y0) * t + 0.5];
+  };
+
+  for (let y = 0; y + 1 < height; y++) {
+    for (let x = 0; x + 1 < width; x++) {
+      const tl = data[y * width + x];
+      const tr = data[y * width + x + 1];
+      const br = data[(y + 1) * width + x + 1];
+      const bl = data[(y + 1) * width + x];
+
+      const cell = (tl >= level ? 8 : 0) | (tr >= level ? 4 : 0) | (br >= level ? 2 : 0) | (bl >= level ? 1 : 0);
+      if (cell === 0 || cell === 15) continue;
+
+      const top = () => cross(x, y, tl, x + 1, y, tr);
+      const right = () => cross(x + 1, y, tr, x + 1, y + 1, br);
+      const bottom = () => cross(x, y + 1, bl, x + 1, y + 1, br);
+      const left = () => cross(x, y, tl, x, y + 1, bl);
+      const add = (a: [number, number], b: [number, number]) => segments.push(a[0], a[1], b[0], b[1]);
+
+      switch (cell) {
+        case 1: case 14: add(left(), bottom()); break;
+        case 2: case 13: add(bottom(), right()); break;
+        case 3: case 12: add(left(), right()); break;
+        case 4: case 11: add(top(), right()); break;
+        case 6: case 9: add(top(), bottom()); break;
+        case 7: case 8: add(left(), top()); break;
+        case 5: case 10: {
+          // Saddle: the cell average decides which corners are connected
+          const centerAbove = (tl + tr + br + bl) / 4 >= level;
+          if ((cell === 5) === centerAbove) {
+            add(left(), top());
+            add(bottom(), right());
+          } else {
+            add(top(), right());
+            add(left(), bottom());
+          }
+          break;
+        }
+      }
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Draw the color wash and isodose lines of a dose slice into the image
+ * area of a canvas (the same rectangle the CT slice was drawn into)
+ */
+export function renderDoseOverlay(
+  ctx: CanvasRenderingContext2D,
+  slice: DoseSlice,
+  settings: DoseDisplaySettings,
+  imageX: number,
+  imageY: number,
+  drawWidth: number,
+  drawHeight: number
+): void {
+  const levels = settings.levels
+    .filter(level => level.visible)
+    .sort((a, b) => b.percent - a.percent);
+  if (levels.length === 0 || settings.referenceDose <= 0) return;
+
+  const toDose = (level: IsodoseLevel) => (level.percent / 100) * settings.referenceDose;
+
+  if (settings.showColorWash) {
+    const washCanvas = document.createElement('canvas');
+    washCanvas.width = slice.width;
+    washCanvas.height = slice.height;
+    const washCtx = washCanvas.getContext('2d');
+    if (washCtx) {
+      const imageData = washCtx.createImageData(slice.width, slice.height);
+      const pixels = imageData.data;
+      const bands = levels.map(level => ({ dose: toDose(level), rgb: cssColorToRGB(level.color) }));
+      const alpha = Math.round(Math.max(0, Math.min(1, settings.washOpacity)) * 255);
+
+      for (let i = 0; i < slice.data.length; i++) {
+        // Color each pixel by the highest level it reaches
+        const band = bands.find(b => slice.data[i] >= b.dose);
+        if (!band) continue;
+        pixels[i * 4] = band.rgb[0];
+        pixels[i * 4 + 1] = band.rgb[1];
+        pixels[i * 4 + 2] = band.rgb[2];
+        pixels[i * 4 + 3] = alpha;
+      }
+
+      washCtx.putImageData(imageData, 0, 0);
+      ctx.save();
+      ctx.imageSmoothingEnabled = false;
+      ctx.drawImage(washCanvas, imageX, imageY, drawWidth, drawHeight);
+      ctx.restore();
+    }
+  }
+
+  if (settings.showIsodoseLines) {
+    const scaleX = drawWidth / slice.width;
+    const scaleY = drawHeight / slice.height;
+
+    ctx.save();
+    ctx.lineWidth = 1.5;
+    ctx.setLineDash([]);
+    levels.forEach(level => {
+      const segments = getIsodoseSegments(slice, toDose(level));
+      if (segments.length === 0) return;
+
+      ctx.strokeStyle = level.color;
+      ctx.beginPath();
+      for (let i = 0; i < segments.length; i += 4) {
+        ctx.moveTo(imageX + segments[i] * scaleX, imageY + segments[i + 1] * scaleY);
+        ctx.lineTo(imageX + segments[i + 2] * scaleX, imageY + segments[i + 3] * scaleY);
+      }
+      ctx.stroke();
+    });
+    ctx.restore();
+  }
+}
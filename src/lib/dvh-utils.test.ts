@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { computeDVH, dvhMetricsToCSV, evaluateDVHMetric, parseDVHMetric } from './dvh-utils';
+import { DicomRTDose, Point2D } from '@/types';
+import { createImageStack, createStructure, square } from '@/test/fixtures';
+
+// 11x11 grid at 1 mm spacing where the dose in Gy equals x (mm)
+const createDose = (): DicomRTDose => {
+    const doseGrid = new Float32Array(11 * 11 * 2);
+    for (let i = 0; i < doseGrid.length; i++) {
+        doseGrid[i] = i % 11;
+    }
+    return {
+        columns: 11,
+        rows: 11,
+        frames: 2,
+        doseGrid,
+        maxDose: 10,
+        imagePosition: [0, 0, 0],
+        imageOrientation: [1, 0, 0, 0, 1, 0],
+        pixelSpacing: [1, 1],
+        frameOffsets: [0, 2],
+        doseUnits: 'GY',
+    };
+};
+
+const ctImages = createImageStack({ count: 2, width: 11, sliceStep: 2 });
+
+// The same polygons on both slices
+const createPTV = (polygons: Point2D[][]) => createStructure(
+    'ptv',
+    [0, 1].flatMap(sliceIndex => polygons.map((points): [number, Point2D[]] => [sliceIndex, points])),
+    { name: 'PTV' }
+);
+
+describe('dvh-utils', () => {
+    describe('computeDVH', () => {
+        it('should rasterize contours on the dose grid', () => {
+            const dvh = computeDVH(createPTV([square(0, 0, 10, 10)]), ctImages, createDose());
+
+            expect(dvh).not.toBeNull();
+            // 10 x 10 mm on two 2 mm slabs
+            expect(dvh!.volume).toBeCloseTo(0.4);
+            expect(dvh!.minDose).toBe(0);
+            expect(dvh!.maxDose).toBeCloseTo(9.5);
+            expect(dvh!.meanDose).toBeCloseTo(4.75);
+            expect(dvh!.cumulative[0]).toBeCloseTo(dvh!.volume);
+        });
+
+        it('should treat inner contours as holes', () => {
+            const dvh = computeDVH(
+                createPTV([square(0, 0, 10, 10), square(2, 2, 8, 8)]),
+                ctImages,
+                createDose()
+            );
+
+            expect(dvh!.volume).toBeCloseTo(0.4 * (100 - 36) / 100);
+        });
+
+        it('should skip structures without closed contours', () => {
+            const structure = createPTV([square(0, 0, 10, 10)]);
+            structure.contours.forEach(contour => { contour.isClosed = false; });
+
+            expect(computeDVH(structure, ctImages, createDose())).toBeNull();
+        });
+    });
+
+    describe('metrics', () => {
+        it('should parse Dx and Vx metrics', () => {
+            expect(parseDVHMetric('D95')).toMatchObject({ kind: 'D', value: 95, unit: '%' });
+            expect(parseDVHMetric('D0.03cc')).toMatchObject({ kind: 'D', value: 0.03, unit: 'cc' });
+            expect(parseDVHMetric('V20Gy')).toMatchObject({ kind: 'V', value: 20, unit: 'Gy' });
+            expect(parseDVHMetric('v95%')).toMatchObject({ kind: 'V', value: 95, unit: '%' });
+            expect(parseDVHMetric('Dmean')).toBeNull();
+        });
+
+        it('should evaluate metrics on the cumulative DVH', () => {
+            const dvh = computeDVH(createPTV([square(0, 0, 10, 10)]), ctImages, createDose())!;
+
+            expect(evaluateDVHMetric(dvh, parseDVHMetric('V5Gy')!)).toBeCloseTo(50);
+            expect(evaluateDVHMetric(dvh, parseDVHMetric('V50%')!, 10)).toBeCloseTo(50);
+            expect(evaluateDVHMetric(dvh, parseDVHMetric('D50')!)).toBeCloseTo(5, 1);
+            expect(evaluateDVHMetric(dvh, parseDVHMetric('D100')!)).toBe(0);
+        });
+
+        it('should write one CSV row per structure', () => {
+            const dvh = computeDVH(createPTV([square(0, 0, 10, 10)]), ctImages, createDose())!;
+            const lines = dvhMetricsToCSV([dvh], [parseDVHMetric('V5Gy')!]).split('\n');
+
+            expect(lines[0]).toBe('Structure,Volume (cc),Dmean (Gy),Dmax (Gy),Dmin (Gy),V5Gy (%)');
+            expect(lines[1]).toBe('PTV,0.400,4.750,9.500,0.000,50.000');
+        });
+    });
+});
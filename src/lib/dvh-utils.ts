@@ -0,0 +1,297 @@
+/**
+ * Dose-volume histograms for structures, computed by rasterizing each
+ * slice's contours on the dose grid and sampling the dose inside them.
+ */
+
+import { saveAs } from 'file-saver';
+import { DicomImage, DicomRTDose, Point2D, Structure3D } from '@/types';
+import { createDoseSampler } from './dose-utils';
+import { scanlineCrossings } from './contour-utils';
+
+export interface DVH {
+  structureId: string;
+  structureName: string;
+  color: string;
+  volume: number; // cc
+  binWidth: number; // Gy
+  // Volume (cc) with dose in [i * binWidth, (i + 1) * binWidth)
+  differential: number[];
+  // Volume (cc) receiving at least i * binWidth
+  cumulative: number[];
+  minDose: number;
+  maxDose: number;
+  meanDose: number;
+}
+
+export type DVHMetric =
+  | { kind: 'D'; value: number; unit: '%' | 'cc'; label: string }
+  | { kind: 'V'; value: number; unit: 'Gy' | '%'; label: string };
+
+export interface DVHOptions {
+  binWidth?: number; // Gy
+  // Samples per dose voxel along each in-plane axis
+  subdivisions?: number;
+}
+
+export const DEFAULT_DVH_METRICS = ['D95', 'D2', 'V20Gy'];
+
+const DEFAULT_BIN_WIDTH = 0.01;
+const DEFAULT_SUBDIVISIONS = 2;
+
+/**
+ * Compute the DVH of a structure. Closed contours on a slice are combined
+ * with the even-odd rule so inner contours cut holes, and each slice
+ * contributes a slab as thick as the CT slice spacing there.
+ */
+export function computeDVH(
+  structure: Structure3D,
+  ctImages: DicomImage[],
+  dose: DicomRTDose,
+  options: DVHOptions = {}
+): DVH | null {
+  const binWidth = options.binWidth ?? DEFAULT_BIN_WIDTH;
+  const subdivisions = options.subdivisions ?? DEFAULT_SUBDIVISIONS;
+  const sample = createDoseSampler(dose);
+
+  const stepX = dose.pixelSpacing[1] / subdivisions;
+  const stepY = dose.pixelSpacing[0] / subdivisions;
+  const [gridX, gridY] = dose.imagePosition;
+
+  const contoursBySlice = new Map<number, Point2D[][]>();
+  structure.contours.forEach(contour => {
+    if (!contour.isClosed || contour.points.length < 3) return;
+    const polygons = contoursBySlice.get(contour.sliceIndex) ?? [];
+    polygons.push(contour.points);
+    contoursBySlice.set(contour.sliceIndex, polygons);
+  });
+
+  // Running totals, with the differential histogram growing as higher doses turn up
+  let minDose = Infinity;
+  let maxDose = 0;
+  let volume = 0;
+  let integral = 0;
+  const differential: number[] = [0];
+
+  contoursBySlice.forEach((polygons, sliceIndex) => {
+    const image = ctImages[sliceIndex];
+    if (!image) return;
+    const z = sliceZ(image);
+    const voxelVolume = (stepX * stepY * sliceSpacingAt(ctImages, sliceIndex)) / 1000;
+
+    let minY = Infinity;
+    let maxY = -Infinity;
+    polygons.forEach(points => points.forEach(p => {
+      minY = Math.min(minY, p.y);
+      maxY = Math.max(maxY, p.y);
+    }));
+
+    // Sample rows and columns stay aligned with the dose grid
+    for (let row = Math.ceil((minY - gridY) / stepY); gridY + row * stepY <= maxY; row++) {
+      const y = gridY + row * stepY;
+      const crossings = scanlineCrossings(polygons, y);
+
+      for (let i = 0; i + 1 < crossings.length; i += 2) {
+        const firstColumn = Math.ceil((crossings[i] - gridX) / stepX);
+        for (let column = firstColumn; gridX + column * stepX < crossings[i + 1]; column++) {
+          const value = sample(gridX + column * stepX, y, z);
+          minDose = Math.min(minDose, value);
+          maxDose = Math.max(maxDose, value);
+          volume += voxelVolume;
+          integral += value * voxelVolume;
+
+          const bin = Math.max(0, doseBin(value, binWidth));
+          while (differential.length <= bin) differential.push(0);
+          differential[bin] += voxelVolume;
+        }
+      }
+    }
+  });
+
+  if (volume === 0) return null;
+
+  const binCount = differential.length;
+  const cumulative = new Array<number>(binCount).fill(0);
+  let running = 0;
+  for (let bin = binCount - 1; bin >= 0; bin--) {
+    running += differential[bin];
+    cumulative[bin] = running;
+  }
+
+  return {
+    structureId: structure.id,
+    structureName: structure.name,
+    color: structure.color,
+    volume,
+    binWidth,
+    differential,
+    cumulative,
+    minDose,
+    maxDose,
+    meanDose: integral / volume,
+  };
+}
+
+// Tolerates rounding so a dose of exactly 5 Gy lands in the 5.00 bin
+function doseBin(dose: number, binWidth: number): number {
+  return Math.floor(dose / binWidth + 1e-9);
+}
+
+function sliceZ(image: DicomImage): number {
+  return image.imagePosition?.[2] ?? image.sliceLocation ?? 0;
+}
+
+/**
+ * Thickness represented by a slice: the distance to its neighbours, which
+ * also handles uneven spacing, falling back to Slice Thickness
+ */
+function sliceSpacingAt(ctImages: DicomImage[], index: number): number {
+  const z = sliceZ(ctImages[index]);
+  const gaps: number[] = [];
+  if (index > 0) gaps.push(Math.abs(z - sliceZ(ctImages[index - 1])));
+  if (index + 1 < ctImages.length) gaps.push(Math.abs(sliceZ(ctImages[index + 1]) - z));
+  const spacing = gaps.filter(gap => gap > 0);
+  if (spacing.length > 0) {
+    return spacing.reduce((sum, gap) => sum + gap, 0) / spacing.length;
+  }
+  return ctImages[index].sliceThickness || 1;
+}
+
+/**
+ * Parse a metric such as D95 (dose to 95% of the volume), D0.03cc,
+ * V20Gy (volume receiving 20 Gy) or V95% (of the reference dose)
+ */
+export function parseDVHMetric(text: string): DVHMetric | null {
+  const value = text.trim().replace(/\s+/g, '');
+
+  const doseMatch = value.match(/^D(\d+(?:\.\d+)?)(%|cc)?$/i);
+  if (doseMatch) {
+    const unit = doseMatch[2]?.toLowerCase() === 'cc' ? 'cc' : '%';
+    return {
+      kind: 'D',
+      value: Number(doseMatch[1]),
+      unit,
+      label: `D${doseMatch[1]}${unit === 'cc' ? 'cc' : ''}`,
+    };
+  }
+
+  const volumeMatch = value.match(/^V(\d+(?:\.\d+)?)(Gy|%)?$/i);
+  if (volumeMatch) {
+    const unit = volumeMatch[2] === '%' ? '%' : 'Gy';
+    return {
+      kind: 'V',
+      value: Number(volumeMatch[1]),
+      unit,
+      label: `V${volumeMatch[1]}${unit}`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Evaluate a metric. Dx metrics return a dose in Gy; Vx metrics return the
+ * percentage of the structure volume. Percent-of-prescription volumes
+ * need the reference dose.
+ */
+export function evaluateDVHMetric(dvh: DVH, metric: DVHMetric, referenceDose?: number): number {
+  if (metric.kind === 'D') {
+    const volume = metric.unit === 'cc' ? metric.value : (metric.value / 100) * dvh.volume;
+    return doseAtVolume(dvh, volume);
+  }
+
+  const dose = metric.unit === '%' ? (metric.value / 100) * (referenceDose ?? 0) : metric.value;
+  return (volumeAtDose(dvh, dose) / dvh.volume) * 100;
+}
+
+/**
+ * Volume (cc) receiving at least a dose, interpolated within the bin
+ */
+export function volumeAtDose(dvh: DVH, dose: number): number {
+  if (dose <= 0) return dvh.volume;
+  const bin = doseBin(dose, dvh.binWidth);
+  if (bin >= dvh.cumulative.length) return 0;
+  const fraction = Math.max(0, dose / dvh.binWidth - bin);
+  const next = bin + 1 < dvh.cumulative.length ? dvh.cumulative[bin + 1] : 0;
+  return dvh.cumulative[bin] + (next - dvh.cumulative[bin]) * fraction;
+}
+
+/**
+ * Minimum dose received by the hottest `volume` cc
+ */
+export function doseAtVolume(dvh: DVH, volume: number): number {
+  if (volume >= dvh.volume) return dvh.minDose;
+  if (volume <= 0) return dvh.maxDose;
+
+  for (let bin = 1; bin < dvh.cumulative.length; bin++) {
+    if (dvh.cumulative[bin] < volume) {
+      const upper = dvh.cumulative[bin - 1];
+      const fraction = (upper - volume) / (upper - dvh.cumulative[bin]);
+      return Math.min(dvh.maxDose, (bin - 1 + fraction) * dvh.binWidth);
+    }
+  }
+  return dvh.maxDose;
+}
+
+/**
+ * Summary table: one row per structure with the standard and requested metrics
+ */
+export function dvhMetricsToCSV(dvhs: DVH[], metrics: DVHMetric[], referenceDose?: number): string {
+  const header = [
+    'Structure',
+    'Volume (cc)',
+    'Dmean (Gy)',
+    'Dmax (Gy)',
+    'Dmin (Gy)',
+    ...metrics.map(metric => `${metric.label} (${metric.kind === 'D' ? 'Gy' : '%'})`),
+  ];
+
+  const rows = dvhs.map(dvh => [
+    csvField(dvh.structureName),
+    dvh.volume.toFixed(3),
+    dvh.meanDose.toFixed(3),
+    dvh.maxDose.toFixed(3),
+    dvh.minDose.toFixed(3),
+    ...metrics.map(metric => evaluateDVHMetric(dvh, metric, referenceDose).toFixed(3)),
+  ].join(','));
+
+  return [header.join(','), ...rows].join('\n');
+}
+
+/**
+ * Cumulative and differential curves in long format, one row per bin
+ */
+export function dvhCurvesToCSV(dvhs: DVH[]): string {
+  const rows = ['Structure,Dose (Gy),Cumulative Volume (cc),Cumulative Volume (%),Differential Volume (cc)'];
+  dvhs.forEach(dvh => {
+    dvh.cumulative.forEach((volume, bin) => {
+      rows.push([
+        csvField(dvh.structureName),
+        (bin * dvh.binWidth).toFixed(3),
+        volume.toFixed(4),
+        ((volume / dvh.volume) * 100).toFixed(3),
+        dvh.differential[bin].toFixed(4),
+      ].join(','));
+    });
+  });
+  return rows.join('\n');
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Download the DVH metrics and curves as two CSV files
+ */
+export function exportDVHAsCSV(dvhs: DVH[], metrics: DVHMetric[], referenceDose?: number): void {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+
+  saveAs(
+    new Blob([dvhMetricsToCSV(dvhs, metrics, referenceDose)], { type: 'text/csv;charset=utf-8;' }),
+    `dvh_metrics_${timestamp}.csv`
+  );
+  saveAs(
+    new Blob([dvhCurvesToCSV(dvhs)], { type: 'text/csv;charset=utf-8;' }),
+    `dvh_curves_${timestamp}.csv`
+  );
+}
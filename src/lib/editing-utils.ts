@@ -139,6 +139,15 @@ export function findInsertPosition(
  * Point Manipulation
  */
 
+/**
+ * Copy of a contour with new points. A contour edited by hand is no longer
+ * interpolated, so its slice becomes a key slice.
+ */
+function withEditedPoints(contour: Contour, points: Point2D[]): Contour {
+  const { interpolated, ...edited } = contour;
+  return { ...edited, points };
+}
+
 /**
  * Move a specific point in a contour
  */
@@ -150,10 +159,7 @@ export function movePoint(
   const newPoints = [...contour.points];
   newPoints[pointIndex] = newPosition;
 
-  return {
-    ...contour,
-    points: newPoints
-  };
+  return withEditedPoints(contour, newPoints);
 }
 
 /**
@@ -190,10 +196,7 @@ export function elasticDrag(
     };
   });
 
-  return {
-    ...contour,
-    points: newPoints
-  };
+  return withEditedPoints(contour, newPoints);
 }
 
 /**
@@ -211,10 +214,7 @@ export function insertPoint(
     ...contour.points.slice(index)
   ];
 
-  return {
-    ...contour,
-    points: newPoints
-  };
+  return withEditedPoints(contour, newPoints);
 }
 
 /**
@@ -231,10 +231,7 @@ export function deletePoint(
 
   const newPoints = contour.points.filter((_, i) => i !== pointIndex);
 
-  return {
-    ...contour,
-    points: newPoints
-  };
+  return withEditedPoints(contour, newPoints);
 }
 
 /**
@@ -269,10 +266,7 @@ export function smoothSection(
     }
   }
 
-  return {
-    ...contour,
-    points: newPoints
-  };
+  return withEditedPoints(contour, newPoints);
 }
 
 /**
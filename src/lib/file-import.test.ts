@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { ImportFile, isDicomDir, resolveDicomDirFiles } from './file-import';
+import { DicomProcessor } from './dicom-utils';
+import { dicomElement, writeDicomFile } from './dicom-writer';
+
+const createFile = (path: string): ImportFile => ({
+    path,
+    read: async () => new ArrayBuffer(0),
+});
+
+describe('file-import', () => {
+    it('should recognise DICOMDIR files in any folder', () => {
+        expect(isDicomDir('CD/DICOMDIR')).toBe(true);
+        expect(isDicomDir('dicomdir')).toBe(true);
+        expect(isDicomDir('CD/DICOM/IM0001')).toBe(false);
+    });
+
+    it('should resolve referenced file IDs relative to the DICOMDIR', () => {
+        const files = ['cd/DICOMDIR', 'cd/dicom/st000/im0001', 'cd/DICOM/ST000/IM0002;1', 'other/IM0003'].map(createFile);
+
+        const { resolved, missing } = resolveDicomDirFiles(files, 'cd/DICOMDIR', [
+            ['DICOM', 'ST000', 'IM0001'],
+            ['DICOM', 'ST000', 'IM0002'],
+            ['DICOM', 'ST000', 'IM0009'],
+        ]);
+
+        expect(resolved.map(file => file.path)).toEqual(['cd/dicom/st000/im0001', 'cd/DICOM/ST000/IM0002;1']);
+        expect(missing).toEqual(['DICOM/ST000/IM0009']);
+    });
+
+    it('should read Referenced File IDs from a DICOMDIR', () => {
+        const record = (type: string, fileID?: string[]) => [
+            dicomElement('x00041430', 'CS', type),
+            ...(fileID ? [dicomElement('x00041500', 'CS', fileID)] : []),
+        ];
+        const dicomDir = writeDicomFile([
+            dicomElement('x00041220', 'SQ', [
+                record('PATIENT'),
+                record('IMAGE', ['DICOM', 'ST000', 'IM0001']),
+                record('RT STRUCTURE SET', ['DICOM', 'ST000', 'RS0001']),
+            ]),
+        ], { sopClassUID: '1.2.840.10008.1.3.10', sopInstanceUID: '1.2.3.4' });
+
+        expect(DicomProcessor.parseDicomDir(dicomDir)).toEqual([
+            ['DICOM', 'ST000', 'IM0001'],
+            ['DICOM', 'ST000', 'RS0001'],
+        ]);
+    });
+});
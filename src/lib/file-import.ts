@@ -0,0 +1,139 @@
+import JSZip from 'jszip';
+
+/**
+ * Uniform access to the files of an import source (ZIP archive, selected
+ * folder or drag-and-dropped directory tree), so all of them go through the
+ * same DICOM parsing and series grouping path.
+ */
+
+export interface ImportFile {
+  // Path relative to the import root, using '/' separators
+  path: string;
+  read: () => Promise<ArrayBuffer>;
+}
+
+/**
+ * List the (non-directory) entries of a loaded ZIP archive
+ */
+export function filesFromZip(zip: JSZip): ImportFile[] {
+  return Object.values(zip.files)
+    .filter(entry => !entry.dir)
+    .map(entry => ({
+      path: entry.name,
+      read: () => entry.async('arraybuffer'),
+    }));
+}
+
+/**
+ * Wrap files from an <input>. Folder selection (webkitdirectory) fills in
+ * webkitRelativePath, which keeps the directory structure DICOMDIR needs.
+ */
+export function filesFromFileList(files: FileList | File[]): ImportFile[] {
+  return Array.from(files).map(file => ({
+    path: file.webkitRelativePath || file.name,
+    read: () => file.arrayBuffer(),
+  }));
+}
+
+/**
+ * Grab the file system entries of a drop. This must run synchronously inside
+ * the drop handler; the DataTransfer is emptied once the handler returns.
+ */
+export function getDroppedEntries(dataTransfer: DataTransfer): FileSystemEntry[] {
+  const entries: FileSystemEntry[] = [];
+  for (const item of Array.from(dataTransfer.items || [])) {
+    const entry = item.kind === 'file' ? item.webkitGetAsEntry?.() : null;
+    if (entry) entries.push(entry);
+  }
+  return entries;
+}
+
+/**
+ * Recursively collect the files below dropped entries
+ */
+export async function filesFromEntries(entries: FileSystemEntry[]): Promise<ImportFile[]> {
+  const files: ImportFile[] = [];
+
+  const visit = async (entry: FileSystemEntry, parentPath: string): Promise<void> => {
+    const path = parentPath ? `${parentPath}/${entry.name}` : entry.name;
+
+    if (entry.isFile) {
+      const file = await new Promise<File>((resolve, reject) =>
+        (entry as FileSystemFileEntry).file(resolve, reject)
+      );
+      files.push({ path, read: () => file.arrayBuffer() });
+      return;
+    }
+
+    if (entry.isDirectory) {
+      const reader = (entry as FileSystemDirectoryEntry).createReader();
+      // readEntries returns results in batches until it yields an empty array
+      for (;;) {
+        const batch = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+          reader.readEntries(resolve, reject)
+        );
+        if (batch.length === 0) break;
+        for (const child of batch) {
+          await visit(child, path);
+        }
+      }
+    }
+  };
+
+  for (const entry of entries) {
+    await visit(entry, '');
+  }
+  return files;
+}
+
+export function isDicomDir(path: string): boolean {
+  return baseName(path).toUpperCase() === 'DICOMDIR';
+}
+
+/**
+ * Resolve DICOMDIR Referenced File IDs (path components relative to the
+ * DICOMDIR's folder) against the import's files. Media file IDs are
+ * upper-case ISO 9660 names, so matching ignores case and a trailing ';1'
+ * version suffix.
+ */
+export function resolveDicomDirFiles(
+  files: ImportFile[],
+  dicomDirPath: string,
+  referencedFileIDs: string[][]
+): { resolved: ImportFile[]; missing: string[] } {
+  const root = dirName(dicomDirPath);
+  const byPath = new Map(files.map(file => [normalizeMediaPath(file.path), file]));
+  const resolved: ImportFile[] = [];
+  const missing: string[] = [];
+
+  referencedFileIDs.forEach(components => {
+    const relative = components.join('/');
+    const file = byPath.get(normalizeMediaPath(root ? `${root}/${relative}` : relative));
+    if (file) {
+      if (!resolved.includes(file)) resolved.push(file);
+    } else {
+      missing.push(relative);
+    }
+  });
+
+  return { resolved, missing };
+}
+
+function normalizeMediaPath(path: string): string {
+  return path
+    .replace(/\\/g, '/')
+    .split('/')
+    .filter(part => part && part !== '.')
+    .map(part => part.replace(/;1$/, '').toUpperCase())
+    .join('/');
+}
+
+function baseName(path: string): string {
+  const parts = path.replace(/\\/g, '/').split('/');
+  return parts[parts.length - 1];
+}
+
+function dirName(path: string): string {
+  const parts = path.replace(/\\/g, '/').split('/');
+  return parts.slice(0, -1).join('/');
+}
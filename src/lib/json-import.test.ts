@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { importStructuresFromJSON } from './json-import';
+import { createRTStructJSON } from './rtstruct-export';
+import { Structure3D } from '@/types';
+import { createCTSeries } from '@/test/fixtures';
+
+describe('json-import', () => {
+    const ctImages = createCTSeries(3);
+    const structures: Structure3D[] = [
+        {
+            id: 'edit_1',
+            name: 'PTV',
+            color: '#ff8844',
+            visible: true,
+            interpretedType: 'PTV',
+            contours: [
+                {
+                    id: 'c1',
+                    sliceIndex: 1,
+                    structureId: 'edit_1',
+                    isClosed: true,
+                    color: '#ff8844',
+                    points: [{ x: -98, y: -98 }, { x: -96, y: -98 }, { x: -96, y: -96 }],
+                },
+                {
+                    id: 'c2',
+                    sliceIndex: 2,
+                    structureId: 'edit_1',
+                    isClosed: false,
+                    color: '#ff8844',
+                    points: [{ x: -99, y: -99 }, { x: -97, y: -97.5 }],
+                },
+            ],
+        },
+        {
+            id: 'edit_2',
+            name: 'Cord',
+            color: 'rgb(0, 255, 0)',
+            visible: false,
+            contours: [],
+        },
+    ];
+
+    it('should recreate exported structures on the same series', () => {
+        const json = createRTStructJSON(structures, ctImages);
+
+        const result = importStructuresFromJSON(json, ctImages);
+
+        expect(result.missingContours).toBe(0);
+        expect(result.missingImages).toBe(0);
+        expect(result.otherSeriesUID).toBeUndefined();
+        expect(result.structures.map(s => [s.id, s.name, s.color, s.visible, s.interpretedType])).toEqual([
+            ['edit_1', 'PTV', '#ff8844', true, 'PTV'],
+            ['edit_2', 'Cord', 'rgb(0, 255, 0)', false, undefined],
+        ]);
+        const [closed, open] = result.structures[0].contours;
+        expect(closed.sliceIndex).toBe(1);
+        expect(closed.isClosed).toBe(true);
+        expect(closed.points).toEqual(structures[0].contours[0].points);
+        expect(open.sliceIndex).toBe(2);
+        expect(open.isClosed).toBe(false);
+        expect(open.geometricType).toBe('OPEN_PLANAR');
+    });
+
+    it('should match contours by SOP Instance UID and count the missing ones', () => {
+        const json = createRTStructJSON(structures, ctImages);
+        // A reloaded series in a different order, missing the last slice
+        const loaded = [ctImages[1], ctImages[0]];
+
+        const result = importStructuresFromJSON(json, loaded, ['edit_2']);
+
+        expect(result.structures[0].contours).toHaveLength(1);
+        expect(result.structures[0].contours[0].sliceIndex).toBe(0);
+        expect(result.missingContours).toBe(1);
+        expect(result.missingImages).toBe(1);
+        // Clashing IDs are renamed rather than overwriting existing structures
+        expect(result.structures[1].id).toBe('edit_2_2');
+    });
+
+    it('should place contours on the frames of a multi-frame image', () => {
+        // Every frame of an enhanced object shares one SOP Instance UID
+        const frames = ctImages.map((image, index) => ({ ...image, sopInstanceUID: '1.2.3.4.0', frameNumber: index + 1 }));
+        const labelled = [{ ...structures[0], observationLabel: 'Boost' }];
+        const json = createRTStructJSON(labelled, frames);
+
+        const result = importStructuresFromJSON(json, frames);
+        expect(result.structures[0].contours.map(c => c.sliceIndex)).toEqual([1, 2]);
+        expect(result.structures[0].observationLabel).toBe('Boost');
+        expect(result.missingImages).toBe(0);
+
+        // Older exports have no frame numbers and are matched in image order
+        const legacy = JSON.parse(json);
+        legacy.referencedImages.forEach((image: { frameNumber?: number }) => delete image.frameNumber);
+        legacy.structures[0].contours.forEach((contour: { frameNumber?: number }) => delete contour.frameNumber);
+        const restored = importStructuresFromJSON(JSON.stringify(legacy), frames);
+        expect(restored.structures[0].contours.map(c => c.sliceIndex)).toEqual([1, 2]);
+    });
+
+    it('should reject JSON that is not a structure export', () => {
+        expect(() => importStructuresFromJSON('{"labels": {}}', ctImages)).toThrow('Not a DicomEdit JSON export');
+        expect(() => importStructuresFromJSON('not json', ctImages)).toThrow('not valid JSON');
+    });
+});
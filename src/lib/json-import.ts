@@ -0,0 +1,160 @@
+/**
+ * Load the JSON written by `exportRTStructAsJSON` back onto a series, so
+ * structures saved at the end of a session can be edited again. Contours
+ * are placed by the SOP Instance UID and frame number of the image they
+ * were drawn on.
+ */
+
+import { ContourGeometricType, DicomImage, Point2D, Structure3D } from '@/types';
+
+export interface StructureJSONImport {
+  structures: Structure3D[];
+  // Contours whose referenced image is not in the loaded series
+  missingContours: number;
+  // Images listed in the export that are not in the loaded series
+  missingImages: number;
+  // Series the export was made from, when it differs from the loaded one
+  otherSeriesUID?: string;
+}
+
+interface ExportedContour {
+  sliceIndex?: number;
+  sopInstanceUID?: string;
+  frameNumber?: number;
+  contourGeometricType?: ContourGeometricType;
+  contourData?: number[];
+  interpolated?: boolean;
+}
+
+interface ExportedStructure {
+  id?: string;
+  name?: string;
+  color?: string;
+  visible?: boolean;
+  interpretedType?: string;
+  observationLabel?: string;
+  contours?: ExportedContour[];
+}
+
+interface ExportedImage {
+  sopInstanceUID?: string;
+  frameNumber?: number;
+}
+
+const frameKey = (sopInstanceUID: string, frameNumber?: number) =>
+  frameNumber ? `${sopInstanceUID}#${frameNumber}` : sopInstanceUID;
+
+/**
+ * Recreate the structures of a JSON export with their names, colors and
+ * types. Structure IDs are kept so a later export gives the same ROI
+ * numbers, unless they clash with `existingIds`.
+ */
+export function importStructuresFromJSON(
+  text: string,
+  ctImages: DicomImage[],
+  existingIds: Iterable<string> = []
+): StructureJSONImport {
+  let json: {
+    seriesInfo?: { seriesInstanceUID?: string };
+    referencedImages?: ExportedImage[];
+    structures?: ExportedStructure[];
+  };
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  if (!Array.isArray(json?.structures) || json.structures.some(s => !Array.isArray(s?.contours))) {
+    throw new Error('Not a DicomEdit JSON export: expected structures with contours');
+  }
+
+  const sliceByFrame = new Map<string, number>();
+  const slicesBySOP = new Map<string, number[]>();
+  ctImages.forEach((image, index) => {
+    if (!image.sopInstanceUID) return;
+    sliceByFrame.set(frameKey(image.sopInstanceUID, image.frameNumber), index);
+    slicesBySOP.set(image.sopInstanceUID, [...(slicesBySOP.get(image.sopInstanceUID) ?? []), index]);
+  });
+
+  // Exports without frame numbers are matched in order, so the frames of a
+  // multi-frame object still land on separate slices
+  const referencedImages = json.referencedImages ?? [];
+  const unmatched = new Map(Array.from(slicesBySOP, ([sop, slices]) => [sop, [...slices]]));
+  const referenceSlices = referencedImages.map(image => {
+    if (!image.sopInstanceUID) return undefined;
+    return image.frameNumber
+      ? sliceByFrame.get(frameKey(image.sopInstanceUID, image.frameNumber))
+      : unmatched.get(image.sopInstanceUID)?.shift();
+  });
+  const missingImages = referenceSlices.filter(slice => slice === undefined).length;
+
+  const contourSlice = ({ sopInstanceUID, frameNumber, sliceIndex }: ExportedContour): number | undefined => {
+    if (sopInstanceUID === undefined) return undefined;
+    if (frameNumber) return sliceByFrame.get(frameKey(sopInstanceUID, frameNumber));
+    if (sliceIndex !== undefined && referencedImages[sliceIndex]?.sopInstanceUID === sopInstanceUID) {
+      return referenceSlices[sliceIndex];
+    }
+    return slicesBySOP.get(sopInstanceUID)?.[0];
+  };
+  const exportedSeries = json.seriesInfo?.seriesInstanceUID;
+  const loadedSeries = ctImages[0]?.seriesInstanceUID;
+
+  const usedIds = new Set(existingIds);
+  let missingContours = 0;
+
+  const structures = json.structures.map((exported, index) => {
+    let id = exported.id || `json_${index + 1}`;
+    for (let n = 2; usedIds.has(id); n++) {
+      id = `${exported.id || 'json'}_${n}`;
+    }
+    usedIds.add(id);
+
+    const color = exported.color || 'rgb(255, 0, 0)';
+    const structure: Structure3D = {
+      id,
+      name: exported.name || `Structure ${index + 1}`,
+      color,
+      visible: exported.visible ?? true,
+      interpretedType: exported.interpretedType,
+      observationLabel: exported.observationLabel,
+      contours: [],
+    };
+
+    exported.contours.forEach(contour => {
+      const sliceIndex = contourSlice(contour);
+      const data = contour.contourData ?? [];
+      if (sliceIndex === undefined || data.length < 3) {
+        missingContours++;
+        return;
+      }
+
+      const points: Point2D[] = [];
+      for (let i = 0; i + 2 < data.length; i += 3) {
+        points.push({ x: data[i], y: data[i + 1] });
+      }
+      // Exports from before geometric types were recorded only held closed contours
+      const geometricType = contour.contourGeometricType ?? 'CLOSED_PLANAR';
+      structure.contours.push({
+        id: `contour_${id}_${structure.contours.length}`,
+        points,
+        sliceIndex,
+        structureId: id,
+        isClosed: geometricType === 'CLOSED_PLANAR',
+        color,
+        geometricType,
+        ...(contour.interpolated && { interpolated: true }),
+      });
+    });
+
+    return structure;
+  });
+
+  return {
+    structures,
+    missingContours,
+    missingImages,
+    otherSeriesUID: exportedSeries && exportedSeries !== 'UNKNOWN' && exportedSeries !== loadedSeries
+      ? exportedSeries
+      : undefined,
+  };
+}
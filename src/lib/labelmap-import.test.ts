@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { extractLabelOutlines, labelMapToStructures, parseLabelTable } from './labelmap-import';
+import { rasterizeStructure } from './nifti-export';
+import { LabelMapVolume } from './nifti-utils';
+import { createImageStack } from '@/test/fixtures';
+
+const createImages = (count: number) => createImageStack({ count, width: 5, sliceStep: 2 });
+
+describe('labelmap-import', () => {
+    describe('extractLabelOutlines', () => {
+        it('should keep holes as separate loops', () => {
+            const labels = [
+                1, 1, 1,
+                1, 0, 1,
+                1, 1, 1,
+            ];
+            const loops = extractLabelOutlines(labels, 3, 3).get(1)!;
+
+            expect(loops).toHaveLength(2);
+            const sizes = loops.map(loop => loop.length).sort();
+            expect(sizes).toEqual([4, 4]);
+            expect(loops).toContainEqual([{ x: 0, y: 0 }, { x: 3, y: 0 }, { x: 3, y: 3 }, { x: 0, y: 3 }]);
+        });
+
+        it('should outline islands and diagonal neighbours separately', () => {
+            const labels = [
+                2, 0, 0,
+                0, 2, 0,
+                0, 0, 3,
+            ];
+            const outlines = extractLabelOutlines(labels, 3, 3);
+
+            expect(outlines.get(2)).toHaveLength(2);
+            expect(outlines.get(3)).toEqual([[{ x: 2, y: 2 }, { x: 3, y: 2 }, { x: 3, y: 3 }, { x: 2, y: 3 }]]);
+        });
+    });
+
+    describe('parseLabelTable', () => {
+        it('should read ITK-SNAP label files', () => {
+            const table = parseLabelTable([
+                '# ITK-SNAP Label Description File',
+                '    0     0    0    0        0  0  0    "Clear Label"',
+                '    1   255    0    0        1  1  1    "Liver"',
+            ].join('\n'));
+
+            expect(table.size).toBe(1);
+            expect(table.get(1)).toEqual({ value: 1, name: 'Liver', color: 'rgb(255, 0, 0)' });
+        });
+
+        it('should read nnU-Net and plain JSON tables', () => {
+            expect(parseLabelTable('{"labels": {"background": 0, "liver": 1, "tumor": 2}}').get(2)?.name).toBe('tumor');
+            expect(parseLabelTable('{"labels": {"0": "background", "1": "spleen"}}').get(1)?.name).toBe('spleen');
+            expect(parseLabelTable('{"3": {"name": "kidney", "color": "#00ff00"}}').get(3)).toEqual({
+                value: 3, name: 'kidney', color: '#00ff00',
+            });
+            expect(parseLabelTable('{"labels": [{"value": 4, "name": "lung"}]}').get(4)?.name).toBe('lung');
+        });
+    });
+
+    describe('labelMapToStructures', () => {
+        it('should create one structure per label that rasterizes back to the same voxels', () => {
+            const labels = new Int32Array([
+                0, 0, 0, 0, 0,
+                0, 1, 1, 1, 0,
+                0, 1, 0, 1, 0,
+                0, 1, 1, 1, 0,
+                0, 0, 0, 0, 2,
+            ]);
+            const labelMap: LabelMapVolume = {
+                width: 5,
+                height: 5,
+                pixelSpacing: [1, 1],
+                slices: [
+                    { imagePosition: [0, 0, 2], labels },
+                    { imagePosition: [0, 0, 40], labels },
+                ],
+            };
+            const images = createImages(2);
+
+            const { structures, unmatchedSlices } = labelMapToStructures(
+                labelMap, images, new Map([[1, { value: 1, name: 'Ring', color: '#123456' }]])
+            );
+
+            expect(unmatchedSlices).toBe(1);
+            expect(structures.map(s => s.name)).toEqual(['Ring', 'Label_2']);
+            expect(structures[0].color).toBe('#123456');
+            expect(structures[0].contours).toHaveLength(2);
+            expect(structures[0].contours.every(c => c.sliceIndex === 1 && c.isClosed)).toBe(true);
+
+            const mask = rasterizeStructure(structures[0], images);
+            expect(Array.from(mask.slice(25))).toEqual(Array.from(labels).map(value => (value === 1 ? 1 : 0)));
+        });
+    });
+});
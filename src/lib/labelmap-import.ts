@@ -0,0 +1,286 @@
+/**
+ * Import integer label maps (nnU-Net, TotalSegmentator, ITK-SNAP, ...) as
+ * contoured structures: every label's voxels are outlined slice by slice.
+ */
+
+import { DicomImage, Point2D, Structure3D } from '@/types';
+import { FALLBACK_ROI_COLORS, rgbToCss } from './color-utils';
+import { LabelMapVolume } from './nifti-utils';
+
+export interface LabelDefinition {
+  value: number;
+  name: string;
+  color?: string;
+}
+
+// A label map with the label names stored alongside it (e.g. Slicer segments)
+export interface LabelMapLayer {
+  labelMap: LabelMapVolume;
+  labels: Map<number, LabelDefinition>;
+}
+
+export interface LabelMapImport {
+  structures: Structure3D[];
+  // Label map slices with no CT slice at the same position
+  unmatchedSlices: number;
+}
+
+// Edge directions in pixel space (y down); the label is on the right-hand side
+const DIRECTIONS: Array<[number, number]> = [[1, 0], [0, 1], [-1, 0], [0, -1]];
+const RIGHT = 0;
+const DOWN = 1;
+const LEFT = 2;
+const UP = 3;
+
+/**
+ * Parse a label-name table. Accepted formats:
+ * - ITK-SNAP label description files (`IDX R G B A VIS MSH "LABEL"`)
+ * - nnU-Net dataset.json (`labels` as name -> value, or value -> name)
+ * - the sidecar written by the NIfTI export (`labels: [{ value, name, color }]`)
+ * - a plain `{ "1": "Liver" }` or `{ "1": { "name": "Liver", "color": "#ff0000" } }` map
+ */
+export function parseLabelTable(text: string): Map<number, LabelDefinition> {
+  const table = new Map<number, LabelDefinition>();
+  const trimmed = text.trim();
+
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) {
+    trimmed.split(/\r?\n/).forEach(line => {
+      const match = line.match(/^\s*(\d+)\s+(\d+)\s+(\d+)\s+(\d+)\s+[\d.]+\s+\d+\s+\d+\s+"(.*)"/);
+      if (!match || Number(match[1]) === 0) return;
+      table.set(Number(match[1]), {
+        value: Number(match[1]),
+        name: match[5],
+        color: rgbToCss([Number(match[2]), Number(match[3]), Number(match[4])]),
+      });
+    });
+    return table;
+  }
+
+  const json = JSON.parse(trimmed);
+  const labels = json.labels ?? json;
+  const add = (value: unknown, name: unknown, color?: unknown) => {
+    const label = Number(value);
+    if (!Number.isInteger(label) || label <= 0 || typeof name !== 'string') return;
+    table.set(label, { value: label, name, color: typeof color === 'string' ? color : undefined });
+  };
+
+  if (Array.isArray(labels)) {
+    labels.forEach(entry => add(entry?.value, entry?.name, entry?.color));
+  } else if (labels && typeof labels === 'object') {
+    Object.entries(labels).forEach(([key, entry]) => {
+      if (typeof entry === 'number') {
+        add(entry, key); // nnU-Net v2: name -> value
+      } else if (typeof entry === 'string') {
+        add(key, entry);
+      } else if (entry && typeof entry === 'object') {
+        const { name, color } = entry as { name?: unknown; color?: unknown };
+        add(key, name, color);
+      }
+    });
+  }
+  return table;
+}
+
+/**
+ * Outline every non-zero label in a slice. Loops follow pixel edges, so a
+ * label's voxels are reproduced exactly: each island gets its own loop,
+ * holes get loops of their own, and diagonal neighbours stay separate.
+ * Points are pixel-corner coordinates (0..width, 0..height).
+ */
+export function extractLabelOutlines(
+  labels: ArrayLike<number>,
+  width: number,
+  height: number
+): Map<number, Point2D[][]> {
+  // Outgoing edge directions per grid vertex, per label
+  const edgesByLabel = new Map<number, Map<number, number[]>>();
+  const labelAt = (x: number, y: number) =>
+    x < 0 || y < 0 || x >= width || y >= height ? 0 : labels[y * width + x];
+  const addEdge = (label: number, x: number, y: number, direction: number) => {
+    let edges = edgesByLabel.get(label);
+    if (!edges) {
+      edges = new Map();
+      edgesByLabel.set(label, edges);
+    }
+    const vertex = y * (width + 1) + x;
+    const directions = edges.get(vertex);
+    if (directions) directions.push(direction);
+    else edges.set(vertex, [direction]);
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const label = labels[y * width + x];
+      if (!label) continue;
+      if (labelAt(x, y - 1) !== label) addEdge(label, x, y, RIGHT);
+      if (labelAt(x + 1, y) !== label) addEdge(label, x + 1, y, DOWN);
+      if (labelAt(x, y + 1) !== label) addEdge(label, x + 1, y + 1, LEFT);
+      if (labelAt(x - 1, y) !== label) addEdge(label, x, y + 1, UP);
+    }
+  }
+
+  const outlines = new Map<number, Point2D[][]>();
+  edgesByLabel.forEach((edges, label) => {
+    outlines.set(label, traceLoops(edges, width));
+  });
+  return outlines;
+}
+
+/**
+ * Join directed edges into closed loops, keeping only the corners
+ */
+function traceLoops(edges: Map<number, number[]>, width: number): Point2D[][] {
+  const loops: Point2D[][] = [];
+  const stride = width + 1;
+
+  edges.forEach((directions, start) => {
+    while (directions.length > 0) {
+      const points: Point2D[] = [];
+      let vertex = start;
+      const firstDirection = directions.pop()!;
+      let direction = firstDirection;
+      let previous = -1;
+
+      for (;;) {
+        if (direction !== previous) {
+          points.push({ x: vertex % stride, y: Math.floor(vertex / stride) });
+        }
+        previous = direction;
+        vertex += DIRECTIONS[direction][0] + DIRECTIONS[direction][1] * stride;
+        if (vertex === start) break;
+
+        // Where two loops touch at a corner, turn towards the label so
+        // diagonal pixels are not merged
+        const outgoing = edges.get(vertex)!;
+        const next = [(direction + 1) % 4, direction, (direction + 3) % 4]
+          .find(candidate => outgoing.includes(candidate))!;
+        outgoing.splice(outgoing.indexOf(next), 1);
+        direction = next;
+      }
+
+      // The loop may have started halfway along a straight run
+      if (direction === firstDirection) {
+        points.shift();
+      }
+      if (points.length >= 3) loops.push(points);
+    }
+  });
+
+  return loops;
+}
+
+/**
+ * Build one structure per label. Label map slices are matched to CT slices
+ * by position, and outlines are placed in patient coordinates using the
+ * label map's own geometry.
+ */
+export function labelMapToStructures(
+  labelMap: LabelMapVolume,
+  ctImages: DicomImage[],
+  table: Map<number, LabelDefinition> = new Map(),
+  idPrefix = 'label'
+): LabelMapImport {
+  const structures = new Map<number, Structure3D>();
+  const [rowSpacing, columnSpacing] = labelMap.pixelSpacing;
+  const timestamp = Date.now();
+  let unmatchedSlices = 0;
+
+  const structureFor = (label: number) => {
+    let structure = structures.get(label);
+    if (!structure) {
+      const definition = table.get(label);
+      const id = `${idPrefix}_${label}_${timestamp}`;
+      structure = {
+        id,
+        name: definition?.name ?? `Label_${label}`,
+        color: definition?.color ?? rgbToCss(FALLBACK_ROI_COLORS[(label - 1) % FALLBACK_ROI_COLORS.length]),
+        visible: true,
+        contours: [],
+      };
+      structures.set(label, structure);
+    }
+    return structure;
+  };
+
+  labelMap.slices.forEach(slice => {
+    const outlines = extractLabelOutlines(slice.labels, labelMap.width, labelMap.height);
+    if (outlines.size === 0) return;
+
+    const sliceIndex = findSliceIndex(ctImages, slice.imagePosition[2]);
+    if (sliceIndex < 0) {
+      unmatchedSlices++;
+      return;
+    }
+
+    // Pixel corners sit half a pixel before the pixel centres
+    const [originX, originY] = slice.imagePosition;
+    outlines.forEach((loops, label) => {
+      const structure = structureFor(label);
+      loops.forEach(loop => {
+        structure.contours.push({
+          id: `contour_${structure.id}_${structure.contours.length}`,
+          points: loop.map(p => ({
+            x: originX + (p.x - 0.5) * columnSpacing,
+            y: originY + (p.y - 0.5) * rowSpacing,
+          })),
+          sliceIndex,
+          structureId: structure.id,
+          isClosed: true,
+          color: structure.color,
+        });
+      });
+    });
+  });
+
+  return {
+    structures: Array.from(structures.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([, structure]) => structure),
+    unmatchedSlices,
+  };
+}
+
+/**
+ * Build structures from every layer of a segmentation. Layers may overlap
+ * and reuse label values, so each gets its own structures; a user-supplied
+ * table takes precedence over the names stored with the layers.
+ */
+export function labelLayersToStructures(
+  layers: LabelMapLayer[],
+  ctImages: DicomImage[],
+  table?: Map<number, LabelDefinition>
+): LabelMapImport {
+  const results = layers.map((layer, index) => labelMapToStructures(
+    layer.labelMap,
+    ctImages,
+    new Map([...layer.labels, ...(table ?? [])]),
+    layers.length > 1 ? `label_layer${index}` : 'label'
+  ));
+  return {
+    structures: results.flatMap(result => result.structures),
+    unmatchedSlices: Math.max(0, ...results.map(result => result.unmatchedSlices)),
+  };
+}
+
+/**
+ * CT slice at a z position, within half the slice spacing
+ */
+function findSliceIndex(ctImages: DicomImage[], z: number): number {
+  const sliceZ = (image: DicomImage) => image.imagePosition?.[2] ?? image.sliceLocation ?? 0;
+  let best = -1;
+  let bestDistance = Infinity;
+  ctImages.forEach((image, index) => {
+    const distance = Math.abs(sliceZ(image) - z);
+    if (distance < bestDistance) {
+      best = index;
+      bestDistance = distance;
+    }
+  });
+  if (best < 0) return -1;
+
+  const neighbour = ctImages[best + 1] ?? ctImages[best - 1];
+  const spacing = neighbour
+    ? Math.abs(sliceZ(neighbour) - sliceZ(ctImages[best]))
+    : ctImages[best].sliceThickness || 1;
+  return bestDistance <= spacing / 2 + 1e-3 ? best : -1;
+}
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import {
+    createBinarySTL,
+    createOBJ,
+    createPLY,
+    createStructureMesh,
+    decimateMesh,
+    extractSurface,
+    smoothMesh,
+    SurfaceMesh,
+} from './mesh-export';
+import { createImageStack, createStructure, square } from '@/test/fixtures';
+
+const createImages = (size: number, depth: number, sliceStep = 2.5) => createImageStack({
+    count: depth,
+    width: size,
+    origin: [-10, -20, 0],
+    sliceStep,
+    pixelSpacing: [2, 2],
+    fields: { sliceThickness: Math.abs(sliceStep) },
+});
+
+// Square from pixel centre 1 to 6 on slices 1 to 5
+const createBlock = () => createStructure(
+    'block',
+    [1, 2, 3, 4, 5].map(sliceIndex => [sliceIndex, square(-9, -19, 3, -7)]),
+    { name: 'Block', color: '#00ff00' }
+);
+
+const signedVolume = ({ positions, triangles }: SurfaceMesh): number => {
+    let volume = 0;
+    for (let t = 0; t < triangles.length; t += 3) {
+        const [p, q, r] = [0, 1, 2].map(n => Array.from(positions.subarray(triangles[t + n] * 3, triangles[t + n] * 3 + 3)));
+        volume += p[0] * (q[1] * r[2] - q[2] * r[1])
+            - p[1] * (q[0] * r[2] - q[2] * r[0])
+            + p[2] * (q[0] * r[1] - q[1] * r[0]);
+    }
+    return volume / 6;
+};
+
+// Closed and consistently oriented: every edge is used once in each direction
+const expectClosed = ({ triangles }: SurfaceMesh) => {
+    const edges = new Map<string, number>();
+    for (let t = 0; t < triangles.length; t += 3) {
+        for (let n = 0; n < 3; n++) {
+            const key = `${triangles[t + n]}>${triangles[t + (n + 1) % 3]}`;
+            edges.set(key, (edges.get(key) ?? 0) + 1);
+        }
+    }
+    edges.forEach((count, key) => {
+        const [a, b] = key.split('>');
+        expect(count).toBe(1);
+        expect(edges.get(`${b}>${a}`)).toBe(1);
+    });
+};
+
+describe('mesh-export', () => {
+    it('should enclose a single voxel with an outward octahedron in patient millimetres', () => {
+        const images = createImages(3, 3);
+        const mask = new Uint8Array(27);
+        mask[13] = 1;
+
+        const mesh = extractSurface(mask, images);
+
+        expect(mesh.triangles.length / 3).toBe(8);
+        expectClosed(mesh);
+        // Half a voxel either side of the centre at (-8, -18, 2.5)
+        expect(signedVolume(mesh)).toBeCloseTo((4 / 3) * 1 * 1 * 1.25);
+        expect(Math.min(...Array.from(mesh.positions).filter((_, i) => i % 3 === 2))).toBeCloseTo(1.25);
+    });
+
+    it('should stay closed and outward for touching diagonals and reversed slice order', () => {
+        [2.5, -2.5].forEach(sliceStep => {
+            const images = createImages(4, 4, sliceStep);
+            // Voxels meeting only at edges and corners exercise the ambiguous cases
+            const mask = new Uint8Array(64);
+            [0, 5, 10, 15, 21, 42, 43, 47, 63, 22].forEach(index => { mask[index] = 1; });
+
+            const mesh = extractSurface(mask, images);
+
+            expectClosed(mesh);
+            expect(signedVolume(mesh)).toBeGreaterThan(0);
+        });
+    });
+
+    it('should smooth and decimate a structure surface without opening it', () => {
+        const images = createImages(8, 7);
+        const raw = createStructureMesh(createBlock(), images);
+        const smoothed = smoothMesh(raw, 10);
+        const decimated = decimateMesh(smoothed, 0.6);
+
+        expect(raw.triangles.length).toBeGreaterThan(0);
+        expectClosed(smoothed);
+        expectClosed(decimated);
+        expect(decimated.triangles.length).toBeLessThanOrEqual(Math.round(raw.triangles.length * 0.4));
+        // Taubin smoothing and quadric decimation keep the enclosed volume close
+        expect(signedVolume(decimated)).toBeGreaterThan(signedVolume(raw) * 0.85);
+        expect(signedVolume(decimated)).toBeLessThan(signedVolume(raw) * 1.15);
+    });
+
+    it('should write binary STL, PLY and OBJ with colors', () => {
+        const images = createImages(3, 3);
+        const mask = new Uint8Array(27);
+        mask[13] = 1;
+        const mesh = extractSurface(mask, images);
+
+        const stl = createBinarySTL(mesh, 'Liver');
+        const view = new DataView(stl.buffer);
+        expect(stl.length).toBe(84 + 50 * 8);
+        expect(view.getUint32(80, true)).toBe(8);
+        expect(new TextDecoder().decode(stl.subarray(0, 5))).not.toBe('solid');
+
+        const ply = createPLY(mesh, 'Liver', [255, 128, 0]);
+        const header = new TextDecoder().decode(ply.subarray(0, 400)).split('end_header\n')[0];
+        expect(header).toContain('element vertex 6');
+        expect(header).toContain('property uchar red');
+        const body = header.length + 'end_header\n'.length;
+        expect(Array.from(ply.subarray(body + 12, body + 15))).toEqual([255, 128, 0]);
+
+        const { obj, mtl } = createOBJ([
+            { name: 'Liver', color: [255, 0, 0], mesh },
+            { name: 'Left kidney', color: [0, 0, 255], mesh },
+        ]);
+        expect(obj).toContain('usemtl Left_kidney_2');
+        expect(obj.split('\n').filter(line => line.startsWith('v '))).toHaveLength(12);
+        expect(obj).toContain('f 7 ');
+        expect(mtl).toContain('Kd 0.0000 0.0000 1.0000');
+    });
+});
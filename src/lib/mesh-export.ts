@@ -0,0 +1,625 @@
+/**
+ * Surface meshes of structures for 3D printing and sharing anatomy: marching
+ * cubes over the rasterized structure, with optional Taubin smoothing and
+ * quadric decimation, written as STL, OBJ or PLY in patient millimetres.
+ */
+
+import { saveAs } from 'file-saver';
+import { zipSync } from 'fflate';
+import { DicomImage, Structure3D } from '@/types';
+import { cssColorToRGB, RGBColor } from './color-utils';
+import { createNiftiGrid, gridPatientGeometry, rasterizeStructure } from './nifti-export';
+
+export type MeshFormat = 'stl' | 'stl-ascii' | 'obj' | 'ply';
+
+export interface MeshExportOptions {
+  format: MeshFormat;
+  // Taubin smoothing passes; 0 keeps the voxel staircase
+  smoothingIterations?: number;
+  // Fraction of triangles to remove, from 0 to 1
+  decimation?: number;
+}
+
+export interface SurfaceMesh {
+  // x, y, z per vertex in patient (LPS) millimetres
+  positions: Float32Array;
+  // Vertex indices, three per triangle, counter-clockwise seen from outside
+  triangles: Uint32Array;
+}
+
+// Cube corner c sits at offset (c & 1, c >> 1 & 1, c >> 2 & 1); edges join corners one bit apart
+const CUBE_EDGES: [number, number][] = [];
+for (let corner = 0; corner < 8; corner++) {
+  for (let axis = 0; axis < 3; axis++) {
+    if (!(corner & (1 << axis))) CUBE_EDGES.push([corner, corner | (1 << axis)]);
+  }
+}
+
+const TRIANGLE_TABLE = buildTriangleTable();
+
+/**
+ * Marching cubes triangle table for all 256 corner configurations, built by
+ * tracing the surface across each cube face. A face with two diagonal
+ * inside corners always keeps them apart, so neighbouring cubes agree and
+ * the surface is closed without the ambiguity holes of the classic table.
+ */
+function buildTriangleTable(): number[][] {
+  const edgeIndex = (a: number, b: number) =>
+    CUBE_EDGES.findIndex(([p, q]) => (p === a && q === b) || (p === b && q === a));
+
+  // Face corners counter-clockwise seen from outside the cube
+  const faces: number[][] = [];
+  for (let axis = 0; axis < 3; axis++) {
+    const u = 1 << ((axis + 1) % 3);
+    const v = 1 << ((axis + 2) % 3);
+    [0, 1].forEach(side => {
+      const base = side << axis;
+      const cycle = [base, base | u, base | u | v, base | v];
+      faces.push(side ? cycle : cycle.reverse());
+    });
+  }
+
+  const table: number[][] = [];
+  for (let config = 0; config < 256; config++) {
+    const inside = (corner: number) => (config >> corner) & 1;
+
+    // Each cut edge links to the next one around its surface loop. Cuts
+    // alternate between entering and leaving the inside corners of a face;
+    // pairing each entering cut with the following one isolates the corners.
+    const next = new Map<number, number>();
+    faces.forEach(cycle => {
+      const cuts: { edge: number; entering: boolean }[] = [];
+      cycle.forEach((corner, i) => {
+        const following = cycle[(i + 1) % 4];
+        if (inside(corner) !== inside(following)) {
+          cuts.push({ edge: edgeIndex(corner, following), entering: inside(following) === 1 });
+        }
+      });
+      cuts.forEach((cut, i) => {
+        if (cut.entering) next.set(cut.edge, cuts[(i + 1) % cuts.length].edge);
+      });
+    });
+
+    const triangles: number[] = [];
+    while (next.size > 0) {
+      const loop: number[] = [];
+      let edge = next.keys().next().value as number;
+      while (next.has(edge)) {
+        loop.push(edge);
+        const following = next.get(edge)!;
+        next.delete(edge);
+        edge = following;
+      }
+      for (let i = 1; i + 1 < loop.length; i++) {
+        triangles.push(loop[0], loop[i], loop[i + 1]);
+      }
+    }
+    table.push(triangles);
+  }
+  return table;
+}
+
+/**
+ * Closed surface around the set voxels of a mask on the CT image grid.
+ * Vertices sit halfway between inside and outside voxel centres, and
+ * voxels beyond the grid count as outside so the surface is always closed.
+ */
+export function extractSurface(mask: Uint8Array, ctImages: DicomImage[]): SurfaceMesh {
+  const grid = createNiftiGrid(ctImages);
+  const { width, height, depth } = grid;
+  const { axes, origin } = gridPatientGeometry(grid);
+
+  const min = [width, height, depth];
+  const max = [-1, -1, -1];
+  for (let k = 0, index = 0; k < depth; k++) {
+    for (let j = 0; j < height; j++) {
+      for (let i = 0; i < width; i++, index++) {
+        if (!mask[index]) continue;
+        [i, j, k].forEach((value, axis) => {
+          min[axis] = Math.min(min[axis], value);
+          max[axis] = Math.max(max[axis], value);
+        });
+      }
+    }
+  }
+  if (max[0] < 0) {
+    return { positions: new Float32Array(0), triangles: new Uint32Array(0) };
+  }
+
+  const at = (i: number, j: number, k: number) =>
+    i >= 0 && i < width && j >= 0 && j < height && k >= 0 && k < depth && mask[(k * height + j) * width + i] ? 1 : 0;
+
+  // A left-handed voxel-to-patient transform (e.g. slices stored head to
+  // feet) mirrors the mesh, so the winding is reversed to keep it outward
+  const [a, b, c] = axes;
+  const determinant = a[0] * (b[1] * c[2] - b[2] * c[1])
+    - a[1] * (b[0] * c[2] - b[2] * c[0])
+    + a[2] * (b[0] * c[1] - b[1] * c[0]);
+  const mirrored = determinant < 0;
+
+  const vertexIds = new Map<number, number>();
+  const positions: number[] = [];
+  const vertex = (i: number, j: number, k: number, axis: number): number => {
+    const key = (((k + 1) * (height + 2) + j + 1) * (width + 2) + i + 1) * 3 + axis;
+    let id = vertexIds.get(key);
+    if (id === undefined) {
+      id = positions.length / 3;
+      const index = [i, j, k];
+      index[axis] += 0.5;
+      for (let row = 0; row < 3; row++) {
+        positions.push(origin[row] + index[0] * a[row] + index[1] * b[row] + index[2] * c[row]);
+      }
+      vertexIds.set(key, id);
+    }
+    return id;
+  };
+
+  const triangles: number[] = [];
+  for (let k = min[2] - 1; k <= max[2]; k++) {
+    for (let j = min[1] - 1; j <= max[1]; j++) {
+      for (let i = min[0] - 1; i <= max[0]; i++) {
+        let config = 0;
+        for (let corner = 0; corner < 8; corner++) {
+          config |= at(i + (corner & 1), j + ((corner >> 1) & 1), k + ((corner >> 2) & 1)) << corner;
+        }
+        const edges = TRIANGLE_TABLE[config];
+        for (let t = 0; t < edges.length; t += 3) {
+          const ids = [0, 1, 2].map(n => {
+            const [from, to] = CUBE_EDGES[edges[t + n]];
+            return vertex(i + (from & 1), j + ((from >> 1) & 1), k + ((from >> 2) & 1), (from ^ to) >> 1);
+          });
+          if (mirrored) triangles.push(ids[0], ids[2], ids[1]);
+          else triangles.push(ids[0], ids[1], ids[2]);
+        }
+      }
+    }
+  }
+
+  return { positions: new Float32Array(positions), triangles: new Uint32Array(triangles) };
+}
+
+function vertexNeighbors(mesh: SurfaceMesh): number[][] {
+  const neighbors: number[][] = Array.from({ length: mesh.positions.length / 3 }, () => []);
+  const link = (a: number, b: number) => {
+    if (!neighbors[a].includes(b)) neighbors[a].push(b);
+  };
+  for (let t = 0; t < mesh.triangles.length; t += 3) {
+    const [a, b, c] = mesh.triangles.subarray(t, t + 3);
+    link(a, b); link(b, a);
+    link(b, c); link(c, b);
+    link(c, a); link(a, c);
+  }
+  return neighbors;
+}
+
+/**
+ * Taubin lambda/mu smoothing: each iteration is a shrinking Laplacian pass
+ * followed by an inflating one, which removes the voxel staircase without
+ * the volume loss of plain Laplacian smoothing.
+ */
+export function smoothMesh(mesh: SurfaceMesh, iterations: number, lambda = 0.5, mu = -0.53): SurfaceMesh {
+  if (iterations <= 0) return mesh;
+  const neighbors = vertexNeighbors(mesh);
+  const positions = Float32Array.from(mesh.positions);
+  const updated = new Float32Array(positions.length);
+
+  const pass = (factor: number) => {
+    neighbors.forEach((around, v) => {
+      for (let axis = 0; axis < 3; axis++) {
+        const current = positions[v * 3 + axis];
+        if (around.length === 0) {
+          updated[v * 3 + axis] = current;
+          continue;
+        }
+        const mean = around.reduce((sum, n) => sum + positions[n * 3 + axis], 0) / around.length;
+        updated[v * 3 + axis] = current + factor * (mean - current);
+      }
+    });
+    positions.set(updated);
+  };
+
+  for (let i = 0; i < iterations; i++) {
+    pass(lambda);
+    pass(mu);
+  }
+  return { positions, triangles: mesh.triangles };
+}
+
+interface CollapseCandidate {
+  cost: number;
+  a: number;
+  b: number;
+  position: [number, number, number];
+  stampA: number;
+  stampB: number;
+}
+
+/**
+ * Binary min-heap of edge collapses by quadric error
+ */
+class CollapseHeap {
+  private items: CollapseCandidate[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(item: CollapseCandidate): void {
+    const items = this.items;
+    items.push(item);
+    let index = items.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (items[parent].cost <= items[index].cost) break;
+      [items[parent], items[index]] = [items[index], items[parent]];
+      index = parent;
+    }
+  }
+
+  pop(): CollapseCandidate | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last) {
+      items[0] = last;
+      let index = 0;
+      for (;;) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+        if (left < items.length && items[left].cost < items[smallest].cost) smallest = left;
+        if (right < items.length && items[right].cost < items[smallest].cost) smallest = right;
+        if (smallest === index) break;
+        [items[smallest], items[index]] = [items[index], items[smallest]];
+        index = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+/**
+ * Quadric error decimation (Garland & Heckbert): collapse the cheapest
+ * edges until the requested fraction of triangles is gone. Collapses that
+ * would pinch the surface or fold a triangle over are skipped, so a closed
+ * mesh stays closed and printable.
+ */
+export function decimateMesh(mesh: SurfaceMesh, reduction: number): SurfaceMesh {
+  const vertexCount = mesh.positions.length / 3;
+  const faceCount = mesh.triangles.length / 3;
+  const target = Math.max(4, Math.round(faceCount * (1 - Math.min(reduction, 1))));
+  if (reduction <= 0 || target >= faceCount) return mesh;
+
+  const positions = Float64Array.from(mesh.positions);
+  const faces = Int32Array.from(mesh.triangles);
+  const faceAlive = new Uint8Array(faceCount).fill(1);
+  const vertexFaces: number[][] = Array.from({ length: vertexCount }, () => []);
+  faces.forEach((v, index) => vertexFaces[v].push(Math.floor(index / 3)));
+
+  const normalOf = (p: ArrayLike<number>, q: ArrayLike<number>, r: ArrayLike<number>) => {
+    const u = [q[0] - p[0], q[1] - p[1], q[2] - p[2]];
+    const w = [r[0] - p[0], r[1] - p[1], r[2] - p[2]];
+    return [u[1] * w[2] - u[2] * w[1], u[2] * w[0] - u[0] * w[2], u[0] * w[1] - u[1] * w[0]];
+  };
+  const point = (v: number) => positions.subarray(v * 3, v * 3 + 3);
+
+  // Symmetric 4x4 error quadric per vertex: aa ab ac ad bb bc bd cc cd dd
+  const quadrics = new Float64Array(vertexCount * 10);
+  for (let f = 0; f < faceCount; f++) {
+    const [p, q, r] = [0, 1, 2].map(n => point(faces[f * 3 + n]));
+    const normal = normalOf(p, q, r);
+    const length = Math.hypot(normal[0], normal[1], normal[2]);
+    if (length === 0) continue;
+    const [x, y, z] = normal.map(value => value / length);
+    const d = -(x * p[0] + y * p[1] + z * p[2]);
+    const plane = [x * x, x * y, x * z, x * d, y * y, y * z, y * d, z * z, z * d, d * d];
+    for (let n = 0; n < 3; n++) {
+      const offset = faces[f * 3 + n] * 10;
+      plane.forEach((value, i) => { quadrics[offset + i] += value; });
+    }
+  }
+
+  const quadricError = (q: number[], [x, y, z]: [number, number, number]) =>
+    q[0] * x * x + 2 * q[1] * x * y + 2 * q[2] * x * z + 2 * q[3] * x
+    + q[4] * y * y + 2 * q[5] * y * z + 2 * q[6] * y
+    + q[7] * z * z + 2 * q[8] * z + q[9];
+
+  const removed = new Uint8Array(vertexCount);
+  const stamps = new Uint32Array(vertexCount);
+  const heap = new CollapseHeap();
+
+  // Best of the two end points and the midpoint under the summed quadric
+  const pushEdge = (a: number, b: number) => {
+    const q = Array.from({ length: 10 }, (_, i) => quadrics[a * 10 + i] + quadrics[b * 10 + i]);
+    const pa = point(a);
+    const pb = point(b);
+    const candidates: [number, number, number][] = [
+      [pa[0], pa[1], pa[2]],
+      [pb[0], pb[1], pb[2]],
+      [(pa[0] + pb[0]) / 2, (pa[1] + pb[1]) / 2, (pa[2] + pb[2]) / 2],
+    ];
+    let best = candidates[0];
+    let cost = quadricError(q, best);
+    candidates.slice(1).forEach(candidate => {
+      const error = quadricError(q, candidate);
+      if (error < cost) {
+        cost = error;
+        best = candidate;
+      }
+    });
+    heap.push({ cost, a, b, position: best, stampA: stamps[a], stampB: stamps[b] });
+  };
+
+  const neighborsOf = (v: number): Set<number> => {
+    const around = new Set<number>();
+    vertexFaces[v].forEach(f => {
+      if (!faceAlive[f]) return;
+      for (let n = 0; n < 3; n++) around.add(faces[f * 3 + n]);
+    });
+    around.delete(v);
+    return around;
+  };
+
+  const canCollapse = (a: number, b: number, position: ArrayLike<number>): boolean => {
+    // Link condition: exactly the two vertices opposite the edge are shared
+    const aroundB = neighborsOf(b);
+    let shared = 0;
+    neighborsOf(a).forEach(v => { if (aroundB.has(v)) shared++; });
+    if (shared !== 2) return false;
+
+    // No remaining triangle may flip or collapse to zero area
+    for (const v of [a, b]) {
+      for (const f of vertexFaces[v]) {
+        if (!faceAlive[f]) continue;
+        const corners = [faces[f * 3], faces[f * 3 + 1], faces[f * 3 + 2]];
+        if (corners.includes(a) && corners.includes(b)) continue;
+        const before = normalOf(point(corners[0]), point(corners[1]), point(corners[2]));
+        const moved = corners.map(corner => (corner === v ? position : point(corner)));
+        const after = normalOf(moved[0], moved[1], moved[2]);
+        const dot = before[0] * after[0] + before[1] * after[1] + before[2] * after[2];
+        if (dot <= 0 || Math.hypot(after[0], after[1], after[2]) === 0) return false;
+      }
+    }
+    return true;
+  };
+
+  for (let f = 0; f < faceCount; f++) {
+    for (let n = 0; n < 3; n++) {
+      const a = faces[f * 3 + n];
+      const b = faces[f * 3 + ((n + 1) % 3)];
+      // Every edge of a closed mesh appears once in each direction
+      if (a < b) pushEdge(a, b);
+    }
+  }
+
+  let aliveFaces = faceCount;
+  while (aliveFaces > target && heap.size > 0) {
+    const { a, b, position, stampA, stampB } = heap.pop()!;
+    if (removed[a] || removed[b] || stamps[a] !== stampA || stamps[b] !== stampB) continue;
+    if (!canCollapse(a, b, position)) continue;
+
+    // Merge b into a
+    positions.set(position, a * 3);
+    for (let i = 0; i < 10; i++) quadrics[a * 10 + i] += quadrics[b * 10 + i];
+    removed[b] = 1;
+    stamps[a]++;
+    vertexFaces[b].forEach(f => {
+      if (!faceAlive[f]) return;
+      const corners = faces.subarray(f * 3, f * 3 + 3);
+      if (corners.includes(a)) {
+        faceAlive[f] = 0;
+        aliveFaces--;
+        return;
+      }
+      corners[corners.indexOf(b)] = a;
+      vertexFaces[a].push(f);
+    });
+    vertexFaces[b] = [];
+    vertexFaces[a] = vertexFaces[a].filter(f => faceAlive[f]);
+
+    neighborsOf(a).forEach(v => pushEdge(a, v));
+  }
+
+  const remap = new Int32Array(vertexCount).fill(-1);
+  const keptPositions: number[] = [];
+  const keptTriangles: number[] = [];
+  for (let f = 0; f < faceCount; f++) {
+    if (!faceAlive[f]) continue;
+    for (let n = 0; n < 3; n++) {
+      const v = faces[f * 3 + n];
+      if (remap[v] < 0) {
+        remap[v] = keptPositions.length / 3;
+        keptPositions.push(positions[v * 3], positions[v * 3 + 1], positions[v * 3 + 2]);
+      }
+      keptTriangles.push(remap[v]);
+    }
+  }
+  return { positions: new Float32Array(keptPositions), triangles: new Uint32Array(keptTriangles) };
+}
+
+/**
+ * Surface of one structure, smoothed and decimated as requested
+ */
+export function createStructureMesh(
+  structure: Structure3D,
+  ctImages: DicomImage[],
+  options: Omit<MeshExportOptions, 'format'> = {}
+): SurfaceMesh {
+  const surface = extractSurface(rasterizeStructure(structure, ctImages), ctImages);
+  const smoothed = smoothMesh(surface, options.smoothingIterations ?? 0);
+  return decimateMesh(smoothed, options.decimation ?? 0);
+}
+
+function triangleNormal(mesh: SurfaceMesh, t: number): number[] {
+  const [p, q, r] = [0, 1, 2].map(n => {
+    const v = mesh.triangles[t * 3 + n];
+    return mesh.positions.subarray(v * 3, v * 3 + 3);
+  });
+  const u = [q[0] - p[0], q[1] - p[1], q[2] - p[2]];
+  const w = [r[0] - p[0], r[1] - p[1], r[2] - p[2]];
+  const normal = [u[1] * w[2] - u[2] * w[1], u[2] * w[0] - u[0] * w[2], u[0] * w[1] - u[1] * w[0]];
+  const length = Math.hypot(normal[0], normal[1], normal[2]) || 1;
+  return normal.map(value => value / length);
+}
+
+/**
+ * Binary STL. The 80-byte header must not start with "solid", or some
+ * readers take the file for ASCII.
+ */
+export function createBinarySTL(mesh: SurfaceMesh, name: string): Uint8Array {
+  const count = mesh.triangles.length / 3;
+  const bytes = new Uint8Array(84 + 50 * count);
+  const view = new DataView(bytes.buffer);
+  const header = new TextEncoder().encode(`DicomEdit surface: ${name}`.replace(/[^\x20-\x7e]/g, '_'));
+  bytes.set(header.subarray(0, 80));
+  view.setUint32(80, count, true);
+
+  for (let t = 0; t < count; t++) {
+    const offset = 84 + t * 50;
+    triangleNormal(mesh, t).forEach((value, axis) => view.setFloat32(offset + axis * 4, value, true));
+    for (let n = 0; n < 3; n++) {
+      const v = mesh.triangles[t * 3 + n];
+      for (let axis = 0; axis < 3; axis++) {
+        view.setFloat32(offset + 12 + n * 12 + axis * 4, mesh.positions[v * 3 + axis], true);
+      }
+    }
+  }
+  return bytes;
+}
+
+export function createAsciiSTL(mesh: SurfaceMesh, name: string): string {
+  const solid = fileBaseName(name);
+  const lines = [`solid ${solid}`];
+  for (let t = 0; t < mesh.triangles.length / 3; t++) {
+    lines.push(`  facet normal ${triangleNormal(mesh, t).map(value => value.toFixed(6)).join(' ')}`, '    outer loop');
+    for (let n = 0; n < 3; n++) {
+      const v = mesh.triangles[t * 3 + n];
+      lines.push(`      vertex ${formatPoint(mesh, v)}`);
+    }
+    lines.push('    endloop', '  endfacet');
+  }
+  lines.push(`endsolid ${solid}`);
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Binary little-endian PLY with the structure color on every vertex
+ */
+export function createPLY(mesh: SurfaceMesh, name: string, color: RGBColor): Uint8Array {
+  const vertexCount = mesh.positions.length / 3;
+  const faceCount = mesh.triangles.length / 3;
+  const header = new TextEncoder().encode([
+    'ply',
+    'format binary_little_endian 1.0',
+    `comment DicomEdit surface of ${name.replace(/[\r\n]/g, ' ')}`,
+    'comment Patient (LPS) coordinates in millimetres',
+    `element vertex ${vertexCount}`,
+    'property float x',
+    'property float y',
+    'property float z',
+    'property uchar red',
+    'property uchar green',
+    'property uchar blue',
+    `element face ${faceCount}`,
+    'property list uchar int vertex_indices',
+    'end_header',
+  ].join('\n') + '\n');
+
+  const bytes = new Uint8Array(header.length + vertexCount * 15 + faceCount * 13);
+  const view = new DataView(bytes.buffer);
+  bytes.set(header);
+  let offset = header.length;
+  for (let v = 0; v < vertexCount; v++, offset += 15) {
+    for (let axis = 0; axis < 3; axis++) {
+      view.setFloat32(offset + axis * 4, mesh.positions[v * 3 + axis], true);
+    }
+    bytes.set(color, offset + 12);
+  }
+  for (let t = 0; t < faceCount; t++, offset += 13) {
+    view.setUint8(offset, 3);
+    for (let n = 0; n < 3; n++) {
+      view.setInt32(offset + 1 + n * 4, mesh.triangles[t * 3 + n], true);
+    }
+  }
+  return bytes;
+}
+
+/**
+ * One OBJ with an object per structure, and the material library giving
+ * each its color
+ */
+export function createOBJ(
+  entries: { name: string; color: RGBColor; mesh: SurfaceMesh }[],
+  materialFile = 'meshes.mtl'
+): { obj: string; mtl: string } {
+  const obj = ['# DicomEdit surface meshes, patient (LPS) coordinates in millimetres', `mtllib ${materialFile}`];
+  const mtl = ['# DicomEdit structure colors'];
+  let firstVertex = 1;
+
+  entries.forEach(({ name, color, mesh }, index) => {
+    const material = `${fileBaseName(name)}_${index + 1}`;
+    mtl.push('', `newmtl ${material}`, `Kd ${color.map(value => (value / 255).toFixed(4)).join(' ')}`, 'd 1');
+    obj.push('', `o ${fileBaseName(name)}`, `usemtl ${material}`);
+    for (let v = 0; v < mesh.positions.length / 3; v++) {
+      obj.push(`v ${formatPoint(mesh, v)}`);
+    }
+    for (let t = 0; t < mesh.triangles.length; t += 3) {
+      obj.push(`f ${firstVertex + mesh.triangles[t]} ${firstVertex + mesh.triangles[t + 1]} ${firstVertex + mesh.triangles[t + 2]}`);
+    }
+    firstVertex += mesh.positions.length / 3;
+  });
+
+  return { obj: obj.join('\n') + '\n', mtl: mtl.join('\n') + '\n' };
+}
+
+function formatPoint(mesh: SurfaceMesh, v: number): string {
+  return [0, 1, 2].map(axis => mesh.positions[v * 3 + axis].toFixed(4)).join(' ');
+}
+
+function fileBaseName(name: string): string {
+  return name.trim().replace(/[^A-Za-z0-9_-]+/g, '_') || 'structure';
+}
+
+/**
+ * Download surface meshes of the structures as a ZIP: one STL or PLY per
+ * structure, or a single OBJ scene with its material library. Structures
+ * without closed contours have no surface and are left out.
+ */
+export function exportStructuresAsMeshes(
+  structures: Structure3D[],
+  ctImages: DicomImage[],
+  options: MeshExportOptions
+): void {
+  const entries = structures
+    .map(structure => ({
+      name: structure.name,
+      color: cssColorToRGB(structure.color),
+      mesh: createStructureMesh(structure, ctImages, options),
+    }))
+    .filter(({ mesh }) => mesh.triangles.length > 0);
+  if (entries.length === 0) {
+    throw new Error('No closed contours to build a surface from');
+  }
+
+  const encoder = new TextEncoder();
+  const files: Record<string, Uint8Array> = {};
+  if (options.format === 'obj') {
+    const { obj, mtl } = createOBJ(entries);
+    files['meshes.obj'] = encoder.encode(obj);
+    files['meshes.mtl'] = encoder.encode(mtl);
+  } else {
+    entries.forEach(({ name, color, mesh }, index) => {
+      const base = `${String(index + 1).padStart(3, '0')}_${fileBaseName(name)}`;
+      if (options.format === 'ply') {
+        files[`${base}.ply`] = createPLY(mesh, name, color);
+      } else if (options.format === 'stl-ascii') {
+        files[`${base}.stl`] = encoder.encode(createAsciiSTL(mesh, name));
+      } else {
+        files[`${base}.stl`] = createBinarySTL(mesh, name);
+      }
+    });
+  }
+
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  saveAs(new Blob([zipSync(files)], { type: 'application/zip' }), `meshes_${timestamp}.zip`);
+}
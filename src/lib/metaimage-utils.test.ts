@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { zlibSync } from 'fflate';
+import { MetaImageProcessor, createMetaImageFile } from './metaimage-utils';
+import { NiftiGrid } from './nifti-export';
+
+const encode = (text: string): ArrayBuffer => new TextEncoder().encode(text).buffer as ArrayBuffer;
+
+describe('metaimage-utils', () => {
+    it('should read a .mhd header with its big-endian data file', () => {
+        const header = encode([
+            'ObjectType = Image',
+            'NDims = 3',
+            'BinaryData = True',
+            'BinaryDataByteOrderMSB = True',
+            'TransformMatrix = 0 1 0 1 0 0 0 0 1',
+            'Offset = -10 -20 5',
+            'ElementSpacing = 0.5 2 3',
+            'DimSize = 2 1 1',
+            'ElementType = MET_SHORT',
+            'ElementDataFile = volume.raw',
+        ].join('\n'));
+        const data = new DataView(new ArrayBuffer(4));
+        data.setInt16(0, -1000, false);
+        data.setInt16(2, 300, false);
+
+        expect(() => MetaImageProcessor.parseVolumes(header)).toThrow('volume.raw');
+        const [volume] = MetaImageProcessor.parseVolumes(header, data.buffer)!;
+
+        expect(Array.from(volume.storedData)).toEqual([-1000, 300]);
+        // i runs along patient y, j along x; LPS -> RAS negates x and y
+        expect(volume.affine).toEqual([
+            [0, -2, 0, 10],
+            [-0.5, 0, 0, 20],
+            [0, 0, 3, 5],
+            [0, 0, 0, 1],
+        ]);
+    });
+
+    it('should read compressed multi-channel data as one volume per channel', () => {
+        const voxels = new Uint8Array([1, 10, 2, 20]);
+        const header = new TextEncoder().encode([
+            'ObjectType = Image',
+            'NDims = 3',
+            'CompressedData = True',
+            'DimSize = 2 1 1',
+            'ElementNumberOfChannels = 2',
+            'ElementType = MET_UCHAR',
+            'ElementDataFile = LOCAL',
+        ].join('\n') + '\n');
+        const compressed = zlibSync(voxels);
+        const file = new Uint8Array(header.length + compressed.length);
+        file.set(header);
+        file.set(compressed, header.length);
+
+        const volumes = MetaImageProcessor.parseVolumes(file.buffer)!;
+
+        expect(volumes.map(volume => Array.from(volume.data))).toEqual([[1, 2], [10, 20]]);
+    });
+
+    it('should round-trip a label map with its geometry', () => {
+        const grid: NiftiGrid = {
+            width: 3,
+            height: 2,
+            depth: 2,
+            affine: [[-2, 0, 0, 10], [0, -2, 0, 20], [0, 0, 3, 5], [0, 0, 0, 1]],
+        };
+        const data = new Uint8Array([0, 1, 1, 0, 2, 2, 0, 0, 0, 3, 3, 3]);
+
+        const [volume] = MetaImageProcessor.parseVolumes(createMetaImageFile(data, grid).buffer as ArrayBuffer)!;
+
+        expect(volume.affine).toEqual(grid.affine);
+        expect(Array.from(volume.storedData)).toEqual(Array.from(data));
+    });
+});
@@ -0,0 +1,232 @@
+/**
+ * MetaImage (.mha, or .mhd + .raw/.zraw) volumes as written by ITK,
+ * SimpleITK and elastix. Volumes are read into the same NiftiVolume
+ * representation as NIfTI, and label maps can be written back as .mha.
+ */
+
+import { saveAs } from 'file-saver';
+import { unzlibSync, zlibSync } from 'fflate';
+import { DicomImage, Structure3D } from '@/types';
+import { createLabelMap, createLabelSidecar, createNiftiGrid, gridPatientGeometry, NiftiGrid } from './nifti-export';
+import { extractVolumeLayer, NIFTI_TYPE, NiftiProcessor, NiftiVolume } from './nifti-utils';
+
+export interface MetaImageHeader {
+  // Keys as written (MetaIO keys are case-sensitive, e.g. DimSize)
+  fields: Record<string, string>;
+  // Byte offset of LOCAL data, just past the ElementDataFile line
+  dataOffset: number;
+}
+
+const ELEMENT_TYPES: Record<string, [number, number]> = {
+  MET_CHAR: [NIFTI_TYPE.INT8, 1],
+  MET_UCHAR: [NIFTI_TYPE.UINT8, 1],
+  MET_SHORT: [NIFTI_TYPE.INT16, 2],
+  MET_USHORT: [NIFTI_TYPE.UINT16, 2],
+  MET_INT: [NIFTI_TYPE.INT32, 4],
+  MET_UINT: [NIFTI_TYPE.UINT32, 4],
+  // MetaIO longs are 32-bit
+  MET_LONG: [NIFTI_TYPE.INT32, 4],
+  MET_ULONG: [NIFTI_TYPE.UINT32, 4],
+  MET_FLOAT: [NIFTI_TYPE.FLOAT32, 4],
+  MET_DOUBLE: [NIFTI_TYPE.FLOAT64, 8],
+};
+
+export class MetaImageProcessor {
+  /**
+   * Read the `Key = Value` header, which ends with the ElementDataFile
+   * line. Returns null if the buffer is not MetaImage.
+   */
+  static parseHeader(arrayBuffer: ArrayBuffer): MetaImageHeader | null {
+    const bytes = new Uint8Array(arrayBuffer);
+    const fields: Record<string, string> = {};
+    let lineStart = 0;
+
+    while (lineStart < bytes.length) {
+      let lineEnd = bytes.indexOf(10, lineStart);
+      if (lineEnd < 0) lineEnd = bytes.length;
+      // Headers are short; anything else is binary data
+      if (lineEnd - lineStart > 4096) return null;
+
+      const line = new TextDecoder().decode(bytes.subarray(lineStart, lineEnd)).trim();
+      lineStart = lineEnd + 1;
+      if (!line) continue;
+
+      const separator = line.indexOf('=');
+      if (separator <= 0) return null;
+      const key = line.slice(0, separator).trim();
+      fields[key] = line.slice(separator + 1).trim();
+      if (key === 'ElementDataFile') {
+        break;
+      }
+    }
+
+    if (!fields['ElementDataFile'] || !fields['DimSize']) return null;
+    return { fields, dataOffset: Math.min(lineStart, bytes.length) };
+  }
+
+  /**
+   * Name of the separate data file of a .mhd, or null for LOCAL data
+   */
+  static dataFileName(header: MetaImageHeader): string | null {
+    const name = header.fields['ElementDataFile'];
+    if (name === 'LOCAL') return null;
+    if (name.startsWith('LIST') || /\s/.test(name)) {
+      throw new Error('MetaImage headers with multiple data files are not supported');
+    }
+    return name;
+  }
+
+  /**
+   * Parse a MetaImage into one volume per channel (most files have one).
+   * .mhd headers need the data file's contents.
+   */
+  static parseVolumes(arrayBuffer: ArrayBuffer, dataFile?: ArrayBuffer): NiftiVolume[] | null {
+    const header = this.parseHeader(arrayBuffer);
+    if (!header) return null;
+    const { fields } = header;
+    const numbers = (key: string) => (fields[key] ?? '').split(/\s+/).filter(Boolean).map(Number);
+
+    const elementType = ELEMENT_TYPES[fields['ElementType']];
+    if (!elementType) {
+      throw new Error(`Unsupported MetaImage element type: ${fields['ElementType']}`);
+    }
+    const [datatypeCode, bytesPerVoxel] = elementType;
+
+    const dimensions = Number(fields['NDims'] ?? numbers('DimSize').length);
+    if (dimensions < 2 || dimensions > 4) {
+      throw new Error(`Unsupported MetaImage dimensionality: ${dimensions}`);
+    }
+    const dimSize = numbers('DimSize');
+    const spacing = numbers('ElementSpacing').length ? numbers('ElementSpacing') : numbers('ElementSize');
+    const offset = numbers('Offset').length ? numbers('Offset')
+      : numbers('Origin').length ? numbers('Origin') : numbers('Position');
+    const matrix = numbers('TransformMatrix').length ? numbers('TransformMatrix')
+      : numbers('Rotation').length ? numbers('Rotation') : numbers('Orientation');
+
+    // Each TransformMatrix row is the LPS direction of one image axis
+    const spatialCount = Math.min(dimensions, 3);
+    const axes = Array.from({ length: spatialCount }, (_, axis) => [0, 1, 2].map(row => {
+      const direction = matrix.length === spatialCount * spatialCount
+        ? matrix[axis * spatialCount + row] ?? 0
+        : (axis === row ? 1 : 0);
+      return direction * (spacing[axis] ?? 1) || 0;
+    }));
+    if (axes.length === 2) {
+      const [u, v] = axes;
+      const normal = [u[1] * v[2] - u[2] * v[1], u[2] * v[0] - u[0] * v[2], u[0] * v[1] - u[1] * v[0]];
+      const length = Math.hypot(normal[0], normal[1], normal[2]) || 1;
+      axes.push(normal.map(value => value / length));
+    }
+    const origin = [0, 1, 2].map(row => offset[row] ?? 0);
+
+    // Channels are interleaved (fastest axis); a 4th dimension is a layer axis too
+    const channels = Number(fields['ElementNumberOfChannels'] ?? 1);
+    if (channels > 1 && dimensions > 3) {
+      throw new Error('Multi-channel 4D MetaImage files are not supported');
+    }
+    const sizes = channels > 1 ? [channels, ...dimSize] : [...dimSize];
+    const spatialAxes = channels > 1 ? [1, 2, 3].slice(0, spatialCount) : [0, 1, 2].slice(0, spatialCount);
+    const layerAxis = channels > 1 ? 0 : dimensions > 3 ? 3 : null;
+    if (spatialAxes.length === 2) {
+      sizes.push(1);
+      spatialAxes.push(sizes.length - 1);
+    }
+
+    const local = this.dataFileName(header) === null;
+    if (!local && !dataFile) {
+      throw new Error(`MetaImage data file ${fields['ElementDataFile']} is missing`);
+    }
+    const voxelCount = sizes.reduce((product, size) => product * size, 1);
+    const values = this.readData(
+      header, local ? arrayBuffer : dataFile, local, datatypeCode, bytesPerVoxel, voxelCount
+    );
+
+    const [width, height, depth] = spatialAxes.map(axis => sizes[axis]);
+    const layerCount = layerAxis === null ? 1 : sizes[layerAxis];
+    const isIntegerData = datatypeCode !== NIFTI_TYPE.FLOAT32 && datatypeCode !== NIFTI_TYPE.FLOAT64;
+
+    return Array.from({ length: layerCount }, (_, layer) => NiftiProcessor.volumeFromPatientGeometry(
+      extractVolumeLayer(values, sizes, spatialAxes, layerAxis, layer),
+      { width, height, depth, axes, origin, isIntegerData, volumeCount: layerCount }
+    ));
+  }
+
+  /**
+   * Decode the voxel values, honouring compression, byte order and HeaderSize
+   */
+  private static readData(
+    header: MetaImageHeader,
+    source: ArrayBuffer,
+    local: boolean,
+    datatypeCode: number,
+    bytesPerVoxel: number,
+    voxelCount: number
+  ): ArrayLike<number> {
+    const { fields } = header;
+    const isTrue = (key: string) => (fields[key] ?? '').toLowerCase() === 'true';
+    let bytes = new Uint8Array(source, local ? header.dataOffset : 0);
+
+    if (isTrue('CompressedData')) {
+      bytes = unzlibSync(bytes);
+    }
+
+    const byteLength = voxelCount * bytesPerVoxel;
+    const headerSize = Number(fields['HeaderSize'] ?? 0);
+    // -1 means the data sits at the very end of the file
+    const offset = headerSize < 0 ? Math.max(0, bytes.length - byteLength) : headerSize;
+    if (bytes.length - offset < byteLength) {
+      throw new Error('MetaImage data is shorter than its header describes');
+    }
+
+    const bigEndian = isTrue('BinaryDataByteOrderMSB') || isTrue('ElementByteOrderMSB');
+    return NiftiProcessor.readVoxels(bytes.buffer, bytes.byteOffset + offset, datatypeCode, !bigEndian, voxelCount);
+  }
+}
+
+/**
+ * Encode a label volume as a zlib-compressed .mha with the data inline
+ */
+export function createMetaImageFile(data: Uint8Array | Uint16Array, grid: NiftiGrid): Uint8Array {
+  const { axes, origin } = gridPatientGeometry(grid);
+  const spacing = axes.map(axis => Math.hypot(axis[0], axis[1], axis[2]) || 1);
+  const directions = axes.map((axis, index) => axis.map(value => value / spacing[index] || 0));
+  const compressed = zlibSync(new Uint8Array(data.buffer, data.byteOffset, data.byteLength));
+
+  const lines = [
+    'ObjectType = Image',
+    'NDims = 3',
+    'BinaryData = True',
+    'BinaryDataByteOrderMSB = False',
+    'CompressedData = True',
+    `CompressedDataSize = ${compressed.length}`,
+    `TransformMatrix = ${directions.flat().join(' ')}`,
+    `Offset = ${origin.join(' ')}`,
+    'CenterOfRotation = 0 0 0',
+    `ElementSpacing = ${spacing.join(' ')}`,
+    `DimSize = ${grid.width} ${grid.height} ${grid.depth}`,
+    `ElementType = ${data.BYTES_PER_ELEMENT === 1 ? 'MET_UCHAR' : 'MET_USHORT'}`,
+    // Must be the last header line
+    'ElementDataFile = LOCAL',
+  ];
+
+  const headerBytes = new TextEncoder().encode(lines.join('\n') + '\n');
+  const file = new Uint8Array(headerBytes.length + compressed.length);
+  file.set(headerBytes);
+  file.set(compressed, headerBytes.length);
+  return file;
+}
+
+/**
+ * Download the structures as a .mha label map. MetaImage has no place for
+ * label names, so a JSON sidecar maps values to structures as for NIfTI.
+ */
+export function exportStructuresAsMetaImage(structures: Structure3D[], ctImages: DicomImage[]): void {
+  const grid = createNiftiGrid(ctImages);
+  const { data, labels } = createLabelMap(structures, ctImages);
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  saveAs(new Blob([createMetaImageFile(data, grid)], { type: 'application/octet-stream' }), `labels_${timestamp}.mha`);
+  saveAs(
+    new Blob([createLabelSidecar(grid, labels, 'label-map')], { type: 'application/json' }),
+    `labels_${timestamp}.json`
+  );
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { applyPlaneEdit, structurePlaneMask } from './mpr-editing';
+import { buildMPRVolume, MPRCrosshair } from './mpr-utils';
+import { pointInPolygon } from './contour-utils';
+import { Structure3D } from '@/types';
+import { createImageStack, createStructure, square } from '@/test/fixtures';
+
+// Loaded in reverse order: the volume sorts by slice location, contours use load order
+const createImages = (count: number) => createImageStack({
+    count,
+    width: 8,
+    origin: [-4, -4, 0],
+    sliceStep: 2,
+}).reverse();
+
+// Pixel centre (col, row) of a slice, in world coordinates
+const voxelInside = (structure: Structure3D, sliceIndex: number, col: number, row: number) =>
+    structure.contours
+        .filter(c => c.sliceIndex === sliceIndex && c.isClosed)
+        .filter(c => pointInPolygon({ x: -4 + col, y: -4 + row }, c.points)).length % 2 === 1;
+
+describe('mpr-editing', () => {
+    it('should show the voxels of axial contours on sagittal and coronal planes', () => {
+        const images = createImages(4);
+        const volume = buildMPRVolume(images)!;
+        // Columns 2-4 and rows 3-4 on image 0, which is the top volume slice
+        const structure = createStructure('cord', [[0, square(-2.5, -1.5, 0.5, 0.5)]]);
+
+        const sagittal = structurePlaneMask(structure, volume, images, 'sagittal', 3);
+        // Sagittal slices are depth wide with the top volume slice on the left
+        expect(Array.from({ length: 8 }, (_, y) => sagittal[y * 4 + 0])).toEqual([0, 0, 0, 1, 1, 0, 0, 0]);
+        expect(sagittal.reduce((sum, v) => sum + v, 0)).toBe(2);
+
+        const coronal = structurePlaneMask(structure, volume, images, 'coronal', 4);
+        expect(Array.from(coronal.slice(0, 8))).toEqual([0, 0, 1, 1, 1, 0, 0, 0]);
+        expect(structurePlaneMask(structure, volume, images, 'coronal', 6).every(v => v === 0)).toBe(true);
+    });
+
+    it('should reslice a region drawn on the sagittal plane into axial contours', () => {
+        const images = createImages(4);
+        const volume = buildMPRVolume(images)!;
+        const structure = createStructure('cord', [[0, square(-2.5, -1.5, 0.5, 0.5)]]);
+        const crosshair: MPRCrosshair = { axialIndex: 0, sagittalIndex: 3, coronalIndex: 0 };
+
+        // Plane columns 0-2 are volume slices 3-1 (images 0-2), rows 2-5
+        const { structure: result, editedSlices } = applyPlaneEdit(
+            structure, volume, images, 'sagittal', crosshair, square(0, 2, 3, 6), 'add'
+        );
+
+        expect(editedSlices).toBe(3);
+        [0, 1, 2].forEach(sliceIndex => {
+            [2, 3, 4, 5].forEach(row => expect(voxelInside(result, sliceIndex, 3, row)).toBe(true));
+            expect(voxelInside(result, sliceIndex, 3, 6)).toBe(false);
+            expect(voxelInside(result, sliceIndex, 4, 3)).toBe(sliceIndex === 0);
+        });
+        expect(result.contours.some(c => c.sliceIndex === 3)).toBe(false);
+    });
+
+    it('should erase across a slab of planes and keep untouched slices as drawn', () => {
+        const images = createImages(4);
+        const volume = buildMPRVolume(images)!;
+        const structure = createStructure('cord', [
+            [0, square(-2.5, -1.5, 0.5, 0.5)],
+            [1, square(-2.5, -1.5, 0.5, 0.5)],
+        ]);
+        const crosshair: MPRCrosshair = { axialIndex: 0, sagittalIndex: 0, coronalIndex: 3 };
+
+        // Coronal row 0 is the top volume slice (image 0); erase columns 1-3 on three rows
+        const { structure: result, editedSlices } = applyPlaneEdit(
+            structure, volume, images, 'coronal', crosshair, square(1, 0, 4, 1), 'erase', 3
+        );
+
+        expect(editedSlices).toBe(1);
+        [2, 3, 4].forEach(row => expect(voxelInside(result, 0, 3, row)).toBe(false));
+        [3, 4].forEach(row => expect(voxelInside(result, 0, 4, row)).toBe(true));
+        expect(result.contours.find(c => c.sliceIndex === 1)!.id).toBe('c1');
+    });
+
+    it('should keep contours in place on a tilted series', () => {
+        // Each image starts one row further down, so the volume is resampled
+        const images = createImages(3).map((image, i) => ({
+            ...image,
+            imagePosition: [-4, -4 + (2 - i), image.imagePosition[2]],
+        }));
+        const volume = buildMPRVolume(images)!;
+        expect(volume.resampling).not.toBeNull();
+
+        // The same world square on every image covers volume rows 3-4 throughout
+        const structure = createStructure('cord', [0, 1, 2].map(i => [i, square(-2.5, -1.5, 0.5, 0.5)]));
+        expect(structurePlaneMask(structure, volume, images, 'coronal', 3).reduce((sum, v) => sum + v, 0)).toBe(9);
+        expect(structurePlaneMask(structure, volume, images, 'coronal', 5).every(v => v === 0)).toBe(true);
+    });
+});
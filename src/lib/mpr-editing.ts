@@ -0,0 +1,310 @@
+/**
+ * Contouring on sagittal, coronal and oblique MPR planes. Structures are
+ * stored as axial contours, so a plane shows the voxels the axial contours
+ * enclose where it cuts them, and an edit drawn on a plane is resliced back
+ * into the axial slices it crosses.
+ */
+
+import { Contour, DicomImage, Point2D, Structure3D } from '@/types';
+import { scanlineCrossings } from './contour-utils';
+import { extractLabelOutlines } from './labelmap-import';
+import {
+  canvasToVolumeCoords,
+  getObliqueSliceTransform,
+  getPaneDimensions,
+  IDENTITY_ROTATION,
+  isOrthogonalPane,
+  MPRCrosshair,
+  MPRVolume,
+  Quaternion,
+  ViewPlane,
+} from './mpr-utils';
+import { rasterizePolygons } from './nifti-export';
+
+export type EditablePlane = 'sagittal' | 'coronal';
+
+export type PlaneEditMode = 'add' | 'erase';
+
+export interface PlaneEditResult {
+  structure: Structure3D;
+  // Axial slices whose contours were rebuilt
+  editedSlices: number;
+}
+
+/**
+ * Index into `ctImages` of each volume slice. The volume sorts its slices
+ * itself, and a resampled volume repeats the nearest slice, so the order
+ * may differ from the one contours refer to.
+ */
+function volumeImageIndices(volume: MPRVolume, ctImages: DicomImage[]): number[] {
+  return volume.axialSlices.map(image => ctImages.indexOf(image));
+}
+
+/**
+ * Closed contours of a structure grouped by slice index
+ */
+function closedPolygonsBySlice(structure: Structure3D): Map<number, Point2D[][]> {
+  const polygonsBySlice = new Map<number, Point2D[][]>();
+  structure.contours.forEach(contour => {
+    if (!contour.isClosed || contour.points.length < 3) return;
+    const polygons = polygonsBySlice.get(contour.sliceIndex) ?? [];
+    polygons.push(contour.points);
+    polygonsBySlice.set(contour.sliceIndex, polygons);
+  });
+  return polygonsBySlice;
+}
+
+/**
+ * Voxels of a structure on a sagittal or coronal plane, in the layout of the
+ * MPR slice (head at the top or left). A voxel is set when its centre lies
+ * inside the axial contours, as when structures are rasterized for export.
+ */
+export function structurePlaneMask(
+  structure: Structure3D,
+  volume: MPRVolume,
+  ctImages: DicomImage[],
+  plane: EditablePlane,
+  index: number
+): Uint8Array {
+  const { width, height } = getPaneDimensions(volume, plane);
+  const mask = new Uint8Array(width * height);
+  const polygonsBySlice = closedPolygonsBySlice(structure);
+  const imageIndices = volumeImageIndices(volume, ctImages);
+
+  for (let z = 0; z < volume.depth; z++) {
+    const polygons = polygonsBySlice.get(imageIndices[z]);
+    if (!polygons) continue;
+    const [originX, originY] = volume.sliceOrigins[z];
+    const [spacingX, spacingY] = volume.pixelSpacing;
+    const flippedZ = volume.depth - 1 - z;
+
+    if (plane === 'coronal') {
+      // Row `index` of the axial slice runs along x
+      const crossings = scanlineCrossings(polygons, originY + index * spacingY);
+      for (let i = 0; i + 1 < crossings.length; i += 2) {
+        const start = Math.max(0, Math.ceil((crossings[i] - originX) / spacingX));
+        const end = Math.min(volume.width, Math.ceil((crossings[i + 1] - originX) / spacingX));
+        for (let x = start; x < end; x++) mask[flippedZ * width + x] = 1;
+      }
+    } else {
+      // Column `index` runs along y: swap the axes to scan it as a row
+      const transposed = polygons.map(points => points.map(p => ({ x: p.y, y: p.x })));
+      const crossings = scanlineCrossings(transposed, originX + index * spacingX);
+      for (let i = 0; i + 1 < crossings.length; i += 2) {
+        const start = Math.max(0, Math.ceil((crossings[i] - originY) / spacingY));
+        const end = Math.min(volume.height, Math.ceil((crossings[i + 1] - originY) / spacingY));
+        for (let y = start; y < end; y++) mask[y * width + flippedZ] = 1;
+      }
+    }
+  }
+
+  return mask;
+}
+
+/**
+ * Voxels of a structure on a pane of any orientation, picking the nearest
+ * voxel for each pixel. Voxels are inside by the same centre rule as
+ * `structurePlaneMask`.
+ */
+export function structureObliqueMask(
+  structure: Structure3D,
+  volume: MPRVolume,
+  ctImages: DicomImage[],
+  plane: ViewPlane,
+  crosshair: MPRCrosshair,
+  rotation: Quaternion
+): Uint8Array {
+  const { width, height } = getPaneDimensions(volume, plane);
+  const mask = new Uint8Array(width * height);
+  const polygonsBySlice = closedPolygonsBySlice(structure);
+  if (polygonsBySlice.size === 0) return mask;
+  const imageIndices = volumeImageIndices(volume, ctImages);
+  const { origin, stepU, stepV } = getObliqueSliceTransform(volume, plane, crosshair, rotation);
+
+  // Column ranges inside the structure, per volume slice and row
+  const rangesByRow = new Map<number, number[]>();
+  const insideRanges = (z: number, y: number): number[] => {
+    const key = z * volume.height + y;
+    let ranges = rangesByRow.get(key);
+    if (!ranges) {
+      ranges = [];
+      const polygons = polygonsBySlice.get(imageIndices[z]);
+      if (polygons) {
+        const [originX, originY] = volume.sliceOrigins[z];
+        const [spacingX, spacingY] = volume.pixelSpacing;
+        const crossings = scanlineCrossings(polygons, originY + y * spacingY);
+        for (let i = 0; i + 1 < crossings.length; i += 2) {
+          ranges.push(Math.ceil((crossings[i] - originX) / spacingX), Math.ceil((crossings[i + 1] - originX) / spacingX));
+        }
+      }
+      rangesByRow.set(key, ranges);
+    }
+    return ranges;
+  };
+
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      const x = Math.round(origin[0] + col * stepU[0] + row * stepV[0]);
+      const y = Math.round(origin[1] + col * stepU[1] + row * stepV[1]);
+      const z = Math.round(origin[2] + col * stepU[2] + row * stepV[2]);
+      if (x < 0 || y < 0 || z < 0 || x >= volume.width || y >= volume.height || z >= volume.depth) continue;
+      const ranges = insideRanges(z, y);
+      for (let i = 0; i + 1 < ranges.length; i += 2) {
+        if (x >= ranges[i] && x < ranges[i + 1]) {
+          mask[row * width + col] = 1;
+          break;
+        }
+      }
+    }
+  }
+
+  return mask;
+}
+
+/**
+ * Outlines of a structure on a pane through the crosshair, in MPR slice
+ * pixel-corner coordinates
+ */
+export function structurePlaneOutlines(
+  structure: Structure3D,
+  volume: MPRVolume,
+  ctImages: DicomImage[],
+  plane: ViewPlane,
+  crosshair: MPRCrosshair,
+  rotation: Quaternion = IDENTITY_ROTATION
+): Point2D[][] {
+  const { width, height } = getPaneDimensions(volume, plane);
+  const mask = plane !== 'axial' && isOrthogonalPane(plane, rotation)
+    ? structurePlaneMask(structure, volume, ctImages, plane, plane === 'sagittal' ? crosshair.sagittalIndex : crosshair.coronalIndex)
+    : structureObliqueMask(structure, volume, ctImages, plane, crosshair, rotation);
+  return extractLabelOutlines(mask, width, height).get(1) ?? [];
+}
+
+/**
+ * Add or erase the region enclosed by a stroke drawn on a sagittal or
+ * coronal pane, turned by `rotation` for oblique panes. `stroke` is in MPR
+ * slice pixel coordinates; the region covers `thickness` planes centred on
+ * the crosshair. Every axial slice the region crosses is rasterized, edited
+ * and contoured again, replacing its closed contours; open contours and
+ * points are kept.
+ */
+export function applyPlaneEdit(
+  structure: Structure3D,
+  volume: MPRVolume,
+  ctImages: DicomImage[],
+  plane: EditablePlane,
+  crosshair: MPRCrosshair,
+  stroke: Point2D[],
+  mode: PlaneEditMode,
+  thickness = 1,
+  rotation: Quaternion = IDENTITY_ROTATION
+): PlaneEditResult {
+  if (stroke.length < 3) return { structure, editedSlices: 0 };
+
+  // Voxels of the region, per volume slice, as axial pixel offsets
+  const { width: planeWidth, height: planeHeight } = getPaneDimensions(volume, plane);
+  const voxelsBySlice = new Map<number, number[]>();
+  const half = Math.floor((Math.max(1, thickness) - 1) / 2);
+  const normalIndex = plane === 'sagittal' ? crosshair.sagittalIndex : crosshair.coronalIndex;
+  const normalSize = plane === 'sagittal' ? volume.width : volume.height;
+
+  const addVoxel = (x: number, y: number, z: number) => {
+    if (x < 0 || y < 0 || z < 0 || x >= volume.width || y >= volume.height || z >= volume.depth) return;
+    const voxels = voxelsBySlice.get(z) ?? [];
+    voxels.push(y * volume.width + x);
+    voxelsBySlice.set(z, voxels);
+  };
+  const orthogonal = isOrthogonalPane(plane, rotation);
+  const transform = getObliqueSliceTransform(volume, plane, crosshair, rotation);
+  // Oblique panes are sampled 2 x 2 per pixel so the voxels they cut leave no gaps
+  const samples = orthogonal ? [0.5] : [0.25, 0.75];
+
+  for (let row = 0; row < planeHeight; row++) {
+    const crossings = scanlineCrossings([stroke], row + 0.5);
+    for (let i = 0; i + 1 < crossings.length; i += 2) {
+      const start = Math.max(0, Math.ceil(crossings[i] - 0.5));
+      const end = Math.min(planeWidth, Math.ceil(crossings[i + 1] - 0.5));
+      for (let col = start; col < end; col++) {
+        if (orthogonal) {
+          const { x, y, z } = canvasToVolumeCoords(col + 0.5, row + 0.5, plane, crosshair, volume);
+          for (let offset = -half; offset <= half; offset++) {
+            const normal = normalIndex + offset;
+            if (normal < 0 || normal >= normalSize) continue;
+            addVoxel(plane === 'sagittal' ? normal : x, plane === 'sagittal' ? y : normal, z);
+          }
+          continue;
+        }
+
+        const { origin, stepU, stepV, stepNormal } = transform;
+        samples.forEach(du => samples.forEach(dv => {
+          const u = col + du - 0.5;
+          const v = row + dv - 0.5;
+          for (let offset = -half; offset <= half; offset++) {
+            addVoxel(
+              Math.round(origin[0] + u * stepU[0] + v * stepV[0] + offset * stepNormal[0]),
+              Math.round(origin[1] + u * stepU[1] + v * stepV[1] + offset * stepNormal[1]),
+              Math.round(origin[2] + u * stepU[2] + v * stepV[2] + offset * stepNormal[2])
+            );
+          }
+        }));
+      }
+    }
+  }
+
+  // Resampled volumes can show one axial slice on several volume slices; they share its edits
+  const imageIndices = volumeImageIndices(volume, ctImages);
+  const voxelsByImage = new Map<number, { z: number; voxels: number[] }>();
+  voxelsBySlice.forEach((voxels, z) => {
+    const sliceIndex = imageIndices[z];
+    if (!ctImages[sliceIndex]) return;
+    const entry = voxelsByImage.get(sliceIndex);
+    if (entry) voxels.forEach(voxel => entry.voxels.push(voxel));
+    else voxelsByImage.set(sliceIndex, { z, voxels });
+  });
+
+  const polygonsBySlice = closedPolygonsBySlice(structure);
+  const rebuilt = new Map<number, Contour[]>();
+  const value = mode === 'add' ? 1 : 0;
+  const [spacingX, spacingY] = volume.pixelSpacing;
+
+  voxelsByImage.forEach(({ z, voxels }, sliceIndex) => {
+    const [originX, originY] = volume.sliceOrigins[z];
+    const mask = new Uint8Array(volume.width * volume.height);
+    rasterizePolygons(
+      polygonsBySlice.get(sliceIndex) ?? [],
+      { imagePosition: [originX, originY, 0], pixelSpacing: [spacingY, spacingX] },
+      volume.width,
+      volume.height,
+      mask
+    );
+    let changed = false;
+    voxels.forEach(voxel => {
+      if (mask[voxel] !== value) {
+        mask[voxel] = value;
+        changed = true;
+      }
+    });
+    if (!changed) return;
+
+    const loops = extractLabelOutlines(mask, volume.width, volume.height).get(1) ?? [];
+    rebuilt.set(sliceIndex, loops.map((loop, index) => ({
+      id: `contour_${structure.id}_${sliceIndex}_${Date.now()}_${index}`,
+      points: loop.map(p => ({
+        x: originX + (p.x - 0.5) * spacingX,
+        y: originY + (p.y - 0.5) * spacingY,
+      })),
+      sliceIndex,
+      structureId: structure.id,
+      isClosed: true,
+      color: structure.color,
+    })));
+  });
+
+  if (rebuilt.size === 0) return { structure, editedSlices: 0 };
+
+  const kept = structure.contours.filter(contour => !(contour.isClosed && rebuilt.has(contour.sliceIndex)));
+  return {
+    structure: { ...structure, contours: [...kept, ...[...rebuilt.values()].flat()] },
+    editedSlices: rebuilt.size,
+  };
+}
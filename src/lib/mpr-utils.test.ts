@@ -0,0 +1,217 @@
+import { describe, it, expect } from 'vitest';
+import {
+    buildMPRVolume,
+    canvasToVolumeCoords,
+    crosshairPanePosition,
+    describeResampling,
+    decodeMPRPlane,
+    encodeMPRPlane,
+    getAxialSlice,
+    getCoronalSlice,
+    getImageSlab,
+    getObliqueSlice,
+    getSagittalSlice,
+    getSlabSlice,
+    IDENTITY_ROTATION,
+    isOrthogonalPane,
+    MPRCrosshair,
+    obliqueSliceToVolume,
+    referenceLineDirection,
+    rotateAboutPlaneNormal,
+    ViewPlane,
+    volumeSliceOfImage,
+} from './mpr-utils';
+import { DicomImage } from '@/types';
+import { createImageStack } from '@/test/fixtures';
+
+// Voxel value x + 10y + 100z, so trilinear sampling is exact
+const value = (x: number, y: number, z: number) => x + 10 * y + 100 * z;
+
+const createImages = (size: number, depth: number, sliceSpacing = 1) =>
+    createImageStack({ count: depth, width: size, sliceStep: sliceSpacing, fill: value });
+
+const planes: ViewPlane[] = ['axial', 'sagittal', 'coronal'];
+
+describe('mpr-utils oblique reformatting', () => {
+    it('should reproduce the orthogonal slices without rotation', () => {
+        const volume = buildMPRVolume(createImages(6, 4, 2.5))!;
+        const crosshair: MPRCrosshair = { axialIndex: 1, sagittalIndex: 4, coronalIndex: 2 };
+
+        expect(Array.from(getObliqueSlice(volume, 'axial', crosshair, IDENTITY_ROTATION).data))
+            .toEqual(Array.from(getAxialSlice(volume, 1).data));
+        expect(Array.from(getObliqueSlice(volume, 'sagittal', crosshair, IDENTITY_ROTATION).data))
+            .toEqual(Array.from(getSagittalSlice(volume, 4).data));
+        expect(Array.from(getObliqueSlice(volume, 'coronal', crosshair, IDENTITY_ROTATION).data))
+            .toEqual(Array.from(getCoronalSlice(volume, 2).data));
+        planes.forEach(plane => expect(isOrthogonalPane(plane, IDENTITY_ROTATION)).toBe(true));
+
+        // Pixel centres map to the voxels a click picks, and the crosshair sits on its voxel centre
+        const point = obliqueSliceToVolume(2.5, 1.5, 'sagittal', crosshair, IDENTITY_ROTATION, volume);
+        const picked = canvasToVolumeCoords(2.5, 1.5, 'sagittal', crosshair, volume);
+        expect([point.x, point.y, point.z].map(v => Math.round(v * 1e6) / 1e6)).toEqual([picked.x, picked.y, picked.z]);
+        expect(crosshairPanePosition(volume, 'sagittal', crosshair)).toEqual({ x: 2.5, y: 2.5 });
+    });
+
+    it('should turn the other planes clockwise about a pane normal', () => {
+        const volume = buildMPRVolume(createImages(5, 3))!;
+        const crosshair: MPRCrosshair = { axialIndex: 1, sagittalIndex: 2, coronalIndex: 3 };
+        const rotation = rotateAboutPlaneNormal(IDENTITY_ROTATION, 'axial', Math.PI / 2);
+
+        // The sagittal line on the axial pane runs down, and a quarter turn points it left
+        const before = referenceLineDirection('axial', 'sagittal', IDENTITY_ROTATION);
+        const after = referenceLineDirection('axial', 'sagittal', rotation);
+        expect([before.x, before.y].map(v => Math.round(v))).toEqual([0, 1]);
+        expect([after.x, after.y].map(v => Math.round(v))).toEqual([-1, 0]);
+
+        // The turning pane is unchanged; the sagittal pane now cuts along the coronal row
+        expect(isOrthogonalPane('axial', rotation)).toBe(true);
+        expect(isOrthogonalPane('sagittal', rotation)).toBe(false);
+        const slice = getObliqueSlice(volume, 'sagittal', crosshair, rotation);
+        expect(slice.width).toBe(3);
+        expect(slice.height).toBe(5);
+        for (let row = 0; row < 5; row++) {
+            for (let col = 0; col < 3; col++) {
+                expect(slice.data[row * 3 + col]).toBe(value(4 - row, 3, 2 - col));
+            }
+        }
+    });
+
+    it('should resample double-oblique planes trilinearly and show air outside', () => {
+        const volume = buildMPRVolume(createImages(8, 6))!;
+        const crosshair: MPRCrosshair = { axialIndex: 3, sagittalIndex: 4, coronalIndex: 3 };
+        const rotation = rotateAboutPlaneNormal(
+            rotateAboutPlaneNormal(IDENTITY_ROTATION, 'axial', 0.4),
+            'sagittal',
+            -0.3
+        );
+        const slice = getObliqueSlice(volume, 'coronal', crosshair, rotation);
+
+        let inside = 0;
+        let outside = 0;
+        for (let row = 0; row < slice.height; row++) {
+            for (let col = 0; col < slice.width; col++) {
+                const { x, y, z } = obliqueSliceToVolume(col + 0.5, row + 0.5, 'coronal', crosshair, rotation, volume);
+                const sample = slice.data[row * slice.width + col];
+                if (x < 0 || y < 0 || z < 0 || x > 7 || y > 7 || z > 5) {
+                    if (x < -0.5 || y < -0.5 || z < -0.5 || x > 7.5 || y > 7.5 || z > 5.5) {
+                        expect(sample).toBe(0);
+                        outside++;
+                    }
+                    continue;
+                }
+                expect(sample).toBe(Math.round(value(x, y, z)));
+                inside++;
+            }
+        }
+        expect(inside).toBeGreaterThan(0);
+        expect(outside).toBeGreaterThan(0);
+    });
+
+    it('should round-trip planes through their link text', () => {
+        const rotation = rotateAboutPlaneNormal(IDENTITY_ROTATION, 'coronal', 0.25);
+        const text = encodeMPRPlane({ axialIndex: 12, sagittalIndex: 200, coronalIndex: 180, rotation });
+        const decoded = decodeMPRPlane(text)!;
+
+        expect(decoded.axialIndex).toBe(12);
+        expect(decoded.sagittalIndex).toBe(200);
+        expect(decoded.coronalIndex).toBe(180);
+        decoded.rotation.forEach((component, i) => expect(component).toBeCloseTo(rotation[i], 4));
+
+        expect(decodeMPRPlane('12,200,180,1,0,0')).toBeNull();
+        expect(decodeMPRPlane('12,-1,180,1,0,0,0')).toBeNull();
+        expect(decodeMPRPlane('12,200,180,0,0,0,0')).toBeNull();
+        expect(decodeMPRPlane('a,b,c,d,e,f,g')).toBeNull();
+    });
+
+    it('should project slabs through a plane and leave out planes past the volume', () => {
+        const volume = buildMPRVolume(createImages(4, 5, 2))!;
+        const crosshair: MPRCrosshair = { axialIndex: 1, sagittalIndex: 2, coronalIndex: 1 };
+        const axial = (mode: 'mip' | 'minip' | 'average', thickness: number, axialIndex = 1) =>
+            Array.from(getSlabSlice(volume, 'axial', { ...crosshair, axialIndex }, IDENTITY_ROTATION, { mode, thickness }).data);
+        const expected = (z: number) => Array.from({ length: 16 }, (_, i) => value(i % 4, Math.floor(i / 4), z));
+
+        // 6 mm over 2 mm slices covers slices 0-2
+        expect(axial('mip', 6)).toEqual(expected(2));
+        expect(axial('minip', 6)).toEqual(expected(0));
+        expect(axial('average', 6)).toEqual(expected(1));
+        // Thinner than two slices shows the plane itself
+        expect(axial('mip', 3)).toEqual(expected(1));
+        // At the edge only slices 0-1 are inside
+        expect(axial('minip', 6, 0)).toEqual(expected(0));
+        expect(axial('average', 6, 0)).toEqual(expected(0).map(v => v + 50));
+
+        // Sagittal slabs step along x at the 1 mm pixel spacing
+        const sagittal = getSlabSlice(volume, 'sagittal', crosshair, IDENTITY_ROTATION, { mode: 'mip', thickness: 3 });
+        const plane = getSagittalSlice(volume, 3);
+        expect(Array.from(sagittal.data)).toEqual(Array.from(plane.data));
+    });
+});
+
+// Slices at the given positions, each filled with `fill(x, y, index)`
+const createPositionedImages = (positions: number[][], fill: (x: number, y: number, index: number) => number): DicomImage[] =>
+    createImageStack({ count: positions.length, withSliceLocation: false, fill })
+        .map((image, index) => ({ ...image, imagePosition: positions[index] }));
+
+describe('mpr-utils slice geometry', () => {
+    it('should order slices along the slice normal and keep regular series as they are', () => {
+        // No slice locations, loaded out of order
+        const images = createPositionedImages([[0, 0, 5], [0, 0, 0], [0, 0, 10]], (x, y, index) => index);
+        const volume = buildMPRVolume(images)!;
+
+        expect(volume.axialSlices).toEqual([images[1], images[0], images[2]]);
+        expect(volume.sliceSpacing).toBe(5);
+        expect(volume.slicePositions).toEqual([0, 5, 10]);
+        expect(volume.resampling).toBeNull();
+        expect(describeResampling(volume)).toBeNull();
+        expect(volumeSliceOfImage(volume, images[0])).toBe(1);
+    });
+
+    it('should resample uneven slice gaps onto a regular grid', () => {
+        const images = createPositionedImages([[0, 0, 0], [0, 0, 2], [0, 0, 4], [0, 0, 8]], (x, y, index) => [0, 20, 40, 80][index]);
+        const volume = buildMPRVolume(images)!;
+
+        expect(volume.depth).toBe(5);
+        expect(volume.sliceSpacing).toBe(2);
+        expect(volume.slicePositions).toEqual([0, 2, 4, 6, 8]);
+        expect(volume.volumeData[3 * 16]).toBe(60);
+        expect(volume.axialSlices.map(image => images.indexOf(image))).toEqual([0, 1, 2, 3, 3]);
+        expect(volume.resampling).toEqual({ sourceSlices: 4, spacingRange: [2, 4], tiltAngle: 0 });
+        expect(describeResampling(volume)).toContain('slice gaps vary from 2.00 to 4.00 mm');
+        expect(volumeSliceOfImage(volume, images[3])).toBe(4);
+    });
+
+    it('should keep unlocated slices in load order at the slice thickness', () => {
+        const images = createImageStack({ count: 6, withSliceLocation: false, fields: { sliceThickness: 3 } })
+            .map(image => ({ ...image, imagePosition: undefined }));
+        const volume = buildMPRVolume(images)!;
+
+        expect(volume.depth).toBe(6);
+        expect(volume.sliceSpacing).toBe(3);
+        expect(volume.slicePositions).toEqual([0, 3, 6, 9, 12, 15]);
+        expect(volume.axialSlices).toEqual(images);
+        expect(volume.resampling).toBeNull();
+
+        // One located slice does not make the rest sortable
+        const mixed = images.map((image, index) => (index === 2 ? { ...image, imagePosition: [0, 0, -40] } : image));
+        const mixedVolume = buildMPRVolume(mixed)!;
+        expect(mixedVolume.axialSlices).toEqual(mixed);
+        expect(mixedVolume.resampling).toBeNull();
+    });
+
+    it('should undo a gantry tilt and keep slabs in line with each slice', () => {
+        // Each slice is one row further down; the anatomy stays put in world y
+        const images = createPositionedImages([[0, 0, 0], [0, 1, 1], [0, 2, 2]], (x, y, index) => 10 * (y + index));
+        const volume = buildMPRVolume(images)!;
+
+        expect(volume.resampling!.tiltAngle).toBeCloseTo(45);
+        expect(volume.sliceOrigins).toEqual([[0, 0], [0, 0], [0, 0]]);
+        // Volume rows are world y: slice 2 starts two rows down, so rows 0-1 are outside it
+        const slice2 = Array.from(volume.volumeData.slice(2 * 16, 3 * 16));
+        expect(slice2.filter((_, i) => i % 4 === 0)).toEqual([0, 0, 20, 30]);
+        expect(describeResampling(volume)).toContain('tilted by 45.0°');
+
+        // A one-slice slab on a source slice reproduces it in its own pixel grid
+        const slab = getImageSlab(volume, images[1], { mode: 'average', thickness: 1 })!;
+        expect(Array.from(slab).filter((_, i) => i % 4 === 0)).toEqual([10, 20, 30, 0]);
+    });
+});
@@ -1,9 +1,10 @@
-import { DicomImage } from '@/types';
+import { DicomImage, MPRPlaneState, PixelData } from '@/types';
 
 export type ViewPlane = 'axial' | 'sagittal' | 'coronal';
 
 export interface MPRVolume {
-  // Original axial slices
+  // Axial slice shown at each volume slice: the source slice itself, or the
+  // nearest one when the slices were resampled. Contours are looked up on it.
   axialSlices: DicomImage[];
 
   // Volume dimensions
@@ -15,8 +16,16 @@ export interface MPRVolume {
   pixelSpacing: [number, number]; // X, Y spacing
   sliceSpacing: number;           // Z spacing
 
+  // World z of each volume slice, and the world x, y that contours on its
+  // axial slice give for voxel column 0 and row 0
+  slicePositions: number[];
+  sliceOrigins: [number, number][];
+
+  // Set when the source slices were not a regular grid and were resampled
+  resampling: MPRResampling | null;
+
   // 3D volume data (organized as axial slices)
-  volumeData: Uint16Array | Uint8Array;
+  volumeData: PixelData;
 
   // Window/Level settings
   windowCenter: number;
@@ -25,10 +34,18 @@ export interface MPRVolume {
   rescaleSlope: number;
 }
 
+export interface MPRResampling {
+  sourceSlices: number;
+  // Smallest and largest gap between neighbouring source slices, in mm
+  spacingRange: [number, number];
+  // Angle between the direction the slices are stacked in and their normal, in degrees
+  tiltAngle: number;
+}
+
 export interface MPRSlice {
   plane: ViewPlane;
   index: number;
-  data: Uint16Array | Uint8Array;
+  data: PixelData;
   width: number;
   height: number;
 }
@@ -39,70 +56,231 @@ export interface MPRCrosshair {
   coronalIndex: number;
 }
 
+// Gaps may differ by this fraction of the typical gap before slices are resampled
+const SPACING_TOLERANCE = 0.01;
+// In-plane shift between slices, as a fraction of a pixel, that counts as a tilt
+const TILT_TOLERANCE = 0.05;
+
 /**
- * Build a 3D volume from axial DICOM slices
+ * Build a 3D volume from axial DICOM slices. Slices are ordered by their
+ * position along the slice normal. Series with uneven gaps or a gantry tilt,
+ * where each slice is shifted in-plane from the last, are resampled onto a
+ * regular grid square to the slices and `resampling` says why.
  */
 export function buildMPRVolume(axialSlices: DicomImage[]): MPRVolume | null {
   if (axialSlices.length === 0) {
     return null;
   }
 
-  // CRITICAL: Sort slices by slice location (Z position) to ensure correct 3D volume
-  // Without sorting, sagittal and coronal views will show scrambled "salt and pepper" patterns
-  const sortedSlices = [...axialSlices].sort((a, b) => {
-    if (a.sliceLocation !== undefined && b.sliceLocation !== undefined) {
-      return a.sliceLocation - b.sliceLocation;
-    }
-    // Fallback: if no slice location, maintain original order
-    return 0;
-  });
-
-  const firstSlice = sortedSlices[0];
+  const firstSlice = axialSlices[0];
   const width = firstSlice.width;
   const height = firstSlice.height;
-  const depth = sortedSlices.length;
 
-  // Get spacing information
+  // Get spacing information; images store (row, column) spacing, the volume X then Y
   const pixelSpacing: [number, number] = firstSlice.pixelSpacing
-    ? [firstSlice.pixelSpacing[0], firstSlice.pixelSpacing[1]]
+    ? [firstSlice.pixelSpacing[1], firstSlice.pixelSpacing[0]]
     : [1, 1];
 
-  // Calculate slice spacing from slice locations (using sorted slices)
-  let sliceSpacing = 1;
-  if (sortedSlices.length > 1 && sortedSlices[0].sliceLocation !== undefined && sortedSlices[1].sliceLocation !== undefined) {
-    sliceSpacing = Math.abs(sortedSlices[1].sliceLocation - sortedSlices[0].sliceLocation);
-  } else if (firstSlice.sliceThickness !== undefined) {
-    sliceSpacing = firstSlice.sliceThickness;
-  }
+  // CRITICAL: Sort slices along the slice normal to ensure a correct 3D volume.
+  // Without sorting, sagittal and coronal views show scrambled "salt and pepper" patterns.
+  // Only a series whose slices all have a position or location can be sorted and
+  // checked for gaps and tilt; any other keeps its load order, a slice thickness apart.
+  const located = axialSlices.every(slice => slice.imagePosition?.length === 3 || slice.sliceLocation !== undefined);
+  const geometry = located ? sliceGeometry(axialSlices) : {
+    positions: axialSlices.map((_, i) => i * (firstSlice.sliceThickness || 1)),
+    shifts: axialSlices.map((): [number, number] => [0, 0]),
+  };
+  const order = axialSlices.map((_, i) => i).sort((a, b) => geometry.positions[a] - geometry.positions[b]);
+  const sortedSlices = order.map(i => axialSlices[i]);
+  const positions = order.map(i => geometry.positions[i]);
+  // In-plane offset of each slice from the first, in pixels
+  const shifts = order.map(i => [
+    (geometry.shifts[i][0] - geometry.shifts[order[0]][0]) / pixelSpacing[0],
+    (geometry.shifts[i][1] - geometry.shifts[order[0]][1]) / pixelSpacing[1],
+  ]);
 
-  // Determine if we're working with 8-bit or 16-bit data
-  const is16Bit = firstSlice.pixelData instanceof Uint16Array;
+  const gaps = positions.slice(1).map((position, i) => position - positions[i]);
+  const sortedGaps = [...gaps].sort((a, b) => a - b);
+  const typicalGap = sortedGaps[Math.floor(sortedGaps.length / 2)];
+  const sliceSpacing = typicalGap > 0 ? typicalGap : firstSlice.sliceThickness || 1;
 
-  // Allocate volume data
-  const volumeSize = width * height * depth;
-  const volumeData = is16Bit
-    ? new Uint16Array(volumeSize)
-    : new Uint8Array(volumeSize);
+  const uneven = gaps.some(gap => Math.abs(gap - sliceSpacing) > SPACING_TOLERANCE * sliceSpacing);
+  const tilted = shifts.some(([dx, dy]) => Math.hypot(dx, dy) > TILT_TOLERANCE);
 
-  // Copy sorted axial slices into volume
-  sortedSlices.forEach((slice, z) => {
-    const offset = z * width * height;
-    volumeData.set(slice.pixelData, offset);
-  });
+  // Allocate volume data. Signed slices need a signed volume so negative
+  // stored values survive the copy; otherwise keep 8-bit or 16-bit storage.
+  const isSigned = sortedSlices.some(slice => slice.pixelData instanceof Int16Array);
+  const is16Bit = sortedSlices.some(slice => !(slice.pixelData instanceof Uint8Array));
+  const allocate = (size: number) => isSigned
+    ? new Int16Array(size)
+    : is16Bit
+      ? new Uint16Array(size)
+      : new Uint8Array(size);
 
-  return {
-    axialSlices: sortedSlices, // Use sorted slices for consistency
+  const worldZ = located
+    ? sortedSlices.map(slice => slice.imagePosition?.[2] ?? slice.sliceLocation)
+    : positions;
+  const sliceOrigin = (slice: DicomImage, i: number): [number, number] => {
+    const [x, y] = slice.imagePosition || [0, 0];
+    return [x - shifts[i][0] * pixelSpacing[0], y - shifts[i][1] * pixelSpacing[1]];
+  };
+
+  const base = {
     width,
     height,
-    depth,
     pixelSpacing,
     sliceSpacing,
-    volumeData,
     windowCenter: firstSlice.windowCenter,
     windowWidth: firstSlice.windowWidth,
     rescaleIntercept: firstSlice.rescaleIntercept,
     rescaleSlope: firstSlice.rescaleSlope,
   };
+
+  if (!uneven && !tilted) {
+    // Copy sorted axial slices into volume
+    const volumeData = allocate(width * height * sortedSlices.length);
+    sortedSlices.forEach((slice, z) => {
+      volumeData.set(slice.pixelData, z * width * height);
+    });
+
+    return {
+      ...base,
+      axialSlices: sortedSlices, // Use sorted slices for consistency
+      depth: sortedSlices.length,
+      slicePositions: worldZ,
+      sliceOrigins: sortedSlices.map(sliceOrigin),
+      resampling: null,
+      volumeData,
+    };
+  }
+
+  // Regular grid from the first slice to the last at the typical gap
+  const depth = Math.round((positions[positions.length - 1] - positions[0]) / sliceSpacing) + 1;
+  const volumeData = allocate(width * height * depth);
+  const outside = outsideValue({ ...base, volumeData });
+  const sliceOfGrid: number[] = [];
+  const slicePositions: number[] = [];
+  let below = 0;
+
+  for (let z = 0; z < depth; z++) {
+    const position = positions[0] + z * sliceSpacing;
+    while (below < positions.length - 2 && positions[below + 1] <= position) below++;
+    const above = Math.min(below + 1, positions.length - 1);
+    const gap = positions[above] - positions[below];
+    const t = gap > 0 ? Math.min(1, Math.max(0, (position - positions[below]) / gap)) : 0;
+    sliceOfGrid.push(t < 0.5 ? below : above);
+    slicePositions.push(worldZ[below] + t * (worldZ[above] - worldZ[below]));
+
+    const offset = z * width * height;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const lower = samplePixel(sortedSlices[below], x - shifts[below][0], y - shifts[below][1]);
+        const upper = samplePixel(sortedSlices[above], x - shifts[above][0], y - shifts[above][1]);
+        // Outside when the nearest source slice misses the voxel; near edges use that slice alone
+        const nearest = t < 0.5 ? lower : upper;
+        const value = Number.isNaN(lower) || Number.isNaN(upper) ? nearest : lower + t * (upper - lower);
+        volumeData[offset + y * width + x] = Number.isNaN(value) ? outside : Math.round(value);
+      }
+    }
+  }
+
+  const [lastShiftX, lastShiftY] = shifts[shifts.length - 1];
+  const stack = positions[positions.length - 1] - positions[0];
+  const drift = Math.hypot(lastShiftX * pixelSpacing[0], lastShiftY * pixelSpacing[1]);
+
+  return {
+    ...base,
+    axialSlices: sliceOfGrid.map(i => sortedSlices[i]),
+    depth,
+    slicePositions,
+    sliceOrigins: sliceOfGrid.map(i => sliceOrigin(sortedSlices[i], i)),
+    resampling: {
+      sourceSlices: sortedSlices.length,
+      spacingRange: [sortedGaps[0] ?? sliceSpacing, sortedGaps[sortedGaps.length - 1] ?? sliceSpacing],
+      tiltAngle: stack > 0 ? (Math.atan2(drift, stack) * 180) / Math.PI : 0,
+    },
+    volumeData,
+  };
+}
+
+/**
+ * Position of each slice along the slice normal and its in-plane offset
+ * along the row and column directions, in mm. Slices without a position
+ * fall back to their slice location.
+ */
+function sliceGeometry(slices: DicomImage[]): { positions: number[]; shifts: [number, number][] } {
+  const orientation = slices[0].imageOrientation?.length === 6 ? slices[0].imageOrientation : [1, 0, 0, 0, 1, 0];
+  const row: Vector3 = [orientation[0], orientation[1], orientation[2]];
+  const column: Vector3 = [orientation[3], orientation[4], orientation[5]];
+  const normal = normalize(cross(row, column));
+
+  const positions: number[] = [];
+  const shifts: [number, number][] = [];
+  slices.forEach(slice => {
+    const position = slice.imagePosition;
+    if (position?.length === 3) {
+      const point: Vector3 = [position[0], position[1], position[2]];
+      positions.push(dot(point, normal));
+      shifts.push([dot(point, row), dot(point, column)]);
+    } else {
+      positions.push(slice.sliceLocation);
+      shifts.push([0, 0]);
+    }
+  });
+  return { positions, shifts };
+}
+
+/**
+ * Bilinear sample of a slice at continuous pixel coordinates, NaN outside it
+ */
+function samplePixel(slice: DicomImage, x: number, y: number): number {
+  const { width, height, pixelData } = slice;
+  if (x < -0.5 || y < -0.5 || x > width - 0.5 || y > height - 0.5) return NaN;
+  const cx = Math.min(Math.max(x, 0), width - 1);
+  const cy = Math.min(Math.max(y, 0), height - 1);
+  const x0 = Math.min(Math.floor(cx), width - 1);
+  const y0 = Math.min(Math.floor(cy), height - 1);
+  const x1 = Math.min(x0 + 1, width - 1);
+  const y1 = Math.min(y0 + 1, height - 1);
+  const fx = cx - x0;
+  const fy = cy - y0;
+  const top = pixelData[y0 * width + x0] * (1 - fx) + pixelData[y0 * width + x1] * fx;
+  const bottom = pixelData[y1 * width + x0] * (1 - fx) + pixelData[y1 * width + x1] * fx;
+  return top * (1 - fy) + bottom * fy;
+}
+
+/**
+ * Volume slice nearest to a source slice, or -1 when it is not in the volume
+ */
+export function volumeSliceOfImage(volume: MPRVolume, image: DicomImage): number {
+  let best = -1;
+  let bestDistance = Infinity;
+  const z = image.imagePosition?.[2] ?? image.sliceLocation;
+  volume.axialSlices.forEach((slice, index) => {
+    if (slice !== image) return;
+    const distance = z === undefined ? 0 : Math.abs(volume.slicePositions[index] - z);
+    if (distance < bestDistance) {
+      best = index;
+      bestDistance = distance;
+    }
+  });
+  return best;
+}
+
+/**
+ * Why a volume was resampled, for warnings; null when it was not
+ */
+export function describeResampling(volume: MPRVolume): string | null {
+  const { resampling } = volume;
+  if (!resampling) return null;
+  const [minGap, maxGap] = resampling.spacingRange;
+  const causes = [
+    maxGap - minGap > SPACING_TOLERANCE * volume.sliceSpacing &&
+      `slice gaps vary from ${minGap.toFixed(2)} to ${maxGap.toFixed(2)} mm`,
+    resampling.tiltAngle > 0.05 && `the slices are tilted by ${resampling.tiltAngle.toFixed(1)}°`,
+  ].filter(Boolean);
+  return `${resampling.sourceSlices} slices were resampled onto a regular ${volume.sliceSpacing.toFixed(2)} mm grid` +
+    (causes.length > 0 ? ` because ${causes.join(' and ')}` : '');
 }
 
 /**
@@ -115,7 +293,7 @@ export function getAxialSlice(volume: MPRVolume, zIndex: number): MPRSlice {
   const offset = clampedZ * width * height;
   const sliceSize = width * height;
 
-  const data = volumeData.slice(offset, offset + sliceSize) as Uint16Array | Uint8Array;
+  const data = volumeData.slice(offset, offset + sliceSize);
 
   return {
     plane: 'axial',
@@ -134,9 +312,7 @@ export function getSagittalSlice(volume: MPRVolume, xIndex: number): MPRSlice {
   const clampedX = Math.max(0, Math.min(width - 1, Math.floor(xIndex)));
 
   const sliceSize = height * depth;
-  const data = volume.volumeData instanceof Uint16Array
-    ? new Uint16Array(sliceSize)
-    : new Uint8Array(sliceSize);
+  const data = createPixelArray(volumeData, sliceSize);
 
   // Extract pixels along X at clampedX
   // Flip Z direction so head is at top (Z increases from feet to head)
@@ -145,7 +321,8 @@ export function getSagittalSlice(volume: MPRVolume, xIndex: number): MPRSlice {
       const volumeIndex = z * (width * height) + y * width + clampedX;
       // Flip the Z coordinate so the image is right-side up
       const flippedZ = depth - 1 - z;
-      const sliceIndex = flippedZ * height + y;
+      // Slice rows are Y and columns are the flipped Z, depth wide
+      const sliceIndex = y * depth + flippedZ;
       data[sliceIndex] = volumeData[volumeIndex];
     }
   }
@@ -167,9 +344,7 @@ export function getCoronalSlice(volume: MPRVolume, yIndex: number): MPRSlice {
   const clampedY = Math.max(0, Math.min(height - 1, Math.floor(yIndex)));
 
   const sliceSize = width * depth;
-  const data = volume.volumeData instanceof Uint16Array
-    ? new Uint16Array(sliceSize)
-    : new Uint8Array(sliceSize);
+  const data = createPixelArray(volumeData, sliceSize);
 
   // Extract pixels along Y at clampedY
   // Flip Z direction so head is at top (Z increases from feet to head)
@@ -192,6 +367,15 @@ export function getCoronalSlice(volume: MPRVolume, yIndex: number): MPRSlice {
   };
 }
 
+/**
+ * Allocate an empty pixel array of the same type as the source volume
+ */
+function createPixelArray(source: PixelData, size: number): PixelData {
+  if (source instanceof Int16Array) return new Int16Array(size);
+  if (source instanceof Uint16Array) return new Uint16Array(size);
+  return new Uint8Array(size);
+}
+
 /**
  * Get crosshair position for a given plane and index
  */
@@ -367,3 +551,493 @@ export function getPhysicalDimensions(volume: MPRVolume, plane: ViewPlane): { wi
       throw new Error(`Unknown plane: ${plane}`);
   }
 }
+
+/**
+ * Oblique Reformatting
+ */
+
+// Unit quaternion [w, x, y, z]; rotations act on volume directions in mm
+export type Quaternion = MPRPlaneState['rotation'];
+
+type Vector3 = [number, number, number];
+
+export const IDENTITY_ROTATION: Quaternion = [1, 0, 0, 0];
+
+// Pane axes of the orthogonal planes in volume (column, row, slice)
+// directions: u runs right and v down, with the head at the top or left
+const PLANE_AXES: Record<ViewPlane, { u: Vector3; v: Vector3 }> = {
+  axial: { u: [1, 0, 0], v: [0, 1, 0] },
+  sagittal: { u: [0, 0, -1], v: [0, 1, 0] },
+  coronal: { u: [1, 0, 0], v: [0, 0, -1] },
+};
+
+export interface PlaneAxes {
+  u: Vector3;
+  v: Vector3;
+  normal: Vector3;
+}
+
+/**
+ * Maps pane pixel (col, row) to continuous voxel coordinates as
+ * origin + col * stepU + row * stepV, sampling pixel centres
+ */
+export interface ObliqueSliceTransform {
+  origin: Vector3;
+  stepU: Vector3;
+  stepV: Vector3;
+  // One pane spacing along the plane normal, in voxels
+  stepNormal: Vector3;
+}
+
+const cross = (a: Vector3, b: Vector3): Vector3 => [
+  a[1] * b[2] - a[2] * b[1],
+  a[2] * b[0] - a[0] * b[2],
+  a[0] * b[1] - a[1] * b[0],
+];
+
+const dot = (a: Vector3, b: Vector3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+const normalize = (a: Vector3): Vector3 => {
+  const length = Math.hypot(a[0], a[1], a[2]);
+  return [a[0] / length, a[1] / length, a[2] / length];
+};
+
+function multiplyQuaternions(a: Quaternion, b: Quaternion): Quaternion {
+  const [aw, ax, ay, az] = a;
+  const [bw, bx, by, bz] = b;
+  return [
+    aw * bw - ax * bx - ay * by - az * bz,
+    aw * bx + ax * bw + ay * bz - az * by,
+    aw * by - ax * bz + ay * bw + az * bx,
+    aw * bz + ax * by - ay * bx + az * bw,
+  ];
+}
+
+function normalizeQuaternion(q: Quaternion): Quaternion {
+  const length = Math.hypot(...q);
+  return [q[0] / length, q[1] / length, q[2] / length, q[3] / length];
+}
+
+/**
+ * Rotate a direction by a unit quaternion
+ */
+export function rotateVector(q: Quaternion, v: Vector3): Vector3 {
+  const [w, x, y, z] = q;
+  // v + 2w(q × v) + 2q × (q × v), with q the vector part
+  const t: Vector3 = [2 * (y * v[2] - z * v[1]), 2 * (z * v[0] - x * v[2]), 2 * (x * v[1] - y * v[0])];
+  return [
+    v[0] + w * t[0] + (y * t[2] - z * t[1]),
+    v[1] + w * t[1] + (z * t[0] - x * t[2]),
+    v[2] + w * t[2] + (x * t[1] - y * t[0]),
+  ];
+}
+
+/**
+ * In-plane axes and normal of a pane under a rotation. The pane is kept as
+ * upright as possible: u is its orthogonal u projected onto the plane, so
+ * turning the planes about a pane's own normal leaves that pane unchanged.
+ */
+export function getPlaneAxes(plane: ViewPlane, rotation: Quaternion): PlaneAxes {
+  const reference = PLANE_AXES[plane];
+  const normal = normalize(rotateVector(rotation, cross(reference.u, reference.v)));
+  const along = dot(reference.u, normal);
+  let u: Vector3 = [
+    reference.u[0] - along * normal[0],
+    reference.u[1] - along * normal[1],
+    reference.u[2] - along * normal[2],
+  ];
+  // The orthogonal u is along the normal: fall back to turning it as well
+  u = Math.hypot(...u) < 1e-6 ? normalize(rotateVector(rotation, reference.u)) : normalize(u);
+  return { u, v: cross(normal, u), normal };
+}
+
+/**
+ * Whether a pane shows its orthogonal plane, so the orthogonal slice
+ * extraction and coordinate conversion apply
+ */
+export function isOrthogonalPane(plane: ViewPlane, rotation: Quaternion): boolean {
+  const { u, v } = getPlaneAxes(plane, rotation);
+  const reference = PLANE_AXES[plane];
+  return dot(u, reference.u) > 1 - 1e-9 && dot(v, reference.v) > 1 - 1e-9;
+}
+
+/**
+ * Turn all planes about the normal of `plane` by `angle` radians. Positive
+ * angles turn the reference lines clockwise on that pane.
+ */
+export function rotateAboutPlaneNormal(rotation: Quaternion, plane: ViewPlane, angle: number): Quaternion {
+  const { normal } = getPlaneAxes(plane, rotation);
+  const s = Math.sin(angle / 2);
+  const turn: Quaternion = [Math.cos(angle / 2), normal[0] * s, normal[1] * s, normal[2] * s];
+  return normalizeQuaternion(multiplyQuaternions(turn, rotation));
+}
+
+/**
+ * Size of a pane in pixels; oblique panes keep the size of their orthogonal plane
+ */
+export function getPaneDimensions(volume: MPRVolume, plane: ViewPlane): { width: number; height: number } {
+  switch (plane) {
+    case 'axial':
+      return { width: volume.width, height: volume.height };
+    case 'sagittal':
+      return { width: volume.depth, height: volume.height };
+    default:
+      return { width: volume.width, height: volume.depth };
+  }
+}
+
+/**
+ * Pixel spacing of a pane along u and v, in mm
+ */
+function getPaneSpacing(volume: MPRVolume, plane: ViewPlane): [number, number] {
+  const [spacingX, spacingY] = volume.pixelSpacing;
+  switch (plane) {
+    case 'axial':
+      return [spacingX, spacingY];
+    case 'sagittal':
+      return [volume.sliceSpacing, spacingY];
+    default:
+      return [spacingX, volume.sliceSpacing];
+  }
+}
+
+/**
+ * Crosshair and the point a pane is centred on, in mm from voxel (0, 0, 0).
+ * Panes are centred on the volume centre projected onto their plane, so
+ * moving the crosshair within a pane does not pan it.
+ */
+function getPaneFrame(volume: MPRVolume, plane: ViewPlane, crosshair: MPRCrosshair, rotation: Quaternion) {
+  const spacing: Vector3 = [volume.pixelSpacing[0], volume.pixelSpacing[1], volume.sliceSpacing];
+  const axes = getPlaneAxes(plane, rotation);
+  const crosshairPoint: Vector3 = [
+    crosshair.sagittalIndex * spacing[0],
+    crosshair.coronalIndex * spacing[1],
+    crosshair.axialIndex * spacing[2],
+  ];
+  const volumeCentre: Vector3 = [
+    ((volume.width - 1) / 2) * spacing[0],
+    ((volume.height - 1) / 2) * spacing[1],
+    ((volume.depth - 1) / 2) * spacing[2],
+  ];
+  const offset = dot(
+    [volumeCentre[0] - crosshairPoint[0], volumeCentre[1] - crosshairPoint[1], volumeCentre[2] - crosshairPoint[2]],
+    axes.normal
+  );
+  const paneCentre: Vector3 = [
+    volumeCentre[0] - offset * axes.normal[0],
+    volumeCentre[1] - offset * axes.normal[1],
+    volumeCentre[2] - offset * axes.normal[2],
+  ];
+  return { spacing, axes, crosshairPoint, paneCentre };
+}
+
+/**
+ * Position of the crosshair on a pane, in slice pixel coordinates
+ */
+export function crosshairPanePosition(
+  volume: MPRVolume,
+  plane: ViewPlane,
+  crosshair: MPRCrosshair,
+  rotation: Quaternion = IDENTITY_ROTATION
+): { x: number; y: number } {
+  const { axes, crosshairPoint, paneCentre } = getPaneFrame(volume, plane, crosshair, rotation);
+  const { width, height } = getPaneDimensions(volume, plane);
+  const [spacingU, spacingV] = getPaneSpacing(volume, plane);
+  const fromCentre: Vector3 = [
+    crosshairPoint[0] - paneCentre[0],
+    crosshairPoint[1] - paneCentre[1],
+    crosshairPoint[2] - paneCentre[2],
+  ];
+  return {
+    x: dot(fromCentre, axes.u) / spacingU + width / 2,
+    y: dot(fromCentre, axes.v) / spacingV + height / 2,
+  };
+}
+
+/**
+ * Pixel to voxel mapping of a pane through the crosshair. Without rotation
+ * it reproduces the orthogonal slices pixel for pixel.
+ */
+export function getObliqueSliceTransform(
+  volume: MPRVolume,
+  plane: ViewPlane,
+  crosshair: MPRCrosshair,
+  rotation: Quaternion
+): ObliqueSliceTransform {
+  const { spacing, axes, paneCentre } = getPaneFrame(volume, plane, crosshair, rotation);
+  const { width, height } = getPaneDimensions(volume, plane);
+  const [spacingU, spacingV] = getPaneSpacing(volume, plane);
+  const normalSpacing = plane === 'axial' ? spacing[2] : plane === 'sagittal' ? spacing[0] : spacing[1];
+  const toVoxels = (direction: Vector3, length: number): Vector3 =>
+    [0, 1, 2].map(axis => (direction[axis] * length) / spacing[axis]) as Vector3;
+
+  const stepU = toVoxels(axes.u, spacingU);
+  const stepV = toVoxels(axes.v, spacingV);
+  // Pixel (0, 0) centre, from the pane centre
+  const fromCentreU = 0.5 - width / 2;
+  const fromCentreV = 0.5 - height / 2;
+  const origin = [0, 1, 2].map(axis =>
+    paneCentre[axis] / spacing[axis] + fromCentreU * stepU[axis] + fromCentreV * stepV[axis]
+  ) as Vector3;
+  return { origin, stepU, stepV, stepNormal: toVoxels(axes.normal, normalSpacing) };
+}
+
+/**
+ * Continuous voxel coordinates of a point on a pane, given in slice pixel
+ * coordinates. Orthogonal panes give the voxel `canvasToVolumeCoords` picks.
+ */
+export function obliqueSliceToVolume(
+  sliceX: number,
+  sliceY: number,
+  plane: ViewPlane,
+  crosshair: MPRCrosshair,
+  rotation: Quaternion,
+  volume: MPRVolume
+): { x: number; y: number; z: number } {
+  const { origin, stepU, stepV } = getObliqueSliceTransform(volume, plane, crosshair, rotation);
+  const col = sliceX - 0.5;
+  const row = sliceY - 0.5;
+  return {
+    x: origin[0] + col * stepU[0] + row * stepV[0],
+    y: origin[1] + col * stepU[1] + row * stepV[1],
+    z: origin[2] + col * stepU[2] + row * stepV[2],
+  };
+}
+
+/**
+ * Stored value shown outside the volume: air for CT, zero otherwise
+ */
+function outsideValue(volume: Pick<MPRVolume, 'volumeData' | 'rescaleSlope' | 'rescaleIntercept'>): number {
+  const { volumeData, rescaleSlope, rescaleIntercept } = volume;
+  const air = Math.round((-1024 - (rescaleIntercept || 0)) / (rescaleSlope || 1));
+  if (volumeData instanceof Int16Array) return Math.max(-32768, Math.min(32767, air));
+  return Math.max(0, air);
+}
+
+/**
+ * Extract a pane through the crosshair under a rotation, resampling
+ * `volumeData` trilinearly. Pixels outside the volume show air.
+ */
+export function getObliqueSlice(
+  volume: MPRVolume,
+  plane: ViewPlane,
+  crosshair: MPRCrosshair,
+  rotation: Quaternion
+): MPRSlice {
+  const { width, height } = getPaneDimensions(volume, plane);
+  const { origin, stepU, stepV } = getObliqueSliceTransform(volume, plane, crosshair, rotation);
+  const samples = resamplePlane(volume, width, height, origin, stepU, stepV);
+  const data = createPixelArray(volume.volumeData, width * height);
+  const outside = outsideValue(volume);
+  for (let i = 0; i < samples.length; i++) {
+    data[i] = Number.isNaN(samples[i]) ? outside : Math.round(samples[i]);
+  }
+  return { plane, index: -1, data, width, height };
+}
+
+/**
+ * Trilinear samples of `volumeData` at pane pixel (col, row) =
+ * origin + col * stepU + row * stepV, NaN outside the volume
+ */
+function resamplePlane(
+  volume: MPRVolume,
+  width: number,
+  height: number,
+  origin: Vector3,
+  stepU: Vector3,
+  stepV: Vector3
+): Float32Array {
+  const { volumeData } = volume;
+  const samples = new Float32Array(width * height);
+  const rowStride = volume.width;
+  const sliceStride = volume.width * volume.height;
+  const [maxX, maxY, maxZ] = [volume.width - 1, volume.height - 1, volume.depth - 1];
+
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      const x = origin[0] + col * stepU[0] + row * stepV[0];
+      const y = origin[1] + col * stepU[1] + row * stepV[1];
+      const z = origin[2] + col * stepU[2] + row * stepV[2];
+      // Half a voxel of slack so the outermost voxels are shown in full
+      if (x < -0.5 || y < -0.5 || z < -0.5 || x > maxX + 0.5 || y > maxY + 0.5 || z > maxZ + 0.5) {
+        samples[row * width + col] = NaN;
+        continue;
+      }
+
+      const cx = Math.min(Math.max(x, 0), maxX);
+      const cy = Math.min(Math.max(y, 0), maxY);
+      const cz = Math.min(Math.max(z, 0), maxZ);
+      const x0 = Math.min(Math.floor(cx), maxX);
+      const y0 = Math.min(Math.floor(cy), maxY);
+      const z0 = Math.min(Math.floor(cz), maxZ);
+      const fx = cx - x0;
+      const fy = cy - y0;
+      const fz = cz - z0;
+      const dx = x0 < maxX ? 1 : 0;
+      const dy = y0 < maxY ? rowStride : 0;
+      const dz = z0 < maxZ ? sliceStride : 0;
+
+      const i = z0 * sliceStride + y0 * rowStride + x0;
+      const front =
+        (volumeData[i] * (1 - fx) + volumeData[i + dx] * fx) * (1 - fy) +
+        (volumeData[i + dy] * (1 - fx) + volumeData[i + dy + dx] * fx) * fy;
+      const back =
+        (volumeData[i + dz] * (1 - fx) + volumeData[i + dz + dx] * fx) * (1 - fy) +
+        (volumeData[i + dz + dy] * (1 - fx) + volumeData[i + dz + dy + dx] * fx) * fy;
+      samples[row * width + col] = front * (1 - fz) + back * fz;
+    }
+  }
+
+  return samples;
+}
+
+/**
+ * Direction of the line where `other` cuts `plane`, in pane millimetres
+ * (x right, y down)
+ */
+export function referenceLineDirection(plane: ViewPlane, other: ViewPlane, rotation: Quaternion): { x: number; y: number } {
+  const axes = getPlaneAxes(plane, rotation);
+  const direction = cross(axes.normal, getPlaneAxes(other, rotation).normal);
+  return { x: dot(direction, axes.u), y: dot(direction, axes.v) };
+}
+
+/**
+ * Compact text form of the MPR planes, for links and project files
+ */
+export function encodeMPRPlane(state: MPRPlaneState): string {
+  const rotation = state.rotation.map(value => Number(value.toFixed(5)));
+  return [state.axialIndex, state.sagittalIndex, state.coronalIndex, ...rotation].join(',');
+}
+
+/**
+ * Read planes written by `encodeMPRPlane`; null when the text is not valid
+ */
+export function decodeMPRPlane(text: string): MPRPlaneState | null {
+  const values = text.split(',').map(Number);
+  if (values.length !== 7 || values.some(value => !Number.isFinite(value))) return null;
+  const [axialIndex, sagittalIndex, coronalIndex, ...rotation] = values;
+  if ([axialIndex, sagittalIndex, coronalIndex].some(index => !Number.isInteger(index) || index < 0)) return null;
+  if (Math.hypot(...rotation) < 1e-6) return null;
+  return {
+    axialIndex,
+    sagittalIndex,
+    coronalIndex,
+    rotation: normalizeQuaternion(rotation as Quaternion),
+  };
+}
+
+/**
+ * Slab Projections
+ */
+
+// Maximum, minimum or average intensity through a slab around each plane
+export type SlabMode = 'mip' | 'minip' | 'average';
+
+export interface SlabSettings {
+  mode: SlabMode;
+  // Full slab thickness in mm, centred on the plane
+  thickness: number;
+}
+
+export const SLAB_MODES: { value: SlabMode; label: string; description: string }[] = [
+  { value: 'mip', label: 'MIP', description: 'Maximum intensity projection' },
+  { value: 'minip', label: 'MinIP', description: 'Minimum intensity projection' },
+  { value: 'average', label: 'AvgIP', description: 'Average intensity projection' },
+];
+
+export const DEFAULT_SLAB_THICKNESS = 10;
+
+/**
+ * Project a slab through the crosshair onto a pane. The slab is sampled at
+ * the spacing of the volume along the pane's normal, with the odd number of
+ * planes closest to the thickness; planes outside the volume are left out.
+ */
+export function getSlabSlice(
+  volume: MPRVolume,
+  plane: ViewPlane,
+  crosshair: MPRCrosshair,
+  rotation: Quaternion,
+  slab: SlabSettings
+): MPRSlice {
+  const { width, height } = getPaneDimensions(volume, plane);
+  const transform = getObliqueSliceTransform(volume, plane, crosshair, rotation);
+  const normalSpacing = plane === 'axial' ? volume.sliceSpacing : volume.pixelSpacing[plane === 'sagittal' ? 0 : 1];
+  const data = projectSlab(volume, width, height, transform, normalSpacing, slab);
+  return { plane, index: -1, data, width, height };
+}
+
+/**
+ * Axial slab centred on a source slice, in that slice's own pixel grid. A
+ * resampled volume is sampled between its slices and shifted back for tilted
+ * series, so the slab lines up with the slice's contours. Null when the slice
+ * is not part of the volume.
+ */
+export function getImageSlab(volume: MPRVolume, image: DicomImage, slab: SlabSettings): PixelData | null {
+  const z = volumeSliceOfImage(volume, image);
+  if (z < 0) return null;
+
+  const { width, height } = getPaneDimensions(volume, 'axial');
+  let sliceZ = z;
+  let shiftX = 0;
+  let shiftY = 0;
+  if (volume.resampling) {
+    // Fractional volume slice at the source slice's position
+    const imageZ = image.imagePosition?.[2] ?? image.sliceLocation ?? volume.slicePositions[z];
+    const next = z < volume.depth - 1 ? z + 1 : z - 1;
+    const step = next >= 0 ? (volume.slicePositions[next] - volume.slicePositions[z]) / (next - z) : 0;
+    if (step !== 0) sliceZ += (imageZ - volume.slicePositions[z]) / step;
+    const [x, y] = image.imagePosition || volume.sliceOrigins[z];
+    shiftX = (x - volume.sliceOrigins[z][0]) / volume.pixelSpacing[0];
+    shiftY = (y - volume.sliceOrigins[z][1]) / volume.pixelSpacing[1];
+  }
+
+  const transform: ObliqueSliceTransform = {
+    origin: [shiftX, shiftY, sliceZ],
+    stepU: [1, 0, 0],
+    stepV: [0, 1, 0],
+    stepNormal: [0, 0, 1],
+  };
+  return projectSlab(volume, width, height, transform, volume.sliceSpacing, slab);
+}
+
+/**
+ * Maximum, minimum or mean of the planes of a slab around a pane, stepping
+ * `transform.stepNormal` between them
+ */
+function projectSlab(
+  volume: MPRVolume,
+  width: number,
+  height: number,
+  transform: ObliqueSliceTransform,
+  normalSpacing: number,
+  slab: SlabSettings
+): PixelData {
+  const halfPlanes = Math.max(0, Math.round((slab.thickness / (normalSpacing || 1) - 1) / 2));
+  const size = width * height;
+  const result = new Float64Array(size).fill(slab.mode === 'mip' ? -Infinity : slab.mode === 'minip' ? Infinity : 0);
+  const counts = new Uint16Array(size);
+
+  for (let offset = -halfPlanes; offset <= halfPlanes; offset++) {
+    const origin = [0, 1, 2].map(axis => transform.origin[axis] + offset * transform.stepNormal[axis]) as Vector3;
+    const samples = resamplePlane(volume, width, height, origin, transform.stepU, transform.stepV);
+    for (let i = 0; i < size; i++) {
+      const sample = samples[i];
+      if (Number.isNaN(sample)) continue;
+      counts[i]++;
+      if (slab.mode === 'mip') result[i] = Math.max(result[i], sample);
+      else if (slab.mode === 'minip') result[i] = Math.min(result[i], sample);
+      else result[i] += sample;
+    }
+  }
+
+  const data = createPixelArray(volume.volumeData, size);
+  const outside = outsideValue(volume);
+  for (let i = 0; i < size; i++) {
+    if (counts[i] === 0) {
+      data[i] = outside;
+    } else {
+      data[i] = Math.round(slab.mode === 'average' ? result[i] / counts[i] : result[i]);
+    }
+  }
+  return data;
+}
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { createLabelMap, createNiftiFile, createNiftiGrid, rasterizeStructure } from './nifti-export';
+import { NiftiProcessor } from './nifti-utils';
+import { createImageStack, createStructure, square } from '@/test/fixtures';
+
+// 4x4 slices at 2 mm spacing, 3 mm apart, starting at (-10, -20, 5)
+const createImages = () => createImageStack({
+    count: 2,
+    origin: [-10, -20, 5],
+    sliceStep: 3,
+    pixelSpacing: [2, 2],
+    fields: { sliceThickness: 3 },
+});
+
+describe('nifti-export', () => {
+    it('should convert the DICOM geometry to a RAS affine', () => {
+        const grid = createNiftiGrid(createImages());
+
+        expect(grid.affine).toEqual([
+            [-2, 0, 0, 10],
+            [0, -2, 0, 20],
+            [0, 0, 3, 5],
+            [0, 0, 0, 1],
+        ]);
+    });
+
+    it('should set voxels whose centre lies inside the contour', () => {
+        // Covers pixel centres x = -8 and -6, y = -18 and -16 on slice 1
+        const mask = rasterizeStructure(createStructure('a', [[1, square(-9, -19, -5, -15)]]), createImages());
+
+        expect(Array.from(mask.slice(0, 16)).every(value => value === 0)).toBe(true);
+        expect(Array.from(mask.slice(16))).toEqual([
+            0, 0, 0, 0,
+            0, 1, 1, 0,
+            0, 1, 1, 0,
+            0, 0, 0, 0,
+        ]);
+    });
+
+    it('should let later structures win where labels overlap', () => {
+        const { data, labels } = createLabelMap([
+            createStructure('a', [[0, square(-11, -21, -5, -15)]], { name: 'ROI a' }),
+            createStructure('b', [[0, square(-7, -17, -1, -11)]], { name: 'ROI b' }),
+        ], createImages());
+
+        expect(Array.from(data.slice(0, 16))).toEqual([
+            1, 1, 1, 0,
+            1, 1, 1, 0,
+            1, 1, 2, 2,
+            0, 0, 2, 2,
+        ]);
+        expect(labels.map(label => [label.value, label.name, label.voxelCount])).toEqual([
+            [1, 'ROI a', 8],
+            [2, 'ROI b', 4],
+        ]);
+        expect(labels[0].rgb).toEqual([255, 0, 0]);
+    });
+
+    it('should round-trip through the NIfTI reader with the source affine', () => {
+        const images = createImages();
+        const grid = createNiftiGrid(images);
+        const mask = rasterizeStructure(createStructure('a', [[1, square(-9, -19, -5, -15)]]), images);
+        const buffer = createNiftiFile(mask, grid);
+
+        const volume = NiftiProcessor.parseVolume(buffer);
+        expect(volume!.width).toBe(4);
+        expect(volume!.depth).toBe(2);
+        expect(Array.from(volume!.data)).toEqual(Array.from(mask));
+        expect(volume!.affine).toEqual(grid.affine);
+
+        // The qform alone must describe the same geometry
+        new DataView(buffer).setInt16(254, 0, true);
+        const qformAffine = NiftiProcessor.parseVolume(buffer)!.affine;
+        qformAffine.forEach((row, r) => row.forEach((value, c) => {
+            expect(value).toBeCloseTo(grid.affine[r][c]);
+        }));
+
+        // And the converted slices land back on the CT geometry
+        const slices = NiftiProcessor.volumeToDicomImages(volume!);
+        expect(slices[1].imagePosition).toEqual([-10, -20, 8]);
+        expect(slices[1].imageOrientation).toEqual([1, 0, 0, 0, 1, 0]);
+    });
+
+    it('should keep rectangular pixels through a NIfTI round trip', () => {
+        // Rows 0.5 mm apart, columns 0.8 mm apart
+        const images = createImageStack({ count: 2, sliceStep: 3, pixelSpacing: [0.5, 0.8] });
+        const grid = createNiftiGrid(images);
+        expect(grid.affine).toEqual([
+            [-0.8, 0, 0, 0],
+            [0, -0.5, 0, 0],
+            [0, 0, 3, 0],
+            [0, 0, 0, 1],
+        ]);
+
+        // Covers pixel centres x = 0.8 and 1.6, y = 0 and 0.5 on slice 0
+        const structure = createStructure('a', [[0, square(0.5, -0.1, 1.7, 0.6)]]);
+        const mask = rasterizeStructure(structure, images);
+        expect(Array.from(mask.slice(0, 16))).toEqual([
+            0, 1, 1, 0,
+            0, 1, 1, 0,
+            0, 0, 0, 0,
+            0, 0, 0, 0,
+        ]);
+
+        const slices = NiftiProcessor.volumeToDicomImages(NiftiProcessor.parseVolume(createNiftiFile(mask, grid))!);
+        expect(slices[0].pixelSpacing[0]).toBeCloseTo(0.5);
+        expect(slices[0].pixelSpacing[1]).toBeCloseTo(0.8);
+        createNiftiGrid(slices).affine.forEach((row, r) => row.forEach((value, c) => {
+            expect(value).toBeCloseTo(grid.affine[r][c]);
+        }));
+        expect(Array.from(rasterizeStructure(structure, slices))).toEqual(Array.from(mask));
+    });
+});
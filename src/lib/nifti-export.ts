@@ -0,0 +1,364 @@
+/**
+ * Export structures as NIfTI-1 label maps or per-ROI binary masks on the
+ * CT image grid, for segmentation and machine-learning pipelines.
+ */
+
+import { saveAs } from 'file-saver';
+import { gzipSync, zipSync } from 'fflate';
+import { DicomImage, Point2D, Structure3D } from '@/types';
+import { cssColorToRGB } from './color-utils';
+import { scanlineCrossings } from './contour-utils';
+
+export type NiftiExportMode = 'labelmap' | 'masks';
+
+export interface NiftiLabel {
+  value: number;
+  name: string;
+  color: string;
+  rgb: [number, number, number];
+  interpretedType?: string;
+  voxelCount: number;
+  // Mask file, for per-ROI exports
+  file?: string;
+}
+
+export interface NiftiGrid {
+  width: number;
+  height: number;
+  depth: number;
+  // 4x4 voxel index (i, j, k) to RAS+ millimetre transform
+  affine: number[][];
+}
+
+// NIfTI-1 datatype codes and intents used for masks
+const NIFTI_UINT8 = 2;
+const NIFTI_UINT16 = 512;
+const NIFTI_INTENT_LABEL = 1002;
+const NIFTI_HEADER_SIZE = 348;
+const NIFTI_VOX_OFFSET = 352;
+
+/**
+ * Image grid of a CT series as NIfTI voxel geometry. Columns, rows and
+ * slices become i, j and k, and the DICOM (LPS+) geometry is converted to
+ * the RAS+ affine NIfTI expects, so the masks overlay the source CT.
+ */
+export function createNiftiGrid(ctImages: DicomImage[]): NiftiGrid {
+  const first = ctImages[0];
+  const last = ctImages[ctImages.length - 1];
+  const orientation = first.imageOrientation || [1, 0, 0, 0, 1, 0];
+  // Pixel Spacing is (row spacing, column spacing): i steps across columns, j down rows
+  const [rowSpacing, columnSpacing] = first.pixelSpacing || [1, 1];
+  const origin = first.imagePosition || [0, 0, 0];
+
+  const iAxis = orientation.slice(0, 3).map(v => v * columnSpacing);
+  const jAxis = orientation.slice(3, 6).map(v => v * rowSpacing);
+  let kAxis: number[];
+  if (ctImages.length > 1 && last.imagePosition) {
+    kAxis = last.imagePosition.map((v, axis) => (v - origin[axis]) / (ctImages.length - 1));
+  } else {
+    const normal = [
+      iAxis[1] * jAxis[2] - iAxis[2] * jAxis[1],
+      iAxis[2] * jAxis[0] - iAxis[0] * jAxis[2],
+      iAxis[0] * jAxis[1] - iAxis[1] * jAxis[0],
+    ];
+    const length = Math.hypot(normal[0], normal[1], normal[2]) || 1;
+    kAxis = normal.map(v => (v / length) * (first.sliceThickness || 1));
+  }
+
+  // LPS -> RAS: negate the x and y rows
+  const sign = [-1, -1, 1];
+  const affine = [0, 1, 2].map(axis => [
+    sign[axis] * iAxis[axis] || 0,
+    sign[axis] * jAxis[axis] || 0,
+    sign[axis] * kAxis[axis] || 0,
+    sign[axis] * origin[axis] || 0,
+  ]);
+  affine.push([0, 0, 0, 1]);
+
+  return { width: first.width, height: first.height, depth: ctImages.length, affine };
+}
+
+/**
+ * Patient (LPS+) geometry of a grid: the millimetre step along i, j and k,
+ * and the position of the first voxel. NRRD and MetaImage store this
+ * rather than a RAS affine.
+ */
+export function gridPatientGeometry(grid: NiftiGrid): { axes: number[][]; origin: number[] } {
+  const sign = [-1, -1, 1];
+  const column = (index: number) => [0, 1, 2].map(row => sign[row] * grid.affine[row][index] || 0);
+  return { axes: [column(0), column(1), column(2)], origin: column(3) };
+}
+
+/**
+ * JSON sidecar mapping label values to structure names and colors, for
+ * formats that cannot carry them in the image header
+ */
+export function createLabelSidecar(
+  grid: NiftiGrid,
+  labels: NiftiLabel[],
+  type: 'label-map' | 'binary-masks'
+): string {
+  return JSON.stringify({
+    version: '1.0',
+    exportTimestamp: new Date().toISOString(),
+    type,
+    dimensions: [grid.width, grid.height, grid.depth],
+    affine: grid.affine,
+    labels,
+  }, null, 2);
+}
+
+/**
+ * Rasterize a structure's closed contours onto the image grid. Voxels whose
+ * centre falls inside are set, with the even-odd rule so inner contours on
+ * a slice cut holes.
+ */
+export function rasterizeStructure(structure: Structure3D, ctImages: DicomImage[]): Uint8Array {
+  const { width, height, depth } = createNiftiGrid(ctImages);
+  const mask = new Uint8Array(width * height * depth);
+
+  const contoursBySlice = new Map<number, Point2D[][]>();
+  structure.contours.forEach(contour => {
+    if (!contour.isClosed || contour.points.length < 3) return;
+    const polygons = contoursBySlice.get(contour.sliceIndex) ?? [];
+    polygons.push(contour.points);
+    contoursBySlice.set(contour.sliceIndex, polygons);
+  });
+
+  contoursBySlice.forEach((polygons, sliceIndex) => {
+    const image = ctImages[sliceIndex];
+    if (!image) return;
+    rasterizePolygons(polygons, image, width, height, mask, sliceIndex * width * height);
+  });
+
+  return mask;
+}
+
+/**
+ * Set the pixels of one slice whose centre falls inside the polygons
+ * (even-odd rule), writing `width` x `height` values from `offset`. The
+ * pixel grid is the one of `image`, or any frame with its position and spacing.
+ */
+export function rasterizePolygons(
+  polygons: Point2D[][],
+  image: Pick<DicomImage, 'imagePosition' | 'pixelSpacing'>,
+  width: number,
+  height: number,
+  mask: Uint8Array,
+  offset = 0
+): void {
+  const [originX, originY] = image.imagePosition || [0, 0, 0];
+  const [rowSpacing, columnSpacing] = image.pixelSpacing || [1, 1];
+
+  for (let row = 0; row < height; row++) {
+    const crossings = scanlineCrossings(polygons, originY + row * rowSpacing);
+    for (let i = 0; i + 1 < crossings.length; i += 2) {
+      const start = Math.max(0, Math.ceil((crossings[i] - originX) / columnSpacing));
+      const end = Math.min(width, Math.ceil((crossings[i + 1] - originX) / columnSpacing));
+      for (let col = start; col < end; col++) {
+        mask[offset + row * width + col] = 1;
+      }
+    }
+  }
+}
+
+/**
+ * Multi-label volume with label i + 1 for structures[i]. Where structures
+ * overlap, the later structure wins.
+ */
+export function createLabelMap(
+  structures: Structure3D[],
+  ctImages: DicomImage[]
+): { data: Uint8Array | Uint16Array; labels: NiftiLabel[] } {
+  const { width, height, depth } = createNiftiGrid(ctImages);
+  const data = structures.length > 255
+    ? new Uint16Array(width * height * depth)
+    : new Uint8Array(width * height * depth);
+
+  const masks = structures.map(structure => rasterizeStructure(structure, ctImages));
+  masks.forEach((mask, index) => {
+    for (let i = 0; i < mask.length; i++) {
+      if (mask[i]) data[i] = index + 1;
+    }
+  });
+
+  const voxelCounts = new Array<number>(structures.length + 1).fill(0);
+  data.forEach(value => voxelCounts[value]++);
+
+  const labels = structures.map((structure, index) => ({
+    ...labelInfo(structure, index + 1),
+    voxelCount: voxelCounts[index + 1],
+  }));
+
+  return { data, labels };
+}
+
+function labelInfo(structure: Structure3D, value: number): Omit<NiftiLabel, 'voxelCount'> {
+  return {
+    value,
+    name: structure.name,
+    color: structure.color,
+    rgb: cssColorToRGB(structure.color),
+    interpretedType: structure.interpretedType,
+  };
+}
+
+/**
+ * Encode a single-file NIfTI-1 (.nii) volume. Both the sform and an
+ * equivalent qform are written, since readers differ in which they prefer.
+ */
+export function createNiftiFile(
+  data: Uint8Array | Uint16Array,
+  grid: NiftiGrid,
+  options: { intentCode?: number; description?: string } = {}
+): ArrayBuffer {
+  const bytesPerVoxel = data.BYTES_PER_ELEMENT;
+  const buffer = new ArrayBuffer(NIFTI_VOX_OFFSET + data.length * bytesPerVoxel);
+  const view = new DataView(buffer);
+  const { affine } = grid;
+
+  const axisLength = (index: number) =>
+    Math.hypot(affine[0][index], affine[1][index], affine[2][index]) || 1;
+  const spacing = [axisLength(0), axisLength(1), axisLength(2)];
+  const { qfac, quaternion } = affineToQuaternion(affine, spacing);
+
+  view.setInt32(0, NIFTI_HEADER_SIZE, true);
+  [3, grid.width, grid.height, grid.depth, 1, 1, 1, 1].forEach((dim, i) => view.setInt16(40 + i * 2, dim, true));
+  view.setInt16(68, options.intentCode ?? 0, true);
+  view.setInt16(70, bytesPerVoxel === 1 ? NIFTI_UINT8 : NIFTI_UINT16, true);
+  view.setInt16(72, bytesPerVoxel * 8, true);
+  [qfac, ...spacing, 1, 1, 1, 1].forEach((pixDim, i) => view.setFloat32(76 + i * 4, pixDim, true));
+  view.setFloat32(108, NIFTI_VOX_OFFSET, true);
+  view.setFloat32(112, 1, true); // scl_slope
+  view.setUint8(123, 2); // xyzt_units: millimetres
+  writeString(view, 148, 80, options.description ?? '');
+  view.setInt16(252, 1, true); // qform_code: scanner anatomical
+  view.setInt16(254, 1, true); // sform_code: scanner anatomical
+  quaternion.forEach((value, i) => view.setFloat32(256 + i * 4, value, true));
+  [0, 1, 2].forEach(axis => view.setFloat32(268 + axis * 4, affine[axis][3], true));
+  [0, 1, 2].forEach(row => affine[row].forEach((value, col) =>
+    view.setFloat32(280 + row * 16 + col * 4, value, true)
+  ));
+  writeString(view, 344, 4, 'n+1');
+
+  new Uint8Array(buffer, NIFTI_VOX_OFFSET).set(
+    new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+  );
+  return buffer;
+}
+
+function writeString(view: DataView, offset: number, maxLength: number, value: string): void {
+  for (let i = 0; i < Math.min(value.length, maxLength - 1); i++) {
+    view.setUint8(offset + i, value.charCodeAt(i) & 0x7f);
+  }
+}
+
+/**
+ * Quaternion (b, c, d) and qfac for the rotation part of an affine, as in
+ * nifti_mat44_to_quatern from the reference nifti1_io library
+ */
+function affineToQuaternion(
+  affine: number[][],
+  spacing: number[]
+): { qfac: number; quaternion: [number, number, number] } {
+  const r = [0, 1, 2].map(row => [0, 1, 2].map(col => affine[row][col] / spacing[col]));
+
+  const determinant =
+    r[0][0] * (r[1][1] * r[2][2] - r[1][2] * r[2][1]) -
+    r[0][1] * (r[1][0] * r[2][2] - r[1][2] * r[2][0]) +
+    r[0][2] * (r[1][0] * r[2][1] - r[1][1] * r[2][0]);
+  const qfac = determinant < 0 ? -1 : 1;
+  if (qfac < 0) {
+    [0, 1, 2].forEach(row => { r[row][2] = -r[row][2]; });
+  }
+
+  let a = r[0][0] + r[1][1] + r[2][2] + 1;
+  let b: number;
+  let c: number;
+  let d: number;
+  if (a > 0.5) {
+    a = 0.5 * Math.sqrt(a);
+    b = (0.25 * (r[2][1] - r[1][2])) / a;
+    c = (0.25 * (r[0][2] - r[2][0])) / a;
+    d = (0.25 * (r[1][0] - r[0][1])) / a;
+  } else {
+    const xd = 1 + r[0][0] - r[1][1] - r[2][2];
+    const yd = 1 - r[0][0] + r[1][1] - r[2][2];
+    const zd = 1 - r[0][0] - r[1][1] + r[2][2];
+    if (xd > 1) {
+      b = 0.5 * Math.sqrt(xd);
+      c = (0.25 * (r[0][1] + r[1][0])) / b;
+      d = (0.25 * (r[0][2] + r[2][0])) / b;
+      a = (0.25 * (r[2][1] - r[1][2])) / b;
+    } else if (yd > 1) {
+      c = 0.5 * Math.sqrt(yd);
+      b = (0.25 * (r[0][1] + r[1][0])) / c;
+      d = (0.25 * (r[1][2] + r[2][1])) / c;
+      a = (0.25 * (r[0][2] - r[2][0])) / c;
+    } else {
+      d = 0.5 * Math.sqrt(zd);
+      b = (0.25 * (r[0][2] + r[2][0])) / d;
+      c = (0.25 * (r[1][2] + r[2][1])) / d;
+      a = (0.25 * (r[1][0] - r[0][1])) / d;
+    }
+    if (a < 0) {
+      b = -b;
+      c = -c;
+      d = -d;
+    }
+  }
+
+  return { qfac, quaternion: [b, c, d] };
+}
+
+/**
+ * Mask file name for a structure; the label value keeps names unique
+ */
+function maskFileName(structure: Structure3D, value: number): string {
+  const name = structure.name.trim().replace(/[^A-Za-z0-9_-]+/g, '_') || 'structure';
+  return `${String(value).padStart(3, '0')}_${name}.nii.gz`;
+}
+
+/**
+ * Download the structures as one multi-label .nii.gz, or as a ZIP with one
+ * binary mask per ROI. Either way a JSON sidecar maps label values to
+ * structure names and colors.
+ */
+export function exportStructuresAsNifti(
+  structures: Structure3D[],
+  ctImages: DicomImage[],
+  mode: NiftiExportMode = 'labelmap'
+): void {
+  const grid = createNiftiGrid(ctImages);
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const sidecar = (labels: NiftiLabel[]) =>
+    createLabelSidecar(grid, labels, mode === 'labelmap' ? 'label-map' : 'binary-masks');
+
+  if (mode === 'labelmap') {
+    const { data, labels } = createLabelMap(structures, ctImages);
+    const nifti = createNiftiFile(data, grid, {
+      intentCode: NIFTI_INTENT_LABEL,
+      description: 'DicomEdit label map',
+    });
+    saveAs(new Blob([gzipSync(new Uint8Array(nifti))], { type: 'application/gzip' }), `labels_${timestamp}.nii.gz`);
+    saveAs(new Blob([sidecar(labels)], { type: 'application/json' }), `labels_${timestamp}.json`);
+    return;
+  }
+
+  const files: Record<string, Uint8Array> = {};
+  const labels = structures.map((structure, index) => {
+    const mask = rasterizeStructure(structure, ctImages);
+    const file = maskFileName(structure, index + 1);
+    const nifti = createNiftiFile(mask, grid, { description: structure.name });
+    files[file] = gzipSync(new Uint8Array(nifti));
+    return {
+      ...labelInfo(structure, 1),
+      voxelCount: mask.reduce((count, value) => count + value, 0),
+      file,
+    };
+  });
+  files['labels.json'] = new TextEncoder().encode(sidecar(labels));
+
+  // The masks are already gzipped, so the ZIP only stores them
+  saveAs(new Blob([zipSync(files, { level: 0 })], { type: 'application/zip' }), `masks_${timestamp}.zip`);
+}
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import { NiftiProcessor } from './nifti-utils';
+
+interface TestNifti {
+    // [x, y, z] or [x, y, z, volumes]
+    dims: number[];
+    datatype: number;
+    bitpix: number;
+    voxels: number[];
+    sclSlope?: number;
+    sclInter?: number;
+    // sform rows (RAS+)
+    srow?: [number[], number[], number[]];
+}
+
+/**
+ * Build a single-file NIfTI-1 (.nii) with an sform affine
+ */
+const createNifti = ({ dims, datatype, bitpix, voxels, sclSlope = 1, sclInter = 0, srow }: TestNifti): ArrayBuffer => {
+    const voxOffset = 352;
+    const buffer = new ArrayBuffer(voxOffset + voxels.length * (bitpix / 8));
+    const view = new DataView(buffer);
+
+    view.setInt32(0, 348, true);
+    [dims.length, ...dims, 1, 1, 1, 1].slice(0, 8).forEach((dim, i) => view.setInt16(40 + i * 2, dim, true));
+    view.setInt16(70, datatype, true);
+    view.setInt16(72, bitpix, true);
+    [1, 1, 1, 1, 0, 0, 0, 0].forEach((pixDim, i) => view.setFloat32(76 + i * 4, pixDim, true));
+    view.setFloat32(108, voxOffset, true);
+    view.setFloat32(112, sclSlope, true);
+    view.setFloat32(116, sclInter, true);
+    view.setInt16(254, srow ? 1 : 0, true);
+    srow?.forEach((row, r) => row.forEach((value, c) => view.setFloat32(280 + r * 16 + c * 4, value, true)));
+    [0x6e, 0x2b, 0x31, 0x00].forEach((byte, i) => view.setUint8(344 + i, byte));
+
+    voxels.forEach((value, i) => {
+        const offset = voxOffset + i * (bitpix / 8);
+        if (datatype === 4) view.setInt16(offset, value, true);
+        else view.setFloat32(offset, value, true);
+    });
+    return buffer;
+};
+
+describe('NiftiProcessor', () => {
+    it('should keep negative values and use scl_slope/scl_inter as rescale', () => {
+        const volume = NiftiProcessor.parseVolume(createNifti({
+            dims: [2, 1, 1], datatype: 4, bitpix: 16, voxels: [0, 24], sclSlope: 1, sclInter: -1024,
+        }));
+        const [image] = NiftiProcessor.volumeToDicomImages(volume!);
+
+        expect(Array.from(image.pixelData)).toEqual([0, 24]);
+        expect(image.rescaleSlope).toBe(1);
+        expect(image.rescaleIntercept).toBe(-1024);
+    });
+
+    it('should store whole-number float data directly', () => {
+        const volume = NiftiProcessor.parseVolume(createNifti({
+            dims: [2, 1, 1], datatype: 16, bitpix: 32, voxels: [-1000, 40],
+        }));
+        const [image] = NiftiProcessor.volumeToDicomImages(volume!);
+
+        expect(image.pixelData).toBeInstanceOf(Int16Array);
+        expect(Array.from(image.pixelData)).toEqual([-1000, 40]);
+        expect(image.rescaleIntercept).toBe(0);
+    });
+
+    it('should quantize fractional float data within the rescale', () => {
+        const volume = NiftiProcessor.parseVolume(createNifti({
+            dims: [2, 1, 1], datatype: 16, bitpix: 32, voxels: [0.25, 0.75],
+        }));
+        const [image] = NiftiProcessor.volumeToDicomImages(volume!);
+        const values = Array.from(image.pixelData).map(v => v * image.rescaleSlope + image.rescaleIntercept);
+
+        expect(values[0]).toBeCloseTo(0.25, 4);
+        expect(values[1]).toBeCloseTo(0.75, 4);
+    });
+
+    it('should position slices from the sform affine in LPS', () => {
+        // RAS affine: i towards patient left, j towards anterior, 3 mm slices
+        const volume = NiftiProcessor.parseVolume(createNifti({
+            dims: [2, 2, 2],
+            datatype: 4,
+            bitpix: 16,
+            voxels: [1, 2, 3, 4, 5, 6, 7, 8],
+            srow: [[-0.5, 0, 0, 100], [0, 0.8, 0, -50], [0, 0, 3, 10]],
+        }));
+        const images = NiftiProcessor.volumeToDicomImages(volume!);
+
+        expect(images[0].imageOrientation).toEqual([1, 0, 0, 0, 1, 0]);
+        expect(images[0].pixelSpacing?.map(v => Number(v.toFixed(3)))).toEqual([0.8, 0.5]);
+        expect(images[0].sliceThickness).toBe(3);
+        // Rows are flipped so the first row is the most anterior one
+        expect(images[0].imagePosition?.map(v => Number(v.toFixed(3)))).toEqual([-100, 49.2, 10]);
+        expect(images[1].imagePosition?.[2]).toBe(13);
+        expect(Array.from(images[0].pixelData)).toEqual([3, 4, 1, 2]);
+    });
+
+    it('should derive the same UIDs from the same file on every load', () => {
+        const file: TestNifti = { dims: [2, 2, 2], datatype: 4, bitpix: 16, voxels: [1, 2, 3, 4, 5, 6, 7, 8] };
+        const load = (voxels: number[]) => NiftiProcessor.volumeToDicomImages(
+            NiftiProcessor.parseVolume(createNifti({ ...file, voxels }))!
+        );
+        const first = load(file.voxels);
+        const again = load(file.voxels);
+        const edited = load([1, 2, 3, 4, 5, 6, 7, 9]);
+
+        expect(again.map(image => image.sopInstanceUID)).toEqual(first.map(image => image.sopInstanceUID));
+        expect(again[0].frameOfReferenceUID).toBe(first[0].frameOfReferenceUID);
+        expect(first[0].seriesInstanceUID).toMatch(/^2\.25\.\d+$/);
+        expect(first[0].frameOfReferenceUID).not.toBe(first[0].seriesInstanceUID);
+        expect(edited[0].seriesInstanceUID).not.toBe(first[0].seriesInstanceUID);
+    });
+
+    it('should flip probability maps the same way as the image', () => {
+        const buffer = createNifti({
+            dims: [2, 2, 1],
+            datatype: 16,
+            bitpix: 32,
+            voxels: [0.1, 0.2, 0.3, 0.4],
+            srow: [[-1, 0, 0, 0], [0, 1, 0, 0], [0, 0, 1, 0]],
+        });
+        const map = NiftiProcessor.parseProbabilityMap(buffer)!;
+
+        expect(map.classes).toHaveLength(1);
+        expect(Array.from(map.classes[0][0]).map(v => Number(v.toFixed(2)))).toEqual([0.3, 0.4, 0.1, 0.2]);
+    });
+
+    it('should read one probability volume per class from 4D files', () => {
+        const buffer = createNifti({
+            dims: [2, 1, 2, 3],
+            datatype: 16,
+            bitpix: 32,
+            voxels: [
+                0.7, 0.1, 0.2, 0.3,
+                0.2, 0.8, 0.1, 0.3,
+                0.1, 0.1, 0.7, 0.4,
+            ],
+        });
+        const map = NiftiProcessor.parseProbabilityMap(buffer)!;
+
+        expect(map.width).toBe(2);
+        expect(map.classes).toHaveLength(3);
+        expect(map.classes[2]).toHaveLength(2);
+        expect(Array.from(map.classes[1][1]).map(v => Number(v.toFixed(2)))).toEqual([0.1, 0.3]);
+        expect(NiftiProcessor.parseVolume(buffer)!.volumeCount).toBe(3);
+    });
+});
@@ -1,54 +1,394 @@
 import * as nifti from 'nifti-reader-js';
-import { DicomImage } from '@/types';
+import { DicomImage, ProbabilityMap } from '@/types';
+import { contentUID } from './dicom-writer';
 
+/**
+ * A scalar 3D volume. NIfTI files are read into this directly; NRRD and
+ * MetaImage readers convert their LPS geometry into the same RAS affine so
+ * every format shares the conversions below.
+ */
 export interface NiftiVolume {
+  // Voxel values with scl_slope/scl_inter applied
   data: Float32Array;
+  // Voxel values as stored in the file
+  storedData: ArrayLike<number>;
+  // Whether the file stores integers (so storedData can be kept as pixel data)
+  isIntegerData: boolean;
   width: number;
   height: number;
   depth: number;
   pixDims: number[];
+  // scl_slope / scl_inter, with a zero slope meaning "no scaling"
+  sclSlope: number;
+  sclInter: number;
+  // 4x4 voxel index (i, j, k) to RAS+ millimetre transform from the sform/qform
+  affine: number[][];
+  // 3D volumes in the file (dim[4] and up, e.g. classes of a softmax output)
+  volumeCount: number;
+}
+
+/**
+ * Integer label map split into slices in display orientation (same flips
+ * as volumeToDicomImages), with the patient position of each slice
+ */
+export interface LabelMapVolume {
+  width: number;
+  height: number;
+  pixelSpacing: [number, number]; // [row spacing, column spacing]
+  slices: { imagePosition: number[]; labels: Int32Array }[];
+}
+
+// NIfTI-1 datatype codes
+export const NIFTI_TYPE = {
+  UINT8: 2,
+  INT16: 4,
+  INT32: 8,
+  FLOAT32: 16,
+  FLOAT64: 64,
+  INT8: 256,
+  UINT16: 512,
+  UINT32: 768,
+} as const;
+
+const INTEGER_TYPES = new Set<number>([
+  NIFTI_TYPE.UINT8, NIFTI_TYPE.INT16, NIFTI_TYPE.INT32,
+  NIFTI_TYPE.INT8, NIFTI_TYPE.UINT16, NIFTI_TYPE.UINT32,
+]);
+
+/**
+ * Geometry of the slices produced from a volume. NIfTI is RAS+ while DICOM
+ * patient coordinates are LPS+, and rows/columns are flipped where needed
+ * so axial volumes come out with the standard [1,0,0,0,1,0] orientation
+ * the viewer expects.
+ */
+interface SliceGeometry {
+  flipColumns: boolean;
+  flipRows: boolean;
+  imageOrientation: number[];
+  pixelSpacing: [number, number]; // [row spacing, column spacing]
+  sliceThickness: number;
+  positionOf: (k: number) => number[];
+}
+
+/**
+ * Copy one layer (class, channel, segmentation layer...) out of an array
+ * whose axes have the given sizes, fastest first. `spatialAxes` are the
+ * i, j, k axes and `layerAxis` the remaining one, if any.
+ */
+export function extractVolumeLayer(
+  values: ArrayLike<number>,
+  sizes: number[],
+  spatialAxes: number[],
+  layerAxis: number | null,
+  layer: number
+): ArrayLike<number> {
+  // Plain i, j, k order needs no copy
+  if (layerAxis === null && spatialAxes.every((axis, index) => axis === index)) {
+    return values;
+  }
+
+  const strides = sizes.map((_, axis) => sizes.slice(0, axis).reduce((product, size) => product * size, 1));
+  const [width, height, depth] = spatialAxes.map(axis => sizes[axis]);
+  const [strideI, strideJ, strideK] = spatialAxes.map(axis => strides[axis]);
+  const base = layerAxis === null ? 0 : layer * strides[layerAxis];
+
+  const result = new Float32Array(width * height * depth);
+  let index = 0;
+  for (let k = 0; k < depth; k++) {
+    for (let j = 0; j < height; j++) {
+      for (let i = 0; i < width; i++) {
+        result[index++] = values[base + i * strideI + j * strideJ + k * strideK];
+      }
+    }
+  }
+  return result;
 }
 
 export class NiftiProcessor {
+  /**
+   * Parse the first 3D volume of a .nii or .nii.gz file
+   */
   static parseVolume(arrayBuffer: ArrayBuffer): NiftiVolume | null {
-    if (!nifti.isNIFTI(arrayBuffer)) {
+    const file = this.readFile(arrayBuffer);
+    return file ? this.readVolume(file.header, file.image, 0) : null;
+  }
+
+  /**
+   * Parse every 3D volume of a 4D (or higher) file
+   */
+  static parseVolumes(arrayBuffer: ArrayBuffer): NiftiVolume[] | null {
+    const file = this.readFile(arrayBuffer);
+    if (!file) return null;
+    const first = this.readVolume(file.header, file.image, 0);
+    const volumes = [first];
+    for (let index = 1; index < first.volumeCount; index++) {
+      volumes.push(this.readVolume(file.header, file.image, index));
+    }
+    return volumes;
+  }
+
+  private static readFile(arrayBuffer: ArrayBuffer): { header: nifti.NIFTI1 | nifti.NIFTI2; image: ArrayBuffer } | null {
+    const buffer = nifti.isCompressed(arrayBuffer)
+      ? (nifti.decompress(arrayBuffer) as ArrayBuffer)
+      : arrayBuffer;
+    if (!nifti.isNIFTI(buffer)) {
       return null;
     }
-    const header = nifti.readHeader(arrayBuffer);
-    const image = nifti.readImage(header, arrayBuffer);
-    // nifti-reader-js types might be incomplete or different
-    // @ts-ignore - nifti.Utils.convertToTypedArray exists in the library but might be missing in types
-    const data = nifti.Utils.convertToTypedArray(header, image) as Float32Array;
+    const header = nifti.readHeader(buffer);
+    return { header, image: nifti.readImage(header, buffer) };
+  }
+
+  private static readVolume(header: nifti.NIFTI1 | nifti.NIFTI2, image: ArrayBuffer, index: number): NiftiVolume {
     const width = header.dims[1];
     const height = header.dims[2];
-    const depth = header.dims[3];
+    const depth = Math.max(1, header.dims[3]);
     const pixDims = [header.pixDims[1], header.pixDims[2], header.pixDims[3]];
-    return { data, width, height, depth, pixDims };
+    // nifti-reader-js reads image data for dim[4] and dim[5] only
+    const volumeCount = header.dims
+      .slice(4, Math.min(6, header.dims[0] + 1))
+      .reduce((count, dim) => count * Math.max(1, dim), 1);
+
+    const voxelCount = width * height * depth;
+    const storedData = this.readVoxels(
+      image,
+      index * voxelCount * (header.numBitsPerVoxel / 8),
+      header.datatypeCode,
+      header.littleEndian,
+      voxelCount
+    );
+
+    const sclSlope = Number.isFinite(header.scl_slope) && header.scl_slope !== 0 ? header.scl_slope : 1;
+    const sclInter = Number.isFinite(header.scl_inter) ? header.scl_inter : 0;
+    const data = new Float32Array(storedData.length);
+    for (let i = 0; i < storedData.length; i++) {
+      data[i] = storedData[i] * sclSlope + sclInter;
+    }
+
+    return {
+      data,
+      storedData,
+      isIntegerData: INTEGER_TYPES.has(header.datatypeCode),
+      width,
+      height,
+      depth,
+      pixDims,
+      sclSlope,
+      sclInter,
+      affine: header.qform_code > 0 || header.sform_code > 0
+        ? header.affine.map(row => [...row])
+        // Without a qform/sform the voxel grid has no orientation; keep it
+        // as-is (columns along +x, rows along +y in LPS)
+        : [
+          [-pixDims[0], 0, 0, 0],
+          [0, -pixDims[1], 0, 0],
+          [0, 0, pixDims[2], 0],
+          [0, 0, 0, 1],
+        ],
+      volumeCount,
+    };
   }
 
-  static volumeToDicomImages(volume: NiftiVolume): DicomImage[] {
-    const images: DicomImage[] = [];
-    const { data, width, height, depth, pixDims } = volume;
-    const sliceSize = width * height;
+  /**
+   * Decode `count` voxels starting at `byteOffset` for a NIfTI datatype,
+   * honouring the file's byte order. The NRRD and MetaImage readers map
+   * their element types onto NIfTI codes to use this too.
+   */
+  static readVoxels(
+    image: ArrayBuffer,
+    byteOffset: number,
+    datatypeCode: number,
+    littleEndian: boolean,
+    count: number
+  ): ArrayLike<number> {
+    const view = new DataView(image, Math.min(byteOffset, image.byteLength));
+    type VoxelArray = { new(length: number): { [index: number]: number; length: number } };
+    const formats: Record<number, [number, VoxelArray, (offset: number) => number]> = {
+      [NIFTI_TYPE.UINT8]: [1, Uint8Array, offset => view.getUint8(offset)],
+      [NIFTI_TYPE.INT8]: [1, Int8Array, offset => view.getInt8(offset)],
+      [NIFTI_TYPE.INT16]: [2, Int16Array, offset => view.getInt16(offset, littleEndian)],
+      [NIFTI_TYPE.UINT16]: [2, Uint16Array, offset => view.getUint16(offset, littleEndian)],
+      [NIFTI_TYPE.INT32]: [4, Int32Array, offset => view.getInt32(offset, littleEndian)],
+      [NIFTI_TYPE.UINT32]: [4, Uint32Array, offset => view.getUint32(offset, littleEndian)],
+      [NIFTI_TYPE.FLOAT32]: [4, Float32Array, offset => view.getFloat32(offset, littleEndian)],
+      [NIFTI_TYPE.FLOAT64]: [8, Float64Array, offset => view.getFloat64(offset, littleEndian)],
+    };
 
-    // NIfTI pixDims: [dim, x, y, z, t, ...]
-    // pixDims[1] is x spacing, pixDims[2] is y spacing, pixDims[3] is z spacing (slice thickness)
-    const pixelSpacing: [number, number] = [pixDims[0], pixDims[1]]; // x, y
-    const sliceThickness = pixDims[2];
+    const format = formats[datatypeCode];
+    if (!format) {
+      throw new Error(`Unsupported NIfTI datatype: ${datatypeCode}`);
+    }
 
-    for (let z = 0; z < depth; z++) {
-      const slice = new Uint16Array(sliceSize);
+    const [bytesPerVoxel, ArrayType, getValue] = format;
+    const length = Math.min(count, Math.floor(view.byteLength / bytesPerVoxel));
+    const values = new ArrayType(length);
+    for (let i = 0; i < length; i++) {
+      values[i] = getValue(i * bytesPerVoxel);
+    }
+    return values;
+  }
 
-      // NIfTI data is often Float32, need to convert to Uint16 for display if needed, 
-      // but DicomImage pixelData is usually expected to be raw pixel data.
-      // The existing code clamps to 0 and rounds, which is okay for basic visualization 
-      // but might lose negative values (CT often has negative HU).
-      // However, DicomImage interface usually implies unsigned for display or raw for processing.
-      // Let's stick to the existing conversion logic for now but ensure metadata is correct.
+  /**
+   * Build a volume from patient (LPS+) geometry: the millimetre step along
+   * each voxel axis and the position of the first voxel
+   */
+  static volumeFromPatientGeometry(
+    values: ArrayLike<number>,
+    geometry: {
+      width: number;
+      height: number;
+      depth: number;
+      axes: number[][];
+      origin: number[];
+      isIntegerData: boolean;
+      volumeCount?: number;
+    }
+  ): NiftiVolume {
+    const { width, height, depth, axes, origin } = geometry;
+    const data = Float32Array.from(values);
+    // LPS -> RAS: negate the x and y rows
+    const sign = [-1, -1, 1];
+    const affine = [0, 1, 2].map(row => [
+      sign[row] * axes[0][row] || 0,
+      sign[row] * axes[1][row] || 0,
+      sign[row] * axes[2][row] || 0,
+      sign[row] * origin[row] || 0,
+    ]);
+    affine.push([0, 0, 0, 1]);
 
-      for (let i = 0; i < sliceSize; i++) {
-        slice[i] = Math.max(0, Math.round(data[z * sliceSize + i]));
+    return {
+      data,
+      storedData: values,
+      isIntegerData: geometry.isIntegerData,
+      width,
+      height,
+      depth,
+      pixDims: axes.map(axis => Math.hypot(axis[0], axis[1], axis[2])),
+      sclSlope: 1,
+      sclInter: 0,
+      affine,
+      volumeCount: geometry.volumeCount ?? 1,
+    };
+  }
+
+  private static sliceGeometry(volume: NiftiVolume): SliceGeometry {
+    const { affine, width, height } = volume;
+    // RAS -> LPS: negate x and y
+    const toLPS = (v: number[]) => [-v[0], -v[1], v[2]];
+    const column = (index: number) => toLPS([affine[0][index], affine[1][index], affine[2][index]]);
+    const length = (v: number[]) => Math.hypot(v[0], v[1], v[2]) || 1;
+
+    const iAxis = column(0);
+    const jAxis = column(1);
+    const kAxis = column(2);
+    const origin = toLPS([affine[0][3], affine[1][3], affine[2][3]]);
+
+    // Flip so that columns run towards patient left and rows towards posterior
+    // when the volume is axial (i along x, j along y)
+    const isAxial = Math.abs(iAxis[0]) >= Math.abs(iAxis[1]) && Math.abs(jAxis[1]) >= Math.abs(jAxis[0]);
+    const flipColumns = isAxial && iAxis[0] < 0;
+    const flipRows = isAxial && jAxis[1] < 0;
+
+    // `|| 0` avoids -0 components in the direction cosines
+    const rowDirection = iAxis.map(v => (flipColumns ? -v : v) / length(iAxis) || 0);
+    const columnDirection = jAxis.map(v => (flipRows ? -v : v) / length(jAxis) || 0);
+    const firstColumn = flipColumns ? width - 1 : 0;
+    const firstRow = flipRows ? height - 1 : 0;
+
+    return {
+      flipColumns,
+      flipRows,
+      imageOrientation: [...rowDirection, ...columnDirection],
+      pixelSpacing: [length(jAxis), length(iAxis)],
+      sliceThickness: length(kAxis),
+      positionOf: (k: number) => [0, 1, 2].map(axis =>
+        origin[axis] + firstColumn * iAxis[axis] + firstRow * jAxis[axis] + k * kAxis[axis]
+      ),
+    };
+  }
+
+  /**
+   * Copy one slice in display order (applying the geometry's flips)
+   */
+  private static copySlice<T extends { [index: number]: number }>(
+    source: ArrayLike<number>,
+    volume: NiftiVolume,
+    geometry: SliceGeometry,
+    k: number,
+    target: T,
+    convert: (value: number) => number = value => value
+  ): T {
+    const { width, height } = volume;
+    const offset = k * width * height;
+    for (let row = 0; row < height; row++) {
+      const j = geometry.flipRows ? height - 1 - row : row;
+      for (let col = 0; col < width; col++) {
+        const i = geometry.flipColumns ? width - 1 - col : col;
+        target[row * width + col] = convert(source[offset + j * width + i]);
       }
+    }
+    return target;
+  }
+
+  /**
+   * Choose how voxels become 16-bit pixel data. Integer files keep their
+   * stored values with scl_slope/scl_inter as the rescale; float files are
+   * stored as-is when they hold whole numbers in range (the usual HU case)
+   * and linearly quantized otherwise.
+   */
+  private static pixelEncoding(volume: NiftiVolume): {
+    source: ArrayLike<number>;
+    rescaleSlope: number;
+    rescaleIntercept: number;
+  } {
+    const inInt16Range = (values: ArrayLike<number>, integral: boolean) => {
+      for (let i = 0; i < values.length; i++) {
+        const value = values[i];
+        if (value < -32768 || value > 32767 || (integral && !Number.isInteger(value))) return false;
+      }
+      return true;
+    };
+
+    if (volume.isIntegerData && inInt16Range(volume.storedData, false)) {
+      return { source: volume.storedData, rescaleSlope: volume.sclSlope, rescaleIntercept: volume.sclInter };
+    }
+    if (inInt16Range(volume.data, true)) {
+      return { source: volume.data, rescaleSlope: 1, rescaleIntercept: 0 };
+    }
+
+    let min = Infinity;
+    let max = -Infinity;
+    for (let i = 0; i < volume.data.length; i++) {
+      min = Math.min(min, volume.data[i]);
+      max = Math.max(max, volume.data[i]);
+    }
+    const rescaleSlope = max > min ? (max - min) / 65535 : 1;
+    const rescaleIntercept = min + 32768 * rescaleSlope;
+    const source = new Float32Array(volume.data.length);
+    for (let i = 0; i < source.length; i++) {
+      source[i] = (volume.data[i] - rescaleIntercept) / rescaleSlope;
+    }
+    return { source, rescaleSlope, rescaleIntercept };
+  }
+
+  static volumeToDicomImages(volume: NiftiVolume): DicomImage[] {
+    const images: DicomImage[] = [];
+    const { width, height, depth } = volume;
+    const geometry = this.sliceGeometry(volume);
+    const { source, rescaleSlope, rescaleIntercept } = this.pixelEncoding(volume);
+    // Valid UIDs so exported RT Structure Sets can reference the slices.
+    // They are derived from the volume, so reloading the same file gives
+    // the same UIDs and anything saved against the series still matches.
+    const header = new Float64Array([width, height, depth, ...volume.pixDims, ...volume.affine.flat()]);
+    const seriesInstanceUID = contentUID(header, volume.data);
+    const frameOfReferenceUID = contentUID(new TextEncoder().encode(`${seriesInstanceUID}/frame-of-reference`));
+
+    for (let z = 0; z < depth; z++) {
+      // Signed storage keeps negative HU (air, lung, fat)
+      const slice = this.copySlice(
+        source, volume, geometry, z, new Int16Array(width * height),
+        value => Math.max(-32768, Math.min(32767, Math.round(value)))
+      );
+      const imagePosition = geometry.positionOf(z);
 
       images.push({
         arrayBuffer: slice.buffer,
@@ -58,30 +398,60 @@ export class NiftiProcessor {
         height,
         windowCenter: 40,
         windowWidth: 400,
-        rescaleIntercept: 0,
-        rescaleSlope: 1,
-        seriesInstanceUID: `nifti.${Date.now()}`,
-        sopInstanceUID: `nifti.${Date.now()}.${z}`,
-        sliceLocation: z * sliceThickness, // Approximate slice location based on thickness
-        imagePosition: [0, 0, z * sliceThickness], // Add imagePosition for sorting
-        pixelSpacing,
-        sliceThickness,
+        rescaleIntercept,
+        rescaleSlope,
+        seriesInstanceUID,
+        sopInstanceUID: `${seriesInstanceUID}.${z + 1}`,
+        sliceLocation: imagePosition[2],
+        imagePosition,
+        imageOrientation: geometry.imageOrientation,
+        pixelSpacing: geometry.pixelSpacing,
+        sliceThickness: geometry.sliceThickness,
+        frameOfReferenceUID,
+        modality: 'CT',
       });
     }
     return images;
   }
 
-  static parseProbabilityMap(arrayBuffer: ArrayBuffer): Float32Array[] | null {
+  /**
+   * Read a probability map. 4D files (e.g. softmax outputs) give one
+   * volume per class.
+   */
+  static parseProbabilityMap(arrayBuffer: ArrayBuffer): ProbabilityMap | null {
+    const volumes = this.parseVolumes(arrayBuffer);
+    return volumes ? this.volumesToProbabilityMap(volumes) : null;
+  }
+
+  static volumesToProbabilityMap(volumes: NiftiVolume[]): ProbabilityMap {
+    const { width, height, depth } = volumes[0];
+    // Same flips as volumeToDicomImages so the map lines up with the CT slices
+    const geometry = this.sliceGeometry(volumes[0]);
+    const classes = volumes.map(volume => {
+      const slices: Float32Array[] = [];
+      for (let z = 0; z < depth; z++) {
+        slices.push(this.copySlice(volume.data, volume, geometry, z, new Float32Array(width * height)));
+      }
+      return slices;
+    });
+    return { width, height, classes };
+  }
+
+  static parseLabelMap(arrayBuffer: ArrayBuffer): LabelMapVolume | null {
     const volume = this.parseVolume(arrayBuffer);
-    if (!volume) return null;
+    return volume ? this.volumeToLabelMap(volume) : null;
+  }
+
+  static volumeToLabelMap(volume: NiftiVolume): LabelMapVolume {
     const { data, width, height, depth } = volume;
-    const sliceSize = width * height;
-    const slices: Float32Array[] = [];
+    const geometry = this.sliceGeometry(volume);
+    const slices: LabelMapVolume['slices'] = [];
     for (let z = 0; z < depth; z++) {
-      const slice = data.slice(z * sliceSize, (z + 1) * sliceSize);
-      slices.push(slice as Float32Array);
+      slices.push({
+        imagePosition: geometry.positionOf(z),
+        labels: this.copySlice(data, volume, geometry, z, new Int32Array(width * height), Math.round),
+      });
     }
-    return slices;
+    return { width, height, pixelSpacing: geometry.pixelSpacing, slices };
   }
 }
-
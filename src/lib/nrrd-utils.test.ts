@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { NrrdProcessor, createSegmentationFile } from './nrrd-utils';
+import { createLabelMap, createNiftiGrid } from './nifti-export';
+import { NiftiProcessor } from './nifti-utils';
+import { createImageStack, createStructure, square } from '@/test/fixtures';
+
+const encode = (header: string[], data: Uint8Array = new Uint8Array(0)): ArrayBuffer => {
+    const text = new TextEncoder().encode(header.join('\n') + '\n\n');
+    const file = new Uint8Array(text.length + data.length);
+    file.set(text);
+    file.set(data, text.length);
+    return file.buffer;
+};
+
+describe('nrrd-utils', () => {
+    it('should read RAS geometry into patient coordinates', () => {
+        const values = new Int16Array([-1000, 0, 40, 1000, 1, 2, 3, 4]);
+        const buffer = encode([
+            'NRRD0004',
+            'type: short',
+            'dimension: 3',
+            'space: right-anterior-superior',
+            'sizes: 2 2 2',
+            'space directions: (-1,0,0) (0,-2,0) (0,0,3)',
+            'kinds: domain domain domain',
+            'endian: little',
+            'encoding: raw',
+            'space origin: (10,20,5)',
+        ], new Uint8Array(values.buffer));
+
+        const [volume] = NrrdProcessor.parseVolumes(buffer)!;
+        const images = NiftiProcessor.volumeToDicomImages(volume);
+
+        expect(images).toHaveLength(2);
+        expect(images[1].imagePosition).toEqual([-10, -20, 8]);
+        expect(images[0].imageOrientation).toEqual([1, 0, 0, 0, 1, 0]);
+        expect(images[0].pixelSpacing).toEqual([2, 1]);
+        expect(Array.from(images[0].pixelData)).toEqual([-1000, 0, 40, 1000]);
+    });
+
+    it('should split layers and read segment metadata from a detached header', () => {
+        // Two overlapping single-voxel-per-layer segments, layer axis fastest
+        const header = encode([
+            'NRRD0005',
+            'type: unsigned char',
+            'dimension: 4',
+            'space: left-posterior-superior',
+            'sizes: 2 2 1 1',
+            'space directions: none (1,0,0) (0,1,0) (0,0,1)',
+            'kinds: list domain domain domain',
+            'encoding: raw',
+            'data file: seg.raw',
+            'Segment0_Name:=Liver',
+            'Segment0_Color:=1 0 0',
+            'Segment0_LabelValue:=1',
+            'Segment0_Layer:=0',
+            'Segment1_Name:=Tumor',
+            'Segment1_Color:=0 0 1',
+            'Segment1_LabelValue:=2',
+            'Segment1_Layer:=1',
+        ]);
+        const data = new Uint8Array([1, 0, 1, 2]).buffer;
+
+        expect(NrrdProcessor.dataFileName(NrrdProcessor.parseHeader(header)!)).toBe('seg.raw');
+        expect(() => NrrdProcessor.parseVolumes(header)).toThrow('seg.raw');
+
+        const layers = NrrdProcessor.parseSegmentation(header, data)!;
+        expect(layers).toHaveLength(2);
+        expect(Array.from(layers[0].labelMap.slices[0].labels)).toEqual([1, 1]);
+        expect(Array.from(layers[1].labelMap.slices[0].labels)).toEqual([0, 2]);
+        expect(layers[0].labels.get(1)).toEqual({ value: 1, name: 'Liver', color: 'rgb(255, 0, 0)' });
+        expect(layers[1].labels.get(2)?.name).toBe('Tumor');
+    });
+
+    it('should round-trip a segmentation with names, colors and geometry', () => {
+        const images = createImageStack({
+            count: 2,
+            origin: [-10, -20, 5],
+            sliceStep: 3,
+            pixelSpacing: [2, 2],
+            fields: { sliceThickness: 3 },
+        });
+        const grid = createNiftiGrid(images);
+        const block = square(-9, -19, -5, -15);
+        const { data, labels } = createLabelMap([
+            createStructure('a', [[1, block]], { name: 'Liver', color: '#ff0000' }),
+            createStructure('b', [[1, block]], { name: 'Spleen', color: '#00ff00' }),
+        ], images);
+
+        const file = createSegmentationFile(data, grid, labels);
+        const [volume] = NrrdProcessor.parseVolumes(file.buffer as ArrayBuffer)!;
+        const [layer] = NrrdProcessor.parseSegmentation(file.buffer as ArrayBuffer)!;
+
+        expect(volume.affine).toEqual(grid.affine);
+        expect(Array.from(volume.storedData)).toEqual(Array.from(data));
+        expect(layer.labels.get(1)).toEqual({ value: 1, name: 'Liver', color: 'rgb(255, 0, 0)' });
+        expect(layer.labels.get(2)).toEqual({ value: 2, name: 'Spleen', color: 'rgb(0, 255, 0)' });
+        expect(layer.labelMap.slices[1].imagePosition).toEqual([-10, -20, 8]);
+    });
+});
@@ -0,0 +1,381 @@
+/**
+ * NRRD (.nrrd, .nhdr + data file) volumes, including 3D Slicer
+ * segmentations (.seg.nrrd). Volumes are read into the same NiftiVolume
+ * representation as NIfTI, and structures can be written back as a
+ * .seg.nrrd that Slicer opens with segment names and colors.
+ */
+
+import { saveAs } from 'file-saver';
+import { gunzipSync, gzipSync } from 'fflate';
+import { DicomImage, Structure3D } from '@/types';
+import { rgbToCss } from './color-utils';
+import { LabelDefinition, LabelMapLayer } from './labelmap-import';
+import { createLabelMap, createNiftiGrid, gridPatientGeometry, NiftiGrid, NiftiLabel } from './nifti-export';
+import { extractVolumeLayer, NIFTI_TYPE, NiftiProcessor, NiftiVolume } from './nifti-utils';
+
+export interface NrrdHeader {
+  // Field names are lower-cased ("space directions", "byte skip", ...)
+  fields: Record<string, string>;
+  // `key:=value` pairs, e.g. Slicer's Segment0_Name
+  keyValues: Record<string, string>;
+  // Byte offset of attached data, just past the blank line ending the header
+  dataOffset: number;
+}
+
+const NRRD_TYPES: Record<string, number> = {
+  'signed char': NIFTI_TYPE.INT8,
+  'int8': NIFTI_TYPE.INT8,
+  'uchar': NIFTI_TYPE.UINT8,
+  'unsigned char': NIFTI_TYPE.UINT8,
+  'uint8': NIFTI_TYPE.UINT8,
+  'short': NIFTI_TYPE.INT16,
+  'short int': NIFTI_TYPE.INT16,
+  'signed short': NIFTI_TYPE.INT16,
+  'signed short int': NIFTI_TYPE.INT16,
+  'int16': NIFTI_TYPE.INT16,
+  'ushort': NIFTI_TYPE.UINT16,
+  'unsigned short': NIFTI_TYPE.UINT16,
+  'unsigned short int': NIFTI_TYPE.UINT16,
+  'uint16': NIFTI_TYPE.UINT16,
+  'int': NIFTI_TYPE.INT32,
+  'signed int': NIFTI_TYPE.INT32,
+  'int32': NIFTI_TYPE.INT32,
+  'uint': NIFTI_TYPE.UINT32,
+  'unsigned int': NIFTI_TYPE.UINT32,
+  'uint32': NIFTI_TYPE.UINT32,
+  'float': NIFTI_TYPE.FLOAT32,
+  'double': NIFTI_TYPE.FLOAT64,
+};
+
+const BYTES_PER_VOXEL: Record<number, number> = {
+  [NIFTI_TYPE.INT8]: 1,
+  [NIFTI_TYPE.UINT8]: 1,
+  [NIFTI_TYPE.INT16]: 2,
+  [NIFTI_TYPE.UINT16]: 2,
+  [NIFTI_TYPE.INT32]: 4,
+  [NIFTI_TYPE.UINT32]: 4,
+  [NIFTI_TYPE.FLOAT32]: 4,
+  [NIFTI_TYPE.FLOAT64]: 8,
+};
+
+// Sign that takes each space's coordinates to LPS+
+const SPACE_TO_LPS: Record<string, number[]> = {
+  'left-posterior-superior': [1, 1, 1],
+  'lps': [1, 1, 1],
+  'right-anterior-superior': [-1, -1, 1],
+  'ras': [-1, -1, 1],
+  'left-anterior-superior': [1, -1, 1],
+  'las': [1, -1, 1],
+};
+
+export class NrrdProcessor {
+  /**
+   * Read the text header. Returns null if the buffer is not NRRD.
+   */
+  static parseHeader(arrayBuffer: ArrayBuffer): NrrdHeader | null {
+    const bytes = new Uint8Array(arrayBuffer);
+    const magic = new TextDecoder().decode(bytes.subarray(0, 7));
+    if (magic !== 'NRRD000') return null;
+
+    // The header ends at the first empty line (or the end of a detached header)
+    let end = bytes.length;
+    let dataOffset = bytes.length;
+    for (let i = 0; i + 1 < bytes.length; i++) {
+      if (bytes[i] !== 10) continue;
+      if (bytes[i + 1] === 10) {
+        end = i;
+        dataOffset = i + 2;
+        break;
+      }
+      if (bytes[i + 1] === 13 && bytes[i + 2] === 10) {
+        end = i;
+        dataOffset = i + 3;
+        break;
+      }
+    }
+
+    const fields: Record<string, string> = {};
+    const keyValues: Record<string, string> = {};
+    const lines = new TextDecoder().decode(bytes.subarray(0, end)).split(/\r?\n/).slice(1);
+    lines.forEach(line => {
+      if (!line || line.startsWith('#')) return;
+      const keyValue = line.indexOf(':=');
+      if (keyValue > 0) {
+        keyValues[line.slice(0, keyValue)] = line.slice(keyValue + 2);
+        return;
+      }
+      const separator = line.indexOf(': ');
+      if (separator > 0) {
+        fields[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 2).trim();
+      }
+    });
+
+    return { fields, keyValues, dataOffset };
+  }
+
+  /**
+   * Name of the detached data file (`data file:` in a .nhdr), if any
+   */
+  static dataFileName(header: NrrdHeader): string | null {
+    const name = header.fields['data file'] ?? header.fields['datafile'];
+    if (!name) return null;
+    if (name.startsWith('LIST') || /\s/.test(name)) {
+      throw new Error('NRRD headers with multiple data files are not supported');
+    }
+    return name;
+  }
+
+  /**
+   * Parse an NRRD into one volume per layer (segmentation layer, vector
+   * component...). Detached headers need the data file's contents.
+   */
+  static parseVolumes(arrayBuffer: ArrayBuffer, dataFile?: ArrayBuffer): NiftiVolume[] | null {
+    const header = this.parseHeader(arrayBuffer);
+    if (!header) return null;
+    const { fields } = header;
+
+    const datatypeCode = NRRD_TYPES[(fields['type'] ?? '').toLowerCase().replace(/_t$/, '')];
+    if (datatypeCode === undefined) {
+      throw new Error(`Unsupported NRRD type: ${fields['type']}`);
+    }
+
+    const sizes = (fields['sizes'] ?? '').split(/\s+/).map(Number);
+    const { spatialAxes, layerAxis, axes, origin } = this.parseGeometry(fields, sizes);
+    const attached = this.dataFileName(header) === null;
+    if (!attached && !dataFile) {
+      throw new Error(`NRRD data file ${this.dataFileName(header)} is missing`);
+    }
+    const voxelCount = sizes.reduce((product, size) => product * size, 1);
+    const values = this.readData(header, attached ? arrayBuffer : dataFile, attached, datatypeCode, voxelCount);
+
+    // 2D images get a single-slice k axis
+    if (spatialAxes.length === 2) {
+      sizes.push(1);
+      spatialAxes.push(sizes.length - 1);
+    }
+    const [width, height, depth] = spatialAxes.map(axis => sizes[axis]);
+    const layerCount = layerAxis === null ? 1 : sizes[layerAxis];
+    const isIntegerData = datatypeCode !== NIFTI_TYPE.FLOAT32 && datatypeCode !== NIFTI_TYPE.FLOAT64;
+
+    return Array.from({ length: layerCount }, (_, layer) => NiftiProcessor.volumeFromPatientGeometry(
+      extractVolumeLayer(values, sizes, spatialAxes, layerAxis, layer),
+      { width, height, depth, axes, origin, isIntegerData, volumeCount: layerCount }
+    ));
+  }
+
+  /**
+   * Spatial axes, the optional non-spatial (layer) axis, and the LPS step
+   * along each spatial axis and origin
+   */
+  private static parseGeometry(
+    fields: Record<string, string>,
+    sizes: number[]
+  ): { spatialAxes: number[]; layerAxis: number | null; axes: number[][]; origin: number[] } {
+    const sign = SPACE_TO_LPS[(fields['space'] ?? '').toLowerCase()] ?? [1, 1, 1];
+    const parseVector = (text: string) => text.split(',').map(value => Number(value.trim()));
+
+    let spatialAxes: number[];
+    let axes: number[][];
+    const directions = fields['space directions']?.match(/\([^)]*\)|none/g);
+    if (directions) {
+      spatialAxes = [];
+      axes = [];
+      directions.forEach((token, axis) => {
+        if (token === 'none') return;
+        spatialAxes.push(axis);
+        const vector = parseVector(token.slice(1, -1));
+        axes.push([0, 1, 2].map(row => sign[row] * (vector[row] ?? 0) || 0));
+      });
+    } else {
+      // No orientation: axis-aligned, with `spacings` (or 1 mm) between voxels
+      const kinds = (fields['kinds'] ?? '').split(/\s+/);
+      const spacings = (fields['spacings'] ?? '').split(/\s+/).map(Number);
+      spatialAxes = sizes
+        .map((_, axis) => axis)
+        .filter(axis => !kinds[axis] || kinds[axis] === 'domain' || kinds[axis] === 'space');
+      axes = spatialAxes.map((axis, index) => [0, 1, 2].map(row =>
+        (row === index ? (Number.isFinite(spacings[axis]) ? spacings[axis] : 1) : 0)
+      ));
+    }
+
+    const layerAxes = sizes.map((_, axis) => axis).filter(axis => !spatialAxes.includes(axis));
+    if (spatialAxes.length < 2 || spatialAxes.length > 3 || layerAxes.length > 1) {
+      throw new Error(`Unsupported NRRD layout: ${sizes.length} axes, ${spatialAxes.length} spatial`);
+    }
+
+    if (axes.length === 2) {
+      const [u, v] = axes;
+      const normal = [u[1] * v[2] - u[2] * v[1], u[2] * v[0] - u[0] * v[2], u[0] * v[1] - u[1] * v[0]];
+      const length = Math.hypot(normal[0], normal[1], normal[2]) || 1;
+      axes.push(normal.map(value => value / length));
+    }
+
+    const originText = fields['space origin']?.match(/\(([^)]*)\)/)?.[1];
+    const originVector = originText ? parseVector(originText) : [0, 0, 0];
+    const origin = [0, 1, 2].map(row => sign[row] * (originVector[row] ?? 0) || 0);
+
+    return { spatialAxes, layerAxis: layerAxes[0] ?? null, axes, origin };
+  }
+
+  /**
+   * Decode the voxel values, honouring encoding, endianness and skips
+   */
+  private static readData(
+    header: NrrdHeader,
+    source: ArrayBuffer,
+    attached: boolean,
+    datatypeCode: number,
+    voxelCount: number
+  ): ArrayLike<number> {
+    const { fields } = header;
+    let bytes = new Uint8Array(source, attached ? header.dataOffset : 0);
+
+    const lineSkip = Number(fields['line skip'] ?? fields['lineskip'] ?? 0);
+    let lineStart = 0;
+    for (let line = 0; line < lineSkip && lineStart < bytes.length; line++) {
+      const newline = bytes.indexOf(10, lineStart);
+      lineStart = newline < 0 ? bytes.length : newline + 1;
+    }
+    bytes = bytes.subarray(lineStart);
+
+    const encoding = (fields['encoding'] ?? 'raw').toLowerCase();
+    if (encoding === 'ascii' || encoding === 'text' || encoding === 'txt') {
+      const numbers = new TextDecoder().decode(bytes).trim().split(/[\s,]+/).slice(0, voxelCount);
+      return Float64Array.from(numbers, Number);
+    }
+    if (encoding === 'gzip' || encoding === 'gz') {
+      bytes = gunzipSync(bytes);
+    } else if (encoding !== 'raw') {
+      throw new Error(`Unsupported NRRD encoding: ${encoding}`);
+    }
+
+    const byteLength = voxelCount * BYTES_PER_VOXEL[datatypeCode];
+    const byteSkip = Number(fields['byte skip'] ?? fields['byteskip'] ?? 0);
+    // -1 means the data sits at the very end of the file
+    const offset = byteSkip < 0 ? Math.max(0, bytes.length - byteLength) : byteSkip;
+    if (bytes.length - offset < byteLength) {
+      throw new Error('NRRD data is shorter than its header describes');
+    }
+
+    const littleEndian = (fields['endian'] ?? 'little').toLowerCase() !== 'big';
+    return NiftiProcessor.readVoxels(bytes.buffer, bytes.byteOffset + offset, datatypeCode, littleEndian, voxelCount);
+  }
+
+  /**
+   * Slicer segment metadata (Segment0_Name, Segment0_LabelValue...) as one
+   * label table per layer. Files from before Slicer 4.11 have no layer or
+   * label value fields; they store each segment as a 0/1 layer of its own.
+   */
+  static parseSegments(header: NrrdHeader): Map<number, LabelDefinition>[] {
+    const { keyValues } = header;
+    const layers: Map<number, LabelDefinition>[] = [];
+    const hasLayers = Object.keys(keyValues).some(key => /^Segment\d+_Layer$/.test(key));
+
+    const indices = new Set<number>();
+    Object.keys(keyValues).forEach(key => {
+      const match = key.match(/^Segment(\d+)_/);
+      if (match) indices.add(Number(match[1]));
+    });
+
+    Array.from(indices).sort((a, b) => a - b).forEach(index => {
+      const field = (name: string) => keyValues[`Segment${index}_${name}`];
+      const layer = hasLayers ? Number(field('Layer') ?? 0) : index;
+      const value = Number(field('LabelValue') ?? 1);
+      const rgb = (field('Color') ?? '').trim().split(/\s+/).map(Number);
+
+      if (!layers[layer]) layers[layer] = new Map();
+      layers[layer].set(value, {
+        value,
+        name: field('Name') ?? field('ID') ?? `Segment_${index}`,
+        color: rgb.length === 3 && rgb.every(Number.isFinite)
+          ? rgbToCss(rgb.map(channel => Math.round(channel * 255)))
+          : undefined,
+      });
+    });
+
+    return layers;
+  }
+
+  /**
+   * Read a label volume (a .seg.nrrd or any integer NRRD) as label maps,
+   * one per layer, with the segment names and colors stored in the header
+   */
+  static parseSegmentation(arrayBuffer: ArrayBuffer, dataFile?: ArrayBuffer): LabelMapLayer[] | null {
+    const header = this.parseHeader(arrayBuffer);
+    const volumes = header && this.parseVolumes(arrayBuffer, dataFile);
+    if (!volumes) return null;
+    const segments = this.parseSegments(header);
+    return volumes.map((volume, layer) => ({
+      labelMap: NiftiProcessor.volumeToLabelMap(volume),
+      labels: segments[layer] ?? new Map(),
+    }));
+  }
+}
+
+/**
+ * Encode a label volume as a gzip-compressed .seg.nrrd. Every label is
+ * written as a segment of layer 0, so Slicer shows the structure names and
+ * colors.
+ */
+export function createSegmentationFile(
+  data: Uint8Array | Uint16Array,
+  grid: NiftiGrid,
+  labels: NiftiLabel[]
+): Uint8Array {
+  const { axes, origin } = gridPatientGeometry(grid);
+  const vector = (values: number[]) => `(${values.map(value => String(value || 0)).join(',')})`;
+  const extent = `0 ${grid.width - 1} 0 ${grid.height - 1} 0 ${grid.depth - 1}`;
+
+  const lines = [
+    'NRRD0004',
+    '# Complete NRRD file format specification at:',
+    '# http://teem.sourceforge.net/nrrd/format.html',
+    `type: ${data.BYTES_PER_ELEMENT === 1 ? 'unsigned char' : 'unsigned short'}`,
+    'dimension: 3',
+    'space: left-posterior-superior',
+    `sizes: ${grid.width} ${grid.height} ${grid.depth}`,
+    `space directions: ${axes.map(vector).join(' ')}`,
+    'kinds: domain domain domain',
+    'endian: little',
+    'encoding: gzip',
+    `space origin: ${vector(origin)}`,
+  ];
+  labels.forEach((label, index) => {
+    const prefix = `Segment${index}_`;
+    lines.push(
+      `${prefix}Color:=${label.rgb.map(channel => (channel / 255).toFixed(6)).join(' ')}`,
+      `${prefix}ColorAutoGenerated:=0`,
+      `${prefix}Extent:=${extent}`,
+      `${prefix}ID:=Segment_${label.value}`,
+      `${prefix}LabelValue:=${label.value}`,
+      `${prefix}Layer:=0`,
+      `${prefix}Name:=${label.name.replace(/[\r\n]+/g, ' ')}`,
+      `${prefix}NameAutoGenerated:=0`,
+    );
+  });
+  lines.push(
+    'Segmentation_ContainedRepresentationNames:=Binary labelmap|',
+    'Segmentation_MasterRepresentation:=Binary labelmap',
+    'Segmentation_ReferenceImageExtentOffset:=0 0 0',
+  );
+
+  const headerBytes = new TextEncoder().encode(lines.join('\n') + '\n\n');
+  const compressed = gzipSync(new Uint8Array(data.buffer, data.byteOffset, data.byteLength));
+  const file = new Uint8Array(headerBytes.length + compressed.length);
+  file.set(headerBytes);
+  file.set(compressed, headerBytes.length);
+  return file;
+}
+
+/**
+ * Download the structures as a Slicer segmentation (.seg.nrrd)
+ */
+export function exportStructuresAsNrrd(structures: Structure3D[], ctImages: DicomImage[]): void {
+  const grid = createNiftiGrid(ctImages);
+  const { data, labels } = createLabelMap(structures, ctImages);
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  saveAs(
+    new Blob([createSegmentationFile(data, grid, labels)], { type: 'application/octet-stream' }),
+    `segmentation_${timestamp}.seg.nrrd`
+  );
+}
@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import {
+    classProbabilitySlices,
+    createProbabilityDisplaySettings,
+    isoContours,
+    largestConnectedComponent,
+    probabilityMapToStructure,
+    renderProbabilityOverlay,
+    sliceEntropy,
+} from './probability-map';
+import { ProbabilityMap } from '@/types';
+import { createImageStack } from '@/test/fixtures';
+
+const createImages = (count: number) => createImageStack({ count, origin: [-10, 20, 0], pixelSpacing: [2, 2] });
+
+// Two voxels, three classes: the first is confidently class 1, the second uniform
+const createSoftmax = (): ProbabilityMap => ({
+    width: 2,
+    height: 1,
+    classes: [
+        [new Float32Array([0.1, 1 / 3])],
+        [new Float32Array([0.8, 1 / 3])],
+        [new Float32Array([0.1, 1 / 3])],
+    ],
+});
+
+describe('probability-map', () => {
+    describe('display', () => {
+        it('should hide the background class of multi-class maps by default', () => {
+            const settings = createProbabilityDisplaySettings(createSoftmax());
+
+            expect(settings.selectedClass).toBe(1);
+            expect(settings.classes.map(c => c.visible)).toEqual([false, true, true]);
+        });
+
+        it('should compute normalized entropy', () => {
+            const entropy = sliceEntropy(createSoftmax(), 0);
+
+            expect(entropy[0]).toBeGreaterThan(0);
+            expect(entropy[0]).toBeLessThan(0.6);
+            expect(entropy[1]).toBeCloseTo(1);
+        });
+
+        it('should color voxels by their most likely class in argmax mode', () => {
+            const map = createSoftmax();
+            const settings = { ...createProbabilityDisplaySettings(map), mode: 'argmax' as const, threshold: 0.3 };
+            const pixels = new Uint8ClampedArray(8);
+            renderProbabilityOverlay(map, 0, settings, pixels);
+
+            // Class 1 is drawn in the first fallback color (red); ties go to the hidden background
+            expect(Array.from(pixels)).toEqual([255, 0, 0, 204, 0, 0, 0, 0]);
+        });
+
+        it('should keep only argmax voxels when converting a class in argmax mode', () => {
+            const map = createSoftmax();
+
+            expect(Array.from(classProbabilitySlices(map, 2, true)[0])).toEqual([0, 0]);
+            expect(classProbabilitySlices(map, 2)[0]).toBe(map.classes[2][0]);
+        });
+    });
+
+    describe('isoContours', () => {
+        it('should interpolate the contour between pixel centres', () => {
+            const loops = isoContours([0, 0, 0, 0, 1, 0, 0, 0, 0], 3, 3, 0.25);
+
+            expect(loops).toHaveLength(1);
+            expect(loops[0]).toHaveLength(4);
+            // Clockwise around the pixel, 0.75 px from its centre
+            const xs = loops[0].map(p => p.x).sort();
+            expect(xs).toEqual([0.25, 1, 1, 1.75]);
+        });
+
+        it('should close contours at the slice border and keep holes', () => {
+            const values = [
+                1, 1, 1,
+                1, 0, 1,
+                1, 1, 1,
+            ];
+            const loops = isoContours(values, 3, 3, 0.5);
+
+            expect(loops).toHaveLength(2);
+            const extents = loops.map(loop => Math.max(...loop.map(p => p.x)) - Math.min(...loop.map(p => p.x)));
+            expect(extents.sort()).toEqual([1, 3]);
+        });
+    });
+
+    describe('largestConnectedComponent', () => {
+        it('should keep the component connected across slices', () => {
+            const masks = [
+                new Uint8Array([1, 0, 0, 1]),
+                new Uint8Array([1, 0, 0, 0]),
+            ];
+            const kept = largestConnectedComponent(masks, 2, 2);
+
+            expect(Array.from(kept[0])).toEqual([1, 0, 0, 0]);
+            expect(Array.from(kept[1])).toEqual([1, 0, 0, 0]);
+        });
+    });
+
+    describe('probabilityMapToStructure', () => {
+        it('should contour every slice in patient coordinates', () => {
+            const slice = new Float32Array(16);
+            slice[5] = 0.9;
+            slice[15] = 0.9;
+            const structure = probabilityMapToStructure(
+                [slice, new Float32Array(16)],
+                createImages(2),
+                { id: 'prob', name: 'Probability', color: '#ff0000', visible: true },
+                { threshold: 0.45 }
+            );
+
+            expect(structure.contours).toHaveLength(2);
+            expect(structure.contours.every(c => c.sliceIndex === 0 && c.isClosed && c.structureId === 'prob')).toBe(true);
+            // Pixel (1, 1) is centred at (-8, 22); the contour passes 1 mm from it
+            const xs = structure.contours[0].points.map(p => p.x);
+            expect(Math.min(...xs)).toBeCloseTo(-9);
+            expect(Math.max(...xs)).toBeCloseTo(-7);
+        });
+
+        it('should drop smaller components when asked', () => {
+            const first = new Float32Array(16);
+            first[5] = 0.9;
+            first[15] = 0.9;
+            const second = new Float32Array(16);
+            second[5] = 0.9;
+
+            const structure = probabilityMapToStructure(
+                [first, second],
+                createImages(2),
+                { id: 'prob', name: 'Probability', color: '#ff0000', visible: true },
+                { threshold: 0.45, largestComponentOnly: true }
+            );
+
+            expect(structure.contours.map(c => c.sliceIndex)).toEqual([0, 1]);
+        });
+    });
+});
@@ -0,0 +1,374 @@
+/**
+ * Probability map display (per class, argmax and entropy overlays) and
+ * conversion into contours: marching squares at a threshold on every
+ * slice, optionally restricted to the largest 3D connected component of
+ * the thresholded voxels.
+ */
+
+import { DicomImage, Point2D, ProbabilityMap, Structure3D } from '@/types';
+import { cssColorToRGB, FALLBACK_ROI_COLORS, rgbToCss } from './color-utils';
+
+export interface ProbabilityContourOptions {
+  threshold: number;
+  largestComponentOnly?: boolean;
+}
+
+// 'class' shows one class's probability, 'argmax' colors each voxel by its
+// most likely class and 'entropy' shows the uncertainty across classes
+export type ProbabilityDisplayMode = 'class' | 'argmax' | 'entropy';
+
+export interface ProbabilityClass {
+  name: string;
+  color: string;
+  visible: boolean;
+}
+
+export interface ProbabilityDisplaySettings {
+  mode: ProbabilityDisplayMode;
+  selectedClass: number;
+  threshold: number;
+  classes: ProbabilityClass[];
+}
+
+// Entropy heatmap, from certain (blue) to maximally uncertain (red)
+const ENTROPY_COLORMAP: Array<[number, number, number]> = [
+  [0, 0, 255],
+  [0, 255, 255],
+  [255, 255, 0],
+  [255, 0, 0],
+];
+
+/**
+ * Defaults for a map. Multi-class maps are assumed to be softmax outputs
+ * with the background as class 0, which starts hidden.
+ */
+export function createProbabilityDisplaySettings(map: ProbabilityMap): ProbabilityDisplaySettings {
+  const classCount = map.classes.length;
+  const classes = map.classes.map((_, index) => {
+    if (classCount === 1) {
+      return { name: 'Probability', color: '#ff0000', visible: true };
+    }
+    if (index === 0) {
+      return { name: 'Background', color: '#808080', visible: false };
+    }
+    return {
+      name: `Class ${index}`,
+      color: rgbToCss(FALLBACK_ROI_COLORS[(index - 1) % FALLBACK_ROI_COLORS.length]),
+      visible: true,
+    };
+  });
+
+  return {
+    mode: 'class',
+    selectedClass: classCount > 1 ? 1 : 0,
+    threshold: 0.5,
+    classes,
+  };
+}
+
+/**
+ * Normalized entropy of the class probabilities at each voxel of a slice
+ * (0 = certain, 1 = uniform). A single-class map is treated as p versus
+ * 1 - p. Probabilities are renormalized in case they do not sum to one.
+ */
+export function sliceEntropy(map: ProbabilityMap, sliceIndex: number): Float32Array {
+  const length = map.width * map.height;
+  const slices = map.classes.map(slicesOfClass => slicesOfClass[sliceIndex]);
+  const classCount = slices.length === 1 ? 2 : slices.length;
+  const probability = slices.length === 1
+    ? (c: number, i: number) => Math.max(0, c === 0 ? slices[0][i] : 1 - slices[0][i])
+    : (c: number, i: number) => Math.max(0, slices[c][i]);
+
+  const entropy = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    let total = 0;
+    for (let c = 0; c < classCount; c++) total += probability(c, i);
+    if (total <= 0) continue;
+
+    let sum = 0;
+    for (let c = 0; c < classCount; c++) {
+      const q = probability(c, i) / total;
+      if (q > 0) sum -= q * Math.log(q);
+    }
+    entropy[i] = sum / Math.log(classCount);
+  }
+  return entropy;
+}
+
+/**
+ * Most likely class at every voxel of a slice
+ */
+function argmaxSlice(map: ProbabilityMap, sliceIndex: number): { classes: Uint8Array; maxima: Float32Array } {
+  const length = map.width * map.height;
+  const classes = new Uint8Array(length);
+  const maxima = Float32Array.from(map.classes[0][sliceIndex]);
+  for (let c = 1; c < map.classes.length; c++) {
+    const slice = map.classes[c][sliceIndex];
+    for (let i = 0; i < length; i++) {
+      if (slice[i] > maxima[i]) {
+        maxima[i] = slice[i];
+        classes[i] = c;
+      }
+    }
+  }
+  return { classes, maxima };
+}
+
+/**
+ * Fill RGBA pixels (e.g. ImageData.data for the slice) with the overlay for
+ * the current display mode
+ */
+export function renderProbabilityOverlay(
+  map: ProbabilityMap,
+  sliceIndex: number,
+  settings: ProbabilityDisplaySettings,
+  pixels: Uint8ClampedArray
+): void {
+  const length = map.width * map.height;
+  if (!map.classes[0]?.[sliceIndex]) return;
+  const colors = settings.classes.map(c => cssColorToRGB(c.color));
+
+  const setPixel = (i: number, rgb: number[], alpha: number) => {
+    pixels[i * 4] = rgb[0];
+    pixels[i * 4 + 1] = rgb[1];
+    pixels[i * 4 + 2] = rgb[2];
+    pixels[i * 4 + 3] = Math.round(alpha * 255);
+  };
+
+  if (settings.mode === 'entropy') {
+    const entropy = sliceEntropy(map, sliceIndex);
+    for (let i = 0; i < length; i++) {
+      if (entropy[i] > 0.01) setPixel(i, heatmapColor(entropy[i]), entropy[i]);
+    }
+    return;
+  }
+
+  if (settings.mode === 'argmax') {
+    const { classes, maxima } = argmaxSlice(map, sliceIndex);
+    for (let i = 0; i < length; i++) {
+      const c = classes[i];
+      if (settings.classes[c]?.visible && maxima[i] >= settings.threshold) {
+        setPixel(i, colors[c], maxima[i]);
+      }
+    }
+    return;
+  }
+
+  const slice = map.classes[settings.selectedClass]?.[sliceIndex];
+  if (!slice) return;
+  for (let i = 0; i < length; i++) {
+    if (slice[i] >= settings.threshold) {
+      setPixel(i, colors[settings.selectedClass], slice[i]);
+    }
+  }
+}
+
+function heatmapColor(t: number): number[] {
+  const position = Math.min(1, Math.max(0, t)) * (ENTROPY_COLORMAP.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.min(ENTROPY_COLORMAP.length - 1, lower + 1);
+  const fraction = position - lower;
+  return ENTROPY_COLORMAP[lower].map((value, channel) =>
+    Math.round(value + (ENTROPY_COLORMAP[upper][channel] - value) * fraction)
+  );
+}
+
+/**
+ * Slices to contour for a class. In argmax mode only voxels where the
+ * class is the most likely one keep their probability, so the structure
+ * matches what the overlay shows.
+ */
+export function classProbabilitySlices(
+  map: ProbabilityMap,
+  classIndex: number,
+  argmaxOnly = false
+): Float32Array[] {
+  const slices = map.classes[classIndex] ?? [];
+  if (!argmaxOnly || map.classes.length === 1) return slices;
+
+  return slices.map((slice, sliceIndex) => {
+    const { classes } = argmaxSlice(map, sliceIndex);
+    return slice.map((value, i) => (classes[i] === classIndex ? value : 0));
+  });
+}
+
+/**
+ * Closed iso-contours of a slice at `threshold`, in pixel-centre
+ * coordinates. Values outside the slice count as zero so contours touching
+ * the border are closed. Regions are traced clockwise (inside on the right)
+ * and holes anticlockwise, each as a loop of its own.
+ */
+export function isoContours(
+  values: ArrayLike<number>,
+  width: number,
+  height: number,
+  threshold: number
+): Point2D[][] {
+  const valueAt = (x: number, y: number) =>
+    x < 0 || y < 0 || x >= width || y >= height ? 0 : values[y * width + x];
+  // Cell edges are shared by two cells; key them so segments can be joined
+  const stride = width + 2;
+  const horizontalKey = (x: number, y: number) => ((y + 1) * stride + x + 1) * 2;
+  const verticalKey = (x: number, y: number) => ((y + 1) * stride + x + 1) * 2 + 1;
+
+  // Segment start (crossing) key -> end key and start point
+  const segments = new Map<number, { end: number; point: Point2D }>();
+
+  for (let cy = -1; cy < height; cy++) {
+    for (let cx = -1; cx < width; cx++) {
+      // Corners and edges in clockwise order: top, right, bottom, left
+      const corners: Point2D[] = [
+        { x: cx, y: cy }, { x: cx + 1, y: cy }, { x: cx + 1, y: cy + 1 }, { x: cx, y: cy + 1 },
+      ];
+      const cornerValues = corners.map(c => valueAt(c.x, c.y));
+      const inside = cornerValues.map(v => v >= threshold);
+      if (inside.every(v => v) || inside.every(v => !v)) continue;
+
+      const edgeKeys = [
+        horizontalKey(cx, cy), verticalKey(cx + 1, cy), horizontalKey(cx, cy + 1), verticalKey(cx, cy),
+      ];
+      const crossing = (edge: number): Point2D => {
+        const a = corners[edge];
+        const b = corners[(edge + 1) % 4];
+        const t = (threshold - cornerValues[edge]) / (cornerValues[(edge + 1) % 4] - cornerValues[edge]);
+        return { x: a.x + t * (b.x - a.x), y: a.y + t * (b.y - a.y) };
+      };
+
+      // Contours run from an edge where the clockwise walk leaves the
+      // region to one where it re-enters
+      const falls = [0, 1, 2, 3].filter(edge => inside[edge] && !inside[(edge + 1) % 4]);
+      const rises = [0, 1, 2, 3].filter(edge => !inside[edge] && inside[(edge + 1) % 4]);
+      falls.forEach(fall => {
+        let rise: number;
+        if (falls.length === 1) {
+          rise = rises[0];
+        } else {
+          // Saddle: the cell centre decides whether the inside corners connect
+          const centre = cornerValues.reduce((sum, v) => sum + v, 0) / 4;
+          rise = centre >= threshold ? (fall + 1) % 4 : (fall + 3) % 4;
+        }
+        segments.set(edgeKeys[fall], { end: edgeKeys[rise], point: crossing(fall) });
+      });
+    }
+  }
+
+  const loops: Point2D[][] = [];
+  segments.forEach((_, start) => {
+    if (!segments.has(start)) return;
+    const points: Point2D[] = [];
+    let key = start;
+    let segment = segments.get(key);
+    while (segment) {
+      points.push(segment.point);
+      segments.delete(key);
+      key = segment.end;
+      segment = segments.get(key);
+    }
+    if (points.length >= 3) loops.push(points);
+  });
+  return loops;
+}
+
+/**
+ * Keep the largest 6-connected component of a stack of slice masks
+ */
+export function largestConnectedComponent(masks: Uint8Array[], width: number, height: number): Uint8Array[] {
+  const plane = width * height;
+  const total = plane * masks.length;
+  const isSet = (index: number) => masks[Math.floor(index / plane)][index % plane] !== 0;
+
+  let maskCount = 0;
+  masks.forEach(mask => mask.forEach(value => { if (value) maskCount++; }));
+  const visited = new Uint8Array(total);
+  const queue = new Int32Array(Math.max(1, maskCount));
+
+  // Flood fill from `seed`, calling `visit` for every voxel reached
+  const fill = (seed: number, visit?: (index: number) => void) => {
+    let head = 0;
+    let tail = 0;
+    queue[tail++] = seed;
+    visited[seed] = 1;
+    while (head < tail) {
+      const index = queue[head++];
+      visit?.(index);
+      const x = index % width;
+      const y = Math.floor(index / width) % height;
+      const neighbours = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        y > 0 ? index - width : -1,
+        y < height - 1 ? index + width : -1,
+        index - plane,
+        index + plane,
+      ];
+      neighbours.forEach(neighbour => {
+        if (neighbour >= 0 && neighbour < total && !visited[neighbour] && isSet(neighbour)) {
+          visited[neighbour] = 1;
+          queue[tail++] = neighbour;
+        }
+      });
+    }
+    return tail;
+  };
+
+  let bestSeed = -1;
+  let bestSize = 0;
+  for (let index = 0; index < total; index++) {
+    if (visited[index] || !isSet(index)) continue;
+    const size = fill(index);
+    if (size > bestSize) {
+      bestSize = size;
+      bestSeed = index;
+    }
+  }
+
+  const result = masks.map(() => new Uint8Array(plane));
+  if (bestSeed >= 0) {
+    visited.fill(0);
+    fill(bestSeed, index => { result[Math.floor(index / plane)][index % plane] = 1; });
+  }
+  return result;
+}
+
+/**
+ * Contour a probability map into a new structure. Slices line up with
+ * `ctImages` by index, as the overlay drawn by the viewer does.
+ */
+export function probabilityMapToStructure(
+  probabilityMap: Float32Array[],
+  ctImages: DicomImage[],
+  structure: Omit<Structure3D, 'contours'>,
+  { threshold, largestComponentOnly = false }: ProbabilityContourOptions
+): Structure3D {
+  const slices = probabilityMap.slice(0, ctImages.length);
+  const { width, height } = ctImages[0];
+
+  let values: ArrayLike<number>[] = slices;
+  if (largestComponentOnly) {
+    const masks = slices.map(slice => {
+      const mask = new Uint8Array(slice.length);
+      slice.forEach((value, i) => { if (value >= threshold) mask[i] = 1; });
+      return mask;
+    });
+    const kept = largestConnectedComponent(masks, width, height);
+    // Zero out everything but the component so contours stay interpolated on its border
+    values = slices.map((slice, z) => slice.map((value, i) => (kept[z][i] ? value : 0)));
+  }
+
+  const contours = values.flatMap((slice, sliceIndex) => {
+    const image = ctImages[sliceIndex];
+    const [originX, originY] = image.imagePosition || [0, 0, 0];
+    const [spacingY, spacingX] = image.pixelSpacing || [1, 1];
+
+    return isoContours(slice, image.width, image.height, threshold).map((loop, index) => ({
+      id: `contour_${structure.id}_${sliceIndex}_${index}`,
+      points: loop.map(p => ({ x: originX + p.x * spacingX, y: originY + p.y * spacingY })),
+      sliceIndex,
+      structureId: structure.id,
+      isClosed: true,
+      color: structure.color,
+    }));
+  });
+
+  return { ...structure, contours };
+}
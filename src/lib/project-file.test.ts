@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { createProjectFile, readProjectFile, restoreWorkspace } from './project-file';
+import { ViewerWorkspace } from '@/types';
+import { createCTSeries } from '@/test/fixtures';
+
+const createWorkspace = (): ViewerWorkspace => ({
+    structures: [{
+        id: 'edit_1',
+        name: 'PTV',
+        color: '#ff8844',
+        visible: false,
+        contours: [1, 2].map(sliceIndex => ({
+            id: `c${sliceIndex}`,
+            sliceIndex,
+            structureId: 'edit_1',
+            isClosed: true,
+            color: '#ff8844',
+            points: [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }],
+        })),
+    }],
+    activeStructureId: 'edit_1',
+    windowLevel: 40,
+    windowWidth: 400,
+    windowPreset: 'Soft Tissue',
+    zoom: 1.5,
+    pan: { x: 10, y: -4 },
+    currentSlice: 2,
+    comments: [{ id: 'n1', text: 'Check the margin', createdAt: '2026-01-01T00:00:00Z', sliceIndex: 1 }],
+    mprPlane: { axialIndex: 1, sagittalIndex: 2, coronalIndex: 3, rotation: [0.98007, 0, 0, 0.19867] },
+});
+
+describe('project-file', () => {
+    it('should round-trip the workspace and embed each source file once', async () => {
+        // Frames of one multi-frame file share its buffer
+        const shared = new Uint8Array([9, 9]).buffer;
+        const ctImages = createCTSeries(3).map((image, index) => ({
+            ...image,
+            arrayBuffer: index === 0 ? new Uint8Array([0, 1, 2]).buffer : shared,
+        }));
+
+        const data = await createProjectFile(ctImages, createWorkspace(), true);
+        const { manifest, imageFiles } = await readProjectFile(data);
+
+        expect(manifest.workspace).toEqual(createWorkspace());
+        expect(manifest.series.seriesInstanceUID).toBe('1.2.3.4');
+        expect(manifest.images.map(image => image.file)).toEqual([
+            'images/00001.dcm',
+            'images/00002.dcm',
+            'images/00002.dcm',
+        ]);
+        expect(imageFiles.map(file => file.path).sort()).toEqual(['images/00001.dcm', 'images/00002.dcm']);
+        expect(Array.from(new Uint8Array(await imageFiles.find(f => f.path.endsWith('2.dcm'))!.read()))).toEqual([9, 9]);
+    });
+
+    it('should keep references only when images are not embedded', async () => {
+        const ctImages = createCTSeries(3);
+
+        const { manifest, imageFiles } = await readProjectFile(await createProjectFile(ctImages, createWorkspace(), false));
+
+        expect(imageFiles).toHaveLength(0);
+        expect(manifest.images).toEqual([
+            { sopInstanceUID: '1.2.3.4.0' },
+            { sopInstanceUID: '1.2.3.4.1' },
+            { sopInstanceUID: '1.2.3.4.2' },
+        ]);
+    });
+
+    it('should map slices onto a series loaded in another order or with slices missing', async () => {
+        const ctImages = createCTSeries(3);
+        const { manifest } = await readProjectFile(await createProjectFile(ctImages, createWorkspace(), false));
+
+        const loaded = [ctImages[2], ctImages[1]];
+        const { workspace, missingContours, otherSeries } = restoreWorkspace(manifest, loaded);
+
+        expect(otherSeries).toBe(false);
+        expect(missingContours).toBe(0);
+        expect(workspace.structures[0].contours.map(c => c.sliceIndex)).toEqual([1, 0]);
+        expect(workspace.currentSlice).toBe(0);
+        expect(workspace.comments[0].sliceIndex).toBe(1);
+
+        const partial = restoreWorkspace(manifest, [ctImages[0], ctImages[1]]);
+        expect(partial.missingContours).toBe(1);
+        expect(partial.workspace.currentSlice).toBe(1);
+    });
+
+    it('should reject archives that are not projects', async () => {
+        const zip = new JSZip();
+        zip.file('image.dcm', new Uint8Array([1]));
+        const archive = await zip.generateAsync({ type: 'uint8array' });
+
+        await expect(readProjectFile(archive)).rejects.toThrow('project.json is missing');
+        await expect(readProjectFile(new Uint8Array([1, 2, 3]))).rejects.toThrow('not a ZIP archive');
+
+        zip.file('project.json', '{"format": "dcmedit-project",');
+        const corrupt = await zip.generateAsync({ type: 'uint8array' });
+        await expect(readProjectFile(corrupt)).rejects.toThrow('Not a DicomEdit project: project.json is not valid JSON');
+
+        // A workspace without structures or a numeric current slice cannot be restored
+        for (const workspace of [{ ...createWorkspace(), structures: undefined }, { ...createWorkspace(), currentSlice: '2' }]) {
+            zip.file('project.json', JSON.stringify({ format: 'dcmedit-project', version: 1, images: [], workspace }));
+            const incomplete = await zip.generateAsync({ type: 'uint8array' });
+            await expect(readProjectFile(incomplete)).rejects.toThrow('Not a DicomEdit project: project.json is not a project manifest');
+        }
+    });
+});
@@ -0,0 +1,191 @@
+/**
+ * `.dcmedit` project files: one ZIP holding a case to hand over, with the
+ * structures, review comments and viewer state in project.json and,
+ * optionally, the source DICOM files.
+ */
+
+import JSZip from 'jszip';
+import { saveAs } from 'file-saver';
+import { DicomImage, ViewerWorkspace } from '@/types';
+import { filesFromZip, ImportFile } from './file-import';
+
+export const PROJECT_FILE_EXTENSION = '.dcmedit';
+
+const PROJECT_FORMAT = 'dcmedit-project';
+const PROJECT_VERSION = 1;
+const PROJECT_MANIFEST = 'project.json';
+const PROJECT_IMAGE_DIR = 'images/';
+
+export interface ProjectImageReference {
+  sopInstanceUID: string;
+  // Path of the DICOM file inside the project, when images are embedded
+  file?: string;
+}
+
+export interface ProjectManifest {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  createdAt: string;
+  series: {
+    studyInstanceUID?: string;
+    seriesInstanceUID?: string;
+    frameOfReferenceUID?: string;
+  };
+  // One entry per slice in slice order; slice indices in the workspace refer to it
+  images: ProjectImageReference[];
+  workspace: ViewerWorkspace;
+}
+
+export interface ProjectRestore {
+  workspace: ViewerWorkspace;
+  // Contours on slices the loaded series does not have
+  missingContours: number;
+  // The project was saved on a different series
+  otherSeries: boolean;
+}
+
+/**
+ * Build a project file. With `embedImages`, the DICOM files behind the
+ * slices are stored too (once per file, so multi-frame objects are not
+ * repeated); images without a source file, e.g. converted from NIfTI, are
+ * kept as references only.
+ */
+export async function createProjectFile(
+  ctImages: DicomImage[],
+  workspace: ViewerWorkspace,
+  embedImages: boolean
+): Promise<Uint8Array> {
+  const zip = new JSZip();
+  const embedded = new Map<ArrayBuffer, string>();
+
+  const images = ctImages.map(image => {
+    const reference: ProjectImageReference = { sopInstanceUID: image.sopInstanceUID };
+    if (embedImages && image.arrayBuffer?.byteLength > 0) {
+      let file = embedded.get(image.arrayBuffer);
+      if (!file) {
+        file = `${PROJECT_IMAGE_DIR}${String(embedded.size + 1).padStart(5, '0')}.dcm`;
+        embedded.set(image.arrayBuffer, file);
+        zip.file(file, image.arrayBuffer);
+      }
+      reference.file = file;
+    }
+    return reference;
+  });
+
+  const first = ctImages[0];
+  const manifest: ProjectManifest = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    createdAt: new Date().toISOString(),
+    series: {
+      studyInstanceUID: first?.studyInstanceUID,
+      seriesInstanceUID: first?.seriesInstanceUID,
+      frameOfReferenceUID: first?.frameOfReferenceUID,
+    },
+    images,
+    workspace,
+  };
+  zip.file(PROJECT_MANIFEST, JSON.stringify(manifest, null, 2));
+
+  return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+}
+
+/**
+ * Open a project file: its manifest and the embedded DICOM files, if any
+ */
+export async function readProjectFile(
+  data: ArrayBuffer | Uint8Array | Blob
+): Promise<{ manifest: ProjectManifest; imageFiles: ImportFile[] }> {
+  let zip: JSZip;
+  try {
+    zip = await new JSZip().loadAsync(data);
+  } catch {
+    throw new Error('Not a DicomEdit project: the file is not a ZIP archive');
+  }
+
+  const manifestFile = zip.file(PROJECT_MANIFEST);
+  if (!manifestFile) {
+    throw new Error(`Not a DicomEdit project: ${PROJECT_MANIFEST} is missing`);
+  }
+  let manifest: ProjectManifest;
+  try {
+    manifest = JSON.parse(await manifestFile.async('string'));
+  } catch {
+    throw new Error(`Not a DicomEdit project: ${PROJECT_MANIFEST} is not valid JSON`);
+  }
+  const workspace = manifest?.workspace;
+  if (
+    manifest?.format !== PROJECT_FORMAT ||
+    !Array.isArray(manifest.images) ||
+    !Array.isArray(workspace?.structures) ||
+    typeof workspace.currentSlice !== 'number'
+  ) {
+    throw new Error(`Not a DicomEdit project: ${PROJECT_MANIFEST} is not a project manifest`);
+  }
+  if (manifest.version > PROJECT_VERSION) {
+    throw new Error(`The project was saved by a newer version (format ${manifest.version})`);
+  }
+
+  const imageFiles = filesFromZip(zip).filter(file => file.path.startsWith(PROJECT_IMAGE_DIR));
+  return { manifest, imageFiles };
+}
+
+/**
+ * Map the workspace of a project onto a loaded series. Slices are matched
+ * by SOP Instance UID, in order for the frames of a multi-frame object,
+ * so the series may be loaded in any order or with slices missing.
+ */
+export function restoreWorkspace(manifest: ProjectManifest, ctImages: DicomImage[]): ProjectRestore {
+  const slicesBySOP = new Map<string, number[]>();
+  ctImages.forEach((image, index) => {
+    const slices = slicesBySOP.get(image.sopInstanceUID) ?? [];
+    slices.push(index);
+    slicesBySOP.set(image.sopInstanceUID, slices);
+  });
+  const sliceMap = manifest.images.map(reference => slicesBySOP.get(reference.sopInstanceUID)?.shift());
+  const mapSlice = (index: number | undefined) => (index === undefined ? undefined : sliceMap[index]);
+
+  const { workspace } = manifest;
+  let missingContours = 0;
+  const structures = workspace.structures.map(structure => ({
+    ...structure,
+    contours: structure.contours.flatMap(contour => {
+      const sliceIndex = mapSlice(contour.sliceIndex);
+      if (sliceIndex === undefined) {
+        missingContours++;
+        return [];
+      }
+      return [{ ...contour, sliceIndex }];
+    }),
+  }));
+
+  const currentSlice = mapSlice(workspace.currentSlice) ?? Math.min(workspace.currentSlice, ctImages.length - 1);
+  const savedSeries = manifest.series.seriesInstanceUID;
+
+  return {
+    workspace: {
+      ...workspace,
+      structures,
+      currentSlice: Math.max(0, currentSlice),
+      comments: (workspace.comments ?? []).map(comment => ({
+        ...comment,
+        sliceIndex: mapSlice(comment.sliceIndex),
+      })),
+    },
+    missingContours,
+    otherSeries: !!savedSeries && savedSeries !== ctImages[0]?.seriesInstanceUID,
+  };
+}
+
+/**
+ * Download the workspace as a project file
+ */
+export async function exportProject(
+  ctImages: DicomImage[],
+  workspace: ViewerWorkspace,
+  embedImages: boolean
+): Promise<void> {
+  const data = await createProjectFile(ctImages, workspace, embedImages);
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  saveAs(new Blob([data], { type: 'application/zip' }), `case_${timestamp}${PROJECT_FILE_EXTENSION}`);
+}
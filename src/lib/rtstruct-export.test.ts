@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import * as dicomParser from 'dicom-parser';
+import { createRTStructDicom, RTSTRUCT_SOP_CLASS_UID } from './rtstruct-export';
+import { DicomProcessor } from './dicom-utils';
+import { formatDecimalString } from './dicom-writer';
+import { Structure3D } from '@/types';
+import { createCTSeries } from '@/test/fixtures';
+
+describe('rtstruct-export', () => {
+    const ctImages = createCTSeries(3);
+    const structures: Structure3D[] = [
+        {
+            id: 'edit_1',
+            name: 'PTV',
+            color: '#ff8844',
+            visible: true,
+            interpretedType: 'PTV',
+            contours: [
+                {
+                    id: 'c1',
+                    sliceIndex: 1,
+                    structureId: 'edit_1',
+                    isClosed: true,
+                    color: '#ff8844',
+                    points: [{ x: 0, y: 0 }, { x: 10.25, y: 0 }, { x: 10.25, y: -5.5 }],
+                },
+            ],
+        },
+        {
+            id: 'rt_0',
+            name: 'Spinal Cord',
+            color: 'rgb(0, 255, 0)',
+            visible: true,
+            contours: [
+                {
+                    id: 'c2',
+                    sliceIndex: 2,
+                    structureId: 'rt_0',
+                    isClosed: true,
+                    color: 'rgb(0, 255, 0)',
+                    points: [{ x: 1, y: 1 }, { x: 2, y: 1 }, { x: 2, y: 2 }],
+                },
+            ],
+        },
+    ];
+
+    describe('createRTStructDicom', () => {
+        it('should write a valid Part 10 RT Structure Set', () => {
+            const buffer = createRTStructDicom(structures, ctImages);
+            const dataSet = dicomParser.parseDicom(new Uint8Array(buffer));
+
+            expect(dataSet.string('x00020010')).toBe('1.2.840.10008.1.2.1');
+            expect(dataSet.string('x00080016')).toBe(RTSTRUCT_SOP_CLASS_UID);
+            expect(dataSet.string('x00080060')).toBe('RTSTRUCT');
+            expect(dataSet.string('x0020000d')).toBe('1.2.3');
+
+            const frameOfReference = dataSet.elements.x30060010.items[0].dataSet;
+            expect(frameOfReference.string('x00200052')).toBe('1.2.3.99');
+            const series = frameOfReference.elements.x30060012.items[0].dataSet
+                .elements.x30060014.items[0].dataSet;
+            expect(series.string('x0020000e')).toBe('1.2.3.4');
+            expect(series.elements.x30060016.items).toHaveLength(3);
+
+            expect(dataSet.elements.x30060080.items).toHaveLength(2);
+        });
+
+        it('should reference the SOP instance of the contoured slice', () => {
+            const buffer = createRTStructDicom(structures, ctImages);
+            const dataSet = dicomParser.parseDicom(new Uint8Array(buffer));
+
+            const roiContour = dataSet.elements.x30060039.items[0].dataSet;
+            const contour = roiContour.elements.x30060040.items[0].dataSet;
+            const imageRef = contour.elements.x30060016.items[0].dataSet;
+
+            expect(imageRef.string('x00081155')).toBe('1.2.3.4.1');
+            expect(contour.string('x30060042')).toBe('CLOSED_PLANAR');
+            expect(contour.intString('x30060046')).toBe(3);
+            expect(roiContour.string('x3006002a')).toBe('255\\136\\68');
+        });
+
+        it('should round-trip through DicomProcessor.parseRTStruct', () => {
+            const buffer = createRTStructDicom(structures, ctImages);
+            const parsed = DicomProcessor.parseRTStruct(buffer);
+
+            expect(parsed).not.toBeNull();
+            expect(parsed!.frameOfReference).toBe('1.2.3.99');
+            expect(parsed!.structures.map(s => s.name)).toEqual(['PTV', 'Spinal Cord']);
+
+            const matched = DicomProcessor.matchContoursToSlices(parsed!, ctImages);
+            const ptv = matched.structures[0].contours[0];
+            expect(ptv.sliceIndex).toBe(1);
+            expect(ptv.points[1][0]).toBeCloseTo(10.25);
+            expect(ptv.points[2][1]).toBeCloseTo(-5.5);
+            expect(ptv.points[0][2]).toBeCloseTo(2.5);
+            expect(matched.structures[1].contours[0].sliceIndex).toBe(2);
+        });
+
+        it('should preserve ROI colors, interpreted types and geometric types', () => {
+            const marker: Structure3D = {
+                id: 'rt_1',
+                name: 'Isocenter',
+                color: 'rgb(255, 255, 0)',
+                visible: true,
+                interpretedType: 'MARKER',
+                contours: [
+                    {
+                        id: 'c3',
+                        sliceIndex: 0,
+                        structureId: 'rt_1',
+                        isClosed: false,
+                        color: 'rgb(255, 255, 0)',
+                        geometricType: 'POINT',
+                        points: [{ x: 5, y: 5 }],
+                    },
+                ],
+            };
+            const buffer = createRTStructDicom([...structures, marker], ctImages);
+            const parsed = DicomProcessor.parseRTStruct(buffer)!;
+
+            expect(parsed.structures.map(s => s.color)).toEqual([
+                [255, 136, 68],
+                [0, 255, 0],
+                [255, 255, 0],
+            ]);
+            expect(parsed.structures[0].interpretedType).toBe('PTV');
+            expect(parsed.structures[2].interpretedType).toBe('MARKER');
+            expect(parsed.structures[0].contours[0].geometricType).toBe('CLOSED_PLANAR');
+            expect(parsed.structures[2].contours[0].geometricType).toBe('POINT');
+            expect(parsed.structures[2].contours[0].points).toHaveLength(1);
+        });
+
+        it('should write long contours at 0.01 mm and name the ones that still do not fit', () => {
+            const outline = (count: number) => Array.from({ length: count }, (_, i) => ({
+                x: -123.4567 + 200 * Math.cos((2 * Math.PI * i) / count),
+                y: -87.6543 + 200 * Math.sin((2 * Math.PI * i) / count),
+            }));
+            const body = (count: number): Structure3D => ({
+                id: 'edit_2',
+                name: 'Body',
+                color: '#00ffff',
+                visible: true,
+                contours: [{ id: 'c4', sliceIndex: 1, structureId: 'edit_2', isClosed: true, color: '#00ffff', points: outline(count) }],
+            });
+
+            const parsed = DicomProcessor.parseRTStruct(createRTStructDicom([body(2500)], ctImages))!;
+            const points = parsed.structures[0].contours[0].points;
+            expect(points).toHaveLength(2500);
+            expect(points[0][0]).toBe(76.54);
+            expect(points[0][1]).toBe(-87.65);
+
+            expect(() => createRTStructDicom([...structures, body(4000)], ctImages))
+                .toThrow('Body (slice 2, 4000 points)');
+        });
+    });
+
+    describe('formatDecimalString', () => {
+        it('should keep values within 16 characters', () => {
+            expect(formatDecimalString(1.5)).toBe('1.5');
+            expect(formatDecimalString(-123.4567890123456).length).toBeLessThanOrEqual(16);
+            expect(formatDecimalString(1 / 3).length).toBeLessThanOrEqual(16);
+        });
+
+        it('should round to the given decimal places', () => {
+            expect(formatDecimalString(-123.4567890123456, 2)).toBe('-123.46');
+            expect(formatDecimalString(2.5, 2)).toBe('2.5');
+        });
+    });
+});
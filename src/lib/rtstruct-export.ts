@@ -1,5 +1,43 @@
 import { saveAs } from 'file-saver';
-import { DicomImage, DicomRTStruct, Point2D } from '@/types';
+import { ContourGeometricType, DicomImage, DicomRTStruct, Point2D } from '@/types';
+import {
+  DicomWriterElement,
+  dicomElement as el,
+  formatDecimalString,
+  formatDicomDate,
+  formatDicomTime,
+  generateUID,
+  MAX_SHORT_VALUE_LENGTH,
+  sourceString,
+  writeDicomFile,
+} from './dicom-writer';
+import { cssColorToRGB } from './color-utils';
+import { DVH, DVHMetric, evaluateDVHMetric, exportDVHAsCSV } from './dvh-utils';
+import { exportStructuresAsNifti } from './nifti-export';
+import { exportStructuresAsNrrd } from './nrrd-utils';
+import { exportStructuresAsMetaImage } from './metaimage-utils';
+import { exportStructuresAsSEG } from './seg-utils';
+import { exportStructuresAsMeshes, MeshExportOptions } from './mesh-export';
+
+export type ExportFormat =
+  | 'json'
+  | 'csv'
+  | 'research'
+  | 'dicom'
+  | 'dicom-seg'
+  | 'nifti-labelmap'
+  | 'nifti-masks'
+  | 'nrrd-segmentation'
+  | 'metaimage-labelmap'
+  | 'mesh';
+
+export const RTSTRUCT_SOP_CLASS_UID = '1.2.840.10008.5.1.4.1.1.481.3';
+const CT_IMAGE_SOP_CLASS_UID = '1.2.840.10008.5.1.4.1.1.2';
+const DETACHED_STUDY_SOP_CLASS_UID = '1.2.840.10008.3.1.2.3.1';
+
+// Contour Data is written to 0.01 mm, which keeps about 2,700 points within
+// the 64 KB a DS value can hold
+const CONTOUR_DATA_DECIMALS = 2;
 
 interface ExportStructure {
   id: string;
@@ -7,6 +45,15 @@ interface ExportStructure {
   color: string;
   visible: boolean;
   contours: ExportContour[];
+  interpretedType?: string;
+  observationLabel?: string;
+}
+
+// Dose-volume histograms to include with the research export
+export interface DVHExport {
+  dvhs: DVH[];
+  metrics: DVHMetric[];
+  referenceDose?: number;
 }
 
 interface ExportContour {
@@ -16,6 +63,16 @@ interface ExportContour {
   structureId: string;
   isClosed: boolean;
   color: string;
+  geometricType?: ContourGeometricType;
+  interpolated?: boolean;
+}
+
+/**
+ * Resolve the DICOM Contour Geometric Type for a contour, keeping the type
+ * read from the source RTSTRUCT when present
+ */
+function contourGeometricType(contour: ExportContour): ContourGeometricType {
+  return contour.geometricType ?? (contour.isClosed ? 'CLOSED_PLANAR' : 'OPEN_PLANAR');
 }
 
 /**
@@ -36,13 +93,15 @@ function worldToDicomCoordinates(
 }
 
 /**
- * Export RT Structure Set as JSON (DICOM-RT representation)
+ * RT Structure Set as JSON (DICOM-RT representation). Every contour keeps
+ * the SOP Instance UID and frame number of its image, so the file can be
+ * loaded back onto the series with `importStructuresFromJSON`.
  */
-export function exportRTStructAsJSON(
+export function createRTStructJSON(
   structures: ExportStructure[],
   ctImages: DicomImage[],
   originalRTStruct?: DicomRTStruct
-): void {
+): string {
   const exportData = {
     metadata: {
       version: '1.0',
@@ -57,6 +116,7 @@ export function exportRTStructAsJSON(
     },
     referencedImages: ctImages.map(img => ({
       sopInstanceUID: img.sopInstanceUID,
+      frameNumber: img.frameNumber,
       sopClassUID: img.sopClassUID,
       sliceLocation: img.sliceLocation,
       imagePosition: img.imagePosition,
@@ -70,9 +130,11 @@ export function exportRTStructAsJSON(
           Array<{
             sliceIndex: number;
             sopInstanceUID: string;
+            frameNumber?: number;
             numberOfPoints: number;
-            contourGeometricType: 'CLOSED_PLANAR' | 'OPEN_PLANAR';
+            contourGeometricType: ContourGeometricType;
             contourData: number[];
+            interpolated?: boolean;
           }>
         >((acc, contour) => {
           const image = ctImages[contour.sliceIndex];
@@ -88,11 +150,12 @@ export function exportRTStructAsJSON(
           acc.push({
             sliceIndex: contour.sliceIndex,
             sopInstanceUID: image.sopInstanceUID,
+            // Frames of a multi-frame object share its SOP Instance UID
+            ...(image.frameNumber && { frameNumber: image.frameNumber }),
             numberOfPoints: contour.points.length,
-            contourGeometricType: contour.isClosed
-              ? 'CLOSED_PLANAR'
-              : 'OPEN_PLANAR',
+            contourGeometricType: contourGeometricType(contour),
             contourData: dicomPoints.flatMap(p => [p.x, p.y, p.z]),
+            ...(contour.interpolated && { interpolated: true }),
           });
 
           return acc;
@@ -104,14 +167,26 @@ export function exportRTStructAsJSON(
           color: structure.color,
           visible: structure.visible,
           roiNumber,
+          interpretedType: structure.interpretedType,
+          observationLabel: structure.observationLabel,
           contours: contourExportData,
         };
       });
     })(),
   };
 
-  // Create a blob and download
-  const blob = new Blob([JSON.stringify(exportData, null, 2)], {
+  return JSON.stringify(exportData, null, 2);
+}
+
+/**
+ * Export RT Structure Set as JSON (DICOM-RT representation)
+ */
+export function exportRTStructAsJSON(
+  structures: ExportStructure[],
+  ctImages: DicomImage[],
+  originalRTStruct?: DicomRTStruct
+): void {
+  const blob = new Blob([createRTStructJSON(structures, ctImages, originalRTStruct)], {
     type: 'application/json',
   });
 
@@ -152,11 +227,14 @@ export function exportRTStructAsCSV(
 }
 
 /**
- * Export RT Structure Set in a format compatible with research tools
+ * Export RT Structure Set in a format compatible with research tools. When
+ * DVHs are given, their metrics are added per structure and the curves are
+ * saved as CSV next to the JSON.
  */
 export function exportRTStructForResearch(
   structures: ExportStructure[],
-  ctImages: DicomImage[]
+  ctImages: DicomImage[],
+  dvhExport?: DVHExport
 ): void {
   const exportData = {
     version: '1.0',
@@ -178,6 +256,7 @@ export function exportRTStructForResearch(
         isClosed: contour.isClosed,
       })),
       totalContours: structure.contours.length,
+      dvh: dvhSummary(structure.id, dvhExport),
     })),
   };
 
@@ -187,6 +266,179 @@ export function exportRTStructForResearch(
 
   const filename = `rtstruct_research_${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
   saveAs(blob, filename);
+
+  if (dvhExport && dvhExport.dvhs.length > 0) {
+    exportDVHAsCSV(dvhExport.dvhs, dvhExport.metrics, dvhExport.referenceDose);
+  }
+}
+
+function dvhSummary(structureId: string, dvhExport?: DVHExport) {
+  const dvh = dvhExport?.dvhs.find(d => d.structureId === structureId);
+  if (!dvh) return undefined;
+
+  return {
+    volumeCc: dvh.volume,
+    meanDoseGy: dvh.meanDose,
+    maxDoseGy: dvh.maxDose,
+    minDoseGy: dvh.minDose,
+    metrics: Object.fromEntries(
+      dvhExport.metrics.map(metric => [metric.label, evaluateDVHMetric(dvh, metric, dvhExport.referenceDose)])
+    ),
+  };
+}
+
+/**
+ * Build a binary DICOM RT Structure Set (Part 10, Explicit VR Little Endian).
+ *
+ * Patient/study attributes are copied from the first CT image so the result
+ * lands in the same study, and every contour references the SOP Instance of
+ * the slice it was drawn on.
+ */
+export function createRTStructDicom(
+  structures: ExportStructure[],
+  ctImages: DicomImage[],
+  originalRTStruct?: DicomRTStruct
+): ArrayBuffer {
+  const firstImage = ctImages[0];
+  const now = new Date();
+  const sopInstanceUID = generateUID();
+  const frameOfReferenceUID =
+    firstImage?.frameOfReferenceUID || originalRTStruct?.frameOfReference || generateUID();
+  const studyInstanceUID = firstImage?.studyInstanceUID || generateUID();
+
+  const imageReference = (image: DicomImage): DicomWriterElement[] => [
+    el('x00081150', 'UI', image.sopClassUID || CT_IMAGE_SOP_CLASS_UID),
+    el('x00081155', 'UI', image.sopInstanceUID),
+    // Frames of an enhanced (multi-frame) image are referenced individually
+    ...(image.frameNumber ? [el('x00081160', 'IS', image.frameNumber)] : []),
+  ];
+
+  const roiItems: DicomWriterElement[][] = [];
+  const roiContourItems: DicomWriterElement[][] = [];
+  const observationItems: DicomWriterElement[][] = [];
+  const oversizedContours: string[] = [];
+
+  structures.forEach((structure, index) => {
+    const roiNumber = index + 1;
+
+    roiItems.push([
+      el('x30060022', 'IS', roiNumber),
+      el('x30060024', 'UI', frameOfReferenceUID),
+      el('x30060026', 'LO', structure.name),
+      el('x30060036', 'CS', 'MANUAL'),
+    ]);
+
+    const contourItems = structure.contours.reduce<DicomWriterElement[][]>((acc, contour) => {
+      const image = ctImages[contour.sliceIndex];
+      if (!image) {
+        console.warn(`Image not found for slice ${contour.sliceIndex}`);
+        return acc;
+      }
+      if (contour.points.length === 0) return acc;
+
+      const contourData = contour.points.flatMap(point => {
+        const p = worldToDicomCoordinates(point, image);
+        return [p.x, p.y, p.z].map(v => formatDecimalString(v, CONTOUR_DATA_DECIMALS));
+      });
+      if (contourData.join('\\').length > MAX_SHORT_VALUE_LENGTH) {
+        oversizedContours.push(`${structure.name} (slice ${contour.sliceIndex + 1}, ${contour.points.length} points)`);
+        return acc;
+      }
+
+      acc.push([
+        el('x30060016', 'SQ', [imageReference(image)]),
+        el('x30060042', 'CS', contourGeometricType(contour)),
+        el('x30060046', 'IS', contour.points.length),
+        el('x30060050', 'DS', contourData),
+      ]);
+      return acc;
+    }, []);
+
+    roiContourItems.push([
+      el('x3006002a', 'IS', cssColorToRGB(structure.color)),
+      el('x30060040', 'SQ', contourItems),
+      el('x30060084', 'IS', roiNumber),
+    ]);
+
+    observationItems.push([
+      el('x30060082', 'IS', roiNumber),
+      el('x30060084', 'IS', roiNumber),
+      ...(structure.observationLabel ? [el('x30060085', 'SH', structure.observationLabel)] : []),
+      el('x300600a4', 'CS', structure.interpretedType || ''),
+      el('x300600a6', 'PN', ''),
+    ]);
+  });
+
+  if (oversizedContours.length > 0) {
+    throw new Error(
+      `These contours have too many points for a DICOM RT Structure Set: ${oversizedContours.join(', ')}. ` +
+      'Simplify or split them and export again.'
+    );
+  }
+
+  const referencedFrameOfReference: DicomWriterElement[] = [
+    el('x00200052', 'UI', frameOfReferenceUID),
+    el('x30060012', 'SQ', [[
+      el('x00081150', 'UI', DETACHED_STUDY_SOP_CLASS_UID),
+      el('x00081155', 'UI', studyInstanceUID),
+      el('x30060014', 'SQ', [[
+        el('x0020000e', 'UI', firstImage?.seriesInstanceUID || generateUID()),
+        el('x30060016', 'SQ', ctImages.map(imageReference)),
+      ]]),
+    ]]),
+  ];
+
+  const elements: DicomWriterElement[] = [
+    el('x00080005', 'CS', 'ISO_IR 100'),
+    el('x00080012', 'DA', formatDicomDate(now)),
+    el('x00080013', 'TM', formatDicomTime(now)),
+    el('x00080016', 'UI', RTSTRUCT_SOP_CLASS_UID),
+    el('x00080018', 'UI', sopInstanceUID),
+    el('x00080020', 'DA', sourceString(firstImage, 'x00080020')),
+    el('x00080030', 'TM', sourceString(firstImage, 'x00080030')),
+    el('x00080050', 'SH', sourceString(firstImage, 'x00080050')),
+    el('x00080060', 'CS', 'RTSTRUCT'),
+    el('x00080070', 'LO', 'DicomEdit'),
+    el('x00080090', 'PN', sourceString(firstImage, 'x00080090')),
+    el('x0008103e', 'LO', 'DicomEdit Structure Set'),
+    el('x00100010', 'PN', sourceString(firstImage, 'x00100010')),
+    el('x00100020', 'LO', sourceString(firstImage, 'x00100020')),
+    el('x00100030', 'DA', sourceString(firstImage, 'x00100030')),
+    el('x00100040', 'CS', sourceString(firstImage, 'x00100040')),
+    el('x0020000d', 'UI', studyInstanceUID),
+    el('x0020000e', 'UI', generateUID()),
+    el('x00200010', 'SH', sourceString(firstImage, 'x00200010')),
+    el('x00200011', 'IS', 1),
+    el('x00200013', 'IS', 1),
+    el('x30060002', 'SH', 'DicomEdit'),
+    el('x30060004', 'LO', 'DicomEdit'),
+    el('x30060008', 'DA', formatDicomDate(now)),
+    el('x30060009', 'TM', formatDicomTime(now)),
+    el('x30060010', 'SQ', [referencedFrameOfReference]),
+    el('x30060020', 'SQ', roiItems),
+    el('x30060039', 'SQ', roiContourItems),
+    el('x30060080', 'SQ', observationItems),
+  ];
+
+  return writeDicomFile(elements, {
+    sopClassUID: RTSTRUCT_SOP_CLASS_UID,
+    sopInstanceUID,
+  });
+}
+
+/**
+ * Export RT Structure Set as a binary DICOM file for treatment planning systems
+ */
+export function exportRTStructAsDICOM(
+  structures: ExportStructure[],
+  ctImages: DicomImage[],
+  originalRTStruct?: DicomRTStruct
+): void {
+  const buffer = createRTStructDicom(structures, ctImages, originalRTStruct);
+  const blob = new Blob([buffer], { type: 'application/dicom' });
+
+  const filename = `RS_${new Date().toISOString().replace(/[:.]/g, '-')}.dcm`;
+  saveAs(blob, filename);
 }
 
 /**
@@ -195,8 +447,10 @@ export function exportRTStructForResearch(
 export function exportRTStruct(
   structures: ExportStructure[],
   ctImages: DicomImage[],
-  format: 'json' | 'csv' | 'research' = 'json',
-  originalRTStruct?: DicomRTStruct
+  format: ExportFormat = 'json',
+  originalRTStruct?: DicomRTStruct,
+  dvhExport?: DVHExport,
+  meshOptions: MeshExportOptions = { format: 'stl' }
 ): void {
   if (structures.length === 0) {
     throw new Error('No structures to export');
@@ -214,7 +468,28 @@ export function exportRTStruct(
       exportRTStructAsCSV(structures, ctImages);
       break;
     case 'research':
-      exportRTStructForResearch(structures, ctImages);
+      exportRTStructForResearch(structures, ctImages, dvhExport);
+      break;
+    case 'dicom':
+      exportRTStructAsDICOM(structures, ctImages, originalRTStruct);
+      break;
+    case 'dicom-seg':
+      exportStructuresAsSEG(structures, ctImages);
+      break;
+    case 'nifti-labelmap':
+      exportStructuresAsNifti(structures, ctImages, 'labelmap');
+      break;
+    case 'nifti-masks':
+      exportStructuresAsNifti(structures, ctImages, 'masks');
+      break;
+    case 'nrrd-segmentation':
+      exportStructuresAsNrrd(structures, ctImages);
+      break;
+    case 'metaimage-labelmap':
+      exportStructuresAsMetaImage(structures, ctImages);
+      break;
+    case 'mesh':
+      exportStructuresAsMeshes(structures, ctImages, meshOptions);
       break;
     default:
       throw new Error(`Unsupported export format: ${format}`);
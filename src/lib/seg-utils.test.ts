@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { createSegmentationDicom, segmentationToStructures } from './seg-utils';
+import { DicomProcessor } from './dicom-utils';
+import { rasterizeStructure } from './nifti-export';
+import { dicomLabToRGB, rgbToDicomLab } from './color-utils';
+import { DicomSegmentation } from '@/types';
+import { createImageStack, createStructure, square } from '@/test/fixtures';
+
+describe('seg-utils', () => {
+    const ctImages = createImageStack({
+        count: 3,
+        width: 5,
+        origin: [-10, -20, 0],
+        sliceStep: 2.5,
+        pixelSpacing: [2, 2],
+        seriesInstanceUID: '1.2.3.4',
+        fields: {
+            sliceThickness: 2.5,
+            sopClassUID: '1.2.840.10008.5.1.4.1.1.2',
+            frameOfReferenceUID: '1.2.3.99',
+            studyInstanceUID: '1.2.3',
+        },
+    });
+    // Pixel centres x = -8, -6 and y = -18, -16
+    const block = square(-9, -19, -5, -15);
+    const structures = [
+        createStructure('a', [[1, block]], { name: 'Liver', color: 'rgb(255, 0, 0)', interpretedType: 'ORGAN' }),
+        createStructure('b', [[2, block]], { name: 'GTV', color: 'rgb(0, 0, 255)', interpretedType: 'GTV' }),
+    ];
+
+    it('should convert display colors to CIELab and back', () => {
+        [[255, 0, 0], [0, 128, 255], [255, 255, 255]].forEach(rgb => {
+            expect(dicomLabToRGB(rgbToDicomLab(rgb))).toEqual(rgb);
+        });
+    });
+
+    it('should write a binary SEG that parses back with segments and frame references', () => {
+        const segmentation = DicomProcessor.parseSegmentation(createSegmentationDicom(structures, ctImages))!;
+
+        expect(segmentation.segmentationType).toBe('BINARY');
+        expect(segmentation.referencedSeriesUIDs).toEqual(['1.2.3.4']);
+        expect(segmentation.frameOfReferenceUID).toBe('1.2.3.99');
+        expect(segmentation.segments.map(s => s.label)).toEqual(['Liver', 'GTV']);
+        expect(segmentation.segments[0].color).toEqual([255, 0, 0]);
+        expect(segmentation.segments[0].category?.meaning).toBe('Anatomical Structure');
+        expect(segmentation.segments[1].type).toEqual({ value: '108369006', scheme: 'SCT', meaning: 'Neoplasm' });
+
+        expect(segmentation.frames.map(f => [f.segmentNumber, f.referencedSOPInstanceUID])).toEqual([
+            [1, '1.2.3.4.1'],
+            [2, '1.2.3.4.2'],
+        ]);
+        expect(segmentation.frames[1].imagePosition).toEqual([-10, -20, 5]);
+        expect(segmentation.frames[0].pixels.reduce((sum, value) => sum + value, 0)).toBe(4);
+    });
+
+    it('should outline segments onto the slices they reference', () => {
+        const segmentation = DicomProcessor.parseSegmentation(createSegmentationDicom(structures, ctImages))!;
+        const { structures: imported, unmatchedSlices } = segmentationToStructures(segmentation, ctImages);
+
+        expect(unmatchedSlices).toBe(0);
+        expect(imported.map(s => s.name)).toEqual(['Liver', 'GTV']);
+        expect(imported[1].color).toBe('rgb(0, 0, 255)');
+        imported.forEach((structure, index) => {
+            expect(Array.from(rasterizeStructure(structure, ctImages)))
+                .toEqual(Array.from(rasterizeStructure(structures[index], ctImages)));
+        });
+    });
+
+    it('should place frames without a plane position by their source image', () => {
+        const pixels = new Uint8Array(25);
+        pixels[12] = 200;
+        pixels[13] = 100;
+        const segmentation: DicomSegmentation = {
+            segmentationType: 'FRACTIONAL',
+            maxFractionalValue: 255,
+            rows: 5,
+            columns: 5,
+            pixelSpacing: [2, 2],
+            segments: [{ segmentNumber: 1, label: 'Soft' }],
+            frames: [{ segmentNumber: 1, referencedSOPInstanceUID: '1.2.3.4.2', pixels }],
+            referencedSeriesUIDs: [],
+        };
+
+        const [structure] = segmentationToStructures(segmentation, ctImages).structures;
+
+        expect(structure.contours).toHaveLength(1);
+        expect(structure.contours[0].sliceIndex).toBe(2);
+        expect(Array.from(rasterizeStructure(structure, ctImages).slice(50)).indexOf(1)).toBe(12);
+        expect(rasterizeStructure(structure, ctImages).reduce((sum, value) => sum + value, 0)).toBe(1);
+    });
+});
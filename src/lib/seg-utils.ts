@@ -0,0 +1,272 @@
+/**
+ * DICOM Segmentation (SEG) objects: segments are outlined into contoured
+ * structures on the loaded series, and structures are written back as a
+ * binary SEG referencing the CT slices they were drawn on.
+ */
+
+import { saveAs } from 'file-saver';
+import { DicomCode, DicomImage, DicomSegmentation, Structure3D } from '@/types';
+import { cssColorToRGB, rgbToCss, rgbToDicomLab } from './color-utils';
+import { SEGMENTATION_SOP_CLASS_UID } from './dicom-utils';
+import {
+  DicomWriterElement,
+  dicomElement as el,
+  formatDicomDate,
+  formatDicomTime,
+  generateUID,
+  sourceString,
+  writeDicomFile,
+} from './dicom-writer';
+import { LabelDefinition, LabelMapImport, LabelMapLayer, labelLayersToStructures } from './labelmap-import';
+import { rasterizeStructure } from './nifti-export';
+
+const CT_IMAGE_SOP_CLASS_UID = '1.2.840.10008.5.1.4.1.1.2';
+
+const code = (value: string, scheme: string, meaning: string): DicomCode => ({ value, scheme, meaning });
+
+// Segmented Property Category / Type per RT ROI Interpreted Type (SNOMED CT)
+const TISSUE = code('85756007', 'SCT', 'Tissue');
+const ANATOMICAL_STRUCTURE = code('123037004', 'SCT', 'Anatomical Structure');
+const ALTERED_STRUCTURE = code('49755003', 'SCT', 'Morphologically Altered Structure');
+const SEGMENT_CODES: Record<string, { category: DicomCode; type: DicomCode }> = {
+  ORGAN: { category: ANATOMICAL_STRUCTURE, type: code('113343008', 'SCT', 'Organ') },
+  AVOIDANCE: { category: ANATOMICAL_STRUCTURE, type: code('113343008', 'SCT', 'Organ') },
+  EXTERNAL: { category: ANATOMICAL_STRUCTURE, type: code('38266002', 'SCT', 'Entire body') },
+  GTV: { category: ALTERED_STRUCTURE, type: code('108369006', 'SCT', 'Neoplasm') },
+  CTV: { category: ALTERED_STRUCTURE, type: code('108369006', 'SCT', 'Neoplasm') },
+  ITV: { category: ALTERED_STRUCTURE, type: code('108369006', 'SCT', 'Neoplasm') },
+  PTV: { category: ALTERED_STRUCTURE, type: code('108369006', 'SCT', 'Neoplasm') },
+};
+
+/**
+ * Category and type codes written for a structure
+ */
+export function segmentCodes(structure: Pick<Structure3D, 'interpretedType'>): { category: DicomCode; type: DicomCode } {
+  return SEGMENT_CODES[structure.interpretedType?.toUpperCase() ?? ''] ?? { category: TISSUE, type: TISSUE };
+}
+
+/**
+ * Outline every segment as a structure. Frames are placed by their Plane
+ * Position, or by the source image they reference when that is missing.
+ * Fractional segments are cut at half the maximum value.
+ */
+export function segmentationToStructures(segmentation: DicomSegmentation, ctImages: DicomImage[]): LabelMapImport {
+  const { rows, columns, segmentationType, maxFractionalValue } = segmentation;
+  const threshold = segmentationType === 'FRACTIONAL' ? maxFractionalValue / 2 : 0.5;
+  const [rowSpacing, columnSpacing] = segmentation.pixelSpacing;
+  let unplacedFrames = 0;
+
+  const layers: LabelMapLayer[] = segmentation.segments.map(segment => {
+    const slices = segmentation.frames
+      .filter(frame => frame.segmentNumber === segment.segmentNumber)
+      .flatMap(frame => {
+        const imagePosition = frame.imagePosition ?? ctImages.find(image =>
+          image.sopInstanceUID === frame.referencedSOPInstanceUID
+        )?.imagePosition;
+        if (!imagePosition) {
+          unplacedFrames++;
+          return [];
+        }
+        const labels = new Int32Array(rows * columns);
+        frame.pixels.forEach((value, i) => {
+          if (value >= threshold) labels[i] = segment.segmentNumber;
+        });
+        return [{ imagePosition, labels }];
+      });
+
+    const definition: LabelDefinition = {
+      value: segment.segmentNumber,
+      name: segment.label,
+      color: segment.color ? rgbToCss(segment.color) : undefined,
+    };
+    return {
+      labelMap: { width: columns, height: rows, pixelSpacing: [rowSpacing, columnSpacing], slices },
+      labels: new Map([[segment.segmentNumber, definition]]),
+    };
+  });
+
+  const result = labelLayersToStructures(layers, ctImages);
+  return { ...result, unmatchedSlices: result.unmatchedSlices + unplacedFrames };
+}
+
+const codeItem = (value: DicomCode): DicomWriterElement[] => [
+  el('x00080100', 'SH', value.value),
+  el('x00080102', 'SH', value.scheme),
+  el('x00080104', 'LO', value.meaning),
+];
+
+/**
+ * Build a binary DICOM Segmentation (Part 10, Explicit VR Little Endian)
+ * on the CT grid. Each structure becomes a segment with its name, category
+ * and display color, and gets one frame per slice it covers; frames
+ * reference the CT slice they lie on.
+ */
+export function createSegmentationDicom(
+  structures: Structure3D[],
+  ctImages: DicomImage[],
+  options: { seriesDescription?: string } = {}
+): ArrayBuffer {
+  const firstImage = ctImages[0];
+  const { width: columns, height: rows } = firstImage;
+  const frameSize = rows * columns;
+  const now = new Date();
+  const sopInstanceUID = generateUID();
+  const dimensionOrganizationUID = generateUID();
+
+  const imageReference = (image: DicomImage): DicomWriterElement[] => [
+    el('x00081150', 'UI', image.sopClassUID || CT_IMAGE_SOP_CLASS_UID),
+    el('x00081155', 'UI', image.sopInstanceUID),
+    ...(image.frameNumber ? [el('x00081160', 'IS', image.frameNumber)] : []),
+  ];
+
+  // Frames are bit-packed as soon as they are found, so each structure's
+  // rasterized volume can be freed before the next one is built
+  const frames: { segmentNumber: number; sliceIndex: number; bits: Uint8Array }[] = [];
+  const segmentItems = structures.map((structure, index) => {
+    const segmentNumber = index + 1;
+    const mask = rasterizeStructure(structure, ctImages);
+    ctImages.forEach((_, sliceIndex) => {
+      const offset = sliceIndex * frameSize;
+      let bits: Uint8Array | null = null;
+      for (let i = 0; i < frameSize; i++) {
+        if (!mask[offset + i]) continue;
+        if (!bits) bits = new Uint8Array(Math.ceil(frameSize / 8));
+        bits[i >> 3] |= 1 << (i & 7);
+      }
+      if (bits) frames.push({ segmentNumber, sliceIndex, bits });
+    });
+
+    const { category, type } = segmentCodes(structure);
+    return [
+      el('x00620003', 'SQ', [codeItem(category)]),
+      el('x00620004', 'US', segmentNumber),
+      el('x00620005', 'LO', structure.name),
+      el('x00620008', 'CS', 'MANUAL'),
+      el('x0062000d', 'US', rgbToDicomLab(cssColorToRGB(structure.color))),
+      el('x0062000f', 'SQ', [codeItem(type)]),
+    ];
+  });
+
+  // Frames are bit-packed back to back, least significant bit first
+  const pixelData = new Uint8Array(Math.ceil((frames.length * frameSize) / 8));
+  frames.forEach(({ bits }, frameIndex) => {
+    const firstBit = frameIndex * frameSize;
+    if (firstBit % 8 === 0) {
+      pixelData.set(bits, firstBit >> 3);
+      return;
+    }
+    for (let i = 0; i < frameSize; i++) {
+      if (!(bits[i >> 3] & (1 << (i & 7)))) continue;
+      const bit = firstBit + i;
+      pixelData[bit >> 3] |= 1 << (bit & 7);
+    }
+  });
+
+  const perFrameItems = frames.map(({ segmentNumber, sliceIndex }) => {
+    const image = ctImages[sliceIndex];
+    return [
+      el('x00089124', 'SQ', [[
+        el('x00082112', 'SQ', [[
+          ...imageReference(image),
+          el('x0040a170', 'SQ', [codeItem(code('121322', 'DCM', 'Source image for image processing operation'))]),
+        ]]),
+        el('x00089215', 'SQ', [codeItem(code('113076', 'DCM', 'Segmentation'))]),
+      ]]),
+      el('x00209111', 'SQ', [[el('x00209157', 'UL', [segmentNumber, sliceIndex + 1])]]),
+      el('x00209113', 'SQ', [[el('x00200032', 'DS', image.imagePosition || [0, 0, 0])]]),
+      el('x0062000a', 'SQ', [[el('x0062000b', 'US', segmentNumber)]]),
+    ];
+  });
+
+  const sharedItem = [
+    el('x00209116', 'SQ', [[el('x00200037', 'DS', firstImage.imageOrientation || [1, 0, 0, 0, 1, 0])]]),
+    el('x00289110', 'SQ', [[
+      el('x00180050', 'DS', firstImage.sliceThickness || 1),
+      el('x00280030', 'DS', firstImage.pixelSpacing || [1, 1]),
+    ]]),
+  ];
+
+  const elements: DicomWriterElement[] = [
+    el('x00080005', 'CS', 'ISO_IR 100'),
+    el('x00080008', 'CS', ['DERIVED', 'PRIMARY']),
+    el('x00080012', 'DA', formatDicomDate(now)),
+    el('x00080013', 'TM', formatDicomTime(now)),
+    el('x00080016', 'UI', SEGMENTATION_SOP_CLASS_UID),
+    el('x00080018', 'UI', sopInstanceUID),
+    el('x00080020', 'DA', sourceString(firstImage, 'x00080020')),
+    el('x00080023', 'DA', formatDicomDate(now)),
+    el('x00080030', 'TM', sourceString(firstImage, 'x00080030')),
+    el('x00080033', 'TM', formatDicomTime(now)),
+    el('x00080050', 'SH', sourceString(firstImage, 'x00080050')),
+    el('x00080060', 'CS', 'SEG'),
+    el('x00080070', 'LO', 'DicomEdit'),
+    el('x00080090', 'PN', sourceString(firstImage, 'x00080090')),
+    el('x0008103e', 'LO', options.seriesDescription || 'DicomEdit Segmentation'),
+    el('x00081090', 'LO', 'DicomEdit'),
+    el('x00081115', 'SQ', [[
+      el('x0008114a', 'SQ', ctImages.map(imageReference)),
+      el('x0020000e', 'UI', firstImage.seriesInstanceUID),
+    ]]),
+    el('x00100010', 'PN', sourceString(firstImage, 'x00100010')),
+    el('x00100020', 'LO', sourceString(firstImage, 'x00100020')),
+    el('x00100030', 'DA', sourceString(firstImage, 'x00100030')),
+    el('x00100040', 'CS', sourceString(firstImage, 'x00100040')),
+    el('x00181000', 'LO', '1'),
+    el('x00181020', 'LO', 'DicomEdit'),
+    el('x0020000d', 'UI', firstImage.studyInstanceUID || generateUID()),
+    el('x0020000e', 'UI', generateUID()),
+    el('x00200010', 'SH', sourceString(firstImage, 'x00200010')),
+    el('x00200011', 'IS', 1),
+    el('x00200013', 'IS', 1),
+    el('x00200052', 'UI', firstImage.frameOfReferenceUID || generateUID()),
+    el('x00201040', 'LO', ''),
+    el('x00209221', 'SQ', [[el('x00209164', 'UI', dimensionOrganizationUID)]]),
+    el('x00209222', 'SQ', [
+      [
+        el('x00209164', 'UI', dimensionOrganizationUID),
+        el('x00209165', 'AT', 'x0062000b'),
+        el('x00209167', 'AT', 'x0062000a'),
+        el('x00209421', 'LO', 'ReferencedSegmentNumber'),
+      ],
+      [
+        el('x00209164', 'UI', dimensionOrganizationUID),
+        el('x00209165', 'AT', 'x00200032'),
+        el('x00209167', 'AT', 'x00209113'),
+        el('x00209421', 'LO', 'ImagePositionPatient'),
+      ],
+    ]),
+    el('x00280002', 'US', 1),
+    el('x00280004', 'CS', 'MONOCHROME2'),
+    el('x00280008', 'IS', frames.length),
+    el('x00280010', 'US', rows),
+    el('x00280011', 'US', columns),
+    el('x00280100', 'US', 1),
+    el('x00280101', 'US', 1),
+    el('x00280102', 'US', 0),
+    el('x00280103', 'US', 0),
+    el('x00282110', 'CS', '00'),
+    el('x00620001', 'CS', 'BINARY'),
+    el('x00620002', 'SQ', segmentItems),
+    el('x00620013', 'CS', 'UNDEFINED'),
+    el('x00700080', 'CS', 'SEGMENTATION'),
+    el('x00700081', 'LO', 'DicomEdit structures'),
+    el('x00700084', 'PN', ''),
+    el('x52009229', 'SQ', [sharedItem]),
+    el('x52009230', 'SQ', perFrameItems),
+    el('x7fe00010', 'OB', pixelData),
+  ];
+
+  return writeDicomFile(elements, {
+    sopClassUID: SEGMENTATION_SOP_CLASS_UID,
+    sopInstanceUID,
+  });
+}
+
+/**
+ * Download the structures as a binary DICOM SEG
+ */
+export function exportStructuresAsSEG(structures: Structure3D[], ctImages: DicomImage[]): void {
+  const buffer = createSegmentationDicom(structures, ctImages);
+  const filename = `SEG_${new Date().toISOString().replace(/[:.]/g, '-')}.dcm`;
+  saveAs(new Blob([buffer], { type: 'application/dicom' }), filename);
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import {
+    choosePrimarySeries,
+    findRTDoseForSeries,
+    findRTStructsForSeries,
+    findSegmentationForSeries,
+    groupImagesBySeries,
+} from './series-utils';
+import { DicomImage, DicomRTDose, DicomRTStruct, DicomSegmentation } from '@/types';
+import { createImage } from '@/test/fixtures';
+
+const createSlice = (seriesInstanceUID: string, z: number, extra: Partial<DicomImage> = {}) => createImage({
+    seriesInstanceUID,
+    sopInstanceUID: `${seriesInstanceUID}.${z}`,
+    imagePosition: [0, 0, z],
+    sliceLocation: z,
+    frameOfReferenceUID: '1.2.3.99',
+    ...extra,
+});
+
+describe('series-utils', () => {
+    const ct = [4, 0, 2].map(z => createSlice('1.1', z, { modality: 'CT', seriesNumber: 2, sliceThickness: 2 }));
+    const cbct = [0, 1].map(z => createSlice('1.2', z, { modality: 'CT', seriesNumber: 5 }));
+    const mr = [0, 3, 6, 9].map(z => createSlice('1.3', z, { modality: 'MR', seriesNumber: 1, frameOfReferenceUID: '1.2.3.77' }));
+
+    describe('groupImagesBySeries', () => {
+        it('should split images by series and sort slices', () => {
+            const series = groupImagesBySeries([...mr, ...ct, ...cbct]);
+
+            expect(series.map(s => s.seriesInstanceUID)).toEqual(['1.3', '1.1', '1.2']);
+            expect(series[1].images.map(i => i.sliceLocation)).toEqual([0, 2, 4]);
+            expect(series[1].sliceThickness).toBe(2);
+            expect(series[0].sliceThickness).toBe(3);
+            expect(series[0].modality).toBe('MR');
+        });
+
+        it('should put unnumbered series last, ordered by description and UID', () => {
+            const unnumbered = [
+                createSlice('1.6', 0),
+                createSlice('1.5', 0),
+                createSlice('1.4', 0, { seriesDescription: 'Scout' }),
+            ];
+            const series = groupImagesBySeries([...unnumbered, ...cbct, ...ct]);
+
+            expect(series.map(s => s.seriesInstanceUID)).toEqual(['1.1', '1.2', '1.5', '1.6', '1.4']);
+        });
+    });
+
+    describe('findRTStructsForSeries', () => {
+        const referencing: DicomRTStruct = { structures: [], frameOfReference: '1.2.3.99', referencedSeriesUIDs: ['1.1'] };
+        const frameOnly: DicomRTStruct = { structures: [], frameOfReference: '1.2.3.77' };
+
+        it('should prefer explicit series references over frame of reference', () => {
+            const [mri, planning, cone] = groupImagesBySeries([...ct, ...cbct, ...mr]);
+
+            expect(findRTStructsForSeries(planning, [referencing, frameOnly])).toEqual([referencing]);
+            expect(findRTStructsForSeries(cone, [referencing, frameOnly])).toEqual([]);
+            expect(findRTStructsForSeries(mri, [referencing, frameOnly])).toEqual([frameOnly]);
+        });
+
+        it('should preselect the CT series with a structure set', () => {
+            const series = groupImagesBySeries([...ct, ...cbct, ...mr]);
+
+            expect(choosePrimarySeries(series, [referencing])?.seriesInstanceUID).toBe('1.1');
+            expect(choosePrimarySeries(series, [])?.seriesInstanceUID).toBe('1.1');
+        });
+    });
+
+    describe('findRTDoseForSeries', () => {
+        const createDose = (frameOfReferenceUID: string, doseSummationType: string) =>
+            ({ frameOfReferenceUID, doseSummationType } as DicomRTDose);
+
+        it('should pick the plan dose in the series frame of reference', () => {
+            const [mri, planning] = groupImagesBySeries([...ct, ...mr]);
+            const beam = createDose('1.2.3.99', 'BEAM');
+            const plan = createDose('1.2.3.99', 'PLAN');
+
+            expect(findRTDoseForSeries(planning, [beam, plan])).toBe(plan);
+            expect(findRTDoseForSeries(planning, [beam])).toBe(beam);
+            expect(findRTDoseForSeries(mri, [beam, plan])).toBeUndefined();
+        });
+    });
+
+    describe('findSegmentationForSeries', () => {
+        it('should prefer the segmentation derived from the series', () => {
+            const [, planning, cone] = groupImagesBySeries([...ct, ...mr, ...cbct]);
+            const fromCbct = { referencedSeriesUIDs: ['1.2'], frameOfReferenceUID: '1.2.3.99' } as DicomSegmentation;
+            const unreferenced = { referencedSeriesUIDs: [], frameOfReferenceUID: '1.2.3.99' } as DicomSegmentation;
+
+            expect(findSegmentationForSeries(cone, [unreferenced, fromCbct])).toBe(fromCbct);
+            expect(findSegmentationForSeries(planning, [fromCbct, unreferenced])).toBe(unreferenced);
+            expect(findSegmentationForSeries(planning, [fromCbct])).toBeUndefined();
+        });
+    });
+});
@@ -0,0 +1,143 @@
+import { DicomImage, DicomRTDose, DicomRTStruct, DicomSegmentation, DicomSeries } from '@/types';
+
+/**
+ * Grouping of loaded DICOM objects into series so a study with several
+ * acquisitions (planning CT, CBCT, MR, ...) is not merged into one stack.
+ */
+
+/**
+ * Sort slices along the patient Z axis (slice location, then image position)
+ */
+export function sortSlices(images: DicomImage[]): DicomImage[] {
+  return [...images].sort((a, b) => {
+    if (a.sliceLocation !== undefined && b.sliceLocation !== undefined) {
+      return a.sliceLocation - b.sliceLocation;
+    }
+    if (a.imagePosition && b.imagePosition) {
+      return a.imagePosition[2] - b.imagePosition[2]; // Z coordinate
+    }
+    return 0;
+  });
+}
+
+/**
+ * Group images by Series Instance UID. Series are ordered by study, then
+ * series number (unnumbered series last), then description and UID, with
+ * slices sorted inside each series.
+ */
+export function groupImagesBySeries(images: DicomImage[]): DicomSeries[] {
+  const groups = new Map<string, DicomImage[]>();
+
+  images.forEach(image => {
+    // Images without a series UID still belong together rather than being dropped
+    const key = image.seriesInstanceUID || 'unknown';
+    const group = groups.get(key);
+    if (group) {
+      group.push(image);
+    } else {
+      groups.set(key, [image]);
+    }
+  });
+
+  const series = Array.from(groups.entries()).map(([seriesInstanceUID, seriesImages]) => {
+    const sorted = sortSlices(seriesImages);
+    const first = sorted[0];
+
+    return {
+      seriesInstanceUID,
+      studyInstanceUID: first.studyInstanceUID,
+      frameOfReferenceUID: first.frameOfReferenceUID,
+      modality: first.modality,
+      description: first.seriesDescription,
+      seriesNumber: first.seriesNumber,
+      sliceThickness: first.sliceThickness ?? estimateSliceSpacing(sorted),
+      images: sorted,
+    };
+  });
+
+  return series.sort((a, b) => {
+    const study = (a.studyInstanceUID || '').localeCompare(b.studyInstanceUID || '');
+    if (study !== 0) return study;
+    const numbered = Number(a.seriesNumber === undefined) - Number(b.seriesNumber === undefined);
+    if (numbered !== 0) return numbered;
+    if (a.seriesNumber !== b.seriesNumber) return a.seriesNumber - b.seriesNumber;
+    return (a.description || '').localeCompare(b.description || '') ||
+      a.seriesInstanceUID.localeCompare(b.seriesInstanceUID);
+  });
+}
+
+/**
+ * Find the RT Structure Sets drawn on a series: those that reference the
+ * series directly, or otherwise share its frame of reference
+ */
+export function findRTStructsForSeries(
+  series: DicomSeries,
+  rtStructs: DicomRTStruct[]
+): DicomRTStruct[] {
+  const direct = rtStructs.filter(rtStruct =>
+    rtStruct.referencedSeriesUIDs?.includes(series.seriesInstanceUID)
+  );
+  if (direct.length > 0) return direct;
+
+  return rtStructs.filter(rtStruct =>
+    !rtStruct.referencedSeriesUIDs?.length &&
+    !!series.frameOfReferenceUID &&
+    rtStruct.frameOfReference === series.frameOfReferenceUID
+  );
+}
+
+/**
+ * Find the dose grid to show on a series. Dose is only positioned correctly
+ * in its own frame of reference; whole-plan sums win over per-beam doses.
+ */
+export function findRTDoseForSeries(
+  series: DicomSeries,
+  rtDoses: DicomRTDose[]
+): DicomRTDose | undefined {
+  const candidates = rtDoses.filter(rtDose =>
+    !rtDose.frameOfReferenceUID ||
+    !series.frameOfReferenceUID ||
+    rtDose.frameOfReferenceUID === series.frameOfReferenceUID
+  );
+  return candidates.find(rtDose => rtDose.doseSummationType === 'PLAN') ?? candidates[0];
+}
+
+/**
+ * Find the segmentation to open with a series: one derived from the series
+ * itself, otherwise one in the same frame of reference
+ */
+export function findSegmentationForSeries(
+  series: DicomSeries,
+  segmentations: DicomSegmentation[]
+): DicomSegmentation | undefined {
+  return segmentations.find(segmentation => segmentation.referencedSeriesUIDs.includes(series.seriesInstanceUID)) ??
+    segmentations.find(segmentation =>
+      segmentation.referencedSeriesUIDs.length === 0 &&
+      (!segmentation.frameOfReferenceUID || segmentation.frameOfReferenceUID === series.frameOfReferenceUID)
+    );
+}
+
+/**
+ * Pick the series to preselect: the largest CT series that has a
+ * structure set, falling back to the largest series overall
+ */
+export function choosePrimarySeries(
+  series: DicomSeries[],
+  rtStructs: DicomRTStruct[]
+): DicomSeries | undefined {
+  const score = (s: DicomSeries) =>
+    (findRTStructsForSeries(s, rtStructs).length > 0 ? 2 : 0) +
+    (s.modality === 'CT' ? 1 : 0);
+
+  return [...series].sort((a, b) =>
+    score(b) - score(a) || b.images.length - a.images.length
+  )[0];
+}
+
+function estimateSliceSpacing(sorted: DicomImage[]): number | undefined {
+  if (sorted.length < 2) return undefined;
+  const z0 = sorted[0].sliceLocation ?? sorted[0].imagePosition?.[2];
+  const z1 = sorted[1].sliceLocation ?? sorted[1].imagePosition?.[2];
+  if (z0 === undefined || z1 === undefined) return undefined;
+  return Math.abs(z1 - z0);
+}
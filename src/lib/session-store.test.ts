@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { createSession, isSessionExpired, loadSession, sessionKey } from './session-store';
+import { Structure3D } from '@/types';
+import { createImage } from '@/test/fixtures';
+
+const image = createImage({ seriesInstanceUID: '1.2.3.4', studyInstanceUID: '1.2.3' });
+
+const structuresNamed = (name: string): Structure3D[] => [
+    { id: 'edit_1', name, color: '#ff0000', visible: true, contours: [] },
+];
+
+describe('session-store', () => {
+    it('should key sessions by study and series', () => {
+        expect(sessionKey([image])).toBe('1.2.3/1.2.3.4');
+        expect(sessionKey([{ ...image, studyInstanceUID: undefined }])).toBe('UNKNOWN/1.2.3.4');
+        expect(sessionKey([])).toBeNull();
+    });
+
+    it('should keep only the most recent undo steps and the next redo steps', () => {
+        const past = ['a', 'b', 'c', 'd'].map(structuresNamed);
+        const future = ['f', 'g', 'h'].map(structuresNamed);
+
+        const session = createSession([image], {
+            structures: structuresNamed('e'),
+            activeStructureId: 'edit_1',
+            past,
+            future,
+        }, 2)!;
+
+        expect(session.key).toBe('1.2.3/1.2.3.4');
+        expect(session.activeStructureId).toBe('edit_1');
+        expect(session.structures[0].name).toBe('e');
+        expect(session.past.map(s => s[0].name)).toEqual(['c', 'd']);
+        expect(session.future.map(s => s[0].name)).toEqual(['f', 'g']);
+        expect(Number.isNaN(Date.parse(session.savedAt))).toBe(false);
+    });
+
+    it('should expire sessions that have not been saved for the maximum age', () => {
+        const now = new Date('2026-03-31T12:00:00Z');
+
+        expect(isSessionExpired({ savedAt: '2026-03-20T12:00:00Z' }, now)).toBe(false);
+        expect(isSessionExpired({ savedAt: '2026-02-27T12:00:00Z' }, now)).toBe(true);
+        expect(isSessionExpired({ savedAt: '2026-03-20T12:00:00Z' }, now, 7)).toBe(true);
+        expect(isSessionExpired({ savedAt: 'not a date' }, now)).toBe(true);
+    });
+
+    it('should report when IndexedDB is not available', async () => {
+        await expect(loadSession('1.2.3/1.2.3.4')).rejects.toThrow('IndexedDB is not available');
+    });
+});
@@ -0,0 +1,145 @@
+/**
+ * Autosaved editing sessions in IndexedDB, one per series, so a crashed
+ * tab or an accidental "back" does not lose the contouring work.
+ */
+
+import { DicomImage, Structure3D } from '@/types';
+
+export interface StoredSession {
+  // `${StudyInstanceUID}/${SeriesInstanceUID}`
+  key: string;
+  studyInstanceUID: string;
+  seriesInstanceUID: string;
+  savedAt: string;
+  structures: Structure3D[];
+  activeStructureId: string | null;
+  // Undo and redo stacks, oldest first and next first as in useHistory
+  past: Structure3D[][];
+  future: Structure3D[][];
+}
+
+// Undo steps kept in a saved session; each is a full copy of the structures
+export const SESSION_HISTORY_LIMIT = 10;
+
+// Sessions not saved for this long are deleted rather than offered again
+export const SESSION_MAX_AGE_DAYS = 30;
+
+const DB_NAME = 'dicomedit';
+const DB_VERSION = 1;
+const SESSION_STORE = 'sessions';
+
+/**
+ * Session key for a series, or null when the images carry no series UID
+ */
+export function sessionKey(ctImages: DicomImage[]): string | null {
+  const first = ctImages[0];
+  if (!first?.seriesInstanceUID) return null;
+  return `${first.studyInstanceUID || 'UNKNOWN'}/${first.seriesInstanceUID}`;
+}
+
+/**
+ * Session record for the current editing state, with the undo history
+ * trimmed to `historyLimit` steps each way
+ */
+export function createSession(
+  ctImages: DicomImage[],
+  state: {
+    structures: Structure3D[];
+    activeStructureId: string | null;
+    past: Structure3D[][];
+    future: Structure3D[][];
+  },
+  historyLimit = SESSION_HISTORY_LIMIT
+): StoredSession | null {
+  const key = sessionKey(ctImages);
+  if (!key) return null;
+
+  return {
+    key,
+    studyInstanceUID: ctImages[0].studyInstanceUID || 'UNKNOWN',
+    seriesInstanceUID: ctImages[0].seriesInstanceUID,
+    savedAt: new Date().toISOString(),
+    structures: state.structures,
+    activeStructureId: state.activeStructureId,
+    past: historyLimit > 0 ? state.past.slice(-historyLimit) : [],
+    future: state.future.slice(0, historyLimit),
+  };
+}
+
+/**
+ * Whether a session was last saved more than `maxAgeDays` before `now`
+ */
+export function isSessionExpired(
+  session: Pick<StoredSession, 'savedAt'>,
+  now = new Date(),
+  maxAgeDays = SESSION_MAX_AGE_DAYS
+): boolean {
+  const savedAt = Date.parse(session.savedAt);
+  return Number.isNaN(savedAt) || now.getTime() - savedAt > maxAgeDays * 24 * 60 * 60 * 1000;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(SESSION_STORE)) {
+        request.result.createObjectStore(SESSION_STORE, { keyPath: 'key' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(SESSION_STORE, mode);
+      const request = operation(transaction.objectStore(SESSION_STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export async function loadSession(key: string): Promise<StoredSession | null> {
+  const session = await withStore<StoredSession | undefined>('readonly', store => store.get(key));
+  return session ?? null;
+}
+
+export async function saveSession(session: StoredSession): Promise<void> {
+  await withStore('readwrite', store => store.put(session));
+}
+
+export async function deleteSession(key: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(key));
+}
+
+/**
+ * Delete every session last saved more than `maxAgeDays` ago, so sessions
+ * of series that are never reopened do not pile up
+ */
+export async function deleteExpiredSessions(maxAgeDays = SESSION_MAX_AGE_DAYS): Promise<void> {
+  const now = new Date();
+  await withStore('readwrite', store => {
+    const request = store.openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      if (isSessionExpired(cursor.value, now, maxAgeDays)) cursor.delete();
+      cursor.continue();
+    };
+    return request;
+  });
+}
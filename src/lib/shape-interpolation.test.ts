@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { interpolateStructure } from './shape-interpolation';
+import { pointInPolygon } from './contour-utils';
+import { Point2D, Structure3D } from '@/types';
+import { createImageStack, createStructure } from '@/test/fixtures';
+
+const createImages = (count: number) => createImageStack({
+    count,
+    width: 64,
+    origin: [-32, -32, 0],
+    sliceStep: 3,
+    withSliceLocation: false,
+});
+
+const circle = (cx: number, cy: number, r: number): Point2D[] => Array.from({ length: 48 }, (_, i) => ({
+    x: cx + r * Math.cos((2 * Math.PI * i) / 48),
+    y: cy + r * Math.sin((2 * Math.PI * i) / 48),
+}));
+
+// Inside by the even-odd rule over every contour on the slice
+const insideSlice = (structure: Structure3D, sliceIndex: number, point: Point2D) =>
+    structure.contours
+        .filter(c => c.sliceIndex === sliceIndex)
+        .filter(c => pointInPolygon(point, c.points)).length % 2 === 1;
+
+describe('shape-interpolation', () => {
+    it('should follow a structure that branches into two islands', () => {
+        const structure = createStructure('vessel', [
+            [0, circle(0, 0, 8)],
+            [4, circle(-12, 0, 5)],
+            [4, circle(12, 0, 5)],
+        ]);
+
+        const { structure: result, filledSlices, skippedGaps } = interpolateStructure(structure, createImages(5));
+
+        expect(filledSlices).toBe(3);
+        expect(skippedGaps).toBe(0);
+        const countOn = (slice: number) => result.contours.filter(c => c.sliceIndex === slice).length;
+        expect(countOn(1)).toBe(1);
+        expect(countOn(3)).toBe(2);
+        expect(insideSlice(result, 1, { x: 0, y: 0 })).toBe(true);
+        expect(insideSlice(result, 3, { x: 0, y: 0 })).toBe(false);
+        expect(insideSlice(result, 3, { x: -11, y: 0 })).toBe(true);
+
+        const generated = result.contours.filter(c => c.sliceIndex > 0 && c.sliceIndex < 4);
+        expect(generated.every(c => c.interpolated && c.isClosed && c.structureId === 'vessel')).toBe(true);
+        expect(result.contours.filter(c => !c.interpolated).map(c => c.id)).toEqual(['c0', 'c1', 'c2']);
+    });
+
+    it('should keep holes and size the shape between the key slices', () => {
+        const structure = createStructure('vessel', [
+            [0, circle(0, 0, 10)],
+            [0, circle(0, 0, 4)],
+            [2, circle(0, 0, 16)],
+            [2, circle(0, 0, 4)],
+        ]);
+
+        const { structure: result } = interpolateStructure(structure, createImages(3));
+
+        expect(result.contours.filter(c => c.sliceIndex === 1)).toHaveLength(2);
+        expect(insideSlice(result, 1, { x: 0, y: 0 })).toBe(false);
+        expect(insideSlice(result, 1, { x: 8, y: 0 })).toBe(true);
+        expect(insideSlice(result, 1, { x: 12, y: 0 })).toBe(true);
+        expect(insideSlice(result, 1, { x: 0, y: 14.5 })).toBe(false);
+    });
+
+    it('should only fill gaps up to the maximum and replace earlier interpolations', () => {
+        const structure = createStructure('vessel', [
+            [0, circle(0, 0, 6)],
+            [2, circle(0, 0, 6)],
+            [8, circle(0, 0, 6)],
+        ]);
+        const images = createImages(9);
+
+        const first = interpolateStructure(structure, images, { maxGap: 3 });
+        expect(first.filledSlices).toBe(1);
+        expect(first.skippedGaps).toBe(1);
+        expect([...new Set(first.structure.contours.map(c => c.sliceIndex))].sort()).toEqual([0, 1, 2, 8]);
+
+        const again = interpolateStructure(first.structure, images, { maxGap: 3 });
+        expect(again.structure.contours).toHaveLength(first.structure.contours.length);
+
+        const wider = interpolateStructure(first.structure, images, { maxGap: 5 });
+        expect(wider.skippedGaps).toBe(0);
+        expect(wider.structure.contours.filter(c => c.interpolated)).toHaveLength(6);
+    });
+
+    it('should taper to a key contour that covers no pixel centre', () => {
+        const structure = createStructure('tip', [
+            [0, circle(0, 0, 8)],
+            [4, circle(0.5, 0.5, 0.3)],
+        ]);
+
+        const { structure: result, filledSlices } = interpolateStructure(structure, createImages(5));
+
+        expect(filledSlices).toBe(3);
+        [1, 2, 3].forEach(slice => expect(insideSlice(result, slice, { x: 0, y: 0 })).toBe(true));
+        expect(insideSlice(result, 2, { x: 5, y: 0 })).toBe(false);
+        expect(insideSlice(result, 1, { x: 5, y: 0 })).toBe(true);
+    });
+});
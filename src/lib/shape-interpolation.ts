@@ -0,0 +1,280 @@
+/**
+ * Shape-based interpolation between key slices. Each key slice is turned
+ * into a signed distance map and intermediate slices are contoured where the
+ * blended maps are negative, so structures that split, merge, have several
+ * islands or have holes interpolate without pairing contours up.
+ */
+
+import { Contour, DicomImage, Point2D, Structure3D } from '@/types';
+import { scanlineCrossings } from './contour-utils';
+import { isoContours } from './probability-map';
+
+export interface ShapeInterpolationOptions {
+  // Largest number of empty slices between two key slices that is filled
+  maxGap?: number;
+}
+
+export interface ShapeInterpolationResult {
+  structure: Structure3D;
+  // Slices that received interpolated contours
+  filledSlices: number;
+  // Gaps left empty because they are wider than `maxGap`
+  skippedGaps: number;
+}
+
+export const DEFAULT_INTERPOLATION_MAX_GAP = 10;
+
+// Pixels kept around the shapes so distances near the crop edge stay exact
+const CROP_MARGIN = 2;
+
+interface SliceGrid {
+  originX: number;
+  originY: number;
+  spacingX: number;
+  spacingY: number;
+  // Crop of the image grid, in pixels
+  x0: number;
+  y0: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Fill the gaps between the key slices of a structure with interpolated
+ * contours. Key slices are slices with closed contours that were not
+ * interpolated themselves. Interpolated contours from an earlier run are
+ * replaced in every gap that is filled, so editing a key slice and running
+ * the interpolation again updates its neighbours.
+ */
+export function interpolateStructure(
+  structure: Structure3D,
+  ctImages: DicomImage[],
+  { maxGap = DEFAULT_INTERPOLATION_MAX_GAP }: ShapeInterpolationOptions = {}
+): ShapeInterpolationResult {
+  const keyPolygons = new Map<number, Point2D[][]>();
+  structure.contours.forEach(contour => {
+    if (contour.interpolated || !contour.isClosed || contour.points.length < 3) return;
+    if (!ctImages[contour.sliceIndex]) return;
+    const polygons = keyPolygons.get(contour.sliceIndex) ?? [];
+    polygons.push(contour.points);
+    keyPolygons.set(contour.sliceIndex, polygons);
+  });
+  const keySlices = [...keyPolygons.keys()].sort((a, b) => a - b);
+
+  const filled = new Set<number>();
+  const added: Contour[] = [];
+  let skippedGaps = 0;
+
+  for (let i = 0; i + 1 < keySlices.length; i++) {
+    const start = keySlices[i];
+    const end = keySlices[i + 1];
+    const gap = end - start - 1;
+    if (gap === 0) continue;
+    if (gap > maxGap) {
+      skippedGaps++;
+      continue;
+    }
+
+    const grid = createSliceGrid(ctImages, [...keyPolygons.get(start)!, ...keyPolygons.get(end)!]);
+    const startDistances = signedDistanceMap(keyPolygons.get(start)!, grid);
+    const endDistances = signedDistanceMap(keyPolygons.get(end)!, grid);
+    const blended = new Float32Array(startDistances.length);
+
+    for (let sliceIndex = start + 1; sliceIndex < end; sliceIndex++) {
+      const t = sliceWeight(ctImages, start, end, sliceIndex);
+      // Positive inside, so the iso-contour at zero keeps regions clockwise and holes anticlockwise
+      for (let p = 0; p < blended.length; p++) {
+        blended[p] = -((1 - t) * startDistances[p] + t * endDistances[p]);
+      }
+
+      filled.add(sliceIndex);
+      isoContours(blended, grid.width, grid.height, 1e-6).forEach((loop, index) => {
+        added.push({
+          id: `interpolated_${structure.id}_${sliceIndex}_${index}`,
+          points: loop.map(p => ({
+            x: grid.originX + (grid.x0 + p.x) * grid.spacingX,
+            y: grid.originY + (grid.y0 + p.y) * grid.spacingY,
+          })),
+          sliceIndex,
+          structureId: structure.id,
+          isClosed: true,
+          color: structure.color,
+          interpolated: true,
+        });
+      });
+    }
+  }
+
+  const kept = structure.contours.filter(contour => !(contour.interpolated && filled.has(contour.sliceIndex)));
+  return {
+    structure: { ...structure, contours: [...kept, ...added] },
+    filledSlices: filled.size,
+    skippedGaps,
+  };
+}
+
+/**
+ * Fraction of the way from `start` to `end` a slice lies, from the slice
+ * positions when they are known and the slice indices otherwise
+ */
+function sliceWeight(ctImages: DicomImage[], start: number, end: number, sliceIndex: number): number {
+  const position = (index: number) => ctImages[index].imagePosition?.[2];
+  const [a, b, z] = [position(start), position(end), position(sliceIndex)];
+  if (a !== undefined && b !== undefined && z !== undefined && a !== b) {
+    return Math.min(1, Math.max(0, (z - a) / (b - a)));
+  }
+  return (sliceIndex - start) / (end - start);
+}
+
+/**
+ * Pixel grid shared by a pair of key slices: the in-plane geometry of the
+ * first image, cropped to the polygons' bounds plus a margin
+ */
+function createSliceGrid(ctImages: DicomImage[], polygons: Point2D[][]): SliceGrid {
+  const { width, height } = ctImages[0];
+  const [originX, originY] = ctImages[0].imagePosition || [0, 0, 0];
+  const [spacingY, spacingX] = ctImages[0].pixelSpacing || [1, 1];
+
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  polygons.forEach(points => points.forEach(p => {
+    minX = Math.min(minX, p.x);
+    minY = Math.min(minY, p.y);
+    maxX = Math.max(maxX, p.x);
+    maxY = Math.max(maxY, p.y);
+  }));
+
+  const x0 = Math.max(0, Math.floor((minX - originX) / spacingX) - CROP_MARGIN);
+  const y0 = Math.max(0, Math.floor((minY - originY) / spacingY) - CROP_MARGIN);
+  const x1 = Math.min(width, Math.ceil((maxX - originX) / spacingX) + CROP_MARGIN + 1);
+  const y1 = Math.min(height, Math.ceil((maxY - originY) / spacingY) + CROP_MARGIN + 1);
+
+  return {
+    originX,
+    originY,
+    spacingX,
+    spacingY,
+    x0,
+    y0,
+    width: Math.max(1, x1 - x0),
+    height: Math.max(1, y1 - y0),
+  };
+}
+
+/**
+ * Signed distance in mm from each pixel centre to the shape's edge:
+ * negative inside, positive outside. Polygons are filled with the even-odd
+ * rule, so inner contours cut holes.
+ */
+function signedDistanceMap(polygons: Point2D[][], grid: SliceGrid): Float32Array {
+  const { width, height } = grid;
+  const inside = new Uint8Array(width * height);
+  for (let row = 0; row < height; row++) {
+    const y = grid.originY + (grid.y0 + row) * grid.spacingY;
+    const crossings = scanlineCrossings(polygons, y);
+    for (let i = 0; i + 1 < crossings.length; i += 2) {
+      const start = Math.max(0, Math.ceil((crossings[i] - grid.originX) / grid.spacingX) - grid.x0);
+      const end = Math.min(width, Math.ceil((crossings[i + 1] - grid.originX) / grid.spacingX) - grid.x0);
+      for (let col = start; col < end; col++) inside[row * width + col] = 1;
+    }
+  }
+
+  // A contour smaller than a pixel covers no pixel centre; keep the pixel
+  // nearest its centroid so the shape tapers to it instead of vanishing
+  if (!inside.includes(1)) {
+    const points = polygons.flat();
+    const centroidX = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+    const centroidY = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+    const col = Math.round((centroidX - grid.originX) / grid.spacingX) - grid.x0;
+    const row = Math.round((centroidY - grid.originY) / grid.spacingY) - grid.y0;
+    inside[Math.min(Math.max(row, 0), height - 1) * width + Math.min(Math.max(col, 0), width - 1)] = 1;
+  }
+
+  const toInside = distanceTransform(inside, 1, grid);
+  const toOutside = distanceTransform(inside, 0, grid);
+  const distances = new Float32Array(width * height);
+  for (let p = 0; p < distances.length; p++) {
+    distances[p] = Math.sqrt(toInside[p]) - Math.sqrt(toOutside[p]);
+  }
+  return distances;
+}
+
+/**
+ * Squared Euclidean distance in mm from each pixel to the nearest pixel
+ * equal to `target` (Felzenszwalb and Huttenlocher), columns then rows
+ */
+function distanceTransform(mask: Uint8Array, target: number, grid: SliceGrid): Float64Array {
+  const { width, height } = grid;
+  const distances = new Float64Array(width * height);
+  for (let p = 0; p < distances.length; p++) {
+    distances[p] = mask[p] === target ? 0 : Infinity;
+  }
+
+  const size = Math.max(width, height);
+  const line = new Float64Array(size);
+  const result = new Float64Array(size);
+  const vertices = new Int32Array(size);
+  const bounds = new Float64Array(size + 1);
+
+  for (let col = 0; col < width; col++) {
+    for (let row = 0; row < height; row++) line[row] = distances[row * width + col];
+    distanceTransform1D(line, height, grid.spacingY, result, vertices, bounds);
+    for (let row = 0; row < height; row++) distances[row * width + col] = result[row];
+  }
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) line[col] = distances[row * width + col];
+    distanceTransform1D(line, width, grid.spacingX, result, vertices, bounds);
+    for (let col = 0; col < width; col++) distances[row * width + col] = result[col];
+  }
+  return distances;
+}
+
+/**
+ * Lower envelope of the parabolas (spacing * (q - p))² + f(p)
+ */
+function distanceTransform1D(
+  f: Float64Array,
+  n: number,
+  spacing: number,
+  result: Float64Array,
+  vertices: Int32Array,
+  bounds: Float64Array
+): void {
+  // Leading empty samples have no parabola; find the first finite one
+  let first = 0;
+  while (first < n && f[first] === Infinity) first++;
+  if (first === n) {
+    result.fill(Infinity, 0, n);
+    return;
+  }
+
+  const s2 = spacing * spacing;
+  const intersection = (q: number, p: number) =>
+    ((f[q] + s2 * q * q) - (f[p] + s2 * p * p)) / (2 * s2 * (q - p));
+
+  let k = 0;
+  vertices[0] = first;
+  bounds[0] = -Infinity;
+  bounds[1] = Infinity;
+  for (let q = first + 1; q < n; q++) {
+    if (f[q] === Infinity) continue;
+    let s = intersection(q, vertices[k]);
+    while (s <= bounds[k]) {
+      k--;
+      s = intersection(q, vertices[k]);
+    }
+    k++;
+    vertices[k] = q;
+    bounds[k] = s;
+    bounds[k + 1] = Infinity;
+  }
+
+  k = 0;
+  for (let q = 0; q < n; q++) {
+    while (bounds[k + 1] < q) k++;
+    const d = q - vertices[k];
+    result[q] = s2 * d * d + f[vertices[k]];
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Read NIfTI, NRRD and MetaImage volumes from a file selection, picking the
+ * reader by extension. Detached headers (.nhdr, .mhd) are paired with their
+ * data file from the same selection.
+ */
+
+import { ImportFile } from './file-import';
+import { LabelMapLayer } from './labelmap-import';
+import { MetaImageProcessor } from './metaimage-utils';
+import { NiftiProcessor, NiftiVolume } from './nifti-utils';
+import { NrrdProcessor } from './nrrd-utils';
+
+export type VolumeFormat = 'nifti' | 'nrrd' | 'metaimage';
+
+// File input `accept` list; data files are included for .nhdr/.mhd pairs
+export const VOLUME_FILE_ACCEPT = '.nii,.nii.gz,.gz,.nrrd,.nhdr,.mha,.mhd,.raw,.zraw,.img';
+
+/**
+ * Volume format of a header (or single-file volume) path
+ */
+export function volumeFormat(path: string): VolumeFormat | null {
+  const name = path.toLowerCase();
+  if (name.endsWith('.nii') || name.endsWith('.nii.gz')) return 'nifti';
+  if (name.endsWith('.nrrd') || name.endsWith('.nhdr')) return 'nrrd';
+  if (name.endsWith('.mha') || name.endsWith('.mhd')) return 'metaimage';
+  return null;
+}
+
+const baseName = (path: string) => path.split('/').pop() ?? path;
+
+/**
+ * The header file of a selection and, for detached headers, the contents
+ * of the data file it names
+ */
+async function readSelection(
+  files: ImportFile[]
+): Promise<{ format: VolumeFormat; header: ArrayBuffer; dataFile?: ArrayBuffer }> {
+  const headerFile = files.find(file => volumeFormat(file.path));
+  if (!headerFile) {
+    throw new Error('Select a .nii, .nii.gz, .nrrd, .nhdr, .mha or .mhd file');
+  }
+  const format = volumeFormat(headerFile.path);
+  const header = await headerFile.read();
+  if (format === 'nifti') return { format, header };
+
+  let dataFileName: string | null;
+  if (format === 'nrrd') {
+    const parsed = NrrdProcessor.parseHeader(header);
+    if (!parsed) throw new Error(`${baseName(headerFile.path)} is not a valid NRRD file`);
+    dataFileName = NrrdProcessor.dataFileName(parsed);
+  } else {
+    const parsed = MetaImageProcessor.parseHeader(header);
+    if (!parsed) throw new Error(`${baseName(headerFile.path)} is not a valid MetaImage file`);
+    dataFileName = MetaImageProcessor.dataFileName(parsed);
+  }
+  if (!dataFileName) return { format, header };
+
+  const dataFile = files.find(file => baseName(file.path) === baseName(dataFileName));
+  if (!dataFile) {
+    throw new Error(`Also select the data file ${baseName(dataFileName)}`);
+  }
+  return { format, header, dataFile: await dataFile.read() };
+}
+
+/**
+ * Read every 3D volume of the selection (one for most files; classes,
+ * channels or segmentation layers otherwise)
+ */
+export async function readVolumes(files: ImportFile[]): Promise<NiftiVolume[]> {
+  const { format, header, dataFile } = await readSelection(files);
+  const volumes = format === 'nifti'
+    ? NiftiProcessor.parseVolumes(header)
+    : format === 'nrrd'
+      ? NrrdProcessor.parseVolumes(header, dataFile)
+      : MetaImageProcessor.parseVolumes(header, dataFile);
+  if (!volumes || volumes.length === 0) {
+    throw new Error('The file is not a readable volume');
+  }
+  return volumes;
+}
+
+/**
+ * Read a label volume as label maps. Slicer .seg.nrrd files bring their
+ * segment names and colors; other formats need a separate label table.
+ */
+export async function readLabelMapLayers(files: ImportFile[]): Promise<LabelMapLayer[]> {
+  const { format, header, dataFile } = await readSelection(files);
+  if (format === 'nrrd') {
+    const layers = NrrdProcessor.parseSegmentation(header, dataFile);
+    if (!layers) throw new Error('Not an NRRD file');
+    return layers;
+  }
+
+  const volumes = format === 'nifti'
+    ? [NiftiProcessor.parseVolume(header)].filter(Boolean)
+    : MetaImageProcessor.parseVolumes(header, dataFile);
+  if (!volumes || volumes.length === 0) {
+    throw new Error('The file is not a readable label map');
+  }
+  return volumes.map(volume => ({ labelMap: NiftiProcessor.volumeToLabelMap(volume), labels: new Map() }));
+}
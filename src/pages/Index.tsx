@@ -3,6 +3,7 @@ import { DicomLoader } from "@/components/DicomLoader";
 import { NiftiLoader } from "@/components/NiftiLoader";
 import { DicomViewer } from "@/components/DicomViewer";
 import { DicomImage, DicomRTStruct } from "@/lib/dicom-utils";
+import { DicomRTDose, DicomSegmentation, ProbabilityMap, ViewerWorkspace } from "@/types";
 import {
   Tabs,
   TabsList,
@@ -13,7 +14,10 @@ import {
 interface ImageData {
   ctImages: DicomImage[];
   rtStruct?: DicomRTStruct;
-  probabilityMap?: Float32Array[];
+  rtDose?: DicomRTDose;
+  segmentation?: DicomSegmentation;
+  probabilityMap?: ProbabilityMap;
+  workspace?: ViewerWorkspace;
 }
 
 const Index = () => {
@@ -32,7 +36,10 @@ const Index = () => {
       <DicomViewer
         ctImages={imageData.ctImages}
         rtStruct={imageData.rtStruct}
+        rtDose={imageData.rtDose}
+        segmentation={imageData.segmentation}
         probabilityMap={imageData.probabilityMap}
+        workspace={imageData.workspace}
         onBack={handleBackToLoader}
       />
     );
@@ -42,7 +49,7 @@ const Index = () => {
     <Tabs defaultValue="dicom" className="p-4">
       <TabsList className="grid w-full grid-cols-2">
         <TabsTrigger value="dicom">DICOM</TabsTrigger>
-        <TabsTrigger value="nifti">NIfTI</TabsTrigger>
+        <TabsTrigger value="nifti">NIfTI / NRRD / MetaImage</TabsTrigger>
       </TabsList>
       <TabsContent value="dicom">
         <DicomLoader onDataLoaded={handleDataLoaded} />
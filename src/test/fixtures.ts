@@ -0,0 +1,138 @@
+/**
+ * Typed fixture builders shared by the lib tests, so each test only spells
+ * out the image and structure fields it depends on.
+ */
+import { Contour, DicomImage, Point2D, Structure3D } from '@/types';
+
+export interface ImageStackOptions {
+    count: number;
+    width?: number;
+    // Defaults to the width
+    height?: number;
+    // Image Position of the first slice, in mm
+    origin?: number[];
+    // Distance between consecutive slices along z, in mm
+    sliceStep?: number;
+    pixelSpacing?: number[];
+    seriesInstanceUID?: string;
+    // Whether slices carry a Slice Location as well as a position
+    withSliceLocation?: boolean;
+    // Stored value of pixel (x, y) on slice k; zero when omitted
+    fill?: (x: number, y: number, k: number) => number;
+    // Further fields set on every slice
+    fields?: Partial<DicomImage>;
+}
+
+/**
+ * A single axial CT slice; unspecified fields get neutral defaults and the
+ * pixel data is zero-filled to the image size
+ */
+export function createImage(fields: Partial<DicomImage> = {}): DicomImage {
+    const width = fields.width ?? 4;
+    const height = fields.height ?? width;
+    return {
+        arrayBuffer: new ArrayBuffer(0),
+        dataSet: null,
+        pixelData: new Uint16Array(width * height),
+        windowCenter: 40,
+        windowWidth: 400,
+        rescaleIntercept: -1024,
+        rescaleSlope: 1,
+        seriesInstanceUID: '1.2',
+        sopInstanceUID: '1.2.0',
+        imagePosition: [0, 0, 0],
+        imageOrientation: [1, 0, 0, 0, 1, 0],
+        pixelSpacing: [1, 1],
+        ...fields,
+        width,
+        height,
+    };
+}
+
+/**
+ * Slices stacked along z, with SOP Instance UIDs `${seriesInstanceUID}.${k}`
+ */
+export function createImageStack({
+    count,
+    width = 4,
+    height = width,
+    origin = [0, 0, 0],
+    sliceStep = 1,
+    pixelSpacing = [1, 1],
+    seriesInstanceUID = '1.2',
+    withSliceLocation = true,
+    fill,
+    fields = {},
+}: ImageStackOptions): DicomImage[] {
+    return Array.from({ length: count }, (_, k) => {
+        const pixelData = new Uint16Array(width * height);
+        if (fill) {
+            for (let i = 0; i < pixelData.length; i++) pixelData[i] = fill(i % width, Math.floor(i / width), k);
+        }
+        const z = origin[2] + k * sliceStep;
+        return createImage({
+            width,
+            height,
+            pixelData,
+            imagePosition: [origin[0], origin[1], z],
+            ...(withSliceLocation && { sliceLocation: z }),
+            pixelSpacing,
+            seriesInstanceUID,
+            sopInstanceUID: `${seriesInstanceUID}.${k}`,
+            ...fields,
+        });
+    });
+}
+
+/**
+ * CT series with the study, frame of reference and SOP class UIDs that
+ * exported DICOM objects reference: 4x4 slices 2.5 mm apart, starting at
+ * (-100, -100, 0), with SOP Instance UIDs `1.2.3.4.${k}`
+ */
+export function createCTSeries(count: number): DicomImage[] {
+    return createImageStack({
+        count,
+        origin: [-100, -100, 0],
+        sliceStep: 2.5,
+        seriesInstanceUID: '1.2.3.4',
+        fields: {
+            sopClassUID: '1.2.840.10008.5.1.4.1.1.2',
+            frameOfReferenceUID: '1.2.3.99',
+            studyInstanceUID: '1.2.3',
+        },
+    });
+}
+
+/**
+ * Axis-aligned rectangle from (x0, y0) to (x1, y1), in world mm
+ */
+export function square(x0: number, y0: number, x1: number, y1: number): Point2D[] {
+    return [{ x: x0, y: y0 }, { x: x1, y: y0 }, { x: x1, y: y1 }, { x: x0, y: y1 }];
+}
+
+/**
+ * A visible structure with one closed contour per [sliceIndex, points]
+ * entry; contour IDs are `c0`, `c1`, ... in that order
+ */
+export function createStructure(
+    id: string,
+    contours: Array<[number, Point2D[]]>,
+    fields: Partial<Omit<Structure3D, 'id' | 'contours'>> = {}
+): Structure3D {
+    const color = fields.color ?? '#ff0000';
+    return {
+        name: id,
+        visible: true,
+        ...fields,
+        id,
+        color,
+        contours: contours.map(([sliceIndex, points], index): Contour => ({
+            id: `c${index}`,
+            points,
+            sliceIndex,
+            structureId: id,
+            isClosed: true,
+            color,
+        })),
+    };
+}
@@ -1,8 +1,12 @@
 // DICOM Types
+
+// Stored pixel values. Signed CT (Pixel Representation 1) uses Int16Array.
+export type PixelData = Uint16Array | Int16Array | Uint8Array;
+
 export interface DicomImage {
     arrayBuffer: ArrayBuffer;
     dataSet: any;
-    pixelData: Uint16Array | Uint8Array;
+    pixelData: PixelData;
     width: number;
     height: number;
     windowCenter: number;
@@ -16,23 +20,129 @@ export interface DicomImage {
     imageOrientation?: number[];
     sliceLocation?: number;
     sliceThickness?: number;
+    // [row spacing, column spacing] in mm, as DICOM Pixel Spacing
     pixelSpacing?: number[];
     frameOfReferenceUID?: string;
     studyInstanceUID?: string;
+    modality?: string;
+    seriesDescription?: string;
+    seriesNumber?: number;
+    // 1-based frame number when the image is one frame of a multi-frame object
+    frameNumber?: number;
 }
 
+// Images from one Series Instance UID, sorted along the slice axis
+export interface DicomSeries {
+    seriesInstanceUID: string;
+    studyInstanceUID?: string;
+    frameOfReferenceUID?: string;
+    modality?: string;
+    description?: string;
+    seriesNumber?: number;
+    sliceThickness?: number;
+    images: DicomImage[];
+}
+
+export type ContourGeometricType = 'POINT' | 'OPEN_PLANAR' | 'OPEN_NONPLANAR' | 'CLOSED_PLANAR';
+
 export interface DicomStructure {
     name: string;
     color: [number, number, number];
+    roiNumber?: number;
+    // RT ROI Interpreted Type (3006,00A4), e.g. PTV, ORGAN, EXTERNAL
+    interpretedType?: string;
+    // ROI Observation Label (3006,0085)
+    observationLabel?: string;
     contours: Array<{
         points: number[][];
         sliceIndex: number;
+        geometricType?: ContourGeometricType;
     }>;
 }
 
 export interface DicomRTStruct {
     structures: DicomStructure[];
     frameOfReference: string;
+    // Structure Set Label (3006,0002)
+    label?: string;
+    sopInstanceUID?: string;
+    studyInstanceUID?: string;
+    // Image series the contours were drawn on (RT Referenced Series Sequence)
+    referencedSeriesUIDs?: string[];
+}
+
+// RT Dose grid with Dose Grid Scaling applied, in Dose Units (usually Gy)
+export interface DicomRTDose {
+    columns: number;
+    rows: number;
+    frames: number;
+    // Frame-major, then row-major: doseGrid[(frame * rows + row) * columns + column]
+    doseGrid: Float32Array;
+    maxDose: number;
+    imagePosition: number[];
+    imageOrientation: number[];
+    // [row spacing, column spacing] in mm
+    pixelSpacing: number[];
+    // Offset of each frame from imagePosition along the slice normal, in mm
+    frameOffsets: number[];
+    doseUnits: string;
+    doseType?: string;
+    doseSummationType?: string;
+    frameOfReferenceUID?: string;
+    sopInstanceUID?: string;
+    referencedPlanUID?: string;
+}
+
+// Coded concept (Code Value, Coding Scheme Designator, Code Meaning)
+export interface DicomCode {
+    value: string;
+    scheme: string;
+    meaning: string;
+}
+
+export interface DicomSegment {
+    segmentNumber: number;
+    label: string;
+    // From Recommended Display CIELab Value (0062,000D), if present
+    color?: [number, number, number];
+    algorithmType?: string;
+    category?: DicomCode;
+    type?: DicomCode;
+}
+
+// One frame of a segmentation: a single segment on a single plane
+export interface DicomSegmentationFrame {
+    segmentNumber: number;
+    imagePosition?: number[];
+    referencedSOPInstanceUID?: string;
+    // rows * columns; 0/1 for BINARY, 0..maxFractionalValue for FRACTIONAL
+    pixels: Uint8Array;
+}
+
+// DICOM Segmentation (SEG) object
+export interface DicomSegmentation {
+    segmentationType: 'BINARY' | 'FRACTIONAL';
+    maxFractionalValue: number;
+    rows: number;
+    columns: number;
+    // [row spacing, column spacing] in mm
+    pixelSpacing: number[];
+    imageOrientation?: number[];
+    segments: DicomSegment[];
+    frames: DicomSegmentationFrame[];
+    frameOfReferenceUID?: string;
+    sopInstanceUID?: string;
+    seriesDescription?: string;
+    referencedSeriesUIDs: string[];
+}
+
+// Probability volume, one per class (a 4D softmax output has several),
+// split into slices that line up with the CT slices by index
+export interface ProbabilityMap {
+    width: number;
+    height: number;
+    // classes[class][slice][row * width + column]
+    classes: Float32Array[][];
 }
 
 // Contour Types
@@ -48,6 +158,9 @@ export interface Contour {
     structureId: string;
     isClosed: boolean;
     color: string;
+    geometricType?: ContourGeometricType;
+    // Generated by interpolation between key slices rather than drawn
+    interpolated?: boolean;
 }
 
 export interface Structure3D {
@@ -56,6 +169,44 @@ export interface Structure3D {
     color: string;
     visible: boolean;
     contours: Contour[];
+    interpretedType?: string;
+    observationLabel?: string;
+}
+
+// Review note left on a case, optionally tied to a slice and a structure
+export interface ReviewComment {
+    id: string;
+    text: string;
+    createdAt: string;
+    author?: string;
+    sliceIndex?: number;
+    structureId?: string;
+}
+
+// Everything needed to reopen a case where it was left
+// Reference planes of the MPR view: the crosshair voxel, with the slice in
+// volume (slice location) order, and a unit quaternion [w, x, y, z] turning
+// the planes; [1, 0, 0, 0] keeps them axial, sagittal and coronal
+export interface MPRPlaneState {
+    axialIndex: number;
+    sagittalIndex: number;
+    coronalIndex: number;
+    rotation: [number, number, number, number];
+}
+
+export interface ViewerWorkspace {
+    structures: Structure3D[];
+    activeStructureId: string | null;
+    windowLevel: number;
+    windowWidth: number;
+    // Name of the window preset matching the window, if any
+    windowPreset?: string;
+    zoom: number;
+    pan: { x: number; y: number };
+    currentSlice: number;
+    comments: ReviewComment[];
+    // MPR planes, when the project was saved in the MPR view
+    mprPlane?: MPRPlaneState;
 }
 
 // Editing Types
@@ -68,7 +219,7 @@ export interface SelectionInfo {
 export interface ImageData2D {
     width: number;
     height: number;
-    data: Uint8Array | Uint16Array;
+    data: PixelData;
     windowWidth: number;
     windowCenter: number;
 }